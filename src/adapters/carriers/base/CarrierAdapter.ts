@@ -5,12 +5,18 @@
 
 import { ScheduleAdapter } from './ScheduleAdapter';
 import { TrackingAdapter } from './TrackingAdapter';
+import { RouteAdapter } from './RouteAdapter';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
+import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierPageState, Page } from '@domain/models/pagination';
+import { CarrierCapabilities } from '@domain/models/capability';
 
 /**
  * Base interface for carrier adapters
- * Combines Schedule and Tracking capabilities
+ * Combines Schedule, Route and Tracking capabilities
  */
-export interface CarrierAdapter extends ScheduleAdapter, TrackingAdapter {
+export interface CarrierAdapter extends ScheduleAdapter, RouteAdapter, TrackingAdapter {
   /**
    * Get the carrier code (e.g., "CMCG", "HMM", "ZIM", "MAEU")
    * @returns Carrier code string
@@ -28,5 +34,24 @@ export interface CarrierAdapter extends ScheduleAdapter, TrackingAdapter {
    * @returns true if adapter is ready to use
    */
   isAvailable(): boolean;
+
+  /**
+   * Get the capability descriptor (query modes with their parameters, pagination and date limits)
+   * @returns Carrier capabilities
+   */
+  getCapabilities(): CarrierCapabilities;
+
+  /**
+   * Get one page of vessel schedules
+   * Non-paginated carrier APIs return everything as a single, exhausted page
+   * The query mode must be one of the carrier's schedule modes (see resolveScheduleQuery)
+   */
+  getSchedulePage(query: ScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>>;
+
+  /**
+   * Get one page of tracking events
+   * Non-paginated carrier APIs return everything as a single, exhausted page
+   */
+  getTrackingPage(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>>;
 }
 
@@ -0,0 +1,175 @@
+/**
+ * Carrier Errors
+ * Error hierarchy thrown by carrier adapters, so callers can tell failures apart without parsing messages
+ */
+
+import axios from 'axios';
+
+/**
+ * Machine-readable carrier error code
+ */
+export type CarrierErrorCode =
+  | 'AUTHENTICATION_FAILED'
+  | 'NOT_FOUND'
+  | 'INVALID_PARAMETER'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'CIRCUIT_OPEN'
+  | 'UNEXPECTED_PAYLOAD';
+
+/**
+ * HTTP status the API responds with for each carrier error code
+ */
+export const CARRIER_ERROR_HTTP_STATUS: Record<CarrierErrorCode, number> = {
+  AUTHENTICATION_FAILED: 502, // Our credentials were rejected: not the client's fault
+  NOT_FOUND: 404,
+  INVALID_PARAMETER: 400,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503,
+  CIRCUIT_OPEN: 503,
+  UNEXPECTED_PAYLOAD: 502,
+};
+
+/**
+ * Where a carrier error happened
+ */
+export interface CarrierErrorContext {
+  carrier: string; // Carrier code (e.g., "CMCG")
+  endpointType?: string; // Endpoint type (e.g., "schedule", "tracking", "voyage")
+  upstreamStatus?: number; // HTTP status returned by the carrier API
+  retryAt?: Date; // When the request may be retried (Retry-After / circuit reset)
+}
+
+/**
+ * Base class of all carrier errors
+ */
+export abstract class CarrierError extends Error {
+  abstract readonly code: CarrierErrorCode;
+  readonly carrier: string;
+  readonly endpointType?: string;
+  readonly upstreamStatus?: number;
+  readonly retryAt?: Date;
+
+  constructor(message: string, context: CarrierErrorContext) {
+    super(message);
+    this.name = new.target.name;
+    this.carrier = context.carrier;
+    this.endpointType = context.endpointType;
+    this.upstreamStatus = context.upstreamStatus;
+    this.retryAt = context.retryAt;
+  }
+
+  /**
+   * HTTP status the API responds with
+   */
+  get httpStatus(): number {
+    return CARRIER_ERROR_HTTP_STATUS[this.code];
+  }
+
+  /**
+   * Seconds until the request may be retried (undefined if unknown)
+   */
+  get retryAfter(): number | undefined {
+    return this.retryAt ? Math.max(0, Math.ceil((this.retryAt.getTime() - Date.now()) / 1000)) : undefined;
+  }
+}
+
+/**
+ * Credentials missing, or rejected by the carrier (401 / 403)
+ */
+export class AuthenticationError extends CarrierError {
+  readonly code: CarrierErrorCode = 'AUTHENTICATION_FAILED';
+}
+
+/**
+ * Requested reference, voyage or service does not exist at the carrier (404)
+ */
+export class NotFoundError extends CarrierError {
+  readonly code: CarrierErrorCode = 'NOT_FOUND';
+}
+
+/**
+ * Query parameters missing or rejected by the carrier (400 / 422)
+ */
+export class InvalidParameterError extends CarrierError {
+  readonly code: CarrierErrorCode = 'INVALID_PARAMETER';
+}
+
+/**
+ * Carrier rate limit exceeded (429)
+ */
+export class RateLimitedError extends CarrierError {
+  readonly code: CarrierErrorCode = 'RATE_LIMITED';
+}
+
+/**
+ * Carrier API unreachable, timing out or failing (5xx)
+ */
+export class UpstreamUnavailableError extends CarrierError {
+  readonly code: CarrierErrorCode = 'UPSTREAM_UNAVAILABLE';
+}
+
+/**
+ * Carrier API answered, but not with a payload the adapter can map
+ */
+export class UnexpectedPayloadError extends CarrierError {
+  readonly code: CarrierErrorCode = 'UNEXPECTED_PAYLOAD';
+}
+
+/**
+ * Convert an error caught around a carrier API call into a carrier error
+ * HTTP errors are classified by status; carrier errors are returned as they are
+ * @param error Caught error
+ * @param apiName Carrier API name used in the message (e.g., "CMA CGM Voyage API")
+ * @param context Carrier and endpoint type
+ * @param detail Describes the error payload (default: JSON of the response body)
+ * @returns Carrier error, or the original error if it is not an HTTP error
+ */
+export function toCarrierError<T = unknown>(
+  error: unknown,
+  apiName: string,
+  context: CarrierErrorContext,
+  detail?: (data: T) => string
+): unknown {
+  if (error instanceof CarrierError || !axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new UpstreamUnavailableError(`${apiName} error: ${error.message}`, context);
+  }
+
+  const status = response.status;
+  const message =
+    `${apiName} error: ${status} ${response.statusText} - ` +
+    (detail ? detail(response.data) : JSON.stringify(response.data));
+  const errorContext: CarrierErrorContext = { ...context, upstreamStatus: status };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, errorContext);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, errorContext);
+  }
+  if (status === 429) {
+    const retryAt = parseRetryAfter(response.headers?.['retry-after']);
+    return new RateLimitedError(message, { ...errorContext, retryAt });
+  }
+  if (status >= 500) {
+    return new UpstreamUnavailableError(message, errorContext);
+  }
+  return new InvalidParameterError(message, errorContext);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  const retryAt = !isNaN(seconds) ? new Date(Date.now() + seconds * 1000) : new Date(String(value));
+  return isNaN(retryAt.getTime()) ? undefined : retryAt;
+}
@@ -0,0 +1,18 @@
+/**
+ * Route Adapter Interface
+ * All carrier point-to-point route adapters must implement this interface
+ */
+
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
+
+/**
+ * Interface for Point-to-Point Route API adapters
+ */
+export interface RouteAdapter {
+  /**
+   * Get point-to-point routes between origin and destination
+   * @param params Carrier-neutral route query parameters
+   * @returns Array of normalized point-to-point routes
+   */
+  getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]>;
+}
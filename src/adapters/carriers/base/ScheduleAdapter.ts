@@ -3,17 +3,28 @@
  * All carrier schedule adapters must implement this interface
  */
 
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 
 /**
  * Interface for Schedule API adapters
+ * Carrier API adapters are typed with the query mode they serve; carrier adapters take any mode
  */
-export interface ScheduleAdapter {
+export interface ScheduleAdapter<Q extends ScheduleQuery = ScheduleQuery> {
   /**
    * Get vessel schedules based on query parameters
-   * @param params Query parameters for filtering schedules
+   * @param query Schedule query (only the fields of its mode)
    * @returns Array of service schedules
    */
-  getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]>;
+  getSchedule(query: Q): Promise<ServiceSchedule[]>;
+
+  /**
+   * Get one page of vessel schedules (implemented by paginated APIs)
+   * @param query Schedule query (only the fields of its mode)
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the page state for the next page
+   */
+  getSchedulePage?(query: Q, page?: CarrierPageState): Promise<Page<ServiceSchedule>>;
 }
 
@@ -0,0 +1,27 @@
+/**
+ * Service Rotation Adapter Interface
+ * Implemented by carrier adapters that publish proforma service rotations (see isServiceRotationAdapter)
+ */
+
+import { ServiceRotation } from '@domain/models/serviceRotation';
+
+/**
+ * Interface for service rotation adapters
+ */
+export interface ServiceRotationAdapter {
+  /**
+   * Get the proforma rotation and fleet of a service
+   * @param serviceCode Carrier service code
+   * @returns Service rotation with its proforma calls and vessels
+   */
+  getServiceRotation(serviceCode: string): Promise<ServiceRotation>;
+}
+
+/**
+ * Check whether a carrier adapter supports service rotation lookups
+ * @param adapter Carrier adapter
+ * @returns true if the adapter implements ServiceRotationAdapter
+ */
+export function isServiceRotationAdapter(adapter: object): adapter is ServiceRotationAdapter {
+  return typeof (adapter as ServiceRotationAdapter).getServiceRotation === 'function';
+}
@@ -4,6 +4,7 @@
  */
 
 import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 
 /**
  * Interface for Tracking API adapters
@@ -15,5 +16,13 @@ export interface TrackingAdapter {
    * @returns Array of tracking events
    */
   getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]>;
+
+  /**
+   * Get one page of tracking events (implemented by paginated APIs)
+   * @param params Query parameters for filtering events
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Tracking events and the page state for the next page
+   */
+  getTrackingPage?(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>>;
 }
 
@@ -0,0 +1,39 @@
+/**
+ * Voyage Adapter Interface
+ * Implemented by carrier adapters that can look up voyages by code (see isVoyageAdapter)
+ */
+
+import { Voyage, VoyageDirection, VoyageNavigationBasis } from '@domain/models/voyage';
+
+/**
+ * Interface for voyage lookup adapters
+ */
+export interface VoyageAdapter {
+  /**
+   * Get a voyage by its carrier voyage code
+   * @param voyageCode Carrier voyage code
+   * @returns Voyage with its port calls
+   */
+  getVoyage(voyageCode: string): Promise<Voyage>;
+
+  /**
+   * Get the voyage before or after a voyage
+   * @param voyageCode Carrier voyage code
+   * @param direction Previous or next voyage
+   * @param basis Same vessel or same service
+   * @returns Neighbouring voyage with its port calls
+   */
+  getAdjacentVoyage(voyageCode: string, direction: VoyageDirection, basis: VoyageNavigationBasis): Promise<Voyage>;
+}
+
+/**
+ * Check whether a carrier adapter supports voyage lookups
+ * @param adapter Carrier adapter
+ * @returns true if the adapter implements VoyageAdapter
+ */
+export function isVoyageAdapter(adapter: object): adapter is VoyageAdapter {
+  return (
+    typeof (adapter as VoyageAdapter).getVoyage === 'function' &&
+    typeof (adapter as VoyageAdapter).getAdjacentVoyage === 'function'
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * DCSA Point-to-Point Mapper
+ * Maps DCSA Commercial Schedules PointToPoint responses to the ServiceSchedule and PointToPointRoute models
+ * (shared by the carriers publishing the DCSA /point-to-point-routes endpoint)
+ */
+
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PointToPointRoute, RouteQueryParams, RouteLeg, RouteLocation, RoutePoint } from '@domain/models/route';
+import { Logger } from '@infrastructure/logger/Logger';
+import { deriveTransshipments } from '@utils/routeUtils';
+import { isSameVessel } from '@utils/scheduleUtils';
+import { createSyntheticId } from '@utils/syntheticId';
+
+/**
+ * DCSA Point-to-Point API Response Types
+ */
+export interface DCSAPointToPoint {
+  placeOfReceipt: {
+    facilityTypeCode: string;
+    location: {
+      locationName?: string;
+      UNLocationCode?: string;
+      address?: {
+        street: string;
+        streetNumber?: string;
+        floor?: string;
+        postCode?: string;
+        city: string;
+        stateRegion?: string;
+        countryCode: string;
+      };
+      facility?: {
+        facilityCode: string;
+        facilityCodeListProvider: 'SMDG' | 'BIC';
+      };
+    };
+    dateTime: string;
+  };
+  placeOfDelivery: {
+    facilityTypeCode: string;
+    location: {
+      locationName?: string;
+      UNLocationCode?: string;
+      address?: {
+        street: string;
+        streetNumber?: string;
+        floor?: string;
+        postCode?: string;
+        city: string;
+        stateRegion?: string;
+        countryCode: string;
+      };
+      facility?: {
+        facilityCode: string;
+        facilityCodeListProvider: 'SMDG' | 'BIC';
+      };
+    };
+    dateTime: string;
+  };
+  receiptTypeAtOrigin?: 'CY' | 'SD' | 'CFS';
+  deliveryTypeAtDestination?: 'CY' | 'SD' | 'CFS';
+  cutOffTimes?: Array<{
+    cutOffDateTimeCode: string;
+    cutOffDateTime: string;
+  }>;
+  solutionNumber?: number;
+  routingReference?: string;
+  transitTime?: number;
+  legs: Array<{
+    sequenceNumber: number;
+    transport: {
+      modeOfTransport: 'VESSEL' | 'BARGE' | 'RAIL' | 'TRUCK' | 'RAIL_TRUCK' | 'BARGE_TRUCK' | 'BARGE_RAIL' | 'MULTIMODAL';
+      portVisitReference?: string;
+      transportCallReference?: string;
+      servicePartners?: Array<{
+        carrierCode: string;
+        carrierCodeListProvider?: 'SMDG' | 'NMFTA';
+        carrierServiceName?: string;
+        carrierServiceCode?: string;
+        carrierImportVoyageNumber?: string;
+        carrierExportVoyageNumber?: string;
+      }>;
+      universalServiceReference?: string;
+      universalExportVoyageReference?: string;
+      universalImportVoyageReference?: string;
+      vessel?: {
+        vesselIMONumber: string;
+        MMSINumber?: string;
+        name: string;
+        flag?: string;
+        callSign?: string;
+        operatorCarrierCode?: string;
+        operatorCarrierCodeListProvider?: 'SMDG' | 'NMFTA';
+      };
+      barge?: {
+        vesselIMONumber: string;
+        MMSINumber?: string;
+        name: string;
+        flag?: string;
+        callSign?: string;
+        operatorCarrierCode?: string;
+        operatorCarrierCodeListProvider?: 'SMDG' | 'NMFTA';
+      };
+    };
+    departure: {
+      facilityTypeCode: string;
+      location: {
+        locationName?: string;
+        UNLocationCode?: string;
+        address?: {
+          street: string;
+          streetNumber?: string;
+          floor?: string;
+          postCode?: string;
+          city: string;
+          stateRegion?: string;
+          countryCode: string;
+        };
+        facility?: {
+          facilityCode: string;
+          facilityCodeListProvider: 'SMDG' | 'BIC';
+        };
+      };
+      dateTime: string;
+    };
+    arrival: {
+      facilityTypeCode: string;
+      location: {
+        locationName?: string;
+        UNLocationCode?: string;
+        address?: {
+          street: string;
+          streetNumber?: string;
+          floor?: string;
+          postCode?: string;
+          city: string;
+          stateRegion?: string;
+          countryCode: string;
+        };
+        facility?: {
+          facilityCode: string;
+          facilityCodeListProvider: 'SMDG' | 'BIC';
+        };
+      };
+      dateTime: string;
+    };
+  }>;
+}
+
+type DCSAPlace = DCSAPointToPoint['placeOfReceipt'];
+
+/**
+ * Translate carrier-neutral route parameters into DCSA Point-to-Point query parameters
+ * @param params Route query parameters
+ * @returns DCSA Point-to-Point query parameters (CY/CY unless specified otherwise)
+ */
+export function toDCSAPointToPointParams(params: RouteQueryParams): Record<string, string> {
+  const queryParams: Record<string, string> = {
+    placeOfReceipt: params.origin,
+    placeOfDelivery: params.destination,
+    receiptTypeAtOrigin: 'CY',
+    deliveryTypeAtDestination: 'CY',
+  };
+
+  if (params.departureFrom) {
+    queryParams.departureStartDate = params.departureFrom;
+  }
+  if (params.departureTo) {
+    queryParams.departureEndDate = params.departureTo;
+  }
+  if (params.arrivalFrom) {
+    queryParams.arrivalStartDate = params.arrivalFrom;
+  }
+  if (params.arrivalTo) {
+    queryParams.arrivalEndDate = params.arrivalTo;
+  }
+  if (params.maxTransshipments !== undefined) {
+    queryParams.maxTranshipment = params.maxTransshipments.toString();
+  }
+
+  return queryParams;
+}
+
+/**
+ * Map a single DCSA PointToPoint route to a PointToPointRoute
+ * @param carrierCode Carrier code used for synthetic routing references
+ * @param route DCSA point-to-point route
+ * @returns Point-to-point route
+ */
+export function mapDCSAPointToPointRoute(carrierCode: string, route: DCSAPointToPoint): PointToPointRoute {
+  const legs: RouteLeg[] = [...(route.legs || [])]
+    .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+    .map((leg) => {
+      const transport = leg.transport;
+      const servicePartner = transport.servicePartners?.[0];
+      const vessel = transport.vessel || transport.barge;
+      return {
+        sequenceNumber: leg.sequenceNumber,
+        modeOfTransport: mapModeOfTransport(transport.modeOfTransport),
+        carrierServiceCode: servicePartner?.carrierServiceCode,
+        carrierServiceName: servicePartner?.carrierServiceName,
+        carrierExportVoyageNumber: servicePartner?.carrierExportVoyageNumber,
+        carrierImportVoyageNumber: servicePartner?.carrierImportVoyageNumber,
+        vessel: vessel
+          ? {
+              vesselIMONumber: vessel.vesselIMONumber,
+              name: vessel.name,
+              MMSINumber: vessel.MMSINumber,
+              flag: vessel.flag,
+              callSign: vessel.callSign,
+              operatorCarrierCode: vessel.operatorCarrierCode,
+              operatorCarrierCodeListProvider: vessel.operatorCarrierCodeListProvider,
+            }
+          : undefined,
+        departure: mapPlace(leg.departure),
+        arrival: mapPlace(leg.arrival),
+      };
+    });
+
+  return {
+    // solutionNumber is only the position in the response, so identify the routing by its ports and voyages
+    routingReference:
+      route.routingReference ||
+      createSyntheticId(carrierCode, 'routing', [
+        route.placeOfReceipt?.location?.UNLocationCode,
+        route.placeOfDelivery?.location?.UNLocationCode,
+        ...legs.map((leg) => leg.carrierExportVoyageNumber),
+      ]),
+    isSyntheticRoutingReference: route.routingReference ? undefined : true,
+    placeOfReceipt: mapPlace(route.placeOfReceipt),
+    placeOfDelivery: mapPlace(route.placeOfDelivery),
+    transitTime: route.transitTime,
+    transshipments: deriveTransshipments(legs),
+    cutOffTimes: route.cutOffTimes || [],
+    legs,
+  };
+}
+
+/**
+ * Map a DCSA Point-to-Point response to DCSA ServiceSchedule format
+ * Groups routes by service and creates ServiceSchedule entries
+ * Preserves original Point-to-Point fields (placeOfReceipt, placeOfDelivery, solutionNumber, etc.)
+ * @param carrierCode Carrier code used for synthetic transport call references
+ * @param routes DCSA point-to-point routes
+ * @returns Service schedules with at least one vessel schedule
+ */
+export function mapDCSAPointToPointSchedules(carrierCode: string, routes: DCSAPointToPoint[]): ServiceSchedule[] {
+  if (!Array.isArray(routes) || routes.length === 0) {
+    Logger.debug(`DCSA Point-to-Point: Empty or invalid routes array`, {
+      carrier: carrierCode,
+      routesType: typeof routes,
+      routesLength: Array.isArray(routes) ? routes.length : 'not an array',
+    });
+    return [];
+  }
+
+  Logger.debug(`DCSA Point-to-Point: Mapping ${routes.length} routes`, {
+    carrier: carrierCode,
+  });
+
+  // Map to store service schedules with route information
+  const serviceMap = new Map<string, ServiceSchedule & {
+    pointToPointRoutes?: Array<{
+      placeOfReceipt: DCSAPointToPoint['placeOfReceipt'];
+      placeOfDelivery: DCSAPointToPoint['placeOfDelivery'];
+      receiptTypeAtOrigin?: DCSAPointToPoint['receiptTypeAtOrigin'];
+      deliveryTypeAtDestination?: DCSAPointToPoint['deliveryTypeAtDestination'];
+      cutOffTimes?: DCSAPointToPoint['cutOffTimes'];
+      solutionNumber?: DCSAPointToPoint['solutionNumber'];
+      routingReference?: DCSAPointToPoint['routingReference'];
+      transitTime?: DCSAPointToPoint['transitTime'];
+    }>;
+  }>();
+
+  for (const route of routes) {
+    if (!route.legs || !Array.isArray(route.legs) || route.legs.length === 0) {
+      Logger.debug(`DCSA Point-to-Point: Route has no legs`, {
+        carrier: carrierCode,
+        routeSolutionNumber: route.solutionNumber,
+      });
+      continue;
+    }
+
+    // Extract service code from the first VESSEL/BARGE leg for route-level metadata
+    let routeServiceCode: string | undefined;
+    for (const leg of route.legs) {
+      const transport = leg.transport;
+      if ((transport.modeOfTransport === 'VESSEL' || transport.modeOfTransport === 'BARGE') && 
+          transport.servicePartners?.[0]?.carrierServiceCode) {
+        routeServiceCode = transport.servicePartners[0].carrierServiceCode;
+        break;
+      }
+    }
+    if (!routeServiceCode) {
+      routeServiceCode = 'UNKNOWN_SERVICE';
+    }
+
+    // Process each leg to extract service and vessel information
+    for (const leg of route.legs) {
+      const transport = leg.transport;
+      
+      // Only process VESSEL and BARGE transports (skip RAIL, TRUCK, etc.)
+      if (transport.modeOfTransport !== 'VESSEL' && transport.modeOfTransport !== 'BARGE') {
+        Logger.debug(`DCSA Point-to-Point: Skipping non-vessel transport`, {
+          carrier: carrierCode,
+          modeOfTransport: transport.modeOfTransport,
+          legSequence: leg.sequenceNumber,
+        });
+        continue;
+      }
+
+      const vessel = transport.vessel || transport.barge;
+      if (!vessel) {
+        Logger.debug(`DCSA Point-to-Point: Leg has no vessel/barge`, {
+          carrier: carrierCode,
+          legSequence: leg.sequenceNumber,
+          modeOfTransport: transport.modeOfTransport,
+        });
+        continue;
+      }
+
+      // Get service code from servicePartners or use a default
+      const servicePartner = transport.servicePartners?.[0];
+      const serviceCode = servicePartner?.carrierServiceCode || 'UNKNOWN_SERVICE';
+      const serviceName = servicePartner?.carrierServiceName || 'Unknown Service';
+
+      if (!serviceMap.has(serviceCode)) {
+        serviceMap.set(serviceCode, {
+          carrierServiceCode: serviceCode,
+          carrierServiceName: serviceName,
+          universalServiceReference: transport.universalServiceReference,
+          vesselSchedules: [],
+          pointToPointRoutes: [],
+        });
+      }
+
+      const schedule = serviceMap.get(serviceCode)!;
+      const vesselIMO = vessel.vesselIMONumber;
+
+      // Find or create vessel schedule
+      let vesselSchedule = schedule.vesselSchedules.find((vs) => isSameVessel(vs.vessel, vessel));
+
+      if (!vesselSchedule) {
+        vesselSchedule = {
+          isDummyVessel: !vesselIMO,
+          vessel: {
+            vesselIMONumber: vesselIMO,
+            name: vessel.name,
+            MMSINumber: vessel.MMSINumber,
+            flag: vessel.flag,
+            callSign: vessel.callSign,
+            operatorCarrierCode: vessel.operatorCarrierCode,
+            operatorCarrierCodeListProvider: vessel.operatorCarrierCodeListProvider,
+          },
+          transportCalls: [],
+        };
+        schedule.vesselSchedules.push(vesselSchedule);
+      }
+
+      // Add transport call from leg departure/arrival
+      const transportCall = {
+        transportCallReference:
+          transport.transportCallReference ||
+          createSyntheticId(carrierCode, 'transport-call', [
+            servicePartner?.carrierExportVoyageNumber,
+            leg.departure.location.UNLocationCode || leg.arrival.location.UNLocationCode,
+            leg.departure.location.facility?.facilityCode,
+            vesselIMO,
+          ]),
+        isSyntheticReference: transport.transportCallReference ? undefined : true,
+        portVisitReference: transport.portVisitReference,
+        carrierImportVoyageNumber: servicePartner?.carrierImportVoyageNumber || 'UNKNOWN',
+        carrierExportVoyageNumber: servicePartner?.carrierExportVoyageNumber || 'UNKNOWN',
+        universalImportVoyageReference: transport.universalImportVoyageReference,
+        universalExportVoyageReference: transport.universalExportVoyageReference,
+        location: {
+          UNLocationCode: leg.departure.location.UNLocationCode || leg.arrival.location.UNLocationCode,
+          locationName: leg.departure.location.locationName || leg.arrival.location.locationName,
+          address: leg.departure.location.address || leg.arrival.location.address,
+          facilitySMDGCode: leg.departure.location.facility?.facilityCodeListProvider === 'SMDG'
+            ? leg.departure.location.facility.facilityCode
+            : leg.arrival.location.facility?.facilityCodeListProvider === 'SMDG'
+            ? leg.arrival.location.facility.facilityCode
+            : undefined,
+        },
+        timestamps: [
+          {
+            eventTypeCode: 'DEPA' as const,
+            eventClassifierCode: 'EST' as const,
+            eventDateTime: leg.departure.dateTime,
+          },
+          {
+            eventTypeCode: 'ARRI' as const,
+            eventClassifierCode: 'EST' as const,
+            eventDateTime: leg.arrival.dateTime,
+          },
+        ],
+        cutOffTimes: route.cutOffTimes,
+      };
+
+      if (vesselSchedule.transportCalls) {
+        vesselSchedule.transportCalls.push(transportCall);
+      }
+    }
+
+    // Preserve original Point-to-Point route information
+    // Add route metadata to the primary service code for this route
+    const routeSchedule = serviceMap.get(routeServiceCode);
+    if (routeSchedule && routeSchedule.pointToPointRoutes) {
+      // Check if this route is already added (by solutionNumber)
+      const existingRoute = routeSchedule.pointToPointRoutes.find(
+        (r) => r.solutionNumber === route.solutionNumber
+      );
+      if (!existingRoute) {
+        routeSchedule.pointToPointRoutes.push({
+          placeOfReceipt: route.placeOfReceipt,
+          placeOfDelivery: route.placeOfDelivery,
+          receiptTypeAtOrigin: route.receiptTypeAtOrigin,
+          deliveryTypeAtDestination: route.deliveryTypeAtDestination,
+          cutOffTimes: route.cutOffTimes,
+          solutionNumber: route.solutionNumber,
+          routingReference: route.routingReference,
+          transitTime: route.transitTime,
+        });
+      }
+    }
+  }
+
+  // Filter out services with no vessel schedules
+  return Array.from(serviceMap.values()).filter(
+    (schedule) => schedule.vesselSchedules.length > 0
+  ) as ServiceSchedule[];
+}
+
+/**
+ * Map a DCSA place (location + date/time) to a RoutePoint
+ */
+function mapPlace(place: DCSAPlace): RoutePoint {
+  const location: RouteLocation = {
+    UNLocationCode: place.location.UNLocationCode,
+    locationName: place.location.locationName,
+    facilitySMDGCode: place.location.facility?.facilityCodeListProvider === 'SMDG'
+      ? place.location.facility.facilityCode
+      : undefined,
+  };
+  return {
+    location,
+    dateTime: place.dateTime,
+    eventClassifierCode: 'EST',
+  };
+}
+
+/**
+ * Map DCSA mode of transport (including combined modes) to route mode of transport
+ */
+function mapModeOfTransport(
+  mode: DCSAPointToPoint['legs'][number]['transport']['modeOfTransport']
+): RouteLeg['modeOfTransport'] {
+  switch (mode) {
+    case 'VESSEL':
+    case 'BARGE':
+    case 'RAIL':
+    case 'TRUCK':
+    case 'MULTIMODAL':
+      return mode;
+    default:
+      return 'MULTIMODAL';
+  }
+}
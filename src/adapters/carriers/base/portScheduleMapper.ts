@@ -0,0 +1,140 @@
+/**
+ * DCSA Port Schedule Mapper
+ * Maps DCSA Commercial Schedules PortSchedule responses to the ServiceSchedule model
+ * (shared by the carriers publishing the DCSA /port-schedules endpoint)
+ */
+
+import { ServiceSchedule } from '@domain/models/schedule';
+import { isSameVessel } from '@utils/scheduleUtils';
+import { createSyntheticId } from '@utils/syntheticId';
+
+/**
+ * DCSA Port Schedule API Response Types
+ */
+export interface DCSAPortSchedule {
+  location: {
+    locationName?: string;
+    UNLocationCode?: string;
+    facilitySMDGCode?: string;
+  };
+  vesselSchedules: Array<{
+    universalServiceReference?: string;
+    servicePartners: Array<{
+      carrierCode?: string;
+      carrierCodeListProvider?: 'SMDG' | 'NMFTA';
+      carrierServiceName: string;
+      carrierServiceCode: string;
+      carrierImportVoyageNumber: string;
+      carrierExportVoyageNumber: string;
+    }>;
+    vessel?: {
+      vesselIMONumber: string;
+      MMSINumber?: string;
+      name: string;
+      flag?: string;
+      callSign?: string;
+      operatorCarrierCode?: string;
+      operatorCarrierCodeListProvider?: 'SMDG' | 'NMFTA';
+    };
+    isDummyVessel: boolean;
+    universalImportVoyageReference?: string;
+    universalExportVoyageReference?: string;
+    timestamps: Array<{
+      eventTypeCode: 'ARRI' | 'DEPA';
+      eventClassifierCode: 'ACT' | 'EST' | 'PLN';
+      eventDateTime: string;
+    }>;
+    cutOffTimes?: Array<{
+      cutOffDateTimeCode: string;
+      cutOffDateTime: string;
+    }>;
+  }>;
+}
+
+/**
+ * Map DCSA port schedules to ServiceSchedule format
+ * Groups vessel calls by service; each call becomes a transport call at the port
+ * @param carrierCode Carrier code used for synthetic transport call references
+ * @param portSchedules DCSA port schedules
+ * @returns Service schedules with at least one vessel schedule
+ */
+export function mapDCSAPortSchedules(carrierCode: string, portSchedules: DCSAPortSchedule[]): ServiceSchedule[] {
+  const serviceMap = new Map<string, ServiceSchedule>();
+
+  for (const portSchedule of portSchedules) {
+    for (const vesselSchedule of portSchedule.vesselSchedules) {
+      // Get service code from servicePartners
+      const servicePartner = vesselSchedule.servicePartners?.[0];
+      if (!servicePartner) {
+        continue;
+      }
+
+      const serviceCode = servicePartner.carrierServiceCode;
+      const serviceName = servicePartner.carrierServiceName;
+
+      if (!serviceMap.has(serviceCode)) {
+        serviceMap.set(serviceCode, {
+          carrierServiceCode: serviceCode,
+          carrierServiceName: serviceName,
+          universalServiceReference: vesselSchedule.universalServiceReference,
+          vesselSchedules: [],
+        });
+      }
+
+      const schedule = serviceMap.get(serviceCode)!;
+      const vessel = vesselSchedule.vessel;
+
+      // Find or create vessel schedule (schedules without a vessel are never merged)
+      let vs = vessel ? schedule.vesselSchedules.find((v) => isSameVessel(v.vessel, vessel)) : undefined;
+
+      if (!vs) {
+        vs = {
+          isDummyVessel: vesselSchedule.isDummyVessel,
+          vessel: vesselSchedule.vessel ? {
+            vesselIMONumber: vesselSchedule.vessel.vesselIMONumber,
+            name: vesselSchedule.vessel.name,
+            MMSINumber: vesselSchedule.vessel.MMSINumber,
+            flag: vesselSchedule.vessel.flag,
+            callSign: vesselSchedule.vessel.callSign,
+            operatorCarrierCode: vesselSchedule.vessel.operatorCarrierCode,
+            operatorCarrierCodeListProvider: vesselSchedule.vessel.operatorCarrierCodeListProvider,
+          } : undefined,
+          transportCalls: [],
+        };
+        schedule.vesselSchedules.push(vs);
+      }
+
+      // Add transport call from port schedule
+      const transportCall = {
+        // Port schedules carry no call ID
+        transportCallReference: createSyntheticId(carrierCode, 'transport-call', [
+          servicePartner.carrierExportVoyageNumber,
+          portSchedule.location.UNLocationCode,
+          portSchedule.location.facilitySMDGCode,
+          vessel?.vesselIMONumber || vessel?.name,
+        ]),
+        isSyntheticReference: true,
+        carrierImportVoyageNumber: servicePartner.carrierImportVoyageNumber,
+        carrierExportVoyageNumber: servicePartner.carrierExportVoyageNumber,
+        universalImportVoyageReference: vesselSchedule.universalImportVoyageReference,
+        universalExportVoyageReference: vesselSchedule.universalExportVoyageReference,
+        location: {
+          UNLocationCode: portSchedule.location.UNLocationCode,
+          locationName: portSchedule.location.locationName,
+          facilitySMDGCode: portSchedule.location.facilitySMDGCode,
+        },
+        timestamps: vesselSchedule.timestamps,
+        cutOffTimes: vesselSchedule.cutOffTimes,
+      };
+
+      if (vs.transportCalls) {
+        vs.transportCalls.push(transportCall);
+      }
+    }
+  }
+
+  // Filter out services with no vessel schedules
+  return Array.from(serviceMap.values()).filter(
+    (schedule) => schedule.vesselSchedules.length > 0
+  );
+}
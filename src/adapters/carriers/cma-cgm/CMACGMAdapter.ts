@@ -3,15 +3,25 @@
  * Main adapter combining Schedule and Tracking capabilities
  * 
  * Supports multiple Schedule APIs:
- * - Commercial Schedule (DCSA): vesseloperation.commercialschedule.v1
+ * - Commercial Schedule (DCSA): vesseloperation.commercialschedule.v1 (vessel schedules, port schedules,
+ *   point-to-point routes)
  * - Proforma (Lines & Services): vesseloperation.proforma.v2
  * - Voyage: vesseloperation.voyage.v2
  * - Route (Routing Finder): vesseloperation.route.v2
  */
 
 import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
-import { ScheduleQueryParams, ServiceSchedule } from '@domain/models/schedule';
+import { VoyageAdapter } from '@adapters/carriers/base/VoyageAdapter';
+import { ServiceRotationAdapter } from '@adapters/carriers/base/ServiceRotationAdapter';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
 import { TrackingQueryParams, TrackingEvent } from '@domain/models/tracking';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
+import { Voyage, VoyageDirection, VoyageNavigationBasis } from '@domain/models/voyage';
+import { ServiceRotation } from '@domain/models/serviceRotation';
+import { CarrierPageState, Page } from '@domain/models/pagination';
+import { CarrierCapabilities, QueryMode } from '@domain/models/capability';
 import { CMACGMScheduleAdapter } from './CMACGMScheduleAdapter';
 import { CMACGMProformaAdapter } from './CMACGMProformaAdapter';
 import { CMACGMVoyageAdapter } from './CMACGMVoyageAdapter';
@@ -20,12 +30,205 @@ import { CMACGMTrackingAdapter } from './CMACGMTrackingAdapter';
 import { ConfigLoader } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
+/**
+ * CMA CGM query modes, in the order getSchedulePage and getTrackingPage check them
+ */
+const CMA_CGM_QUERY_MODES: QueryMode[] = [
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'schedule',
+    name: 'CMA CGM Route API (Routing Finder)',
+    description: 'Port-to-port routings between a loading and a discharge place',
+    requiredParams: [
+      ['placeOfLoading', 'placeOfDischarge'],
+      ['placeOfLoading', 'unLocodePlaceOfDischarge'],
+      ['unLocodePlaceOfLoading', 'placeOfDischarge'],
+      ['unLocodePlaceOfLoading', 'unLocodePlaceOfDischarge'],
+    ],
+    optionalParams: [
+      'shippingCompany',
+      'departureDate',
+      'arrivalDate',
+      'searchRange',
+      'polVesselIMO',
+      'polServiceCode',
+      'maxTs',
+      'numberOfTEU',
+      'specificRoutings',
+      'useRoutingStatistics',
+    ],
+    pagination: 'RANGE',
+    dateWindow: { params: ['searchRange'], maxRangeDays: 35 },
+  },
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'schedule',
+    name: 'CMA CGM Commercial Schedule API (DCSA) /point-to-point-routes',
+    description: 'DCSA routes between a place of receipt and a place of delivery',
+    requiredParams: [['placeOfReceipt', 'placeOfDelivery']],
+    optionalParams: [
+      'startDate',
+      'departureStartDate',
+      'departureEndDate',
+      'arrivalStartDate',
+      'arrivalEndDate',
+      'maxTranshipment',
+      'receiptTypeAtOrigin',
+      'deliveryTypeAtDestination',
+    ],
+    pagination: 'CURSOR',
+  },
+  {
+    mode: 'SERVICE',
+    api: 'schedule',
+    name: 'CMA CGM Proforma API (Lines & Services)',
+    description: 'Services by service code, line or trade zones',
+    requiredParams: [['serviceCode'], ['carrierServiceCode'], ['lineCode'], ['zoneFromCode', 'zoneToCode']],
+    optionalParams: ['port', 'terminal', 'vesselIMO'],
+    pagination: 'RANGE',
+  },
+  {
+    mode: 'VOYAGE',
+    api: 'schedule',
+    name: 'CMA CGM Voyage API',
+    description: 'Commercial voyages by voyage, vessel, date range, port or country',
+    requiredParams: [
+      ['voyageCode'],
+      ['carrierVoyageNumber'],
+      ['vesselIMO'],
+      ['vesselIMONumber'],
+      ['from', 'to'],
+      ['startDate', 'endDate'],
+      ['portCode'],
+      ['countryCode'],
+    ],
+    optionalParams: ['from', 'to', 'startDate', 'endDate', 'shipcomp', 'searchType', 'sort'],
+    pagination: 'RANGE',
+  },
+  {
+    mode: 'PORT_SCHEDULE',
+    api: 'schedule',
+    name: 'CMA CGM Commercial Schedule API (DCSA) /port-schedules',
+    description: 'Vessel calls at a port from a date on',
+    requiredParams: [['UNLocationCode', 'date']],
+    optionalParams: ['limit'],
+    excludedParams: ['vesselIMONumber', 'carrierVoyageNumber', 'carrierServiceCode'],
+    pagination: 'CURSOR',
+  },
+  {
+    mode: 'VESSEL_SCHEDULE',
+    api: 'schedule',
+    name: 'CMA CGM Commercial Schedule API (DCSA)',
+    description: 'DCSA vessel schedules; used when no other schedule mode matches',
+    requiredParams: [],
+    optionalParams: [
+      'vesselName',
+      'universalServiceReference',
+      'universalVoyageReference',
+      'UNLocationCode',
+      'facilitySMDGCode',
+      'vesselOperatorCarrierCode',
+      'startDate',
+      'endDate',
+      'limit',
+    ],
+    pagination: 'CURSOR',
+  },
+  {
+    mode: 'ROUTE',
+    api: 'route',
+    name: 'CMA CGM Route API (Routing Finder)',
+    description: 'Point-to-point routes; the Routing Finder searches around the departure (or arrival) date',
+    requiredParams: [['origin', 'destination']],
+    optionalParams: ['departureFrom', 'departureTo', 'arrivalFrom', 'maxTransshipments'],
+    pagination: 'NONE',
+    dateWindow: { params: ['departureFrom', 'departureTo'], maxRangeDays: 35 },
+  },
+  {
+    mode: 'VOYAGE_LOOKUP',
+    api: 'voyage',
+    name: 'CMA CGM Voyage API /commercialVoyages/{voyageCode}',
+    description: 'Voyage by code, and its previous or next voyage by vessel or by service',
+    requiredParams: [['voyageCode']],
+    optionalParams: ['by'],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'SERVICE_ROTATION',
+    api: 'service',
+    name: 'CMA CGM Proforma API /services/{serviceCode}/proformacalls, /fleet',
+    description: 'Proforma port rotation and deployed fleet of a service',
+    requiredParams: [['serviceCode']],
+    optionalParams: [],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'TRACKING_REFERENCE',
+    api: 'tracking',
+    name: 'CMA CGM Track & Trace API (DCSA) /events/{trackingReference}',
+    description: 'Events of one B/L, container or booking (in that order of precedence)',
+    requiredParams: [['transportDocumentReference'], ['equipmentReference'], ['carrierBookingReference']],
+    optionalParams: ['behalfOf', 'limit'],
+    pagination: 'CURSOR',
+  },
+  {
+    mode: 'EVENT_SEARCH',
+    api: 'tracking',
+    name: 'CMA CGM Track & Trace API (DCSA) /events',
+    description: 'Events filtered by vessel, voyage, service, location or event type',
+    requiredParams: [],
+    optionalParams: [
+      'eventType',
+      'shipmentEventTypeCode',
+      'transportEventTypeCode',
+      'equipmentEventTypeCode',
+      'documentTypeCode',
+      'transportCallID',
+      'vesselIMONumber',
+      'exportVoyageNumber',
+      'carrierServiceCode',
+      'UNLocationCode',
+      'eventCreatedDateTime',
+      'eventDateTime',
+      'behalfOf',
+      'limit',
+    ],
+    pagination: 'CURSOR',
+  },
+];
+
+/**
+ * Route query mode replacing ROUTE when the DCSA Point-to-Point API is preferred (see getRouteSource)
+ */
+const CMA_CGM_DCSA_ROUTE_MODE: QueryMode = {
+  mode: 'POINT_TO_POINT',
+  api: 'route',
+  name: 'CMA CGM Commercial Schedule API (DCSA) /point-to-point-routes',
+  description: 'Point-to-point routes by departure or arrival window',
+  requiredParams: [['origin', 'destination']],
+  optionalParams: ['departureFrom', 'departureTo', 'arrivalFrom', 'arrivalTo', 'maxTransshipments'],
+  pagination: 'NONE',
+};
+
+/**
+ * API serving CMA CGM point-to-point routes (GET /api/v1/routes)
+ */
+type CMACGMRouteSource = 'ROUTE_API' | 'DCSA';
+
+/**
+ * Preferred point-to-point route API, from CMCG_POINT_TO_POINT_API ("route" or "dcsa", default: "route")
+ * @returns Route source
+ */
+function getRouteSource(): CMACGMRouteSource {
+  return (process.env.CMCG_POINT_TO_POINT_API || '').toLowerCase() === 'dcsa' ? 'DCSA' : 'ROUTE_API';
+}
+
 /**
  * CMA CGM Carrier Adapter
  * Combines Schedule and Tracking adapters
  * Automatically selects the appropriate Schedule API based on query parameters
  */
-export class CMACGMAdapter implements CarrierAdapter {
+export class CMACGMAdapter implements CarrierAdapter, VoyageAdapter, ServiceRotationAdapter {
   private scheduleAdapter: CMACGMScheduleAdapter;
   private proformaAdapter: CMACGMProformaAdapter;
   private voyageAdapter: CMACGMVoyageAdapter;
@@ -71,76 +274,157 @@ export class CMACGMAdapter implements CarrierAdapter {
     }
   }
 
+  /**
+   * Get capability descriptor
+   * @returns Query modes of the CMA CGM schedule, route and tracking APIs
+   */
+  getCapabilities(): CarrierCapabilities {
+    const routeSource = getRouteSource();
+    return {
+      carrier: this.carrierCode,
+      carrierName: this.carrierName,
+      modes: CMA_CGM_QUERY_MODES.map((mode) =>
+        mode.api === 'route' && routeSource === 'DCSA' ? CMA_CGM_DCSA_ROUTE_MODE : mode
+      ),
+    };
+  }
+
   /**
    * Get vessel schedules
-   * Automatically selects the appropriate API based on query parameters:
-   * - Route API: If placeOfLoading/unLocodePlaceOfLoading and placeOfDischarge/unLocodePlaceOfDischarge are provided
-   * - Proforma API: If serviceCode, lineCode, or zoneFromCode/zoneToCode are provided (HIGH PRIORITY)
-   * - Voyage API: If voyageCode, vesselIMO, or (from/to dates) or (portCode/countryCode) are provided
-   * - Commercial Schedule API: Default fallback (DCSA standard)
-   * 
-   * @param params Query parameters
+   * Uses the API of the query mode (see CMA_CGM_QUERY_MODES):
+   * - POINT_TO_POINT: Route API (placeOfLoading/unLocodePlaceOfLoading and placeOfDischarge/unLocodePlaceOfDischarge)
+   *   or Commercial Schedule API /point-to-point-routes (placeOfReceipt and placeOfDelivery)
+   * - SERVICE: Proforma API (serviceCode, lineCode, or zoneFromCode/zoneToCode)
+   * - VOYAGE: Voyage API (voyageCode, vesselIMO, from/to dates, portCode or countryCode)
+   * - PORT_SCHEDULE: Commercial Schedule API /port-schedules (UNLocationCode and date)
+   * - VESSEL_SCHEDULE: Commercial Schedule API (DCSA standard)
+   *
+   * @param query Schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    const placeOfLoading = (params as any).placeOfLoading;
-    const placeOfDischarge = (params as any).placeOfDischarge;
-    const unLocodePlaceOfLoading = (params as any).unLocodePlaceOfLoading;
-    const unLocodePlaceOfDischarge = (params as any).unLocodePlaceOfDischarge;
-    const voyageCode = (params as any).voyageCode || params.carrierVoyageNumber;
-    const vesselIMO = (params as any).vesselIMO || params.vesselIMONumber;
-    const from = (params as any).from || params.startDate;
-    const to = (params as any).to || params.endDate;
-    const portCode = (params as any).portCode;
-    const countryCode = (params as any).countryCode;
-    const serviceCode = (params as any).serviceCode || params.carrierServiceCode;
-    const lineCode = (params as any).lineCode;
-    const zoneFromCode = (params as any).zoneFromCode;
-    const zoneToCode = (params as any).zoneToCode;
-
-    // Priority 1: Route API (Port-to-Port routing)
-    if ((placeOfLoading || unLocodePlaceOfLoading) && (placeOfDischarge || unLocodePlaceOfDischarge)) {
-      Logger.info(`CMA CGM: Using Route API for port-to-port routing`, {
-        carrier: this.carrierCode,
-        placeOfLoading: placeOfLoading || unLocodePlaceOfLoading,
-        placeOfDischarge: placeOfDischarge || unLocodePlaceOfDischarge,
-      });
-      return this.routeAdapter.getSchedule(params);
-    }
+  async getSchedule(query: ScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(query)).items;
+  }
+
+  /**
+   * Get one page of vessel schedules from the API of the query mode
+   * Commercial Schedule pages by cursor; Route, Proforma and Voyage searches page by Range
+   * @param query Schedule query
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state
+   */
+  async getSchedulePage(query: ScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
+    switch (query.mode) {
+      case 'POINT_TO_POINT':
+        // DCSA parameter names select the DCSA Point-to-Point API
+        if (query.placeOfReceipt && query.placeOfDelivery) {
+          Logger.info(`CMA CGM: Using Commercial Schedule API (DCSA) for point-to-point routing`, {
+            carrier: this.carrierCode,
+            placeOfReceipt: query.placeOfReceipt,
+            placeOfDelivery: query.placeOfDelivery,
+          });
+          return this.scheduleAdapter.getPointToPointSchedulePage(query, page);
+        }
+        Logger.info(`CMA CGM: Using Route API for port-to-port routing`, {
+          carrier: this.carrierCode,
+          placeOfLoading: query.placeOfLoading || query.unLocodePlaceOfLoading,
+          placeOfDischarge: query.placeOfDischarge || query.unLocodePlaceOfDischarge,
+        });
+        return this.routeAdapter.getSchedulePage(query, page);
 
-    // Priority 2: Proforma API (Lines & Services) - Check BEFORE Voyage API
-    // This ensures serviceCode/lineCode queries go to Proforma API
-    if (serviceCode || lineCode || (zoneFromCode && zoneToCode)) {
-      Logger.info(`CMA CGM: Using Proforma API for Lines & Services`, {
-        carrier: this.carrierCode,
-        serviceCode,
-        lineCode,
-        zoneFromCode,
-        zoneToCode,
-      });
-      return this.proformaAdapter.getSchedule(params);
+      case 'SERVICE':
+        Logger.info(`CMA CGM: Using Proforma API for Lines & Services`, {
+          carrier: this.carrierCode,
+          serviceCode: query.serviceCode || query.carrierServiceCode,
+          lineCode: query.lineCode,
+          zoneFromCode: query.zoneFromCode,
+          zoneToCode: query.zoneToCode,
+        });
+        return this.proformaAdapter.getSchedulePage(query, page);
+
+      case 'VOYAGE':
+        Logger.info(`CMA CGM: Using Voyage API`, {
+          carrier: this.carrierCode,
+          voyageCode: query.voyageCode || query.carrierVoyageNumber,
+          vesselIMO: query.vesselIMO || query.vesselIMONumber,
+          from: query.from || query.startDate,
+          to: query.to || query.endDate,
+          portCode: query.portCode,
+          countryCode: query.countryCode,
+        });
+        return this.voyageAdapter.getSchedulePage(query, page);
+
+      case 'PORT_SCHEDULE':
+        Logger.info(`CMA CGM: Using Commercial Schedule API (DCSA) for port schedules`, {
+          carrier: this.carrierCode,
+          UNLocationCode: query.UNLocationCode,
+          date: query.date || query.startDate,
+        });
+        return this.scheduleAdapter.getPortSchedulePage(query, page);
+
+      case 'VESSEL_SCHEDULE':
+        Logger.info(`CMA CGM: Using Commercial Schedule API (DCSA)`, {
+          carrier: this.carrierCode,
+          query,
+        });
+        return this.scheduleAdapter.getSchedulePage(query, page);
+
+      default:
+        // Every mode is handled; guards against queries built outside the typed parsers
+        throw new InvalidParameterError(
+          `${this.carrierName} does not support ${(query as ScheduleQuery).mode} schedule queries`,
+          { carrier: this.carrierCode }
+        );
     }
+  }
 
-    // Priority 3: Voyage API
-    if (voyageCode || vesselIMO || (from && to) || portCode || countryCode) {
-      Logger.info(`CMA CGM: Using Voyage API`, {
-        carrier: this.carrierCode,
-        voyageCode,
-        vesselIMO,
-        from,
-        to,
-        portCode,
-        countryCode,
-      });
-      return this.voyageAdapter.getSchedule(params);
+  /**
+   * Get point-to-point routes
+   * Uses the Route API (Routing Finder), or the DCSA Point-to-Point API when CMCG_POINT_TO_POINT_API=dcsa
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    if (getRouteSource() === 'DCSA') {
+      return this.scheduleAdapter.getRoutes(params);
     }
+    return this.routeAdapter.getRoutes(params);
+  }
 
-    // Priority 4: Default to Commercial Schedule API (DCSA standard)
-    Logger.info(`CMA CGM: Using Commercial Schedule API (DCSA)`, {
-      carrier: this.carrierCode,
-      params,
-    });
-    return this.scheduleAdapter.getSchedule(params);
+  /**
+   * Get a voyage by code
+   * Uses the Voyage API
+   * @param voyageCode Commercial voyage code
+   * @returns Voyage with its calls
+   */
+  async getVoyage(voyageCode: string): Promise<Voyage> {
+    return this.voyageAdapter.getVoyage(voyageCode);
+  }
+
+  /**
+   * Get the previous or next voyage of the same vessel or service
+   * Uses the Voyage API
+   * @param voyageCode Commercial voyage code
+   * @param direction Previous or next voyage
+   * @param basis Same vessel or same service
+   * @returns Neighbouring voyage with its calls
+   */
+  async getAdjacentVoyage(
+    voyageCode: string,
+    direction: VoyageDirection,
+    basis: VoyageNavigationBasis
+  ): Promise<Voyage> {
+    return this.voyageAdapter.getAdjacentVoyage(voyageCode, direction, basis);
+  }
+
+  /**
+   * Get the proforma rotation and fleet of a service
+   * Uses the Proforma API
+   * @param serviceCode Service code
+   * @returns Service rotation with its proforma calls and vessels
+   */
+  async getServiceRotation(serviceCode: string): Promise<ServiceRotation> {
+    return this.proformaAdapter.getServiceRotation(serviceCode);
   }
 
   /**
@@ -151,5 +435,15 @@ export class CMACGMAdapter implements CarrierAdapter {
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
     return this.trackingAdapter.getTracking(params);
   }
+
+  /**
+   * Get one page of tracking events
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Tracking events and the next page state
+   */
+  async getTrackingPage(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>> {
+    return this.trackingAdapter.getTrackingPage(params, page);
+  }
 }
 
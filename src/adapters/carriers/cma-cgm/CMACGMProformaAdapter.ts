@@ -1,11 +1,24 @@
 /**
  * CMA CGM Proforma Adapter
- * Implements ScheduleAdapter for CMA CGM's Proforma API (Lines & Services)
+ * Implements ScheduleAdapter and ServiceRotationAdapter for CMA CGM's Proforma API (Lines & Services)
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { ServiceRotationAdapter } from '@adapters/carriers/base/ServiceRotationAdapter';
+import { toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ServiceScheduleQuery } from '@domain/models/scheduleQuery';
+import { ProformaCall, ServiceRotation } from '@domain/models/serviceRotation';
+import { Vessel } from '@domain/models/common';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import {
+  fetchAllPages,
+  getFetchAllMaxPages,
+  getNextRangeState,
+  getRangeHeader,
+  singlePage,
+} from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
@@ -76,7 +89,7 @@ interface CMACGMVessel {
  * CMA CGM Proforma Adapter
  * Provides access to Lines & Services data
  */
-export class CMACGMProformaAdapter implements ScheduleAdapter {
+export class CMACGMProformaAdapter implements ScheduleAdapter<ServiceScheduleQuery>, ServiceRotationAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'CMCG';
@@ -94,20 +107,30 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
    * - zoneFromCode + zoneToCode: Search services by zones
    * - port/terminal/vesselIMO: Search services
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(query: ServiceScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(query)).items;
+  }
+
+  /**
+   * Get one page of schedule data from Proforma API
+   * Service searches are paginated with Range / Content-Range; a service lookup returns one page
+   * @param query Service schedule query
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state
+   */
+  async getSchedulePage(query: ServiceScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     const baseEndpoint = this.config.apis.proforma?.endpoint;
     if (!baseEndpoint) {
       throw new Error('Proforma API endpoint not configured for CMA CGM');
     }
 
     // Determine which endpoint to use based on parameters
-    const serviceCode = (params as any).serviceCode || params.carrierServiceCode;
-    const lineCode = (params as any).lineCode;
-    const zoneFromCode = (params as any).zoneFromCode;
-    const zoneToCode = (params as any).zoneToCode;
+    const serviceCode = query.serviceCode || query.carrierServiceCode;
+    const { lineCode, zoneFromCode, zoneToCode } = query;
 
     try {
       let services: CMACGMService[] = [];
+      let headers: Record<string, string | undefined> | undefined;
 
       if (serviceCode) {
         // GET /services/{serviceCode}
@@ -118,7 +141,7 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
           endpoint,
         });
         const service = await this.httpClient.get<CMACGMService>(endpoint);
-        services = [service];
+        return singlePage(this.mapProformaToDCSA([service]));
       } else if (lineCode) {
         // GET /lines/{lineCode}
         const endpoint = `${baseEndpoint}/lines/${encodeURIComponent(lineCode)}`;
@@ -130,9 +153,9 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
         await this.httpClient.get<{ code: string; name: string }>(endpoint);
         // Note: Line doesn't directly return services, need to search services by line
         const searchEndpoint = `${baseEndpoint}/services?lineCode=${encodeURIComponent(lineCode)}`;
-        services = await this.httpClient.get<CMACGMService[]>(searchEndpoint, {
-          headers: { range: '0-49' },
-        });
+        ({ data: services, headers } = await this.httpClient.getWithHeaders<CMACGMService[]>(searchEndpoint, {
+          headers: { range: getRangeHeader(page) },
+        }));
       } else if (zoneFromCode && zoneToCode) {
         // GET /zones/{zoneFromCode}/zones/{zoneToCode}/services
         const endpoint = `${baseEndpoint}/zones/${encodeURIComponent(zoneFromCode)}/zones/${encodeURIComponent(zoneToCode)}/services`;
@@ -142,26 +165,20 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
           zoneToCode,
           endpoint,
         });
-        services = await this.httpClient.get<CMACGMService[]>(endpoint, {
-          headers: { range: '0-49' },
-        });
+        ({ data: services, headers } = await this.httpClient.getWithHeaders<CMACGMService[]>(endpoint, {
+          headers: { range: getRangeHeader(page) },
+        }));
       } else {
         // GET /services (search services)
         const queryParams: Record<string, string> = {};
-        if (params.carrierServiceCode) {
-          queryParams.serviceCode = params.carrierServiceCode;
-        }
-        if ((params as any).port) {
-          queryParams.port = (params as any).port;
-        }
-        if ((params as any).terminal) {
-          queryParams.terminal = (params as any).terminal;
+        if (query.port) {
+          queryParams.port = query.port;
         }
-        if ((params as any).vesselIMO) {
-          queryParams.vesselIMO = (params as any).vesselIMO;
+        if (query.terminal) {
+          queryParams.terminal = query.terminal;
         }
-        if ((params as any).lineCode) {
-          queryParams.lineCode = (params as any).lineCode;
+        if (query.vesselIMO) {
+          queryParams.vesselIMO = query.vesselIMO;
         }
 
         const endpoint = `${baseEndpoint}/services`;
@@ -170,10 +187,10 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
           queryParams,
           endpoint,
         });
-        services = await this.httpClient.get<CMACGMService[]>(endpoint, {
+        ({ data: services, headers } = await this.httpClient.getWithHeaders<CMACGMService[]>(endpoint, {
           params: queryParams,
-          headers: { range: '0-49' },
-        });
+          headers: { range: getRangeHeader(page) },
+        }));
       }
 
       // Convert to DCSA ServiceSchedule format
@@ -183,15 +200,9 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
         count: mapped.length,
         firstService: mapped[0] ? Object.keys(mapped[0]) : [],
       });
-      return mapped;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `CMA CGM Proforma API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return { items: mapped, next: getNextRangeState(headers || {}, page, services.length) };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Proforma API', { carrier: this.carrierCode, endpointType: 'proforma' });
     }
   }
 
@@ -225,37 +236,120 @@ export class CMACGMProformaAdapter implements ScheduleAdapter {
   }
 
   /**
-   * Get service fleet
-   * @param serviceCode Service code
-   * @returns Array of vessels
+   * Get the proforma rotation and fleet of a service
+   * GET /services/{serviceCode}, /services/{serviceCode}/proformacalls and /services/{serviceCode}/fleet
+   * @param serviceCode Service code (main code or carrier code)
+   * @returns Service rotation with its proforma calls in rotation order and its vessels
    */
-  async getServiceFleet(serviceCode: string): Promise<CMACGMVessel[]> {
+  async getServiceRotation(serviceCode: string): Promise<ServiceRotation> {
     const baseEndpoint = this.config.apis.proforma?.endpoint;
     if (!baseEndpoint) {
       throw new Error('Proforma API endpoint not configured for CMA CGM');
     }
 
-    const endpoint = `${baseEndpoint}/services/${encodeURIComponent(serviceCode)}/fleet`;
-    return this.httpClient.get<CMACGMVessel[]>(endpoint, {
-      headers: { range: '0-49' },
-    });
+    const endpoint = `${baseEndpoint}/services/${encodeURIComponent(serviceCode)}`;
+    try {
+      Logger.info(`CMA CGM Proforma: Getting service rotation`, {
+        carrier: this.carrierCode,
+        serviceCode,
+        endpoint,
+      });
+      const [service, calls, fleet] = await Promise.all([
+        this.httpClient.get<CMACGMService>(endpoint),
+        this.getServiceProformaCalls(serviceCode),
+        this.getServiceFleet(serviceCode),
+      ]);
+      const truncated = calls.next.type !== 'EXHAUSTED' || fleet.next.type !== 'EXHAUSTED';
+      if (truncated) {
+        Logger.warn(`CMA CGM Proforma: Service rotation truncated at FETCH_ALL_MAX_PAGES`, {
+          carrier: this.carrierCode,
+          serviceCode,
+          proformaCalls: calls.items.length,
+          fleet: fleet.items.length,
+        });
+      }
+      return { ...this.mapServiceRotation(service, calls.items, fleet.items), truncated };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Proforma API', { carrier: this.carrierCode, endpointType: 'proforma' });
+    }
+  }
+
+  /**
+   * Get service fleet
+   * @param serviceCode Service code
+   * @returns Vessels (every Range page, up to FETCH_ALL_MAX_PAGES) and the next page state
+   */
+  async getServiceFleet(serviceCode: string): Promise<Page<CMACGMVessel>> {
+    return this.getAllRanges<CMACGMVessel>(`/services/${encodeURIComponent(serviceCode)}/fleet`);
   }
 
   /**
    * Get service proforma calls
    * @param serviceCode Service code
-   * @returns Array of proforma calls
+   * @returns Proforma calls in rotation order (every Range page, up to FETCH_ALL_MAX_PAGES) and the next page state
    */
-  async getServiceProformaCalls(serviceCode: string): Promise<CMACGMProformaCall[]> {
+  async getServiceProformaCalls(serviceCode: string): Promise<Page<CMACGMProformaCall>> {
+    return this.getAllRanges<CMACGMProformaCall>(`/services/${encodeURIComponent(serviceCode)}/proformacalls`);
+  }
+
+  /**
+   * Follow the Range pages of a Proforma API list endpoint (up to FETCH_ALL_MAX_PAGES)
+   * @param path Path below the Proforma API endpoint
+   * @returns Merged items; next is EXHAUSTED unless the cap truncated the result
+   */
+  private async getAllRanges<T>(path: string): Promise<Page<T>> {
     const baseEndpoint = this.config.apis.proforma?.endpoint;
     if (!baseEndpoint) {
       throw new Error('Proforma API endpoint not configured for CMA CGM');
     }
 
-    const endpoint = `${baseEndpoint}/services/${encodeURIComponent(serviceCode)}/proformacalls`;
-    return this.httpClient.get<CMACGMProformaCall[]>(endpoint, {
-      headers: { range: '0-49' },
-    });
+    return fetchAllPages<T>(async (page) => {
+      const { data, headers } = await this.httpClient.getWithHeaders<T[]>(`${baseEndpoint}${path}`, {
+        headers: { range: getRangeHeader(page) },
+      });
+      const rows = data || [];
+      return { items: rows, next: getNextRangeState(headers, page, rows.length) };
+    }, getFetchAllMaxPages());
   }
-}
 
+  /**
+   * Map a CMA CGM service with its proforma calls and fleet to the ServiceRotation model
+   */
+  private mapServiceRotation(
+    service: CMACGMService,
+    calls: CMACGMProformaCall[],
+    fleet: CMACGMVessel[]
+  ): ServiceRotation {
+    return {
+      carrier: this.carrierCode,
+      carrierServiceCode: service.code,
+      carrierServiceName: service.name,
+      serviceType: service.serviceType,
+      active: service.active,
+      frequency: service.frequency,
+      departureDay: service.departureDay,
+      rotationDuration: service.rotationDuration,
+      proformaCalls: calls.map(
+        (call, index): ProformaCall => ({
+          sequence: index + 1,
+          UNLocationCode: call.port.unLocode,
+          locationName: call.port.name,
+          carrierLocationCode: call.port.code,
+          facilitySMDGCode: call.terminal?.smdgTerminalCode,
+          carrierTerminalCode: call.terminal?.code,
+          terminalName: call.terminal?.name,
+          bound: call.bound,
+          transitDays: call.transitTime,
+        })
+      ),
+      fleet: fleet.map(
+        (vessel): Vessel => ({
+          vesselIMONumber: vessel.imo,
+          name: vessel.name,
+          operatorCarrierCode: vessel.smdgLinerCode,
+          operatorCarrierCodeListProvider: vessel.smdgLinerCode ? 'SMDG' : undefined,
+        })
+      ),
+    };
+  }
+}
@@ -4,10 +4,19 @@
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { RouteAdapter } from '@adapters/carriers/base/RouteAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule, CutOffTime } from '@domain/models/schedule';
+import { PointToPointScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams, RouteLeg, RouteLocation, RouteModeOfTransport } from '@domain/models/route';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getNextRangeState, getRangeHeader } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
+import { deriveTransshipments, calculateTransitDays } from '@utils/routeUtils';
+import { isSameVessel } from '@utils/scheduleUtils';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * CMA CGM Route API Response Types
@@ -110,11 +119,23 @@ interface CMACGMRoutingDetail {
   };
 }
 
+type CMACGMRoutePoint = CMACGMRoutingDetail['pointFrom'] | CMACGMRoutingDetail['pointTo'];
+
+/**
+ * Mapping of CMA CGM cut-off names to DCSA cut-off codes
+ */
+const CUT_OFF_CODE_MAP: Record<string, string> = {
+  portCutoff: 'FCO',
+  vgm: 'VCO',
+  shippingInstructionAcceptance: 'DCO',
+  earliestReceivingDate: 'EFC',
+};
+
 /**
  * CMA CGM Route Adapter
  * Provides access to Routing Finder (Port-to-Port Schedule)
  */
-export class CMACGMRouteAdapter implements ScheduleAdapter {
+export class CMACGMRouteAdapter implements ScheduleAdapter<PointToPointScheduleQuery>, RouteAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'CMCG';
@@ -132,45 +153,94 @@ export class CMACGMRouteAdapter implements ScheduleAdapter {
    * - placeOfLoading OR unLocodePlaceOfLoading
    * - placeOfDischarge OR unLocodePlaceOfDischarge
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    const baseEndpoint = this.config.apis.route?.endpoint;
-    if (!baseEndpoint) {
-      throw new Error('Route API endpoint not configured for CMA CGM');
-    }
-
-    const placeOfLoading = (params as any).placeOfLoading;
-    const placeOfDischarge = (params as any).placeOfDischarge;
-    const unLocodePlaceOfLoading = (params as any).unLocodePlaceOfLoading;
-    const unLocodePlaceOfDischarge = (params as any).unLocodePlaceOfDischarge;
+  async getSchedule(query: PointToPointScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(query)).items;
+  }
 
+  /**
+   * Get one page of schedule data from Route API (paginated with Range / Content-Range)
+   * @param query Point-to-point schedule query
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state
+   */
+  async getSchedulePage(query: PointToPointScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     // At least one loading and one discharge location must be provided
-    if (!placeOfLoading && !unLocodePlaceOfLoading) {
-      throw new Error('CMA CGM Route API requires placeOfLoading or unLocodePlaceOfLoading parameter');
+    if (!query.placeOfLoading && !query.unLocodePlaceOfLoading) {
+      throw new InvalidParameterError('CMA CGM Route API requires placeOfLoading or unLocodePlaceOfLoading parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'route',
+      });
     }
-    if (!placeOfDischarge && !unLocodePlaceOfDischarge) {
-      throw new Error('CMA CGM Route API requires placeOfDischarge or unLocodePlaceOfDischarge parameter');
+    if (!query.placeOfDischarge && !query.unLocodePlaceOfDischarge) {
+      throw new InvalidParameterError(
+        'CMA CGM Route API requires placeOfDischarge or unLocodePlaceOfDischarge parameter',
+        { carrier: this.carrierCode, endpointType: 'route' }
+      );
     }
 
     const queryParams: Record<string, string | number | boolean | string[]> = {};
-    if (placeOfLoading) queryParams.placeOfLoading = placeOfLoading;
-    if (unLocodePlaceOfLoading) queryParams.unLocodePlaceOfLoading = unLocodePlaceOfLoading;
-    if (placeOfDischarge) queryParams.placeOfDischarge = placeOfDischarge;
-    if (unLocodePlaceOfDischarge) queryParams.unLocodePlaceOfDischarge = unLocodePlaceOfDischarge;
-    if ((params as any).shippingCompany) queryParams.shippingCompany = (params as any).shippingCompany;
-    if ((params as any).departureDate) queryParams.departureDate = (params as any).departureDate;
-    if ((params as any).arrivalDate) queryParams.arrivalDate = (params as any).arrivalDate;
-    if ((params as any).searchRange) queryParams.searchRange = parseInt((params as any).searchRange, 10);
-    if ((params as any).polVesselIMO) queryParams.polVesselIMO = (params as any).polVesselIMO;
-    if ((params as any).polServiceCode) queryParams.polServiceCode = (params as any).polServiceCode;
-    if ((params as any).maxTs) queryParams.maxTs = parseInt((params as any).maxTs, 10);
-    if ((params as any).numberOfTEU) queryParams.numberOfTEU = parseInt((params as any).numberOfTEU, 10);
-    if ((params as any).specificRoutings) {
-      queryParams.specificRoutings = Array.isArray((params as any).specificRoutings)
-        ? (params as any).specificRoutings
-        : [(params as any).specificRoutings];
+    if (query.placeOfLoading) queryParams.placeOfLoading = query.placeOfLoading;
+    if (query.unLocodePlaceOfLoading) queryParams.unLocodePlaceOfLoading = query.unLocodePlaceOfLoading;
+    if (query.placeOfDischarge) queryParams.placeOfDischarge = query.placeOfDischarge;
+    if (query.unLocodePlaceOfDischarge) queryParams.unLocodePlaceOfDischarge = query.unLocodePlaceOfDischarge;
+    if (query.shippingCompany) queryParams.shippingCompany = query.shippingCompany;
+    if (query.departureDate) queryParams.departureDate = query.departureDate;
+    if (query.arrivalDate) queryParams.arrivalDate = query.arrivalDate;
+    if (query.searchRange !== undefined) queryParams.searchRange = query.searchRange;
+    if (query.polVesselIMO) queryParams.polVesselIMO = query.polVesselIMO;
+    if (query.polServiceCode) queryParams.polServiceCode = query.polServiceCode;
+    if (query.maxTs !== undefined) queryParams.maxTs = query.maxTs;
+    if (query.numberOfTEU !== undefined) queryParams.numberOfTEU = query.numberOfTEU;
+    if (query.specificRoutings) queryParams.specificRoutings = query.specificRoutings;
+    if (query.useRoutingStatistics !== undefined) queryParams.useRoutingStatistics = query.useRoutingStatistics;
+
+    const routings = await this.fetchRoutings(queryParams, page);
+    return { items: this.mapRouteToDCSA(routings.items), next: routings.next };
+  }
+
+  /**
+   * Get normalized point-to-point routes
+   * Translates carrier-neutral origin/destination into Routing Finder parameters
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    const queryParams: Record<string, string | number | boolean | string[]> = {
+      unLocodePlaceOfLoading: params.origin,
+      unLocodePlaceOfDischarge: params.destination,
+    };
+    // Routing Finder searches around a single date: departure takes precedence over arrival
+    if (params.departureFrom) {
+      queryParams.departureDate = params.departureFrom;
+      const rangeDays = calculateTransitDays(params.departureFrom, params.departureTo);
+      if (rangeDays) {
+        // searchRange is capped at 35 days by the Routing Finder
+        queryParams.searchRange = Math.min(rangeDays, 35);
+      }
+    } else if (params.arrivalFrom) {
+      queryParams.arrivalDate = params.arrivalFrom;
     }
-    if ((params as any).useRoutingStatistics !== undefined) {
-      queryParams.useRoutingStatistics = (params as any).useRoutingStatistics === 'true' || (params as any).useRoutingStatistics === true;
+    if (params.maxTransshipments !== undefined) {
+      queryParams.maxTs = params.maxTransshipments;
+    }
+
+    const routings = await this.fetchRoutings(queryParams);
+    return routings.items.map((routing) => this.mapRoutingToPointToPoint(routing));
+  }
+
+  /**
+   * Call GET /routings with prepared query parameters
+   * @param queryParams Routing Finder query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Raw routing solutions and the next page state
+   */
+  private async fetchRoutings(
+    queryParams: Record<string, string | number | boolean | string[]>,
+    page?: CarrierPageState
+  ): Promise<Page<CMACGMRouting>> {
+    const baseEndpoint = this.config.apis.route?.endpoint;
+    if (!baseEndpoint) {
+      throw new Error('Route API endpoint not configured for CMA CGM');
     }
 
     try {
@@ -181,21 +251,121 @@ export class CMACGMRouteAdapter implements ScheduleAdapter {
         endpoint,
       });
 
-      const routings = await this.httpClient.get<CMACGMRouting[]>(endpoint, {
+      const { data, headers } = await this.httpClient.getWithHeaders<CMACGMRouting[]>(endpoint, {
         params: queryParams,
-        headers: { range: '0-49' },
+        headers: { range: getRangeHeader(page) },
       });
 
-      return this.mapRouteToDCSA(routings);
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `CMA CGM Route API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
+      const routings = Array.isArray(data) ? data : [];
+      return { items: routings, next: getNextRangeState(headers, page, routings.length) };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Route API', { carrier: this.carrierCode, endpointType: 'route' });
+    }
+  }
+
+  /**
+   * Map a single CMA CGM routing solution to a PointToPointRoute
+   */
+  private mapRoutingToPointToPoint(routing: CMACGMRouting): PointToPointRoute {
+    const legs: RouteLeg[] = routing.routingDetails.map((detail, index) => {
+      const vehicule = detail.transportation.vehicule;
+      const voyageReference = detail.transportation.voyage?.voyageReference;
+      return {
+        sequenceNumber: index + 1,
+        modeOfTransport: this.mapMeanOfTransport(detail.transportation.meanOfTransport),
+        carrierServiceCode: detail.transportation.voyage?.service?.code,
+        carrierExportVoyageNumber: voyageReference,
+        carrierImportVoyageNumber: voyageReference,
+        vessel: vehicule?.reference && vehicule.referenceType === 'IMO'
+          ? {
+              vesselIMONumber: vehicule.reference,
+              name: vehicule.vehiculeName,
+              operatorCarrierCode: vehicule.smdgLinerCode,
+            }
+          : undefined,
+        departure: {
+          location: this.mapLocation(detail.pointFrom),
+          dateTime: detail.pointFrom.departureDateGmt,
+          eventClassifierCode: 'EST',
+        },
+        arrival: {
+          location: this.mapLocation(detail.pointTo),
+          dateTime: detail.pointTo.arrivalDateGmt,
+          eventClassifierCode: 'EST',
+        },
+        transitTime: detail.legTransitTime,
+      };
+    });
+
+    const firstDetail = routing.routingDetails[0];
+
+    return {
+      // solutionNo is only the position in the response, so identify the routing by its legs
+      routingReference: createSyntheticId(this.carrierCode, 'routing', [
+        routing.shippingCompany,
+        ...routing.routingDetails.map((detail) =>
+          [
+            detail.transportation.voyage?.voyageReference,
+            detail.pointFrom.location.internalCode,
+            detail.pointTo.location.internalCode,
+          ].join('/')
+        ),
+      ]),
+      isSyntheticRoutingReference: true,
+      placeOfReceipt: legs[0]?.departure || { location: {} },
+      placeOfDelivery: legs[legs.length - 1]?.arrival || { location: {} },
+      transitTime: routing.transitTime,
+      transshipments: deriveTransshipments(legs),
+      cutOffTimes: firstDetail ? this.mapCutOffs(firstDetail.pointFrom.cutOff) : [],
+      legs,
+    };
+  }
+
+  /**
+   * Map a routing point location to a RouteLocation
+   */
+  private mapLocation(point: CMACGMRoutePoint): RouteLocation {
+    return {
+      UNLocationCode:
+        point.location.locationCodifications?.find((loc) => loc.codificationType === 'UN/Locode')
+          ?.codification || point.location.internalCode,
+      locationName: point.location.name,
+      facilitySMDGCode: point.location.facility?.facilityCodifications?.find(
+        (fac) => fac.codificationType === 'SMDG'
+      )?.codification,
+    };
+  }
+
+  /**
+   * Map CMA CGM cut-off object to DCSA cut-off times (UTC)
+   */
+  private mapCutOffs(cutOff?: CMACGMRoutingDetail['pointFrom']['cutOff']): CutOffTime[] {
+    if (!cutOff) {
+      return [];
+    }
+
+    const cutOffTimes: CutOffTime[] = [];
+    for (const [name, code] of Object.entries(CUT_OFF_CODE_MAP)) {
+      const value = cutOff[name as keyof typeof cutOff];
+      if (value?.utc) {
+        cutOffTimes.push({ cutOffDateTimeCode: code, cutOffDateTime: value.utc });
       }
-      throw error;
     }
+    return cutOffTimes;
+  }
+
+  /**
+   * Map CMA CGM mean of transport to route mode of transport
+   */
+  private mapMeanOfTransport(meanOfTransport?: string): RouteModeOfTransport {
+    const mode = (meanOfTransport || '').toUpperCase();
+    // Combined modes (Rail/Road, Barge/Road, Rail/Barge, Mixed)
+    if (mode.includes('/') || mode === 'MIXED') return 'MULTIMODAL';
+    if (mode === 'BARGE') return 'BARGE';
+    if (mode === 'RAIL') return 'RAIL';
+    if (mode === 'ROAD') return 'TRUCK';
+    // Vessel, Feeder, Third party feeder, Unknown
+    return 'VESSEL';
   }
 
   /**
@@ -219,7 +389,7 @@ export class CMACGMRouteAdapter implements ScheduleAdapter {
           continue;
         }
 
-        const vesselIMO = detail.transportation.vehicule?.reference || '0000000';
+        const vesselIMO = detail.transportation.vehicule?.reference;
         const vesselName = detail.transportation.vehicule?.vehiculeName;
 
         // Skip if no vessel info and no dates (incomplete data)
@@ -241,13 +411,13 @@ export class CMACGMRouteAdapter implements ScheduleAdapter {
         }
 
         const schedule = serviceMap.get(serviceCode)!;
-        let vesselSchedule = schedule.vesselSchedules.find(
-          (vs) => vs.vessel?.vesselIMONumber === vesselIMO
+        let vesselSchedule = schedule.vesselSchedules.find((vs) =>
+          isSameVessel(vs.vessel, { vesselIMONumber: vesselIMO, name: vesselName || 'UNKNOWN' })
         );
 
         if (!vesselSchedule) {
           vesselSchedule = {
-            isDummyVessel: vesselIMO === '0000000' || !vesselName,
+            isDummyVessel: !vesselIMO || !vesselName,
             vessel: {
               vesselIMONumber: vesselIMO,
               name: vesselName || 'UNKNOWN',
@@ -277,7 +447,14 @@ export class CMACGMRouteAdapter implements ScheduleAdapter {
         // Only add transport call if we have at least one timestamp or valid location
         if (timestamps.length > 0 || detail.pointFrom.location.internalCode) {
           const transportCall = {
-            transportCallReference: detail.pointFrom.callId || `route-${routing.solutionNo}-${detail.pointFrom.location.internalCode}-${detail.pointTo.location.internalCode}`,
+            transportCallReference:
+              detail.pointFrom.callId ||
+              createSyntheticId(this.carrierCode, 'transport-call', [
+                detail.transportation.voyage?.voyageReference,
+                detail.pointFrom.location.internalCode,
+                vesselIMO,
+              ]),
+            isSyntheticReference: detail.pointFrom.callId ? undefined : true,
             carrierImportVoyageNumber: detail.transportation.voyage?.voyageReference || 'UNKNOWN',
             carrierExportVoyageNumber: detail.transportation.voyage?.voyageReference || 'UNKNOWN',
             location: {
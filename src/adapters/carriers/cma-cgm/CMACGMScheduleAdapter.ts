@@ -1,18 +1,33 @@
 /**
  * CMA CGM Schedule Adapter
  * Implements ScheduleAdapter for CMA CGM's DCSA-compliant Schedule API
+ * (vessel schedules, plus the port schedules and point-to-point routes of the same Commercial Schedule API)
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { RouteAdapter } from '@adapters/carriers/base/RouteAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { DCSAPortSchedule, mapDCSAPortSchedules } from '@adapters/carriers/base/portScheduleMapper';
+import {
+  DCSAPointToPoint,
+  mapDCSAPointToPointRoute,
+  mapDCSAPointToPointSchedules,
+  toDCSAPointToPointParams,
+} from '@adapters/carriers/base/pointToPointMapper';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PointToPointScheduleQuery, PortScheduleQuery, VesselScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { fetchAllPages, getCursorParam, getFetchAllMaxPages, getNextCursorState } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
+import { Logger } from '@infrastructure/logger/Logger';
 
 /**
  * CMA CGM Schedule Adapter
  * DCSA standard API - direct mapping with minimal transformation
  */
-export class CMACGMScheduleAdapter implements ScheduleAdapter {
+export class CMACGMScheduleAdapter implements ScheduleAdapter<VesselScheduleQuery>, RouteAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'CMCG';
@@ -27,7 +42,17 @@ export class CMACGMScheduleAdapter implements ScheduleAdapter {
    * @param params Query parameters
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(params: VesselScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(params)).items;
+  }
+
+  /**
+   * Get one page of vessel schedules
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state from the Next-Page-Cursor header
+   */
+  async getSchedulePage(params: VesselScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     const endpoint = this.config.apis.schedule?.endpoint;
     if (!endpoint) {
       throw new Error('Schedule API endpoint not configured for CMA CGM');
@@ -72,8 +97,9 @@ export class CMACGMScheduleAdapter implements ScheduleAdapter {
     if (params.limit) {
       queryParams.limit = params.limit.toString();
     }
-    if (params.cursor) {
-      queryParams.cursor = params.cursor;
+    const cursor = getCursorParam(page);
+    if (cursor) {
+      queryParams.cursor = cursor;
     }
 
     // Add API-Version header if needed
@@ -85,21 +111,199 @@ export class CMACGMScheduleAdapter implements ScheduleAdapter {
 
     try {
       // DCSA standard API - response is already in the correct format
-      const response = await this.httpClient.get<ServiceSchedule[]>(endpoint, {
+      const response = await this.httpClient.getWithHeaders<ServiceSchedule[]>(endpoint, {
         params: queryParams,
         headers: headers,
       });
 
-      return response;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `CMA CGM Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return { items: response.data, next: getNextCursorState(response.headers) };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Schedule API', { carrier: this.carrierCode, endpointType: 'schedule' });
     }
   }
-}
 
+  /**
+   * Get port schedules
+   * @param params Query parameters
+   * @returns Array of service schedules
+   */
+  async getPortSchedule(params: PortScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getPortSchedulePage(params)).items;
+  }
+
+  /**
+   * Get one page of port schedules (vessel calls at a port from a date on)
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state from the Next-Page-Cursor header
+   */
+  async getPortSchedulePage(params: PortScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
+    const endpoint = this.config.apis.portSchedule?.endpoint;
+    if (!endpoint) {
+      throw new Error('Port Schedule API endpoint not configured for CMA CGM');
+    }
+
+    if (!params.UNLocationCode) {
+      throw new InvalidParameterError('CMA CGM Port Schedule API requires UNLocationCode parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
+    }
+
+    // date parameter (required) - use startDate or current date
+    const queryParams: Record<string, string> = {
+      UNLocationCode: params.UNLocationCode,
+      date: params.date || params.startDate || new Date().toISOString().split('T')[0],
+    };
+    if (params.limit) {
+      queryParams.limit = params.limit.toString();
+    }
+    const cursor = getCursorParam(page);
+    if (cursor) {
+      queryParams.cursor = cursor;
+    }
+
+    // Add API-Version header if needed
+    const headers: Record<string, string> = {};
+    if (this.config.apis.portSchedule?.version) {
+      const majorVersion = this.config.apis.portSchedule.version.split('.')[0];
+      headers['API-Version'] = majorVersion;
+    }
+
+    try {
+      // DCSA standard API - response is PortSchedule[]
+      const response = await this.httpClient.getWithHeaders<DCSAPortSchedule[]>(endpoint, {
+        params: queryParams,
+        headers: headers,
+      });
+
+      return {
+        items: mapDCSAPortSchedules(this.carrierCode, response.data),
+        next: getNextCursorState(response.headers),
+      };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Port Schedule API', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
+    }
+  }
+
+  /**
+   * Get one page of point-to-point routes as service schedules
+   * @param params Query parameters (placeOfReceipt and placeOfDelivery required)
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state from the Next-Page-Cursor header
+   */
+  async getPointToPointSchedulePage(
+    params: PointToPointScheduleQuery,
+    page?: CarrierPageState
+  ): Promise<Page<ServiceSchedule>> {
+    if (!params.placeOfReceipt || !params.placeOfDelivery) {
+      throw new InvalidParameterError(
+        'CMA CGM Point-to-Point API requires placeOfReceipt and placeOfDelivery (UNLocationCode) parameters',
+        { carrier: this.carrierCode, endpointType: 'pointToPoint' }
+      );
+    }
+
+    // Build query parameters
+    const queryParams: Record<string, string> = {
+      placeOfReceipt: params.placeOfReceipt,
+      placeOfDelivery: params.placeOfDelivery,
+    };
+
+    const departureStartDate = params.departureStartDate || params.startDate;
+    if (departureStartDate) {
+      queryParams.departureStartDate = departureStartDate;
+    }
+    if (params.departureEndDate) {
+      queryParams.departureEndDate = params.departureEndDate;
+    }
+    if (params.arrivalStartDate) {
+      queryParams.arrivalStartDate = params.arrivalStartDate;
+    }
+    if (params.arrivalEndDate) {
+      queryParams.arrivalEndDate = params.arrivalEndDate;
+    }
+    if (params.maxTranshipment !== undefined) {
+      queryParams.maxTranshipment = params.maxTranshipment.toString();
+    }
+    if (params.receiptTypeAtOrigin) {
+      queryParams.receiptTypeAtOrigin = params.receiptTypeAtOrigin;
+    }
+    if (params.deliveryTypeAtDestination) {
+      queryParams.deliveryTypeAtDestination = params.deliveryTypeAtDestination;
+    }
+
+    const { items, next } = await this.fetchPointToPointPage(queryParams, page);
+    return { items: mapDCSAPointToPointSchedules(this.carrierCode, items), next };
+  }
+
+  /**
+   * Get normalized point-to-point routes from the DCSA Point-to-Point API
+   * Every page is fetched (up to FETCH_ALL_MAX_PAGES)
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    const queryParams = toDCSAPointToPointParams(params);
+    const { items, next } = await fetchAllPages(
+      (page) => this.fetchPointToPointPage(queryParams, page),
+      getFetchAllMaxPages()
+    );
+    // Routes carry no page state: the cap can only be reported in the logs
+    if (next.type !== 'EXHAUSTED') {
+      Logger.warn(`CMA CGM Point-to-Point: Routes truncated at FETCH_ALL_MAX_PAGES`, {
+        carrier: this.carrierCode,
+        origin: params.origin,
+        destination: params.destination,
+        routes: items.length,
+      });
+    }
+    return items.map((route) => mapDCSAPointToPointRoute(this.carrierCode, route));
+  }
+
+  /**
+   * Call the Point-to-Point Routes endpoint with prepared query parameters
+   * @param queryParams DCSA Point-to-Point query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Raw DCSA PointToPoint routes and the next page state
+   */
+  private async fetchPointToPointPage(
+    queryParams: Record<string, string>,
+    page?: CarrierPageState
+  ): Promise<Page<DCSAPointToPoint>> {
+    const endpoint = this.config.apis.pointToPoint?.endpoint;
+    if (!endpoint) {
+      throw new Error('Point-to-Point API endpoint not configured for CMA CGM');
+    }
+
+    const cursor = getCursorParam(page);
+    const params = cursor ? { ...queryParams, cursor } : queryParams;
+
+    // Add API-Version header if needed
+    const headers: Record<string, string> = {};
+    if (this.config.apis.pointToPoint?.version) {
+      const majorVersion = this.config.apis.pointToPoint.version.split('.')[0];
+      headers['API-Version'] = majorVersion;
+    }
+
+    try {
+      // DCSA standard API - response is PointToPoint[]
+      const response = await this.httpClient.getWithHeaders<DCSAPointToPoint[]>(endpoint, {
+        params,
+        headers: headers,
+      });
+
+      return {
+        items: Array.isArray(response.data) ? response.data : [],
+        next: getNextCursorState(response.headers),
+      };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Point-to-Point API', {
+        carrier: this.carrierCode,
+        endpointType: 'pointToPoint',
+      });
+    }
+  }
+}
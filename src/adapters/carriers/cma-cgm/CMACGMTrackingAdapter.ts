@@ -4,8 +4,11 @@
  */
 
 import { TrackingAdapter } from '@adapters/carriers/base/TrackingAdapter';
+import { UnexpectedPayloadError, toCarrierError } from '@adapters/carriers/base/CarrierError';
 import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getCursorParam, getNextCursorState } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
@@ -29,6 +32,16 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
    * @returns Array of tracking events
    */
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
+    return (await this.getTrackingPage(params)).items;
+  }
+
+  /**
+   * Get one page of tracking events
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Tracking events and the next page state from the Next-Page-Cursor header
+   */
+  async getTrackingPage(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>> {
     const baseEndpoint = this.config.apis.tracking?.endpoint;
     if (!baseEndpoint) {
       throw new Error('Tracking API endpoint not configured for CMA CGM');
@@ -43,7 +56,8 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
     const trackingReference = params.transportDocumentReference || params.equipmentReference || params.carrierBookingReference;
     
     let endpoint: string;
-    let queryParams: Record<string, string | string[]> = {};
+    const queryParams: Record<string, string | string[]> = {};
+    const cursor = getCursorParam(page);
 
     if (trackingReference) {
       // Use path parameter endpoint: /events/{trackingReference}
@@ -64,8 +78,8 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
       if (params.limit) {
         queryParams.limit = params.limit.toString();
       }
-      if (params.cursor) {
-        queryParams.cursor = params.cursor;
+      if (cursor) {
+        queryParams.cursor = cursor;
       }
     } else {
       // Use query parameter endpoint: /events
@@ -123,8 +137,8 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
       if (params.limit) {
         queryParams.limit = params.limit.toString();
       }
-      if (params.cursor) {
-        queryParams.cursor = params.cursor;
+      if (cursor) {
+        queryParams.cursor = cursor;
       }
     }
 
@@ -138,9 +152,10 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
         queryParams,
       });
       
-      const response = await this.httpClient.get<any>(endpoint, {
+      const { data: response, headers } = await this.httpClient.getWithHeaders<unknown>(endpoint, {
         params: queryParams,
       });
+      const next = getNextCursorState(headers);
 
       Logger.info(`CMA CGM: Received API response`, {
         carrier: this.carrierCode,
@@ -163,11 +178,12 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
           carrier: this.carrierCode,
           responsePreview: response.substring(0, 200),
         });
-        throw new Error(
+        throw new UnexpectedPayloadError(
           'CMA CGM Tracking API returned HTML instead of JSON. This usually indicates:\n' +
           '1. API Key is missing or invalid - check CMCG_API_KEY in .env file\n' +
           '2. API Key header name is incorrect - should be "keyId" (lowercase)\n' +
-          '3. Wrong base URL - verify the API endpoint in CMA CGM API Portal'
+          '3. Wrong base URL - verify the API endpoint in CMA CGM API Portal',
+          { carrier: this.carrierCode, endpointType: 'tracking' }
         );
       }
 
@@ -176,26 +192,20 @@ export class CMACGMTrackingAdapter implements TrackingAdapter {
         Logger.info(`CMA CGM: Returning ${response.length} events`, {
           carrier: this.carrierCode,
         });
-        return response;
+        return { items: response as TrackingEvent[], next };
       }
       // If response is not an array, return empty array or wrap it
       if (response && typeof response === 'object') {
         // Check if response has a data property that is an array
-        if ('data' in response && Array.isArray((response as any).data)) {
-          return (response as any).data;
+        if ('data' in response && Array.isArray(response.data)) {
+          return { items: response.data as TrackingEvent[], next };
         }
         // If response is a single event object, wrap it in an array
-        return [response as TrackingEvent];
-      }
-      return [];
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `CMA CGM Tracking API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
+        return { items: [response as TrackingEvent], next };
       }
-      throw error;
+      return { items: [], next };
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Tracking API', { carrier: this.carrierCode, endpointType: 'tracking' });
     }
   }
 }
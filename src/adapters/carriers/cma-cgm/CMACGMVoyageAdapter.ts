@@ -1,13 +1,21 @@
 /**
  * CMA CGM Voyage Adapter
- * Implements ScheduleAdapter for CMA CGM's Voyage API
+ * Implements ScheduleAdapter and VoyageAdapter for CMA CGM's Voyage API
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { VoyageAdapter } from '@adapters/carriers/base/VoyageAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule, TransportCall, VesselSchedule } from '@domain/models/schedule';
+import { VoyageScheduleQuery } from '@domain/models/scheduleQuery';
+import { Voyage, VoyageDirection, VoyageNavigationBasis } from '@domain/models/voyage';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getNextRangeState, getRangeHeader, singlePage } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
+import { isSameVessel } from '@utils/scheduleUtils';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * CMA CGM Voyage API Response Types
@@ -149,7 +157,7 @@ interface CMACGMCommercialCall {
  * CMA CGM Voyage Adapter
  * Provides access to Voyage operational data
  */
-export class CMACGMVoyageAdapter implements ScheduleAdapter {
+export class CMACGMVoyageAdapter implements ScheduleAdapter<VoyageScheduleQuery>, VoyageAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'CMCG';
@@ -167,18 +175,28 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
    * - from/to dates: Search voyages
    * - portCode/countryCode: Search commercial calls
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(query: VoyageScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(query)).items;
+  }
+
+  /**
+   * Get one page of schedule data from Voyage API
+   * Voyage and call searches are paginated with Range / Content-Range; single lookups return one page
+   * @param query Voyage schedule query
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state
+   */
+  async getSchedulePage(query: VoyageScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     const baseEndpoint = this.config.apis.voyage?.endpoint;
     if (!baseEndpoint) {
       throw new Error('Voyage API endpoint not configured for CMA CGM');
     }
 
-    const voyageCode = (params as any).voyageCode || params.carrierVoyageNumber;
-    const vesselIMO = (params as any).vesselIMO || params.vesselIMONumber;
-    const from = (params as any).from || params.startDate;
-    const to = (params as any).to || params.endDate;
-    const portCode = (params as any).portCode;
-    const countryCode = (params as any).countryCode;
+    const voyageCode = query.voyageCode || query.carrierVoyageNumber;
+    const vesselIMO = query.vesselIMO || query.vesselIMONumber;
+    const from = query.from || query.startDate;
+    const to = query.to || query.endDate;
+    const { portCode, countryCode } = query;
 
     try {
       if (voyageCode) {
@@ -190,7 +208,7 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
           endpoint,
         });
         const voyage = await this.httpClient.get<CMACGMCommercialVoyage>(endpoint);
-        return this.mapVoyageToDCSA([voyage]);
+        return singlePage(this.mapVoyageToDCSA([voyage]));
       } else if (vesselIMO && !from && !to) {
         // GET /vessels/{vesselIMO}/schedule
         const endpoint = `${baseEndpoint}/vessels/${encodeURIComponent(vesselIMO)}/schedule`;
@@ -200,33 +218,17 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
           endpoint,
         });
         const calls = await this.httpClient.get<CMACGMCommercialCall[]>(endpoint, {
-          params: (params as any).shipcomp ? { shipcomp: (params as any).shipcomp } : undefined,
+          params: query.shipcomp ? { shipcomp: query.shipcomp } : undefined,
         });
-        return this.mapCallsToDCSA(calls);
+        return singlePage(this.mapCallsToDCSA(calls));
       } else if (portCode || countryCode) {
         // GET /commercialCalls (search calls) - when portCode or countryCode is provided
         const queryParams: Record<string, string | string[]> = {};
         if (from) queryParams.from = from;
         if (to) queryParams.to = to;
-        if (portCode) {
-          queryParams.portCode = Array.isArray(portCode) ? portCode : [portCode];
-        }
-        if (countryCode) {
-          queryParams.countryCode = Array.isArray(countryCode) ? countryCode : [countryCode];
-        }
-        if (vesselIMO) {
-          queryParams.vesselIMO = Array.isArray(vesselIMO) ? [vesselIMO] : [vesselIMO];
-        }
-        if ((params as any).serviceCode) {
-          queryParams.serviceCode = Array.isArray((params as any).serviceCode)
-            ? (params as any).serviceCode
-            : [(params as any).serviceCode];
-        }
-        if ((params as any).voyageCode) {
-          queryParams.voyageCode = Array.isArray((params as any).voyageCode)
-            ? (params as any).voyageCode
-            : [(params as any).voyageCode];
-        }
+        if (portCode) queryParams.portCode = portCode;
+        if (countryCode) queryParams.countryCode = countryCode;
+        if (vesselIMO) queryParams.vesselIMO = [vesselIMO];
 
         const endpoint = `${baseEndpoint}/commercialCalls`;
         Logger.info(`CMA CGM Voyage: Searching commercial calls`, {
@@ -234,35 +236,28 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
           queryParams,
           endpoint,
         });
-        const calls = await this.httpClient.get<CMACGMCommercialCall[]>(endpoint, {
+        const { data: calls, headers } = await this.httpClient.getWithHeaders<CMACGMCommercialCall[]>(endpoint, {
           params: queryParams,
-          headers: { range: '0-49' },
+          headers: { range: getRangeHeader(page) },
         });
-        return this.mapCallsToDCSA(calls);
+        return {
+          items: this.mapCallsToDCSA(calls),
+          next: getNextRangeState(headers, page, calls.length),
+        };
       } else if (from && to) {
         // GET /commercialVoyages (search voyages) - when only from/to dates are provided
         const queryParams: Record<string, string | string[]> = {
           from,
           to,
         };
-        if ((params as any).searchType) {
-          queryParams.searchType = (params as any).searchType;
-        }
-        if ((params as any).serviceCode) {
-          queryParams.serviceCode = Array.isArray((params as any).serviceCode)
-            ? (params as any).serviceCode
-            : [(params as any).serviceCode];
+        if (query.searchType) {
+          queryParams.searchType = query.searchType;
         }
-        if ((params as any).lineCode) {
-          queryParams.lineCode = (params as any).lineCode;
+        if (query.shipcomp) {
+          queryParams.shipcomp = query.shipcomp;
         }
-        if ((params as any).shipcomp) {
-          queryParams.shipcomp = Array.isArray((params as any).shipcomp)
-            ? (params as any).shipcomp
-            : [(params as any).shipcomp];
-        }
-        if ((params as any).sort) {
-          queryParams.sort = (params as any).sort;
+        if (query.sort) {
+          queryParams.sort = query.sort;
         }
 
         const endpoint = `${baseEndpoint}/commercialVoyages`;
@@ -271,27 +266,144 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
           queryParams,
           endpoint,
         });
-        const voyages = await this.httpClient.get<CMACGMCommercialVoyage[]>(endpoint, {
+        const { data: voyages, headers } = await this.httpClient.getWithHeaders<CMACGMCommercialVoyage[]>(endpoint, {
           params: queryParams,
-          headers: { range: '0-49' },
+          headers: { range: getRangeHeader(page) },
         });
-        return this.mapVoyageToDCSA(voyages);
+        return {
+          items: this.mapVoyageToDCSA(voyages),
+          next: getNextRangeState(headers, page, voyages.length),
+        };
       } else {
-        throw new Error(
-          'CMA CGM Voyage API requires at least one of: voyageCode, vesselIMO, (from and to dates), or (portCode/countryCode)'
-        );
-      }
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `CMA CGM Voyage API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
+        throw new InvalidParameterError(
+          'CMA CGM Voyage API requires at least one of: voyageCode, vesselIMO, (from and to dates), or (portCode/countryCode)',
+          { carrier: this.carrierCode, endpointType: 'voyage' }
         );
       }
-      throw error;
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Voyage API', { carrier: this.carrierCode, endpointType: 'voyage' });
     }
   }
 
+  /**
+   * Get a voyage by code
+   * GET /commercialVoyages/{voyageCode}
+   * @param voyageCode Commercial voyage code or transcodification
+   * @returns Voyage with its calls
+   */
+  async getVoyage(voyageCode: string): Promise<Voyage> {
+    return this.fetchVoyage(`/commercialVoyages/${encodeURIComponent(voyageCode)}`);
+  }
+
+  /**
+   * Get the previous or next voyage of the same vessel or service
+   * GET /commercialVoyages/{voyageCode}/{previous|next}By{Vessel|Service}
+   * By service, voyages are ordered by rotation: after the last voyage of a rotation comes the first of the next one
+   * @param voyageCode Commercial voyage code or transcodification
+   * @param direction Previous or next voyage
+   * @param basis Same vessel or same service
+   * @returns Neighbouring voyage with its calls
+   */
+  async getAdjacentVoyage(
+    voyageCode: string,
+    direction: VoyageDirection,
+    basis: VoyageNavigationBasis
+  ): Promise<Voyage> {
+    const operation = `${direction}By${basis === 'vessel' ? 'Vessel' : 'Service'}`;
+    return this.fetchVoyage(`/commercialVoyages/${encodeURIComponent(voyageCode)}/${operation}`);
+  }
+
+  /**
+   * Call a single-voyage endpoint of the Voyage API
+   * @param path Path below the Voyage API endpoint
+   * @returns Mapped voyage
+   */
+  private async fetchVoyage(path: string): Promise<Voyage> {
+    const baseEndpoint = this.config.apis.voyage?.endpoint;
+    if (!baseEndpoint) {
+      throw new Error('Voyage API endpoint not configured for CMA CGM');
+    }
+
+    const endpoint = `${baseEndpoint}${path}`;
+    try {
+      Logger.info(`CMA CGM Voyage: Getting voyage`, {
+        carrier: this.carrierCode,
+        endpoint,
+      });
+      const voyage = await this.httpClient.get<CMACGMCommercialVoyage>(endpoint);
+      return this.mapVoyage(voyage);
+    } catch (error) {
+      throw toCarrierError(error, 'CMA CGM Voyage API', { carrier: this.carrierCode, endpointType: 'voyage' });
+    }
+  }
+
+  /**
+   * Map a CMA CGM commercial voyage to the Voyage model
+   */
+  private mapVoyage(voyage: CMACGMCommercialVoyage): Voyage {
+    const vesselIMO = voyage.vessel?.imo;
+    return {
+      carrier: this.carrierCode,
+      carrierVoyageNumber: voyage.code,
+      alternateReference: voyage.alternateReference,
+      bound: voyage.bound,
+      statusCode: voyage.statusCode,
+      shippingCompany: voyage.shippingCompany,
+      carrierServiceCode: voyage.service?.code,
+      carrierServiceName: voyage.service?.name,
+      vessel: voyage.vessel
+        ? {
+            vesselIMONumber: vesselIMO,
+            name: voyage.vessel.name,
+          }
+        : undefined,
+      isDummyVessel: !vesselIMO,
+      previousVoyageNumber: voyage.previousVoyage,
+      nextVoyageNumber: voyage.nextVoyage,
+      transportCalls: (voyage.calls || []).map((call) => this.mapVoyageCall(voyage, call)),
+    };
+  }
+
+  /**
+   * Map a call of a full voyage to a DCSA TransportCall
+   */
+  private mapVoyageCall(voyage: CMACGMCommercialVoyage, call: CMACGMCommercialCall): TransportCall {
+    return {
+      transportCallReference: call.id,
+      carrierImportVoyageNumber: voyage.code,
+      carrierExportVoyageNumber: voyage.code,
+      location: {
+        UNLocationCode: call.location.locationCodifications?.find(
+          (loc) => loc.codificationType === 'UN/Locode'
+        )?.codification || call.location.internalCode,
+        locationName: call.location.name,
+        facilitySMDGCode: call.location.facility?.facilityCodifications?.find(
+          (fac) => fac.codificationType === 'SMDG'
+        )?.codification,
+      },
+      timestamps: [
+        ...(call.berthDate
+          ? [
+              {
+                eventTypeCode: 'ARRI' as const,
+                eventClassifierCode: 'EST' as const,
+                eventDateTime: call.berthDate.utc,
+              },
+            ]
+          : []),
+        ...(call.unberthDate
+          ? [
+              {
+                eventTypeCode: 'DEPA' as const,
+                eventClassifierCode: 'EST' as const,
+                eventDateTime: call.unberthDate.utc,
+              },
+            ]
+          : []),
+      ],
+    };
+  }
+
   /**
    * Map CMA CGM Voyage response to DCSA ServiceSchedule format
    * Handles both full voyage details (with calls) and voyage summaries (with startLocation/startDate only)
@@ -318,44 +430,13 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
         const vesselSchedule = {
           isDummyVessel: false,
           vessel: {
-            vesselIMONumber: voyage.vessel.imo || '0000000',
+            vesselIMONumber: voyage.vessel.imo,
             name: voyage.vessel.name,
             vesselCode: voyage.vessel.code,
             smdgLinerCode: voyage.vessel.smdgLinerCode,
           },
           transportCalls: voyage.calls.map((call) => ({
-            transportCallReference: call.id,
-            carrierImportVoyageNumber: voyage.code,
-            carrierExportVoyageNumber: voyage.code,
-            location: {
-              UNLocationCode: call.location.locationCodifications?.find(
-                (loc) => loc.codificationType === 'UN/Locode'
-              )?.codification || call.location.internalCode,
-              locationName: call.location.name,
-              facilitySMDGCode: call.location.facility?.facilityCodifications?.find(
-                (fac) => fac.codificationType === 'SMDG'
-              )?.codification,
-            },
-            timestamps: [
-              ...(call.berthDate
-                ? [
-                    {
-                      eventTypeCode: 'ARRI' as const,
-                      eventClassifierCode: 'EST' as const,
-                      eventDateTime: call.berthDate.utc,
-                    },
-                  ]
-                : []),
-              ...(call.unberthDate
-                ? [
-                    {
-                      eventTypeCode: 'DEPA' as const,
-                      eventClassifierCode: 'EST' as const,
-                      eventDateTime: call.unberthDate.utc,
-                    },
-                  ]
-                : []),
-            ],
+            ...this.mapVoyageCall(voyage, call),
             // Preserve voyage metadata
             voyageMetadata: {
               shippingCompany: voyage.shippingCompany,
@@ -369,17 +450,17 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
         schedule.vesselSchedules.push(vesselSchedule);
       } else if (voyage.startLocation && voyage.startDate) {
         // Voyage summary (from /commercialVoyages endpoint) - use startLocation and startDate
-        const vesselIMO = voyage.vessel.imo || '0000000';
+        const vesselIMO = voyage.vessel.imo;
         const vesselName = voyage.vessel.name || 'UNKNOWN';
         
         // Find or create vessel schedule for this vessel
-        let vesselSchedule = schedule.vesselSchedules.find(
-          (vs: any) => vs.vessel?.vesselIMONumber === vesselIMO
+        let vesselSchedule = schedule.vesselSchedules.find((vs: VesselSchedule) =>
+          isSameVessel(vs.vessel, { vesselIMONumber: vesselIMO, name: vesselName })
         );
         
         if (!vesselSchedule) {
           vesselSchedule = {
-            isDummyVessel: vesselIMO === '0000000',
+            isDummyVessel: !vesselIMO,
             vessel: {
               vesselIMONumber: vesselIMO,
               name: vesselName,
@@ -393,7 +474,13 @@ export class CMACGMVoyageAdapter implements ScheduleAdapter {
 
         // Add transport call from startLocation with facility info
         const transportCall: any = {
-          transportCallReference: `voyage-${voyage.code}-${voyage.startLocation.internalCode}`,
+          // Voyage summaries carry no call ID for the start location
+          transportCallReference: createSyntheticId(this.carrierCode, 'transport-call', [
+            voyage.code,
+            voyage.startLocation.internalCode,
+            vesselIMO,
+          ]),
+          isSyntheticReference: true,
           carrierImportVoyageNumber: voyage.code,
           carrierExportVoyageNumber: voyage.code,
           location: {
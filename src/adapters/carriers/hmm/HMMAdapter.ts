@@ -4,14 +4,74 @@
  */
 
 import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
-import { ScheduleQueryParams, ServiceSchedule } from '@domain/models/schedule';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
 import { TrackingQueryParams, TrackingEvent } from '@domain/models/tracking';
+import { Page } from '@domain/models/pagination';
+import { CarrierCapabilities, QueryMode } from '@domain/models/capability';
+import { singlePage } from '@adapters/http/pagination';
 import { HMMScheduleAdapter } from './HMMScheduleAdapter';
 import { HMMPortScheduleAdapter } from './HMMPortScheduleAdapter';
 import { HMMPTPScheduleAdapter } from './HMMPTPScheduleAdapter';
 import { HMMTrackingAdapter } from './HMMTrackingAdapter';
 import { ConfigLoader } from '@infrastructure/config/ConfigLoader';
 
+/**
+ * HMM query modes, in the order getSchedule checks them
+ * (without a matching schedule mode, the Vessel Schedule API is called and rejects the query)
+ */
+const HMM_QUERY_MODES: QueryMode[] = [
+  {
+    mode: 'VESSEL_SCHEDULE',
+    api: 'schedule',
+    name: 'HMM Vessel Schedule API',
+    description: 'Port rotation of one voyage (vvdCode)',
+    requiredParams: [['carrierVoyageNumber']],
+    optionalParams: ['carrierServiceCode'],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'schedule',
+    name: 'HMM PTP Schedule API',
+    description: 'Point-to-point schedules departing within weekTerm weeks of periodDate',
+    requiredParams: [['fromLocationCode', 'toLocationCode', 'periodDate']],
+    optionalParams: ['weekTerm', 'receiveTermCode', 'deliveryTermCode', 'webSort', 'webPriority'],
+    pagination: 'NONE',
+    dateWindow: { params: ['periodDate', 'weekTerm'], maxRangeDays: 28, defaultRangeDays: 14 },
+  },
+  {
+    mode: 'PORT_SCHEDULE',
+    api: 'schedule',
+    name: 'HMM Port Schedule API',
+    description: 'Vessel calls at a port between two dates',
+    requiredParams: [['UNLocationCode', 'startDate', 'endDate']],
+    optionalParams: ['vesselOperatorCarrierCode'],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'route',
+    name: 'HMM PTP Schedule API',
+    description: 'Point-to-point routes by departure window',
+    requiredParams: [['origin', 'destination']],
+    optionalParams: ['departureFrom', 'departureTo'],
+    pagination: 'NONE',
+    dateWindow: { params: ['departureFrom', 'departureTo'], maxRangeDays: 28 },
+  },
+  {
+    mode: 'TRACKING_REFERENCE',
+    api: 'tracking',
+    name: 'HMM Track & Trace API',
+    description: 'Events of a container within a booking',
+    requiredParams: [['carrierBookingReference', 'equipmentReference']],
+    optionalParams: [],
+    pagination: 'NONE',
+  },
+];
+
 /**
  * HMM Carrier Adapter
  * Combines Schedule and Tracking adapters
@@ -60,38 +120,48 @@ export class HMMAdapter implements CarrierAdapter {
     }
   }
 
+  /**
+   * Get capability descriptor
+   * @returns Query modes of the HMM schedule, route and tracking APIs
+   */
+  getCapabilities(): CarrierCapabilities {
+    return { carrier: this.carrierCode, carrierName: this.carrierName, modes: HMM_QUERY_MODES };
+  }
+
   /**
    * Get vessel schedules
-   * Automatically selects between Vessel Schedule, Port Schedule, and PTP Schedule based on parameters:
-   * - If carrierVoyageNumber is provided: uses Vessel Schedule API
-   * - If UNLocationCode + startDate + endDate are provided: uses Port Schedule API
-   * - If fromLocationCode + toLocationCode + periodDate are provided: uses PTP Schedule API
-   * @param params Query parameters
+   * Uses the API of the query mode (see HMM_QUERY_MODES):
+   * - VESSEL_SCHEDULE: Vessel Schedule API (carrierVoyageNumber)
+   * - POINT_TO_POINT: PTP Schedule API (fromLocationCode + toLocationCode + periodDate)
+   * - PORT_SCHEDULE: Port Schedule API (UNLocationCode + startDate + endDate)
+   * @param query Schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    // Check for PTP Schedule parameters (custom fields)
-    const fromLocationCode = (params as any).fromLocationCode;
-    const toLocationCode = (params as any).toLocationCode;
-    const periodDate = (params as any).periodDate;
-
-    // Determine which API to use based on parameters
-    if (params.carrierVoyageNumber) {
-      // Use Vessel Schedule API (requires vvdCode)
-      return this.scheduleAdapter.getSchedule(params);
-    } else if (fromLocationCode && toLocationCode && periodDate) {
-      // Use PTP Schedule API (requires fromLocationCode, toLocationCode, periodDate)
-      return this.ptpScheduleAdapter.getSchedule(params);
-    } else if (params.UNLocationCode && params.startDate && params.endDate) {
-      // Use Port Schedule API (requires portCode, durationFrom, durationTo)
-      return this.portScheduleAdapter.getSchedule(params);
-    } else {
-      // If neither condition is met, try Vessel Schedule first (will throw error if vvdCode is required)
-      // This maintains backward compatibility
-      return this.scheduleAdapter.getSchedule(params);
+  async getSchedule(query: ScheduleQuery): Promise<ServiceSchedule[]> {
+    switch (query.mode) {
+      case 'VESSEL_SCHEDULE':
+        return this.scheduleAdapter.getSchedule(query);
+      case 'POINT_TO_POINT':
+        return this.ptpScheduleAdapter.getSchedule(query);
+      case 'PORT_SCHEDULE':
+        return this.portScheduleAdapter.getSchedule(query);
+      default:
+        throw new InvalidParameterError(`${this.carrierName} does not support ${query.mode} schedule queries`, {
+          carrier: this.carrierCode,
+        });
     }
   }
 
+  /**
+   * Get point-to-point routes
+   * Uses the PTP Schedule API
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    return this.ptpScheduleAdapter.getRoutes(params);
+  }
+
   /**
    * Get tracking events
    * @param params Query parameters
@@ -100,5 +170,23 @@ export class HMMAdapter implements CarrierAdapter {
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
     return this.trackingAdapter.getTracking(params);
   }
+
+  /**
+   * Get vessel schedules as a single page (HMM schedule APIs are not paginated)
+   * @param query Schedule query
+   * @returns All service schedules, page marked as exhausted
+   */
+  async getSchedulePage(query: ScheduleQuery): Promise<Page<ServiceSchedule>> {
+    return singlePage(await this.getSchedule(query));
+  }
+
+  /**
+   * Get tracking events as a single page (HMM tracking API is not paginated)
+   * @param params Query parameters
+   * @returns All tracking events, page marked as exhausted
+   */
+  async getTrackingPage(params: TrackingQueryParams): Promise<Page<TrackingEvent>> {
+    return singlePage(await this.getTracking(params));
+  }
 }
 
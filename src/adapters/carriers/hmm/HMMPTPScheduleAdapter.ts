@@ -1,13 +1,18 @@
 /**
  * HMM PTP Schedule Adapter
- * Implements ScheduleAdapter for HMM's Point-to-Point Schedule API
+ * Implements ScheduleAdapter and RouteAdapter for HMM's Point-to-Point Schedule API
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { RouteAdapter } from '@adapters/carriers/base/RouteAdapter';
+import { InvalidParameterError, UnexpectedPayloadError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PointToPointScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
-import { mapHMMPTPScheduleToDCSA } from './mappers/ptpScheduleMapper';
+import { mapHMMPTPScheduleToDCSA, mapHMMPTPScheduleToRoutes } from './mappers/ptpScheduleMapper';
+import { describeHMMError } from './mappers/errorMapper';
 
 /**
  * HMM PTP Schedule API Response Structure
@@ -58,7 +63,7 @@ interface HMMPTPScheduleResponse {
  * HMM PTP Schedule Adapter
  * Proprietary API - requires mapper for transformation
  */
-export class HMMPTPScheduleAdapter implements ScheduleAdapter {
+export class HMMPTPScheduleAdapter implements ScheduleAdapter<PointToPointScheduleQuery>, RouteAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'HMM';
@@ -70,46 +75,44 @@ export class HMMPTPScheduleAdapter implements ScheduleAdapter {
 
   /**
    * Get point-to-point schedules
-   * @param params Query parameters
+   * @param query Point-to-point schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    const endpoint = this.config.apis.ptpSchedule?.endpoint;
-    if (!endpoint) {
-      throw new Error('PTP Schedule API endpoint not configured for HMM');
-    }
-
-    // HMM PTP Schedule API requires specific parameters
-    // We'll use custom query parameters that map to HMM's API
-    // fromLocationCode, toLocationCode, periodDate, weekTerm are required
-    
-    // Extract from custom fields or use standard fields
-    const fromLocationCode = (params as any).fromLocationCode || params.UNLocationCode;
-    const toLocationCode = (params as any).toLocationCode;
-    const periodDate = (params as any).periodDate || params.startDate;
-    const weekTerm = (params as any).weekTerm || '2';
-    const receiveTermCode = (params as any).receiveTermCode || 'CY';
-    const deliveryTermCode = (params as any).deliveryTermCode || 'CY';
-    const webSort = (params as any).webSort || 'D';
-    const webPriority = (params as any).webPriority || 'A';
+  async getSchedule(query: PointToPointScheduleQuery): Promise<ServiceSchedule[]> {
+    // HMM PTP Schedule API requires fromLocationCode, toLocationCode, periodDate and weekTerm
+    const { fromLocationCode, toLocationCode, periodDate } = query;
+    const weekTerm = (query.weekTerm || 2).toString();
+    const receiveTermCode = query.receiveTermCode || 'CY';
+    const deliveryTermCode = query.deliveryTermCode || 'CY';
+    const webSort = query.webSort || 'D';
+    const webPriority = query.webPriority || 'A';
 
     if (!fromLocationCode) {
-      throw new Error('HMM PTP Schedule API requires fromLocationCode parameter');
+      throw new InvalidParameterError('HMM PTP Schedule API requires fromLocationCode parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'ptpSchedule',
+      });
     }
 
     if (!toLocationCode) {
-      throw new Error('HMM PTP Schedule API requires toLocationCode parameter');
+      throw new InvalidParameterError('HMM PTP Schedule API requires toLocationCode parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'ptpSchedule',
+      });
     }
 
     if (!periodDate) {
-      throw new Error('HMM PTP Schedule API requires periodDate parameter');
+      throw new InvalidParameterError('HMM PTP Schedule API requires periodDate parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'ptpSchedule',
+      });
     }
 
     // Convert ISO date (YYYY-MM-DD) to HMM format (YYYYMMDD)
     const hmmPeriodDate = convertToHMMDateFormat(periodDate);
 
-    // Build query parameters
-    const queryParams: Record<string, string> = {
+    // Build request parameters (sent both as query parameters and request body)
+    const requestParams: Record<string, string> = {
       fromLocationCode: fromLocationCode,
       receiveTermCode: receiveTermCode,
       toLocationCode: toLocationCode,
@@ -120,64 +123,80 @@ export class HMMPTPScheduleAdapter implements ScheduleAdapter {
 
     // Add optional parameters
     if (webSort) {
-      queryParams.webSort = webSort;
+      requestParams.webSort = webSort;
     }
     if (webPriority) {
-      queryParams.webPriority = webPriority;
+      requestParams.webPriority = webPriority;
     }
 
-    // Build request body (can contain the same parameters)
-    const requestBody: Record<string, any> = {
-      fromLocationCode: fromLocationCode,
-      receiveTermCode: receiveTermCode,
-      toLocationCode: toLocationCode,
-      deliveryTermCode: deliveryTermCode,
-      periodDate: hmmPeriodDate,
-      weekTerm: weekTerm,
+    const response = await this.fetchPTPSchedule(requestParams);
+
+    // Map HMM response to DCSA format
+    return mapHMMPTPScheduleToDCSA(response, fromLocationCode, toLocationCode);
+  }
+
+  /**
+   * Get normalized point-to-point routes
+   * Translates carrier-neutral origin/destination into HMM PTP Schedule parameters
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    const periodDate = params.departureFrom || new Date().toISOString().split('T')[0];
+
+    const requestParams: Record<string, string> = {
+      fromLocationCode: params.origin,
+      receiveTermCode: 'CY',
+      toLocationCode: params.destination,
+      deliveryTermCode: 'CY',
+      periodDate: convertToHMMDateFormat(periodDate),
+      weekTerm: calculateWeekTerm(periodDate, params.departureTo).toString(),
+      webSort: 'D',
+      webPriority: 'A',
     };
 
-    if (webSort) {
-      requestBody.webSort = webSort;
-    }
-    if (webPriority) {
-      requestBody.webPriority = webPriority;
+    const response = await this.fetchPTPSchedule(requestParams);
+    return mapHMMPTPScheduleToRoutes(response);
+  }
+
+  /**
+   * Call the PTP Schedule endpoint
+   * @param requestParams HMM PTP Schedule parameters
+   * @returns Raw HMM PTP Schedule response
+   */
+  private async fetchPTPSchedule(requestParams: Record<string, string>): Promise<HMMPTPScheduleResponse> {
+    const endpoint = this.config.apis.ptpSchedule?.endpoint;
+    if (!endpoint) {
+      throw new Error('PTP Schedule API endpoint not configured for HMM');
     }
 
     try {
-      // HMM uses POST method with body and query parameters
+      // HMM uses POST method with body and query parameters (read-only query, safe to retry)
       const response = await this.httpClient.post<HMMPTPScheduleResponse>(
         endpoint,
-        requestBody,
+        { ...requestParams },
         {
-          params: queryParams,
+          params: requestParams,
+          idempotent: true,
         }
       );
 
       // Check for errors in response
       if (response.resultCode && response.resultCode !== 'Success') {
-        throw new Error(
-          `HMM PTP Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`
+        throw new UnexpectedPayloadError(
+          `HMM PTP Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`,
+          { carrier: this.carrierCode, endpointType: 'ptpSchedule' }
         );
       }
 
-      // Map HMM response to DCSA format
-      return mapHMMPTPScheduleToDCSA(response, fromLocationCode, toLocationCode);
-    } catch (error: any) {
-      if (error.response) {
-        const errorData = error.response.data;
-        if (errorData?.errors) {
-          throw new Error(
-            `HMM PTP Schedule API error: ${errorData.statusCode || error.response.status} ` +
-            `${errorData.statusCodeText || error.response.statusText} - ` +
-            `${errorData.errors.reason || 'Unknown error'}: ${errorData.errors.message || ''}`
-          );
-        }
-        throw new Error(
-          `HMM PTP Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return response;
+    } catch (error) {
+      throw toCarrierError(
+        error,
+        'HMM PTP Schedule API',
+        { carrier: this.carrierCode, endpointType: 'ptpSchedule' },
+        describeHMMError
+      );
     }
   }
 }
@@ -192,3 +211,19 @@ function convertToHMMDateFormat(dateStr: string): string {
   return dateStr.replace(/[-T:]/g, '').substring(0, 8);
 }
 
+/**
+ * Calculate HMM weekTerm (search window in weeks, max 4) from a departure range
+ * @param departureFrom Range start (ISO date)
+ * @param departureTo Range end (ISO date)
+ * @returns Number of weeks to search
+ */
+function calculateWeekTerm(departureFrom: string, departureTo?: string): number {
+  if (!departureTo) {
+    return 2;
+  }
+  const days = (new Date(departureTo).getTime() - new Date(departureFrom).getTime()) / (1000 * 60 * 60 * 24);
+  if (isNaN(days) || days <= 0) {
+    return 1;
+  }
+  return Math.min(4, Math.ceil(days / 7));
+}
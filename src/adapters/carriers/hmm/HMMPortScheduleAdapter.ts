@@ -4,10 +4,13 @@
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { InvalidParameterError, UnexpectedPayloadError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PortScheduleQuery } from '@domain/models/scheduleQuery';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { mapHMMScheduleToDCSA } from './mappers/scheduleMapper';
+import { describeHMMError } from './mappers/errorMapper';
 
 /**
  * HMM Port Schedule API Response Structure
@@ -49,7 +52,7 @@ interface HMMPortScheduleResponse {
  * HMM Port Schedule Adapter
  * Proprietary API - uses same mapper as Vessel Schedule
  */
-export class HMMPortScheduleAdapter implements ScheduleAdapter {
+export class HMMPortScheduleAdapter implements ScheduleAdapter<PortScheduleQuery> {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'HMM';
@@ -64,7 +67,7 @@ export class HMMPortScheduleAdapter implements ScheduleAdapter {
    * @param params Query parameters
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(params: PortScheduleQuery): Promise<ServiceSchedule[]> {
     const endpoint = this.config.apis.portSchedule?.endpoint;
     if (!endpoint) {
       throw new Error('Port Schedule API endpoint not configured for HMM');
@@ -72,15 +75,24 @@ export class HMMPortScheduleAdapter implements ScheduleAdapter {
 
     // HMM Port Schedule API requires portCode, startDate, endDate
     if (!params.UNLocationCode) {
-      throw new Error('HMM Port Schedule API requires UNLocationCode (portCode) parameter');
+      throw new InvalidParameterError('HMM Port Schedule API requires UNLocationCode (portCode) parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
     }
 
     if (!params.startDate) {
-      throw new Error('HMM Port Schedule API requires startDate (durationFrom) parameter');
+      throw new InvalidParameterError('HMM Port Schedule API requires startDate (durationFrom) parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
     }
 
     if (!params.endDate) {
-      throw new Error('HMM Port Schedule API requires endDate (durationTo) parameter');
+      throw new InvalidParameterError('HMM Port Schedule API requires endDate (durationTo) parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
     }
 
     // Convert ISO date (YYYY-MM-DD) to HMM format (YYYYMMDD)
@@ -112,40 +124,33 @@ export class HMMPortScheduleAdapter implements ScheduleAdapter {
     }
 
     try {
-      // HMM uses POST method with body and query parameters
+      // HMM uses POST method with body and query parameters (read-only query, safe to retry)
       const response = await this.httpClient.post<HMMPortScheduleResponse>(
         endpoint,
         requestBody,
         {
           params: queryParams,
+          idempotent: true,
         }
       );
 
       // Check for errors in response
       if (response.resultCode && response.resultCode !== 'Success') {
-        throw new Error(
-          `HMM Port Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`
+        throw new UnexpectedPayloadError(
+          `HMM Port Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`,
+          { carrier: this.carrierCode, endpointType: 'portSchedule' }
         );
       }
 
       // Map HMM response to DCSA format (same mapper as Vessel Schedule)
-      return mapHMMScheduleToDCSA(response, params.carrierServiceCode);
-    } catch (error: any) {
-      if (error.response) {
-        const errorData = error.response.data;
-        if (errorData?.errors) {
-          throw new Error(
-            `HMM Port Schedule API error: ${errorData.statusCode || error.response.status} ` +
-            `${errorData.statusCodeText || error.response.statusText} - ` +
-            `${errorData.errors.reason || 'Unknown error'}: ${errorData.errors.message || ''}`
-          );
-        }
-        throw new Error(
-          `HMM Port Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return mapHMMScheduleToDCSA(response);
+    } catch (error) {
+      throw toCarrierError(
+        error,
+        'HMM Port Schedule API',
+        { carrier: this.carrierCode, endpointType: 'portSchedule' },
+        describeHMMError
+      );
     }
   }
 }
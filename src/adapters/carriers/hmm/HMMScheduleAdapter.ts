@@ -4,10 +4,13 @@
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { InvalidParameterError, UnexpectedPayloadError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { VesselScheduleQuery } from '@domain/models/scheduleQuery';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { mapHMMScheduleToDCSA } from './mappers/scheduleMapper';
+import { describeHMMError } from './mappers/errorMapper';
 
 /**
  * HMM Schedule API Response Structure
@@ -49,7 +52,7 @@ interface HMMScheduleResponse {
  * HMM Schedule Adapter
  * Proprietary API - requires mapper for transformation
  */
-export class HMMScheduleAdapter implements ScheduleAdapter {
+export class HMMScheduleAdapter implements ScheduleAdapter<VesselScheduleQuery> {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'HMM';
@@ -64,7 +67,7 @@ export class HMMScheduleAdapter implements ScheduleAdapter {
    * @param params Query parameters
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(params: VesselScheduleQuery): Promise<ServiceSchedule[]> {
     const endpoint = this.config.apis.schedule?.endpoint;
     if (!endpoint) {
       throw new Error('Schedule API endpoint not configured for HMM');
@@ -73,7 +76,10 @@ export class HMMScheduleAdapter implements ScheduleAdapter {
     // HMM API requires vvdCode (carrierVoyageNumber) as a required parameter
     // If not provided, we cannot make the request
     if (!params.carrierVoyageNumber) {
-      throw new Error('HMM Schedule API requires carrierVoyageNumber (vvdCode) parameter');
+      throw new InvalidParameterError('HMM Schedule API requires carrierVoyageNumber (vvdCode) parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'schedule',
+      });
     }
 
     // Build request body for POST request
@@ -88,40 +94,33 @@ export class HMMScheduleAdapter implements ScheduleAdapter {
     }
 
     try {
-      // HMM uses POST method with body and query parameters
+      // HMM uses POST method with body and query parameters (read-only query, safe to retry)
       const response = await this.httpClient.post<HMMScheduleResponse>(
         endpoint,
         requestBody,
         {
           params: queryParams,
+          idempotent: true,
         }
       );
 
       // Check for errors in response
       if (response.resultCode && response.resultCode !== 'Success') {
-        throw new Error(
-          `HMM Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`
+        throw new UnexpectedPayloadError(
+          `HMM Schedule API error: ${response.resultCode} - ${response.resultMessage || 'Unknown error'}`,
+          { carrier: this.carrierCode, endpointType: 'schedule' }
         );
       }
 
       // Map HMM response to DCSA format
       return mapHMMScheduleToDCSA(response, params.carrierServiceCode);
-    } catch (error: any) {
-      if (error.response) {
-        const errorData = error.response.data;
-        if (errorData?.errors) {
-          throw new Error(
-            `HMM Schedule API error: ${errorData.statusCode || error.response.status} ` +
-            `${errorData.statusCodeText || error.response.statusText} - ` +
-            `${errorData.errors.reason || 'Unknown error'}: ${errorData.errors.message || ''}`
-          );
-        }
-        throw new Error(
-          `HMM Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+    } catch (error) {
+      throw toCarrierError(
+        error,
+        'HMM Schedule API',
+        { carrier: this.carrierCode, endpointType: 'schedule' },
+        describeHMMError
+      );
     }
   }
 }
@@ -4,10 +4,12 @@
  */
 
 import { TrackingAdapter } from '@adapters/carriers/base/TrackingAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
 import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { mapHMMTrackingToDCSA } from './mappers/trackingMapper';
+import { describeHMMError } from './mappers/errorMapper';
 
 /**
  * HMM Tracking API Response Structure
@@ -63,8 +65,9 @@ export class HMMTrackingAdapter implements TrackingAdapter {
 
     // HMM API requires both carrierBookingReference and equipmentReference
     if (!params.carrierBookingReference || !params.equipmentReference) {
-      throw new Error(
-        'HMM Tracking API requires both carrierBookingReference and equipmentReference parameters'
+      throw new InvalidParameterError(
+        'HMM Tracking API requires both carrierBookingReference and equipmentReference parameters',
+        { carrier: this.carrierCode, endpointType: 'tracking' }
       );
     }
 
@@ -82,22 +85,13 @@ export class HMMTrackingAdapter implements TrackingAdapter {
 
       // Map HMM response to DCSA format
       return mapHMMTrackingToDCSA(response);
-    } catch (error: any) {
-      if (error.response) {
-        const errorData = error.response.data;
-        if (errorData?.errors) {
-          throw new Error(
-            `HMM Tracking API error: ${errorData.statusCode || error.response.status} ` +
-            `${errorData.statusCodeText || error.response.statusText} - ` +
-            `${errorData.errors.reason || 'Unknown error'}: ${errorData.errors.message || ''}`
-          );
-        }
-        throw new Error(
-          `HMM Tracking API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+    } catch (error) {
+      throw toCarrierError(
+        error,
+        'HMM Tracking API',
+        { carrier: this.carrierCode, endpointType: 'tracking' },
+        describeHMMError
+      );
     }
   }
 }
@@ -0,0 +1,28 @@
+/**
+ * HMM Error Mapper
+ * Describes HMM's proprietary API error payload for carrier error messages
+ */
+
+/**
+ * HMM API Error Response Structure
+ */
+interface HMMErrorResponse {
+  statusCode?: string | number;
+  statusCodeText?: string;
+  errors?: {
+    reason?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Describe an HMM error response body
+ * @param data Response body of the failed request
+ * @returns "reason: message" if HMM returned its error structure, otherwise the JSON body
+ */
+export function describeHMMError(data: HMMErrorResponse): string {
+  if (data?.errors) {
+    return `${data.errors.reason || 'Unknown error'}: ${data.errors.message || ''}`;
+  }
+  return JSON.stringify(data);
+}
@@ -1,9 +1,13 @@
 /**
  * HMM PTP Schedule Mapper
- * Maps HMM's Point-to-Point Schedule API response to DCSA ServiceSchedule model
+ * Maps HMM's Point-to-Point Schedule API response to DCSA ServiceSchedule and PointToPointRoute models
  */
 
-import { ServiceSchedule, VesselSchedule, TransportCall, Timestamp } from '@domain/models/schedule';
+import { ServiceSchedule, VesselSchedule, TransportCall, Timestamp, CutOffTime } from '@domain/models/schedule';
+import { PointToPointRoute, RouteLeg, RouteLocation } from '@domain/models/route';
+import { UnexpectedPayloadError } from '@adapters/carriers/base/CarrierError';
+import { deriveTransshipments } from '@utils/routeUtils';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * HMM PTP Schedule API Response Structure
@@ -85,7 +89,13 @@ export function mapHMMPTPScheduleToDCSA(
       });
 
       transportCalls.push({
-        transportCallReference: generateTransportCallReference(item.globaRouteMapNo || '', item.loadingPortCode, 'LOADING'),
+        transportCallReference: generateTransportCallReference(
+          item.globaRouteMapNo || '',
+          extractVoyageNumber(item.vessel),
+          item.loadingPortCode,
+          'LOADING'
+        ),
+        isSyntheticReference: true,
         carrierImportVoyageNumber: extractVoyageNumber(item.vessel),
         carrierExportVoyageNumber: extractVoyageNumber(item.vessel),
         location: {
@@ -120,7 +130,13 @@ export function mapHMMPTPScheduleToDCSA(
 
       if (transshipTimestamps.length > 0) {
         transportCalls.push({
-          transportCallReference: generateTransportCallReference(item.globaRouteMapNo || '', item.transshipPortCode, 'TRANSSHIP'),
+          transportCallReference: generateTransportCallReference(
+            item.globaRouteMapNo || '',
+            extractVoyageNumber(item.vessel, 2),
+            item.transshipPortCode,
+            'TRANSSHIP'
+          ),
+          isSyntheticReference: true,
           carrierImportVoyageNumber: extractVoyageNumber(item.vessel, 2),
           carrierExportVoyageNumber: extractVoyageNumber(item.vessel, 2),
           location: {
@@ -145,7 +161,13 @@ export function mapHMMPTPScheduleToDCSA(
       });
 
       transportCalls.push({
-        transportCallReference: generateTransportCallReference(item.globaRouteMapNo || '', item.dischargePortCode, 'DISCHARGE'),
+        transportCallReference: generateTransportCallReference(
+          item.globaRouteMapNo || '',
+          extractVoyageNumber(item.vessel, item.vessel?.length || 1),
+          item.dischargePortCode,
+          'DISCHARGE'
+        ),
+        isSyntheticReference: true,
         carrierImportVoyageNumber: extractVoyageNumber(item.vessel, item.vessel?.length || 1),
         carrierExportVoyageNumber: extractVoyageNumber(item.vessel, item.vessel?.length || 1),
         location: {
@@ -179,8 +201,7 @@ export function mapHMMPTPScheduleToDCSA(
         isDummyVessel: vesselNames === 'UNKNOWN',
         vessel: vesselNames !== 'UNKNOWN'
           ? {
-              vesselIMONumber: '0000000', // HMM API doesn't provide IMO
-              name: vesselNames,
+              name: vesselNames, // HMM API doesn't provide the IMO number
             }
           : undefined,
         transportCalls: transportCalls.length > 0 ? transportCalls : undefined,
@@ -199,6 +220,119 @@ export function mapHMMPTPScheduleToDCSA(
   return serviceSchedules;
 }
 
+/**
+ * Map HMM PTP Schedule response to PointToPointRoute array
+ * Each result item is one routing; each entry of its vessel array becomes a leg
+ * @param hmmResponse HMM API response
+ * @returns Array of point-to-point routes
+ */
+export function mapHMMPTPScheduleToRoutes(hmmResponse: HMMPTPScheduleResponse): PointToPointRoute[] {
+  if (!hmmResponse.resultData || hmmResponse.resultData.length === 0) {
+    return [];
+  }
+
+  return hmmResponse.resultData.map((item) => {
+    const loadingLocation: RouteLocation = {
+      UNLocationCode: item.loadingPortCode,
+      locationName: item.loadingPortName,
+      facilitySMDGCode: item.loadingTerminalCode,
+    };
+    const transshipLocation: RouteLocation | undefined = item.transshipPortCode
+      ? {
+          UNLocationCode: item.transshipPortCode,
+          locationName: item.transshipPortName,
+          facilitySMDGCode: item.transshipTerminalCode,
+        }
+      : undefined;
+    const dischargeLocation: RouteLocation = {
+      UNLocationCode: item.dischargePortCode,
+      locationName: item.dischargePortName,
+      facilitySMDGCode: item.dischargeTerminalCode,
+    };
+
+    // HMM may return trailing empty vessel entries
+    const vessels = (item.vessel || [])
+      .filter(v => v.vesselName)
+      .sort((a, b) => (a.vesselSequence || 0) - (b.vesselSequence || 0));
+    const lastIndex = vessels.length - 1;
+
+    const legs: RouteLeg[] = vessels.map((v, index) => {
+      // HMM only reports a single transshipment port code; other intermediate ports are names only
+      let departureLocation: RouteLocation = { locationName: v.loadPort };
+      if (index === 0) {
+        departureLocation = loadingLocation;
+      } else if (index === 1 && transshipLocation) {
+        departureLocation = transshipLocation;
+      }
+
+      let arrivalLocation: RouteLocation = { locationName: v.dischargePort };
+      if (index === lastIndex) {
+        arrivalLocation = dischargeLocation;
+      } else if (index === 0 && transshipLocation) {
+        arrivalLocation = transshipLocation;
+      }
+
+      const departureDateTime = v.vesselDepartureDate || (index === 0 ? item.departureDate : undefined);
+      const arrivalDateTime = v.vesselArrivalDate || (index === lastIndex ? item.arrivalDate : undefined);
+
+      return {
+        sequenceNumber: index + 1,
+        modeOfTransport: 'VESSEL',
+        carrierServiceCode: v.vesselLoop,
+        carrierExportVoyageNumber: v.voyageNumber,
+        carrierImportVoyageNumber: v.voyageNumber,
+        vessel: {
+          name: v.vesselName, // HMM API doesn't provide the IMO number
+        },
+        departure: {
+          location: departureLocation,
+          dateTime: departureDateTime ? normalizeDateTime(departureDateTime) : undefined,
+          eventClassifierCode: 'EST',
+        },
+        arrival: {
+          location: arrivalLocation,
+          dateTime: arrivalDateTime ? normalizeDateTime(arrivalDateTime) : undefined,
+          eventClassifierCode: 'EST',
+        },
+      };
+    });
+
+    const cutOffTimes: CutOffTime[] = [];
+    if (item.cargoCutOffTime) {
+      cutOffTimes.push({
+        cutOffDateTimeCode: 'FCO',
+        cutOffDateTime: normalizeDateTime(item.cargoCutOffTime),
+      });
+    }
+
+    return {
+      // Without a route map number, identify the routing by its ports and voyages
+      routingReference:
+        item.globaRouteMapNo ||
+        createSyntheticId('HMM', 'routing', [
+          item.loadingPortCode,
+          item.dischargePortCode,
+          ...vessels.map((v) => v.voyageNumber || v.vesselCode),
+        ]),
+      isSyntheticRoutingReference: item.globaRouteMapNo ? undefined : true,
+      placeOfReceipt: {
+        location: loadingLocation,
+        dateTime: item.departureDate ? normalizeDateTime(item.departureDate) : undefined,
+        eventClassifierCode: 'EST',
+      },
+      placeOfDelivery: {
+        location: dischargeLocation,
+        dateTime: item.arrivalDate ? normalizeDateTime(item.arrivalDate) : undefined,
+        eventClassifierCode: 'EST',
+      },
+      transitTime: item.totalTransitDay,
+      transshipments: deriveTransshipments(legs),
+      cutOffTimes,
+      legs,
+    };
+  });
+}
+
 /**
  * Normalize datetime string to ISO 8601 format
  * @param dateTime DateTime string (may be ISO format or other)
@@ -206,7 +340,10 @@ export function mapHMMPTPScheduleToDCSA(
  */
 function normalizeDateTime(dateTime: string): string {
   if (!dateTime) {
-    throw new Error('Invalid datetime string');
+    throw new UnexpectedPayloadError('HMM Point-to-Point Schedule API returned an empty date/time', {
+      carrier: 'HMM',
+      endpointType: 'ptpSchedule',
+    });
   }
 
   // If already in ISO format, return as is (ensure Z suffix)
@@ -217,7 +354,10 @@ function normalizeDateTime(dateTime: string): string {
   // Try to parse and convert
   const date = new Date(dateTime);
   if (isNaN(date.getTime())) {
-    throw new Error(`Invalid datetime format: ${dateTime}`);
+    throw new UnexpectedPayloadError(`HMM Point-to-Point Schedule API returned an invalid date/time: ${dateTime}`, {
+      carrier: 'HMM',
+      endpointType: 'ptpSchedule',
+    });
   }
 
   return date.toISOString();
@@ -239,13 +379,19 @@ function extractVoyageNumber(vessels?: HMMPTPScheduleItem['vessel'], index: numb
 }
 
 /**
- * Generate transport call reference
+ * Generate transport call reference (HMM PTP schedules carry no call ID)
  * @param routeMapNo Route map number
+ * @param voyageNumber Voyage number of the call
  * @param portCode Port code
  * @param type Call type
- * @returns Transport call reference
+ * @returns Synthetic transport call reference
  */
-function generateTransportCallReference(routeMapNo: string, portCode: string, type: string): string {
-  return `HMM-PTP-${routeMapNo}-${portCode}-${type}-${Date.now()}`;
+function generateTransportCallReference(
+  routeMapNo: string,
+  voyageNumber: string,
+  portCode: string,
+  type: string
+): string {
+  return createSyntheticId('HMM', 'transport-call', [routeMapNo, voyageNumber, portCode, type]);
 }
 
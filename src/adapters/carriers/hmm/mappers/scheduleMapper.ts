@@ -4,6 +4,8 @@
  */
 
 import { ServiceSchedule, VesselSchedule, TransportCall, Timestamp } from '@domain/models/schedule';
+import { UnexpectedPayloadError } from '@adapters/carriers/base/CarrierError';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * HMM Schedule API Response Structure
@@ -88,6 +90,8 @@ export function mapHMMScheduleToDCSA(
 
     for (const [vesselName, vesselItems] of vesselMap.entries()) {
       const transportCalls: TransportCall[] = [];
+      // Calls per port so far, distinguishes repeated calls at the same port on one voyage
+      const portCallCounts = new Map<string, number>();
 
       // Sort items by sequence (if available) or by arrival date
       const sortedItems = [...vesselItems].sort((a, b) => {
@@ -122,8 +126,12 @@ export function mapHMMScheduleToDCSA(
           continue;
         }
 
+        const portCallSequence = (portCallCounts.get(item.portCode || '') || 0) + 1;
+        portCallCounts.set(item.portCode || '', portCallSequence);
+
         const transportCall: TransportCall = {
-          transportCallReference: generateTransportCallReference(vvdCode, item.portCode || ''),
+          transportCallReference: generateTransportCallReference(vvdCode, item.portCode || '', portCallSequence),
+          isSyntheticReference: true,
           carrierImportVoyageNumber: vvdCode,
           carrierExportVoyageNumber: vvdCode,
           location: {
@@ -141,8 +149,7 @@ export function mapHMMScheduleToDCSA(
         isDummyVessel: vesselName === 'UNKNOWN',
         vessel: vesselName !== 'UNKNOWN'
           ? {
-              vesselIMONumber: '0000000', // HMM API doesn't provide IMO, using placeholder
-              name: vesselName,
+              name: vesselName, // HMM API doesn't provide the IMO number
             }
           : undefined,
         transportCalls: transportCalls.length > 0 ? transportCalls : undefined,
@@ -172,11 +179,16 @@ export function mapHMMScheduleToDCSA(
  */
 function convertHMMDateTime(dateStr: string, timeStr: string): string {
   if (!dateStr || dateStr.length !== 8) {
-    throw new Error(`Invalid date format: ${dateStr}. Expected YYYYMMDD`);
+    // Used by the vessel and port schedule APIs: the adapter's endpoint type is not known here
+    throw new UnexpectedPayloadError(`HMM Schedule API returned an invalid date: ${dateStr}. Expected YYYYMMDD`, {
+      carrier: 'HMM',
+    });
   }
 
   if (!timeStr || timeStr.length !== 4) {
-    throw new Error(`Invalid time format: ${timeStr}. Expected HHMM`);
+    throw new UnexpectedPayloadError(`HMM Schedule API returned an invalid time: ${timeStr}. Expected HHMM`, {
+      carrier: 'HMM',
+    });
   }
 
   const year = dateStr.substring(0, 4);
@@ -227,12 +239,13 @@ function extractServiceCodeFromVVD(vvdCode: string): string {
 }
 
 /**
- * Generate transport call reference
+ * Generate transport call reference (HMM schedules carry no call ID)
  * @param vvdCode Voyage code
  * @param portCode Port code
- * @returns Transport call reference
+ * @param portCallSequence Occurrence of the port on the voyage (1 = first call)
+ * @returns Synthetic transport call reference
  */
-function generateTransportCallReference(vvdCode: string, portCode: string): string {
-  return `HMM-${vvdCode}-${portCode}-${Date.now()}`;
+function generateTransportCallReference(vvdCode: string, portCode: string, portCallSequence: number): string {
+  return createSyntheticId('HMM', 'transport-call', [vvdCode, portCode, portCallSequence]);
 }
 
@@ -4,6 +4,7 @@
  */
 
 import { TrackingEvent, TransportEvent, ShipmentEvent, EquipmentEvent } from '@domain/models/tracking';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * HMM Tracking API Response Structure
@@ -124,8 +125,10 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
         eventCreatedDateTime: hmmEvent.eventCreatedDateTime || new Date().toISOString(),
         eventType: 'SHIPMENT',
         eventClassifierCode: (hmmEvent.eventClassifierCode as any) || 'EST',
-        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime || new Date().toISOString(),
+        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime,
         shipmentEventTypeCode: (hmmEvent.shipmentEventTypeCode as any) || 'RECE',
+        // Flag placeholder codes so milestone mapping ignores them
+        carrierSpecificData: hmmEvent.shipmentEventTypeCode ? undefined : { eventTypeCodeDefaulted: true },
         documentID: hmmEvent.documentId || '',
         documentTypeCode: (hmmEvent.documentTypeCode as any) || 'BKG',
         shipmentID: hmmEvent.shipmentID,
@@ -152,10 +155,14 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
         transportCall = transportCallMap.get(hmmEvent.transportCall.transportCallID);
       }
 
-      // If still no transportCall, create a minimal one
+      // If still no transportCall, create a minimal one identified by the event
       if (!transportCall) {
         transportCall = {
-          transportCallID: hmmEvent.transportCall?.transportCallID || `temp-${Date.now()}`,
+          transportCallID: createSyntheticId('HMM', 'transport-call', [
+            hmmEvent.transportEventTypeCode,
+            ...getFallbackCallKeys(hmmEvent),
+          ]),
+          isSyntheticID: true,
           modeOfTransport: (hmmEvent.transportCall?.modeOfTransport as any) || 'VESSEL',
         };
       }
@@ -165,8 +172,9 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
         eventCreatedDateTime: hmmEvent.eventCreatedDateTime || new Date().toISOString(),
         eventType: 'TRANSPORT',
         eventClassifierCode: (hmmEvent.eventClassifierCode as any) || 'EST',
-        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime || new Date().toISOString(),
+        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime,
         transportEventTypeCode: (hmmEvent.transportEventTypeCode as any) || 'ARRI',
+        carrierSpecificData: hmmEvent.transportEventTypeCode ? undefined : { eventTypeCodeDefaulted: true },
         transportCall: transportCall,
         delayReasonCode: hmmEvent.delayReasonCode,
         changeRemark: hmmEvent.changeRemark,
@@ -196,10 +204,16 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
         transportCall = transportCallMap.get(hmmEvent.transportCall.transportCallID);
       }
 
-      // If still no transportCall, create a minimal one
+      // If still no transportCall, create a minimal one identified by the event
       if (!transportCall) {
         transportCall = {
-          transportCallID: hmmEvent.transportCall?.transportCallID || `temp-${Date.now()}`,
+          transportCallID: createSyntheticId('HMM', 'transport-call', [
+            hmmEvent.equipmentEventTypeCode,
+            hmmEvent.equipmentReference,
+            hmmEvent.eventLocation,
+            ...getFallbackCallKeys(hmmEvent),
+          ]),
+          isSyntheticID: true,
           modeOfTransport: (hmmEvent.transportCall?.modeOfTransport as any) || 'VESSEL',
         };
       }
@@ -209,8 +223,9 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
         eventCreatedDateTime: hmmEvent.eventCreatedDateTime || new Date().toISOString(),
         eventType: 'EQUIPMENT',
         eventClassifierCode: (hmmEvent.eventClassifierCode as any) || 'EST',
-        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime || new Date().toISOString(),
+        eventDateTime: hmmEvent.eventDateTime || hmmEvent.eventCreatedDateTime,
         equipmentEventTypeCode: (hmmEvent.equipmentEventTypeCode as any) || 'GTIN',
+        carrierSpecificData: hmmEvent.equipmentEventTypeCode ? undefined : { eventTypeCodeDefaulted: true },
         equipmentReference: hmmEvent.equipmentReference,
         ISOEquipmentCode: hmmEvent.ISOEquipmentCode || hmmResponse.equipment?.ISOEquipmentCode,
         emptyIndicatorCode: (hmmEvent.emptyIndicatorCode?.toUpperCase() as any) || 'LADEN',
@@ -241,12 +256,32 @@ export function mapHMMTrackingToDCSA(hmmResponse: HMMTrackingResponse): Tracking
   return events;
 }
 
+/**
+ * Natural keys of an event's transport call when HMM returns none: event ID and document references
+ * The event time is left out so that revised estimates keep the same call ID
+ */
+function getFallbackCallKeys(hmmEvent: HMMTransportEvent | HMMEquipmentEvent): string[] {
+  const documentReferences = (hmmEvent.documentReferences || [])
+    .map((ref) => `${ref.documentReferenceType || ''}:${ref.documentReferenceValue || ''}`)
+    .sort();
+  return [hmmEvent.eventID || '', ...documentReferences];
+}
+
 /**
  * Map HMM TransportCall to DCSA TransportCall
+ * Calls without an HMM ID get a synthetic ID from voyage, port, terminal and call sequence
  */
 function mapHMMTransportCallToDCSA(hmmTc: HMMTransportCall): any {
   return {
-    transportCallID: hmmTc.transportCallID || `temp-${Date.now()}`,
+    transportCallID:
+      hmmTc.transportCallID ||
+      createSyntheticId('HMM', 'transport-call', [
+        hmmTc.exportVoyageNumber || hmmTc.importVoyageNumber,
+        hmmTc.UNLocationCode || hmmTc.location,
+        hmmTc.facilityCode,
+        hmmTc.transportCallSequenceNumber,
+      ]),
+    isSyntheticID: hmmTc.transportCallID ? undefined : true,
     carrierServiceCode: hmmTc.carrierServiceCode,
     exportVoyageNumber: hmmTc.exportVoyageNumber,
     importVoyageNumber: hmmTc.importVoyageNumber,
@@ -4,8 +4,14 @@
  */
 
 import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
-import { ScheduleQueryParams, ServiceSchedule } from '@domain/models/schedule';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
 import { TrackingQueryParams, TrackingEvent } from '@domain/models/tracking';
+import { CarrierPageState, Page } from '@domain/models/pagination';
+import { CarrierCapabilities, QueryMode } from '@domain/models/capability';
+import { singlePage } from '@adapters/http/pagination';
 import { MaerskScheduleAdapter } from './MaerskScheduleAdapter';
 import { MaerskPointToPointAdapter } from './MaerskPointToPointAdapter';
 import { MaerskPortScheduleAdapter } from './MaerskPortScheduleAdapter';
@@ -13,6 +19,100 @@ import { MaerskTrackingAdapter } from './MaerskTrackingAdapter';
 import { ConfigLoader } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
+/**
+ * Maersk query modes, in the order getSchedulePage checks them
+ */
+const MAERSK_QUERY_MODES: QueryMode[] = [
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'schedule',
+    name: 'Maersk Point-to-Point Routes API',
+    description: 'Routes between a place of receipt and a place of delivery',
+    requiredParams: [['placeOfReceipt', 'placeOfDelivery']],
+    optionalParams: [
+      'startDate',
+      'departureStartDate',
+      'departureEndDate',
+      'arrivalStartDate',
+      'arrivalEndDate',
+      'maxTranshipment',
+      'receiptTypeAtOrigin',
+      'deliveryTypeAtDestination',
+      'cargoType',
+      'ISOEquipmentCode',
+      'stuffingWeight',
+      'stuffingVolume',
+    ],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'PORT_SCHEDULE',
+    api: 'schedule',
+    name: 'Maersk Port Schedule API (DCSA)',
+    description: 'Vessel calls at a port on a date',
+    requiredParams: [
+      ['UNLocationCode', 'date'],
+      ['UNLocationCode', 'startDate'],
+    ],
+    optionalParams: ['limit'],
+    excludedParams: ['vesselIMONumber', 'carrierVoyageNumber', 'carrierServiceCode'],
+    pagination: 'CURSOR',
+  },
+  {
+    mode: 'VESSEL_SCHEDULE',
+    api: 'schedule',
+    name: 'Maersk Vessel Schedule API (DCSA)',
+    description: 'DCSA vessel schedules; used when no other schedule mode matches',
+    requiredParams: [],
+    optionalParams: [
+      'vesselIMONumber',
+      'vesselName',
+      'carrierServiceCode',
+      'universalServiceReference',
+      'carrierVoyageNumber',
+      'universalVoyageReference',
+      'UNLocationCode',
+      'facilitySMDGCode',
+      'vesselOperatorCarrierCode',
+      'startDate',
+      'endDate',
+      'limit',
+    ],
+    pagination: 'CURSOR',
+    dateWindow: { params: ['startDate', 'endDate'], maxPastDays: 90, maxFutureDays: 180 },
+  },
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'route',
+    name: 'Maersk Point-to-Point Routes API',
+    description: 'Point-to-point routes by departure or arrival window',
+    requiredParams: [['origin', 'destination']],
+    optionalParams: ['departureFrom', 'departureTo', 'arrivalFrom', 'arrivalTo', 'maxTransshipments'],
+    pagination: 'NONE',
+  },
+  {
+    mode: 'TRACKING_REFERENCE',
+    api: 'tracking',
+    name: 'Maersk Track & Trace API (DCSA)',
+    description: 'Events of a booking, B/L or container',
+    requiredParams: [['carrierBookingReference'], ['transportDocumentReference'], ['equipmentReference']],
+    optionalParams: [
+      'eventType',
+      'shipmentEventTypeCode',
+      'transportEventTypeCode',
+      'equipmentEventTypeCode',
+      'documentTypeCode',
+      'vesselIMONumber',
+      'exportVoyageNumber',
+      'carrierServiceCode',
+      'UNLocationCode',
+      'eventCreatedDateTime',
+      'limit',
+    ],
+    pagination: 'CURSOR',
+  },
+];
+
 /**
  * Maersk Carrier Adapter
  * Combines Schedule and Tracking adapters
@@ -65,47 +165,71 @@ export class MaerskAdapter implements CarrierAdapter {
     }
   }
 
+  /**
+   * Get capability descriptor
+   * @returns Query modes of the Maersk schedule, route and tracking APIs
+   */
+  getCapabilities(): CarrierCapabilities {
+    return { carrier: this.carrierCode, carrierName: this.carrierName, modes: MAERSK_QUERY_MODES };
+  }
+
   /**
    * Get vessel schedules
-   * Automatically selects between Point-to-Point Routes, Port Schedule, and Vessel Schedule based on parameters
-   * @param params Query parameters
+   * Uses the Point-to-Point Routes, Port Schedule or Vessel Schedule API depending on the query mode
+   * @param query Schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    const placeOfReceipt = (params as any).placeOfReceipt;
-    const placeOfDelivery = (params as any).placeOfDelivery;
-    const date = (params as any).date;
-    const vesselIMONumber = params.vesselIMONumber;
-    const carrierVoyageNumber = params.carrierVoyageNumber;
-    const carrierServiceCode = params.carrierServiceCode;
-
-    // Priority 1: Point-to-Point Routes API
-    if (placeOfReceipt && placeOfDelivery) {
-      Logger.info(`Maersk: Using Point-to-Point Routes API`, {
-        carrier: this.carrierCode,
-        placeOfReceipt,
-        placeOfDelivery,
-      });
-      return this.pointToPointAdapter.getSchedule(params);
-    }
+  async getSchedule(query: ScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(query)).items;
+  }
 
-    // Priority 2: Port Schedule API
-    // Use Port Schedule if UNLocationCode and date are provided, and no vessel-specific params
-    if (params.UNLocationCode && (date || params.startDate) && !vesselIMONumber && !carrierVoyageNumber && !carrierServiceCode) {
-      Logger.info(`Maersk: Using Port Schedule API`, {
-        carrier: this.carrierCode,
-        UNLocationCode: params.UNLocationCode,
-        date: date || params.startDate,
-      });
-      return this.portScheduleAdapter.getSchedule(params);
+  /**
+   * Get one page of vessel schedules from the API of the query mode (see MAERSK_QUERY_MODES)
+   * @param query Schedule query
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state
+   */
+  async getSchedulePage(query: ScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
+    switch (query.mode) {
+      case 'POINT_TO_POINT':
+        Logger.info(`Maersk: Using Point-to-Point Routes API`, {
+          carrier: this.carrierCode,
+          placeOfReceipt: query.placeOfReceipt,
+          placeOfDelivery: query.placeOfDelivery,
+        });
+        // Point-to-Point results are not paginated
+        return singlePage(await this.pointToPointAdapter.getSchedule(query));
+
+      case 'PORT_SCHEDULE':
+        Logger.info(`Maersk: Using Port Schedule API`, {
+          carrier: this.carrierCode,
+          UNLocationCode: query.UNLocationCode,
+          date: query.date || query.startDate,
+        });
+        return this.portScheduleAdapter.getSchedulePage(query, page);
+
+      case 'VESSEL_SCHEDULE':
+        Logger.info(`Maersk: Using Vessel Schedule API`, {
+          carrier: this.carrierCode,
+          query,
+        });
+        return this.scheduleAdapter.getSchedulePage(query, page);
+
+      default:
+        throw new InvalidParameterError(`${this.carrierName} does not support ${query.mode} schedule queries`, {
+          carrier: this.carrierCode,
+        });
     }
+  }
 
-    // Priority 3: Default to Vessel Schedule API
-    Logger.info(`Maersk: Using Vessel Schedule API`, {
-      carrier: this.carrierCode,
-      params,
-    });
-    return this.scheduleAdapter.getSchedule(params);
+  /**
+   * Get point-to-point routes
+   * Uses the Point-to-Point Routes API
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    return this.pointToPointAdapter.getRoutes(params);
   }
 
   /**
@@ -116,5 +240,15 @@ export class MaerskAdapter implements CarrierAdapter {
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
     return this.trackingAdapter.getTracking(params);
   }
+
+  /**
+   * Get one page of tracking events
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Tracking events and the next page state
+   */
+  async getTrackingPage(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>> {
+    return this.trackingAdapter.getTrackingPage(params, page);
+  }
 }
 
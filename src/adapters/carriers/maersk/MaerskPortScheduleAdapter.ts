@@ -4,59 +4,21 @@
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { DCSAPortSchedule, mapDCSAPortSchedules } from '@adapters/carriers/base/portScheduleMapper';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PortScheduleQuery } from '@domain/models/scheduleQuery';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getCursorParam, getNextCursorState } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
-/**
- * Maersk Port Schedule API Response Types (DCSA Standard)
- */
-interface MaerskPortSchedule {
-  location: {
-    locationName?: string;
-    UNLocationCode?: string;
-    facilitySMDGCode?: string;
-  };
-  vesselSchedules: Array<{
-    universalServiceReference?: string;
-    servicePartners: Array<{
-      carrierCode?: string;
-      carrierCodeListProvider?: 'SMDG' | 'NMFTA';
-      carrierServiceName: string;
-      carrierServiceCode: string;
-      carrierImportVoyageNumber: string;
-      carrierExportVoyageNumber: string;
-    }>;
-    vessel?: {
-      vesselIMONumber: string;
-      MMSINumber?: string;
-      name: string;
-      flag?: string;
-      callSign?: string;
-      operatorCarrierCode?: string;
-      operatorCarrierCodeListProvider?: 'SMDG' | 'NMFTA';
-    };
-    isDummyVessel: boolean;
-    universalImportVoyageReference?: string;
-    universalExportVoyageReference?: string;
-    timestamps: Array<{
-      eventTypeCode: 'ARRI' | 'DEPA';
-      eventClassifierCode: 'ACT' | 'EST' | 'PLN';
-      eventDateTime: string;
-    }>;
-    cutOffTimes?: Array<{
-      cutOffDateTimeCode: string;
-      cutOffDateTime: string;
-    }>;
-  }>;
-}
-
 /**
  * Maersk Port Schedule Adapter
- * DCSA standard API - maps PortSchedule[] to ServiceSchedule[]
+ * DCSA standard API - maps PortSchedule[] to ServiceSchedule[] (see portScheduleMapper)
  */
-export class MaerskPortScheduleAdapter implements ScheduleAdapter {
+export class MaerskPortScheduleAdapter implements ScheduleAdapter<PortScheduleQuery> {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'MAERSK';
@@ -71,7 +33,17 @@ export class MaerskPortScheduleAdapter implements ScheduleAdapter {
    * @param params Query parameters
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(params: PortScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(params)).items;
+  }
+
+  /**
+   * Get one page of port schedules
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state from the Next-Page-Cursor header
+   */
+  async getSchedulePage(params: PortScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     const endpoint = this.config.apis.portSchedule?.endpoint;
     if (!endpoint) {
       throw new Error('Port Schedule API endpoint not configured for Maersk');
@@ -79,11 +51,14 @@ export class MaerskPortScheduleAdapter implements ScheduleAdapter {
 
     // Required parameters
     if (!params.UNLocationCode) {
-      throw new Error('Maersk Port Schedule API requires UNLocationCode parameter');
+      throw new InvalidParameterError('Maersk Port Schedule API requires UNLocationCode parameter', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
     }
     
     // date parameter (required) - use startDate or current date
-    const date = (params as any).date || params.startDate || new Date().toISOString().split('T')[0];
+    const date = params.date || params.startDate || new Date().toISOString().split('T')[0];
 
     // Build query parameters
     const queryParams: Record<string, string> = {
@@ -94,8 +69,9 @@ export class MaerskPortScheduleAdapter implements ScheduleAdapter {
     if (params.limit) {
       queryParams.limit = params.limit.toString();
     }
-    if (params.cursor) {
-      queryParams.cursor = params.cursor;
+    const cursor = getCursorParam(page);
+    if (cursor) {
+      queryParams.cursor = cursor;
     }
 
     // Add API-Version header if needed
@@ -114,102 +90,21 @@ export class MaerskPortScheduleAdapter implements ScheduleAdapter {
       });
 
       // DCSA standard API - response is PortSchedule[]
-      const response = await this.httpClient.get<MaerskPortSchedule[]>(endpoint, {
+      const response = await this.httpClient.getWithHeaders<DCSAPortSchedule[]>(endpoint, {
         params: queryParams,
         headers: headers,
       });
 
       // Map PortSchedule[] to ServiceSchedule[]
-      return this.mapPortScheduleToDCSA(response);
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `Maersk Port Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
-    }
-  }
-
-  /**
-   * Map Maersk Port Schedule response to DCSA ServiceSchedule format
-   * Groups schedules by service and creates ServiceSchedule entries
-   */
-  private mapPortScheduleToDCSA(portSchedules: MaerskPortSchedule[]): ServiceSchedule[] {
-    const serviceMap = new Map<string, ServiceSchedule>();
-
-    for (const portSchedule of portSchedules) {
-      for (const vesselSchedule of portSchedule.vesselSchedules) {
-        // Get service code from servicePartners
-        const servicePartner = vesselSchedule.servicePartners?.[0];
-        if (!servicePartner) {
-          continue;
-        }
-
-        const serviceCode = servicePartner.carrierServiceCode;
-        const serviceName = servicePartner.carrierServiceName;
-
-        if (!serviceMap.has(serviceCode)) {
-          serviceMap.set(serviceCode, {
-            carrierServiceCode: serviceCode,
-            carrierServiceName: serviceName,
-            universalServiceReference: vesselSchedule.universalServiceReference,
-            vesselSchedules: [],
-          });
-        }
-
-        const schedule = serviceMap.get(serviceCode)!;
-        const vesselIMO = vesselSchedule.vessel?.vesselIMONumber || '0000000';
-
-        // Find or create vessel schedule
-        let vs = schedule.vesselSchedules.find(
-          (v) => v.vessel?.vesselIMONumber === vesselIMO
-        );
-
-        if (!vs) {
-          vs = {
-            isDummyVessel: vesselSchedule.isDummyVessel,
-            vessel: vesselSchedule.vessel ? {
-              vesselIMONumber: vesselSchedule.vessel.vesselIMONumber,
-              name: vesselSchedule.vessel.name,
-              MMSINumber: vesselSchedule.vessel.MMSINumber,
-              flag: vesselSchedule.vessel.flag,
-              callSign: vesselSchedule.vessel.callSign,
-              operatorCarrierCode: vesselSchedule.vessel.operatorCarrierCode,
-              operatorCarrierCodeListProvider: vesselSchedule.vessel.operatorCarrierCodeListProvider,
-            } : undefined,
-            transportCalls: [],
-          };
-          schedule.vesselSchedules.push(vs);
-        }
-
-        // Add transport call from port schedule
-        const transportCall = {
-          transportCallReference: `port-${portSchedule.location.UNLocationCode}-${vesselSchedule.servicePartners[0].carrierExportVoyageNumber}`,
-          carrierImportVoyageNumber: vesselSchedule.servicePartners[0].carrierImportVoyageNumber,
-          carrierExportVoyageNumber: vesselSchedule.servicePartners[0].carrierExportVoyageNumber,
-          universalImportVoyageReference: vesselSchedule.universalImportVoyageReference,
-          universalExportVoyageReference: vesselSchedule.universalExportVoyageReference,
-          location: {
-            UNLocationCode: portSchedule.location.UNLocationCode,
-            locationName: portSchedule.location.locationName,
-            facilitySMDGCode: portSchedule.location.facilitySMDGCode,
-          },
-          timestamps: vesselSchedule.timestamps,
-          cutOffTimes: vesselSchedule.cutOffTimes,
-        };
-
-        if (vs.transportCalls) {
-          vs.transportCalls.push(transportCall);
-        }
-      }
+      return {
+        items: mapDCSAPortSchedules(this.carrierCode, response.data),
+        next: getNextCursorState(response.headers),
+      };
+    } catch (error) {
+      throw toCarrierError(error, 'Maersk Port Schedule API', {
+        carrier: this.carrierCode,
+        endpointType: 'portSchedule',
+      });
     }
-
-    // Filter out services with no vessel schedules
-    return Array.from(serviceMap.values()).filter(
-      (schedule) => schedule.vesselSchedules.length > 0
-    );
   }
 }
-
@@ -4,15 +4,19 @@
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { VesselScheduleQuery } from '@domain/models/scheduleQuery';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getCursorParam, getNextCursorState } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 
 /**
  * Maersk Schedule Adapter
  * DCSA standard API - direct mapping with minimal transformation
  */
-export class MaerskScheduleAdapter implements ScheduleAdapter {
+export class MaerskScheduleAdapter implements ScheduleAdapter<VesselScheduleQuery> {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'MAERSK';
@@ -27,7 +31,17 @@ export class MaerskScheduleAdapter implements ScheduleAdapter {
    * @param params Query parameters
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(params: VesselScheduleQuery): Promise<ServiceSchedule[]> {
+    return (await this.getSchedulePage(params)).items;
+  }
+
+  /**
+   * Get one page of vessel schedules
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Service schedules and the next page state from the Next-Page-Cursor header
+   */
+  async getSchedulePage(params: VesselScheduleQuery, page?: CarrierPageState): Promise<Page<ServiceSchedule>> {
     const endpoint = this.config.apis.schedule?.endpoint;
     if (!endpoint) {
       throw new Error('Schedule API endpoint not configured for Maersk');
@@ -46,9 +60,10 @@ export class MaerskScheduleAdapter implements ScheduleAdapter {
       maxDate.setDate(maxDate.getDate() + 180);
       
       if (startDate < minDate || startDate > maxDate) {
-        throw new Error(
+        throw new InvalidParameterError(
           `Maersk Vessel Schedule API: Start Date must be within 90 days past and 180 days future from today. ` +
-          `Received: ${params.startDate}, Valid range: ${minDate.toISOString().split('T')[0]} to ${maxDate.toISOString().split('T')[0]}`
+          `Received: ${params.startDate}, Valid range: ${minDate.toISOString().split('T')[0]} to ${maxDate.toISOString().split('T')[0]}`,
+          { carrier: this.carrierCode, endpointType: 'schedule' }
         );
       }
     }
@@ -65,9 +80,10 @@ export class MaerskScheduleAdapter implements ScheduleAdapter {
       maxDate.setDate(maxDate.getDate() + 180);
       
       if (endDate < minDate || endDate > maxDate) {
-        throw new Error(
+        throw new InvalidParameterError(
           `Maersk Vessel Schedule API: End Date must be within 90 days past and 180 days future from today. ` +
-          `Received: ${params.endDate}, Valid range: ${minDate.toISOString().split('T')[0]} to ${maxDate.toISOString().split('T')[0]}`
+          `Received: ${params.endDate}, Valid range: ${minDate.toISOString().split('T')[0]} to ${maxDate.toISOString().split('T')[0]}`,
+          { carrier: this.carrierCode, endpointType: 'schedule' }
         );
       }
     }
@@ -111,8 +127,9 @@ export class MaerskScheduleAdapter implements ScheduleAdapter {
     if (params.limit) {
       queryParams.limit = params.limit.toString();
     }
-    if (params.cursor) {
-      queryParams.cursor = params.cursor;
+    const cursor = getCursorParam(page);
+    if (cursor) {
+      queryParams.cursor = cursor;
     }
 
     // Add API-Version header if needed
@@ -124,20 +141,14 @@ export class MaerskScheduleAdapter implements ScheduleAdapter {
 
     try {
       // DCSA standard API - response is already in the correct format
-      const response = await this.httpClient.get<ServiceSchedule[]>(endpoint, {
+      const response = await this.httpClient.getWithHeaders<ServiceSchedule[]>(endpoint, {
         params: queryParams,
         headers: headers,
       });
 
-      return response;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `Maersk Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return { items: response.data, next: getNextCursorState(response.headers) };
+    } catch (error) {
+      throw toCarrierError(error, 'Maersk Schedule API', { carrier: this.carrierCode, endpointType: 'schedule' });
     }
   }
 }
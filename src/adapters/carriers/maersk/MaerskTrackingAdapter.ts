@@ -4,8 +4,11 @@
  */
 
 import { TrackingAdapter } from '@adapters/carriers/base/TrackingAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
 import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierPageState, Page } from '@domain/models/pagination';
 import { HttpClient } from '@adapters/http/HttpClient';
+import { getCursorParam, getNextCursorState } from '@adapters/http/pagination';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
 
 /**
@@ -28,6 +31,16 @@ export class MaerskTrackingAdapter implements TrackingAdapter {
    * @returns Array of tracking events
    */
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
+    return (await this.getTrackingPage(params)).items;
+  }
+
+  /**
+   * Get one page of tracking events
+   * @param params Query parameters
+   * @param page Page state to continue from (first page when omitted)
+   * @returns Tracking events and the next page state from the Next-Page-Cursor header
+   */
+  async getTrackingPage(params: TrackingQueryParams, page?: CarrierPageState): Promise<Page<TrackingEvent>> {
     const endpoint = this.config.apis.tracking?.endpoint;
     if (!endpoint) {
       throw new Error('Tracking API endpoint not configured for Maersk');
@@ -39,9 +52,10 @@ export class MaerskTrackingAdapter implements TrackingAdapter {
       !params.transportDocumentReference &&
       !params.equipmentReference
     ) {
-      throw new Error(
+      throw new InvalidParameterError(
         'Maersk Tracking API requires at least one of: carrierBookingReference, ' +
-        'transportDocumentReference, or equipmentReference'
+        'transportDocumentReference, or equipmentReference',
+        { carrier: this.carrierCode, endpointType: 'tracking' }
       );
     }
 
@@ -90,8 +104,9 @@ export class MaerskTrackingAdapter implements TrackingAdapter {
     if (params.limit) {
       queryParams.limit = params.limit.toString();
     }
-    if (params.cursor) {
-      queryParams.cursor = params.cursor;
+    const cursor = getCursorParam(page);
+    if (cursor) {
+      queryParams.cursor = cursor;
     }
 
     // Add API-Version header if needed
@@ -104,20 +119,14 @@ export class MaerskTrackingAdapter implements TrackingAdapter {
     try {
       // DCSA standard API - response is already in the correct format
       // Note: Maersk returns {events: TrackingEvent[]} wrapper, so we need to extract events
-      const response = await this.httpClient.get<{ events: TrackingEvent[] }>(endpoint, {
+      const response = await this.httpClient.getWithHeaders<{ events: TrackingEvent[] }>(endpoint, {
         params: queryParams,
         headers: headers,
       });
 
-      return response.events || [];
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `Maersk Tracking API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+      return { items: response.data.events || [], next: getNextCursorState(response.headers) };
+    } catch (error) {
+      throw toCarrierError(error, 'Maersk Tracking API', { carrier: this.carrierCode, endpointType: 'tracking' });
     }
   }
 }
@@ -4,12 +4,63 @@
  */
 
 import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
-import { ScheduleQueryParams, ServiceSchedule } from '@domain/models/schedule';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
 import { TrackingQueryParams, TrackingEvent } from '@domain/models/tracking';
+import { Page } from '@domain/models/pagination';
+import { CarrierCapabilities, QueryMode } from '@domain/models/capability';
+import { singlePage } from '@adapters/http/pagination';
 import { ZIMScheduleAdapter } from './ZIMScheduleAdapter';
 import { ZIMTrackingAdapter } from './ZIMTrackingAdapter';
 import { ConfigLoader } from '@infrastructure/config/ConfigLoader';
 
+/**
+ * ZIM query modes
+ */
+const ZIM_QUERY_MODES: QueryMode[] = [
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'schedule',
+    name: 'ZIM Point-to-Point Schedule API',
+    description: 'Point-to-point schedules departing between startDate and endDate',
+    requiredParams: [['originCode', 'destCode']],
+    optionalParams: ['startDate', 'endDate'],
+    pagination: 'NONE',
+    dateWindow: { params: ['startDate', 'endDate'], defaultRangeDays: 28 },
+  },
+  {
+    mode: 'POINT_TO_POINT',
+    api: 'route',
+    name: 'ZIM Point-to-Point Schedule API',
+    description: 'Point-to-point routes by departure or arrival window',
+    requiredParams: [['origin', 'destination']],
+    optionalParams: ['departureFrom', 'departureTo', 'arrivalFrom', 'arrivalTo'],
+    pagination: 'NONE',
+    dateWindow: { params: ['departureFrom', 'departureTo', 'arrivalFrom', 'arrivalTo'], defaultRangeDays: 28 },
+  },
+  {
+    mode: 'TRACKING_REFERENCE',
+    api: 'tracking',
+    name: 'ZIM Track & Trace API (DCSA)',
+    description: 'Events of a booking, B/L or container',
+    requiredParams: [['carrierBookingReference'], ['transportDocumentReference'], ['equipmentReference']],
+    optionalParams: [
+      'eventType',
+      'transportEventTypeCode',
+      'equipmentEventTypeCode',
+      'vesselIMONumber',
+      'exportVoyageNumber',
+      'carrierServiceCode',
+      'UNLocationCode',
+      'eventCreatedDateTime',
+      'limit',
+    ],
+    pagination: 'NONE',
+  },
+];
+
 /**
  * ZIM Carrier Adapter
  * Combines Schedule and Tracking adapters
@@ -54,14 +105,37 @@ export class ZIMAdapter implements CarrierAdapter {
     }
   }
 
+  /**
+   * Get capability descriptor
+   * @returns Query modes of the ZIM schedule, route and tracking APIs
+   */
+  getCapabilities(): CarrierCapabilities {
+    return { carrier: this.carrierCode, carrierName: this.carrierName, modes: ZIM_QUERY_MODES };
+  }
+
   /**
    * Get vessel schedules
    * Note: ZIM only supports Point-to-Point schedules
-   * @param params Query parameters
+   * @param query Schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
-    return this.scheduleAdapter.getSchedule(params);
+  async getSchedule(query: ScheduleQuery): Promise<ServiceSchedule[]> {
+    if (query.mode !== 'POINT_TO_POINT') {
+      throw new InvalidParameterError(`${this.carrierName} does not support ${query.mode} schedule queries`, {
+        carrier: this.carrierCode,
+      });
+    }
+    return this.scheduleAdapter.getSchedule(query);
+  }
+
+  /**
+   * Get point-to-point routes
+   * Uses the Point-to-Point Schedule API
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    return this.scheduleAdapter.getRoutes(params);
   }
 
   /**
@@ -72,5 +146,23 @@ export class ZIMAdapter implements CarrierAdapter {
   async getTracking(params: TrackingQueryParams): Promise<TrackingEvent[]> {
     return this.trackingAdapter.getTracking(params);
   }
+
+  /**
+   * Get vessel schedules as a single page (ZIM schedule APIs are not paginated)
+   * @param query Schedule query
+   * @returns All service schedules, page marked as exhausted
+   */
+  async getSchedulePage(query: ScheduleQuery): Promise<Page<ServiceSchedule>> {
+    return singlePage(await this.getSchedule(query));
+  }
+
+  /**
+   * Get tracking events as a single page (ZIM tracking API is not paginated)
+   * @param params Query parameters
+   * @returns All tracking events, page marked as exhausted
+   */
+  async getTrackingPage(params: TrackingQueryParams): Promise<Page<TrackingEvent>> {
+    return singlePage(await this.getTracking(params));
+  }
 }
 
@@ -1,13 +1,17 @@
 /**
  * ZIM Schedule Adapter
- * Implements ScheduleAdapter for ZIM's proprietary Point-to-Point Schedule API
+ * Implements ScheduleAdapter and RouteAdapter for ZIM's proprietary Point-to-Point Schedule API
  */
 
 import { ScheduleAdapter } from '@adapters/carriers/base/ScheduleAdapter';
-import { ServiceSchedule, ScheduleQueryParams } from '@domain/models/schedule';
+import { RouteAdapter } from '@adapters/carriers/base/RouteAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { PointToPointScheduleQuery } from '@domain/models/scheduleQuery';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
-import { mapZIMScheduleToDCSA } from './mappers/scheduleMapper';
+import { mapZIMScheduleToDCSA, mapZIMScheduleToRoutes } from './mappers/scheduleMapper';
 
 /**
  * ZIM Schedule API Response Structure
@@ -60,7 +64,7 @@ interface ZIMScheduleResponse {
  * Proprietary API - requires mapper for transformation
  * Note: ZIM only provides Point-to-Point schedules, not full vessel schedules
  */
-export class ZIMScheduleAdapter implements ScheduleAdapter {
+export class ZIMScheduleAdapter implements ScheduleAdapter<PointToPointScheduleQuery>, RouteAdapter {
   private httpClient: HttpClient;
   private config: CarrierConfig;
   private carrierCode = 'ZIM';
@@ -72,67 +76,95 @@ export class ZIMScheduleAdapter implements ScheduleAdapter {
 
   /**
    * Get vessel schedules
-   * Note: ZIM only supports Point-to-Point queries, so we need origin and destination
-   * @param params Query parameters
+   * Note: ZIM only supports Point-to-Point queries, so originCode and destCode are required
+   * @param query Point-to-point schedule query
    * @returns Array of service schedules
    */
-  async getSchedule(params: ScheduleQueryParams): Promise<ServiceSchedule[]> {
+  async getSchedule(query: PointToPointScheduleQuery): Promise<ServiceSchedule[]> {
     const endpoint = this.config.apis.schedule?.endpoint;
     if (!endpoint) {
       throw new Error('Schedule API endpoint not configured for ZIM');
     }
 
-    // ZIM API requires originCode and destCode (UNLocationCode)
-    // We can use UNLocationCode from params, but ZIM needs both origin and destination
-    // For now, we'll require the user to provide both via a workaround
-    // In a real implementation, we might need to extend ScheduleQueryParams to include origin/destination
-
-    // Build query parameters for ZIM Point-to-Point API
-    const queryParams: Record<string, string> = {};
-
-    // ZIM requires originCode and destCode
-    // We'll try to extract from UNLocationCode or require both
-    // For simplicity, we'll use UNLocationCode as both if only one is provided
-    // In production, you'd want to handle this differently
-    if (params.UNLocationCode) {
-      // If only one location is provided, we can't make a proper P2P query
-      // This is a limitation of ZIM's API - it only supports Point-to-Point
-      throw new Error(
+    // ZIM only supports Point-to-Point queries: originCode and destCode (UNLocationCode) are required
+    const { originCode, destCode } = query;
+    if (!originCode || !destCode) {
+      throw new InvalidParameterError(
         'ZIM Schedule API requires both origin and destination locations. ' +
-        'Please provide originCode and destCode via extended query parameters.'
+        'Please provide originCode and destCode query parameters.',
+        { carrier: this.carrierCode, endpointType: 'schedule' }
       );
     }
 
-    // For ZIM, we need to map our generic params to ZIM-specific params
-    // This is a simplified version - in production you'd want a better mapping
-    if (params.startDate) {
-      queryParams.fromDate = params.startDate;
-    }
-    if (params.endDate) {
-      queryParams.toDate = params.endDate;
-    }
+    // Build query parameters for ZIM Point-to-Point API (fromDate/toDate are required)
+    const fromDate = query.startDate || new Date().toISOString().split('T')[0];
+    const queryParams: Record<string, string> = {
+      originCode,
+      destCode,
+      fromDate,
+      toDate: query.endDate || addDays(fromDate, 28),
+    };
 
     // ZIM requires sortByDepartureOrArrival
     queryParams.sortByDepartureOrArrival = 'Departure'; // Default to Departure
 
     try {
-      // Note: This is a simplified implementation
-      // In production, you'd need to handle the origin/destination requirement properly
       const response = await this.httpClient.get<ZIMScheduleResponse>(endpoint, {
         params: queryParams,
       });
 
       // Map ZIM response to DCSA format
       return mapZIMScheduleToDCSA(response);
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `ZIM Schedule API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+    } catch (error) {
+      throw toCarrierError(error, 'ZIM Schedule API', { carrier: this.carrierCode, endpointType: 'schedule' });
+    }
+  }
+
+  /**
+   * Get normalized point-to-point routes
+   * Translates carrier-neutral origin/destination into ZIM Point-to-Point parameters
+   * @param params Route query parameters
+   * @returns Array of point-to-point routes
+   */
+  async getRoutes(params: RouteQueryParams): Promise<PointToPointRoute[]> {
+    const endpoint = this.config.apis.schedule?.endpoint;
+    if (!endpoint) {
+      throw new Error('Schedule API endpoint not configured for ZIM');
+    }
+
+    // ZIM searches by departure or arrival window; fromDate/toDate are required
+    const sortByArrival = !params.departureFrom && !params.departureTo && !!(params.arrivalFrom || params.arrivalTo);
+    const fromDate = (sortByArrival ? params.arrivalFrom : params.departureFrom) || new Date().toISOString().split('T')[0];
+    const toDate = (sortByArrival ? params.arrivalTo : params.departureTo) || addDays(fromDate, 28);
+
+    const queryParams: Record<string, string> = {
+      originCode: params.origin,
+      destCode: params.destination,
+      fromDate,
+      toDate,
+      sortByDepartureOrArrival: sortByArrival ? 'Arrival' : 'Departure',
+    };
+
+    try {
+      const response = await this.httpClient.get<ZIMScheduleResponse>(endpoint, {
+        params: queryParams,
+      });
+
+      return mapZIMScheduleToRoutes(response);
+    } catch (error) {
+      throw toCarrierError(error, 'ZIM Schedule API', { carrier: this.carrierCode, endpointType: 'schedule' });
     }
   }
 }
 
+/**
+ * Add days to an ISO date (YYYY-MM-DD)
+ * @param dateStr ISO date string
+ * @param days Number of days to add
+ * @returns ISO date string
+ */
+function addDays(dateStr: string, days: number): string {
+  const date = new Date(dateStr);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
@@ -4,6 +4,7 @@
  */
 
 import { TrackingAdapter } from '@adapters/carriers/base/TrackingAdapter';
+import { InvalidParameterError, toCarrierError } from '@adapters/carriers/base/CarrierError';
 import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
 import { HttpClient } from '@adapters/http/HttpClient';
 import { ConfigLoader, CarrierConfig } from '@infrastructure/config/ConfigLoader';
@@ -39,9 +40,10 @@ export class ZIMTrackingAdapter implements TrackingAdapter {
       !params.transportDocumentReference &&
       !params.equipmentReference
     ) {
-      throw new Error(
+      throw new InvalidParameterError(
         'ZIM Tracking API requires at least one of: carrierBookingReference, ' +
-        'transportDocumentReference, or equipmentReference'
+        'transportDocumentReference, or equipmentReference',
+        { carrier: this.carrierCode, endpointType: 'tracking' }
       );
     }
 
@@ -84,9 +86,6 @@ export class ZIMTrackingAdapter implements TrackingAdapter {
     if (params.limit) {
       queryParams.limit = params.limit.toString();
     }
-    if (params.cursor) {
-      queryParams.cursor = params.cursor;
-    }
 
     try {
       // DCSA standard API - response is already in the correct format
@@ -95,14 +94,8 @@ export class ZIMTrackingAdapter implements TrackingAdapter {
       });
 
       return response;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `ZIM Tracking API error: ${error.response.status} ${error.response.statusText} - ` +
-          `${JSON.stringify(error.response.data)}`
-        );
-      }
-      throw error;
+    } catch (error) {
+      throw toCarrierError(error, 'ZIM Tracking API', { carrier: this.carrierCode, endpointType: 'tracking' });
     }
   }
 }
@@ -1,9 +1,12 @@
 /**
  * ZIM Schedule Mapper
- * Maps ZIM's proprietary Point-to-Point Schedule API response to DCSA ServiceSchedule model
+ * Maps ZIM's proprietary Point-to-Point Schedule API response to DCSA ServiceSchedule and PointToPointRoute models
  */
 
-import { ServiceSchedule, VesselSchedule, TransportCall, Timestamp } from '@domain/models/schedule';
+import { ServiceSchedule, VesselSchedule, TransportCall, Timestamp, CutOffTime } from '@domain/models/schedule';
+import { PointToPointRoute, RouteLeg } from '@domain/models/route';
+import { deriveTransshipments } from '@utils/routeUtils';
+import { createSyntheticId } from '@utils/syntheticId';
 
 /**
  * ZIM Schedule API Response Structure
@@ -153,6 +156,7 @@ export function mapZIMScheduleToDCSA(zimResponse: ZIMScheduleResponse): ServiceS
 
           const transportCall: TransportCall = {
             transportCallReference: generateTransportCallReference(leg),
+            isSyntheticReference: true,
             carrierImportVoyageNumber: leg.voyage || leg.consortSailingNumber || '',
             carrierExportVoyageNumber: leg.voyage || leg.consortSailingNumber || '',
             location: {
@@ -196,6 +200,101 @@ export function mapZIMScheduleToDCSA(zimResponse: ZIMScheduleResponse): ServiceS
   return serviceSchedules;
 }
 
+/**
+ * Map ZIM Schedule response to PointToPointRoute array
+ * @param zimResponse ZIM API response
+ * @returns Array of point-to-point routes
+ */
+export function mapZIMScheduleToRoutes(zimResponse: ZIMScheduleResponse): PointToPointRoute[] {
+  if (!zimResponse.response?.routes || !Array.isArray(zimResponse.response.routes)) {
+    return [];
+  }
+
+  return zimResponse.response.routes.map((route) => {
+    const routeLegs = [...(route.routeLegs || [])].sort((a, b) => (a.legOrder || 0) - (b.legOrder || 0));
+
+    const legs: RouteLeg[] = routeLegs.map((leg, index) => ({
+      sequenceNumber: leg.legOrder || index + 1,
+      modeOfTransport: 'VESSEL',
+      carrierServiceCode: leg.line,
+      carrierExportVoyageNumber: leg.voyage,
+      carrierImportVoyageNumber: leg.voyage,
+      vessel: leg.vesselName
+        ? {
+            vesselIMONumber: leg.lloydsCode, // Lloyd's code is the IMO number
+            name: leg.vesselName,
+            callSign: leg.callSign,
+          }
+        : undefined,
+      departure: {
+        location: {
+          UNLocationCode: leg.departurePort,
+          locationName: leg.departurePortName,
+        },
+        dateTime: leg.departureDate,
+        eventClassifierCode: 'EST',
+      },
+      arrival: {
+        location: {
+          UNLocationCode: leg.arrivalPort,
+          locationName: leg.arrivalPortName,
+        },
+        dateTime: leg.arrivalDate,
+        eventClassifierCode: 'EST',
+      },
+    }));
+
+    return {
+      // routeSequence is only the position in the response, so identify the routing by its legs
+      routingReference: createSyntheticId('ZIM', 'routing', [
+        route.departurePort,
+        route.arrivalPort,
+        ...routeLegs.map((leg) => leg.voyage || leg.consortSailingNumber),
+      ]),
+      isSyntheticRoutingReference: true,
+      placeOfReceipt: {
+        location: {
+          UNLocationCode: route.departurePort,
+          locationName: route.departurePortName,
+        },
+        dateTime: route.departureDate,
+        eventClassifierCode: 'EST',
+      },
+      placeOfDelivery: {
+        location: {
+          UNLocationCode: route.arrivalPort,
+          locationName: route.arrivalPortName,
+        },
+        dateTime: route.arrivalDate,
+        eventClassifierCode: 'EST',
+      },
+      transitTime: route.transitTime,
+      transshipments: deriveTransshipments(legs),
+      cutOffTimes: routeLegs.length > 0 ? mapCutOffTimes(routeLegs[0]) : [],
+      legs,
+    };
+  });
+}
+
+/**
+ * Map cut-off dates of the first leg to DCSA cut-off times
+ * @param leg ZIM route leg
+ * @returns Array of cut-off times
+ */
+function mapCutOffTimes(leg: ZIMRouteLeg): CutOffTime[] {
+  const cutOffTimes: CutOffTime[] = [];
+  if (leg.docClosingDate) {
+    cutOffTimes.push({ cutOffDateTimeCode: 'DCO', cutOffDateTime: leg.docClosingDate });
+  }
+  if (leg.containerClosingDate) {
+    cutOffTimes.push({ cutOffDateTimeCode: 'FCO', cutOffDateTime: leg.containerClosingDate });
+  }
+  if (leg.vgmClosingDate) {
+    cutOffTimes.push({ cutOffDateTimeCode: 'VCO', cutOffDateTime: leg.vgmClosingDate });
+  }
+  return cutOffTimes;
+}
+
 /**
  * Extract service code from route
  * @param route ZIM route
@@ -214,18 +313,16 @@ function extractServiceCode(route: ZIMRoute): string {
 }
 
 /**
- * Generate transport call reference
+ * Generate transport call reference (ZIM schedules carry no call ID)
  * @param leg Route leg
- * @returns Transport call reference
+ * @returns Synthetic transport call reference
  */
 function generateTransportCallReference(leg: ZIMRouteLeg): string {
-  const parts = [
-    'ZIM',
-    leg.departurePort || '',
-    leg.arrivalPort || '',
-    leg.voyage || leg.consortSailingNumber || '',
-    leg.lloydsCode || leg.vesselCode || '',
-  ].filter(Boolean);
-  return parts.join('-') || `ZIM-${Date.now()}`;
+  return createSyntheticId('ZIM', 'transport-call', [
+    leg.departurePort,
+    leg.arrivalPort,
+    leg.voyage || leg.consortSailingNumber,
+    leg.lloydsCode || leg.vesselCode,
+  ]);
 }
 
@@ -6,6 +6,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
+import { AuthenticationError, UpstreamUnavailableError } from '@adapters/carriers/base/CarrierError';
 
 interface OAuth2Token {
   access_token: string;
@@ -106,7 +107,7 @@ export class AuthManager {
           `Please set ${carrierCode}_CONSUMER_KEY and ${carrierCode}_SECRET_KEY (or ${carrierCode}_CLIENT_ID and ${carrierCode}_CLIENT_SECRET) environment variables.`
         : `OAuth2 credentials not found for carrier: ${carrierCode}. ` +
           `Please set ${carrierCode}_CLIENT_ID and ${carrierCode}_CLIENT_SECRET environment variables.`;
-      throw new Error(errorMsg);
+      throw new AuthenticationError(errorMsg, { carrier: carrierCode });
     }
 
     if (!config.auth.tokenUrl) {
@@ -144,11 +145,16 @@ export class AuthManager {
       return tokenCache;
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
+        const message =
           `Failed to obtain OAuth2 token for ${carrierCode}: ` +
           `${error.response?.status} ${error.response?.statusText} - ` +
-          `${JSON.stringify(error.response?.data)}`
-        );
+          `${JSON.stringify(error.response?.data)}`;
+        const status = error.response?.status;
+        // Token endpoint down or throttled: not a credentials problem
+        if (!status || status === 429 || status >= 500) {
+          throw new UpstreamUnavailableError(message, { carrier: carrierCode, upstreamStatus: status });
+        }
+        throw new AuthenticationError(message, { carrier: carrierCode, upstreamStatus: status });
       }
       throw error;
     }
@@ -218,16 +224,18 @@ export class AuthManager {
       }
       
       if (errorMessages.length > 0) {
-        throw new Error(
+        throw new AuthenticationError(
           `API Key not found for carrier: ${carrierCode}, endpoint: ${endpointType}. ` +
-          `Please set one of: ${errorMessages.join(', ')}`
+          `Please set one of: ${errorMessages.join(', ')}`,
+          { carrier: carrierCode, endpointType }
         );
       }
     }
 
-    throw new Error(
+    throw new AuthenticationError(
       `API Key not found for carrier: ${carrierCode}. ` +
-      `Please set ${carrierCode}_API_KEY environment variable.`
+      `Please set ${carrierCode}_API_KEY environment variable.`,
+      { carrier: carrierCode, endpointType }
     );
   }
 
@@ -0,0 +1,119 @@
+import { CarrierConfig } from '@infrastructure/config/ConfigLoader';
+import { CircuitBreaker, CircuitOpenError } from './CircuitBreaker';
+
+jest.mock('@infrastructure/logger/Logger');
+
+function carrierConfig(circuitBreaker: NonNullable<CarrierConfig['features']>['circuitBreaker']): CarrierConfig {
+  return {
+    name: 'Test Carrier',
+    code: 'TEST',
+    baseUrl: 'https://api.example.com',
+    apis: {},
+    auth: { type: 'apikey' },
+    features: { requestTimeout: 5000, circuitBreaker },
+  };
+}
+
+const config = carrierConfig({ failureThreshold: 3, resetTimeout: 10000, halfOpenMaxRequests: 1 });
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+    CircuitBreaker.resetAll();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function fail(breaker: CircuitBreaker, times: number): void {
+    for (let i = 0; i < times; i++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+  }
+
+  it('keeps one breaker per carrier and endpoint type', () => {
+    expect(CircuitBreaker.for('TEST', 'tracking', config)).toBe(CircuitBreaker.for('TEST', 'tracking', config));
+    expect(CircuitBreaker.for('TEST', 'tracking', config)).not.toBe(CircuitBreaker.for('TEST', 'schedule', config));
+  });
+
+  it('opens after failureThreshold consecutive failures and rejects until resetTimeout elapses', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', config);
+
+    fail(breaker, 2);
+    expect(breaker.getState()).toBe('CLOSED');
+    fail(breaker, 1);
+    expect(breaker.getState()).toBe('OPEN');
+
+    expect(() => breaker.acquire()).toThrow(
+      expect.objectContaining({ code: 'CIRCUIT_OPEN', retryAt: new Date('2024-03-01T00:00:10Z') })
+    );
+
+    jest.advanceTimersByTime(9999);
+    expect(breaker.getState()).toBe('OPEN');
+    jest.advanceTimersByTime(1);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', config);
+
+    fail(breaker, 2);
+    breaker.acquire();
+    breaker.recordSuccess();
+    fail(breaker, 2);
+
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  it('lets a single probe through while half-open and closes when it succeeds', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', config);
+    fail(breaker, 3);
+    jest.advanceTimersByTime(10000);
+
+    breaker.acquire();
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    // Further requests are rejected while the probe is in flight
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('re-opens when the half-open probe fails', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', config);
+    fail(breaker, 3);
+    jest.advanceTimersByTime(10000);
+
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('OPEN');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    jest.advanceTimersByTime(10000);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+  });
+
+  it('frees the probe slot without closing when the probe fails for a non-transient reason', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', config);
+    fail(breaker, 3);
+    jest.advanceTimersByTime(10000);
+
+    breaker.acquire();
+    breaker.release();
+
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('never opens when disabled', () => {
+    const breaker = CircuitBreaker.for('TEST', 'tracking', carrierConfig({ enabled: false, failureThreshold: 1 }));
+
+    fail(breaker, 5);
+
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+});
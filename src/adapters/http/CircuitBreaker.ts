@@ -0,0 +1,202 @@
+/**
+ * Circuit Breaker
+ * Per-carrier, per-endpoint-type circuit breaker to fail fast while a carrier gateway is down
+ */
+
+import { CarrierConfig } from '@infrastructure/config/ConfigLoader';
+import { Logger } from '@infrastructure/logger/Logger';
+import { CarrierErrorCode, UpstreamUnavailableError } from '@adapters/carriers/base/CarrierError';
+
+/**
+ * Circuit state
+ * - CLOSED: requests flow normally, failures are counted
+ * - OPEN: requests are rejected immediately until resetTimeout elapses
+ * - HALF_OPEN: a limited number of trial requests decide whether to close or re-open
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+type CircuitBreakerSettings = NonNullable<NonNullable<CarrierConfig['features']>['circuitBreaker']>;
+
+const DEFAULT_SETTINGS: Required<CircuitBreakerSettings> = {
+  enabled: true,
+  failureThreshold: 5,
+  resetTimeout: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Error thrown when a request is rejected because the circuit is open
+ * The carrier was not called; retryAfter tells when the circuit allows a trial request
+ */
+export class CircuitOpenError extends UpstreamUnavailableError {
+  readonly code: CarrierErrorCode = 'CIRCUIT_OPEN';
+
+  constructor(carrier: string, endpointType: string, retryAt: Date) {
+    super(`Circuit open for ${carrier} ${endpointType} API - requests suspended until ${retryAt.toISOString()}`, {
+      carrier,
+      endpointType,
+      retryAt,
+    });
+  }
+}
+
+export class CircuitBreaker {
+  private static breakers: Map<string, CircuitBreaker> = new Map();
+
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private halfOpenInFlight = 0;
+  private settings: Required<CircuitBreakerSettings>;
+
+  private constructor(
+    private readonly carrierCode: string,
+    private readonly endpointType: string,
+    settings?: CircuitBreakerSettings,
+    private readonly requestTimeout: number = DEFAULT_REQUEST_TIMEOUT
+  ) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  /**
+   * Get (or create) the circuit breaker for a carrier and endpoint type
+   * @param carrierCode Carrier code
+   * @param endpointType Endpoint type (as returned by HttpClient.getEndpointType)
+   * @param config Carrier configuration
+   * @returns Circuit breaker instance
+   */
+  static for(carrierCode: string, endpointType: string, config: CarrierConfig): CircuitBreaker {
+    const key = `${carrierCode}:${endpointType}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        carrierCode,
+        endpointType,
+        config.features?.circuitBreaker,
+        config.features?.requestTimeout
+      );
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Reset all circuit breakers (useful for testing)
+   */
+  static resetAll(): void {
+    this.breakers.clear();
+  }
+
+  /**
+   * Get current circuit state
+   * @returns Circuit state
+   */
+  getState(): CircuitState {
+    if (this.state === 'OPEN' && Date.now() - this.openedAt >= this.settings.resetTimeout) {
+      return 'HALF_OPEN';
+    }
+    return this.state;
+  }
+
+  /**
+   * Acquire permission for a request
+   * @throws CircuitOpenError if the circuit is open or the half-open trial slots are taken
+   */
+  acquire(): void {
+    if (!this.settings.enabled) {
+      return;
+    }
+
+    const state = this.getState();
+    if (state === 'CLOSED') {
+      return;
+    }
+
+    if (state === 'HALF_OPEN') {
+      if (this.state === 'OPEN') {
+        this.transition('HALF_OPEN');
+      }
+      if (this.halfOpenInFlight < this.settings.halfOpenMaxRequests) {
+        this.halfOpenInFlight++;
+        return;
+      }
+    }
+
+    // While the trial requests run, the reset time has passed: the outcome is known at the latest
+    // once they time out
+    const retryAt =
+      state === 'HALF_OPEN' ? Date.now() + this.requestTimeout : this.openedAt + this.settings.resetTimeout;
+    throw new CircuitOpenError(this.carrierCode, this.endpointType, new Date(retryAt));
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    if (!this.settings.enabled) {
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+    if (this.state === 'HALF_OPEN') {
+      this.transition('CLOSED');
+    }
+  }
+
+  /**
+   * Record a failed request (transient upstream failure)
+   * Called once per request after its retries, so failureThreshold counts requests rather than attempts
+   */
+  recordFailure(): void {
+    if (!this.settings.enabled) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'HALF_OPEN') {
+      this.transition('OPEN');
+    } else if (this.state === 'CLOSED' && this.consecutiveFailures >= this.settings.failureThreshold) {
+      this.transition('OPEN');
+    }
+  }
+
+  /**
+   * Release a half-open trial slot without affecting the circuit
+   * Used when a request fails for a non-transient reason (e.g. 4xx)
+   */
+  release(): void {
+    if (this.state === 'HALF_OPEN') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+    }
+  }
+
+  /**
+   * Change circuit state
+   */
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.halfOpenInFlight = 0;
+    if (state === 'OPEN') {
+      this.openedAt = Date.now();
+    }
+    if (state === 'CLOSED') {
+      this.consecutiveFailures = 0;
+    }
+
+    const message = `Circuit ${previous} -> ${state} for ${this.carrierCode} ${this.endpointType}`;
+    const meta = {
+      carrier: this.carrierCode,
+      endpointType: this.endpointType,
+      consecutiveFailures: this.consecutiveFailures,
+      resetTimeout: this.settings.resetTimeout,
+    };
+    if (state === 'OPEN') {
+      Logger.warn(message, meta);
+    } else {
+      Logger.info(message, meta);
+    }
+  }
+}
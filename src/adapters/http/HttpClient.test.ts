@@ -0,0 +1,220 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { CarrierConfig } from '@infrastructure/config/ConfigLoader';
+import { CircuitBreaker, CircuitOpenError } from './CircuitBreaker';
+import { HttpClient } from './HttpClient';
+
+jest.mock('@infrastructure/logger/Logger');
+jest.mock('./AuthManager', () => ({
+  AuthManager: { getAuthHeaders: jest.fn().mockResolvedValue({}), clearTokenCache: jest.fn() },
+}));
+
+type Reply = (config: InternalAxiosRequestConfig) => Promise<AxiosResponse>;
+
+function reply(status: number, headers: Record<string, string> = {}): Reply {
+  return async (config) => {
+    const response = { data: {}, status, statusText: '', headers, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+}
+
+function carrierConfig(features: CarrierConfig['features'] = {}): CarrierConfig {
+  return {
+    name: 'Test Carrier',
+    code: 'TEST',
+    baseUrl: 'https://api.example.com',
+    apis: {},
+    auth: { type: 'apikey' },
+    features,
+  };
+}
+
+/**
+ * Create a client whose requests are answered by the given replies in order (the last one repeats)
+ */
+function createClient(features: CarrierConfig['features'], ...replies: Reply[]) {
+  const client = new HttpClient('TEST', carrierConfig(features));
+  let calls = 0;
+  const adapter = jest.fn((config: InternalAxiosRequestConfig) =>
+    replies[Math.min(calls++, replies.length - 1)](config)
+  );
+  client.getAxiosInstance().defaults.adapter = adapter;
+  return { client, adapter };
+}
+
+describe('HttpClient', () => {
+  beforeEach(() => {
+    CircuitBreaker.resetAll();
+  });
+
+  describe('circuit breaking', () => {
+    const features = {
+      retryAttempts: 2,
+      retryDelay: 1,
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 },
+    };
+
+    it('counts a request and its retries as a single failure', async () => {
+      const { client, adapter } = createClient(features, reply(503));
+
+      await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 503');
+      expect(adapter).toHaveBeenCalledTimes(3);
+      expect(CircuitBreaker.for('TEST', 'schedule', carrierConfig(features)).getState()).toBe('CLOSED');
+
+      await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 503');
+      expect(CircuitBreaker.for('TEST', 'schedule', carrierConfig(features)).getState()).toBe('OPEN');
+
+      await expect(client.get('/vessel-schedules')).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(adapter).toHaveBeenCalledTimes(6);
+    });
+
+    it('counts a request that succeeds on retry as a success', async () => {
+      const { client } = createClient(features, reply(503), reply(200), reply(503));
+
+      await client.get('/vessel-schedules');
+      await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 503');
+
+      expect(CircuitBreaker.for('TEST', 'schedule', carrierConfig(features)).getState()).toBe('CLOSED');
+    });
+
+    it('does not count client errors', async () => {
+      const { client } = createClient(features, reply(404));
+
+      for (let i = 0; i < 3; i++) {
+        await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 404');
+      }
+
+      expect(CircuitBreaker.for('TEST', 'schedule', carrierConfig(features)).getState()).toBe('CLOSED');
+    });
+  });
+
+  describe('retries', () => {
+    const features = { retryAttempts: 2, retryDelay: 1000, maxRetryDelay: 30000 };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+      // Full jitter at its maximum: the delay is the backoff itself
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    /**
+     * Expect the number of carrier calls before and after the given delay has passed
+     */
+    async function expectCallsAfter(adapter: jest.Mock, delay: number, before: number): Promise<void> {
+      await jest.advanceTimersByTimeAsync(delay - 1);
+      expect(adapter).toHaveBeenCalledTimes(before);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(adapter).toHaveBeenCalledTimes(before + 1);
+    }
+
+    it('retries GET on 5xx, 429 and timeouts', async () => {
+      const timeout: Reply = async (config) => {
+        throw new AxiosError('timeout of 30000ms exceeded', 'ECONNABORTED', config);
+      };
+      const { client, adapter } = createClient(features, reply(503), timeout, reply(200));
+
+      const result = client.get('/vessel-schedules');
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(adapter, 1000, 1);
+      await expectCallsAfter(adapter, 2000, 2);
+
+      await expect(result).resolves.toEqual({});
+    });
+
+    it('does not retry client errors', async () => {
+      const { client, adapter } = createClient(features, reply(400));
+
+      await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 400');
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry POST unless marked idempotent', async () => {
+      const plain = createClient(features, reply(503), reply(200));
+      await expect(plain.client.post('/vessel-schedules', {})).rejects.toThrow('status code 503');
+      expect(plain.adapter).toHaveBeenCalledTimes(1);
+
+      const idempotent = createClient(features, reply(503), reply(200));
+      const result = idempotent.client.post('/vessel-schedules', {}, { idempotent: true });
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(idempotent.adapter, 1000, 1);
+      await expect(result).resolves.toEqual({});
+    });
+
+    it('gives up after retryAttempts retries', async () => {
+      const { client, adapter } = createClient(features, reply(503));
+
+      const result = client.get('/vessel-schedules').catch((error: AxiosError) => error);
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(adapter).toHaveBeenCalledTimes(3);
+      expect(((await result) as AxiosError).response?.status).toBe(503);
+    });
+
+    it('waits for Retry-After given in seconds', async () => {
+      const { client, adapter } = createClient(features, reply(429, { 'retry-after': '5' }), reply(200));
+
+      const result = client.get('/vessel-schedules');
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(adapter, 5000, 1);
+
+      await expect(result).resolves.toEqual({});
+    });
+
+    it('waits for Retry-After given as an HTTP date', async () => {
+      const retryAt = new Date(Date.now() + 8000).toUTCString();
+      const { client, adapter } = createClient(features, reply(503, { 'retry-after': retryAt }), reply(200));
+
+      const result = client.get('/vessel-schedules');
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(adapter, 8000, 1);
+
+      await expect(result).resolves.toEqual({});
+    });
+
+    it('fails fast when Retry-After exceeds maxRetryDelay', async () => {
+      const { client, adapter } = createClient(features, reply(429, { 'retry-after': '120' }), reply(200));
+
+      await expect(client.get('/vessel-schedules')).rejects.toThrow('status code 429');
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+
+    it('doubles the backoff per attempt up to maxRetryDelay', async () => {
+      const { client, adapter } = createClient(
+        { retryAttempts: 4, retryDelay: 1000, maxRetryDelay: 3000 },
+        reply(503),
+        reply(503),
+        reply(503),
+        reply(503),
+        reply(200)
+      );
+
+      const result = client.get('/vessel-schedules');
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(adapter, 1000, 1);
+      await expectCallsAfter(adapter, 2000, 2);
+      await expectCallsAfter(adapter, 3000, 3); // 4000 capped
+      await expectCallsAfter(adapter, 3000, 4); // 8000 capped
+
+      await expect(result).resolves.toEqual({});
+    });
+
+    it('jitters the backoff between half and the full delay', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const { client, adapter } = createClient(features, reply(503), reply(200));
+
+      const result = client.get('/vessel-schedules');
+      await jest.advanceTimersByTimeAsync(0);
+      await expectCallsAfter(adapter, 500, 1);
+
+      await expect(result).resolves.toEqual({});
+    });
+  });
+});
@@ -1,13 +1,40 @@
 /**
  * HTTP Client
- * Wrapper around axios for making API requests with authentication
+ * Wrapper around axios for making API requests with authentication, retry and circuit breaking
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { AuthManager } from './AuthManager';
+import { CircuitBreaker } from './CircuitBreaker';
 import { CarrierConfig } from '@infrastructure/config/ConfigLoader';
 import { Logger } from '@infrastructure/logger/Logger';
 
+/**
+ * Request config accepted by HttpClient
+ * idempotent: mark a non-idempotent method (e.g. a read-only POST query) as safe to retry
+ */
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  idempotent?: boolean;
+}
+
+/**
+ * Response data together with its headers (for pagination headers)
+ */
+export interface HttpResponse<T> {
+  data: T;
+  headers: Record<string, string | undefined>; // Lower-case header names
+}
+
+/**
+ * HTTP methods that are safe to retry by definition
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Default upper bound for a single retry delay (milliseconds)
+ */
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+
 export class HttpClient {
   private axiosInstance: AxiosInstance;
   private carrierCode: string;
@@ -167,23 +194,39 @@ export class HttpClient {
   /**
    * Make a GET request
    * @param url Request URL
-   * @param config Axios request config
+   * @param config Request config
    * @returns Response data
    */
-  async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response: AxiosResponse<T> = await this.axiosInstance.get(url, config);
+  async get<T = any>(url: string, config?: HttpRequestConfig): Promise<T> {
+    const response: AxiosResponse<T> = await this.request<T>({ ...config, method: 'GET', url });
     return response.data;
   }
 
+  /**
+   * Make a GET request and keep the response headers
+   * @param url Request URL
+   * @param config Request config
+   * @returns Response data and headers
+   */
+  async getWithHeaders<T = any>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    const response: AxiosResponse<T> = await this.request<T>({ ...config, method: 'GET', url });
+    const headers: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(response.headers || {})) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value?.toString();
+    }
+    return { data: response.data, headers };
+  }
+
   /**
    * Make a POST request
+   * POST is only retried when config.idempotent is true
    * @param url Request URL
    * @param data Request body
-   * @param config Axios request config
+   * @param config Request config
    * @returns Response data
    */
-  async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response: AxiosResponse<T> = await this.axiosInstance.post(url, data, config);
+  async post<T = any>(url: string, data?: any, config?: HttpRequestConfig): Promise<T> {
+    const response: AxiosResponse<T> = await this.request<T>({ ...config, method: 'POST', url, data });
     return response.data;
   }
 
@@ -195,6 +238,123 @@ export class HttpClient {
     return this.axiosInstance;
   }
 
+  /**
+   * Execute a request, retrying idempotent requests on transient failures
+   * Uses exponential backoff with jitter based on features.retryAttempts and features.retryDelay
+   * Rejects immediately with CircuitOpenError while the carrier/endpoint circuit is open;
+   * the final outcome (after retries) is recorded once with the circuit breaker
+   * @param config Request config
+   * @returns Axios response
+   */
+  private async request<T>(config: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { idempotent, ...axiosConfig } = config;
+    const method = (axiosConfig.method || 'GET').toUpperCase();
+    const endpointType = this.getEndpointType(axiosConfig.url || '') || axiosConfig.url || 'unknown';
+    const canRetry = idempotent === true || IDEMPOTENT_METHODS.includes(method);
+    const maxRetries = canRetry ? Math.max(0, this.config.features?.retryAttempts ?? 0) : 0;
+    const circuitBreaker = CircuitBreaker.for(
+      this.carrierCode,
+      this.getEndpointType(axiosConfig.url || '') || 'default',
+      this.config
+    );
+
+    // Retries run under the same permit and the request counts once towards the circuit, however many
+    // attempts it takes (failureThreshold counts failed requests, not attempts)
+    circuitBreaker.acquire();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.axiosInstance.request<T>(axiosConfig);
+        circuitBreaker.recordSuccess();
+        return response;
+      } catch (error: any) {
+        const delay =
+          attempt <= maxRetries && this.isRetryableError(error) ? this.getRetryDelay(attempt, error) : undefined;
+
+        // Give up when out of retries, or once other requests have opened the circuit
+        if (delay === undefined || circuitBreaker.getState() === 'OPEN') {
+          if (this.isUpstreamFailure(error)) {
+            circuitBreaker.recordFailure();
+          } else {
+            circuitBreaker.release();
+          }
+          throw error;
+        }
+
+        // The outcome of the whole request is logged once by the caller (Logger.logCarrierCall)
+        Logger.warn(`Retrying request for ${this.carrierCode} in ${delay}ms`, {
+          carrier: this.carrierCode,
+          endpointType,
+          url: axiosConfig.url,
+          method,
+          attempt,
+          maxRetries,
+          status: error.response?.status,
+          code: error.code,
+          error: error.message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Check if an error is transient (timeout, 429 or 5xx)
+   * @param error Request error
+   * @returns true if the request may succeed on retry
+   */
+  private isRetryableError(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+
+    if (!error.response) {
+      return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    }
+
+    const status = error.response.status;
+    return status === 429 || status >= 500;
+  }
+
+  /**
+   * Check if an error indicates the carrier gateway itself is failing
+   * Counts towards the circuit breaker; client errors (4xx other than 429) do not
+   * @param error Request error
+   * @returns true for network errors, timeouts, 429 and 5xx
+   */
+  private isUpstreamFailure(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    return !error.response || this.isRetryableError(error);
+  }
+
+  /**
+   * Calculate delay before the next retry
+   * Honors Retry-After (seconds or HTTP date); otherwise exponential backoff with full jitter
+   * @param attempt Attempt number that just failed (1-based)
+   * @param error Request error
+   * @returns Delay in milliseconds, or undefined if Retry-After exceeds the maximum delay
+   */
+  private getRetryDelay(attempt: number, error: AxiosError): number | undefined {
+    const maxDelay = this.config.features?.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+
+    const retryAfter = error.response?.headers?.['retry-after'];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const retryAfterMs = !isNaN(seconds)
+        ? seconds * 1000
+        : new Date(String(retryAfter)).getTime() - Date.now();
+      if (!isNaN(retryAfterMs)) {
+        // Don't hold the request open longer than allowed; fail fast instead
+        return retryAfterMs > maxDelay ? undefined : Math.max(0, retryAfterMs);
+      }
+    }
+
+    const baseDelay = this.config.features?.retryDelay ?? 1000;
+    const backoff = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
   /**
    * Determine endpoint type from URL
    * @param url Request URL
@@ -0,0 +1,162 @@
+/**
+ * Pagination Helpers
+ * Translate carrier pagination headers to and from CarrierPageState
+ */
+
+import { CarrierPageState, Page } from '@domain/models/pagination';
+
+/**
+ * Default page size for Range-paginated APIs (CMA CGM returns at most 50 items per request)
+ */
+export const DEFAULT_RANGE_PAGE_SIZE = 50;
+
+/**
+ * Default maximum number of pages fetched per carrier in fetchAll mode
+ */
+export const DEFAULT_FETCH_ALL_MAX_PAGES = 20;
+
+/**
+ * Wrap the complete result of a non-paginated API as its only page
+ * @param items All results
+ * @returns Page marked as exhausted
+ */
+export function singlePage<T>(items: T[]): Page<T> {
+  return { items, next: { type: 'EXHAUSTED' } };
+}
+
+/**
+ * Get the cursor to send for a DCSA cursor-paginated API
+ * @param page Page state (undefined = first page)
+ * @returns Cursor query parameter value, or undefined for the first page
+ */
+export function getCursorParam(page?: CarrierPageState): string | undefined {
+  return page?.type === 'CURSOR' ? page.cursor : undefined;
+}
+
+/**
+ * Read the next page state of a DCSA cursor-paginated response
+ * DCSA APIs return the cursor of the next page in the Next-Page-Cursor header;
+ * the Next-Page header and the rel="next" Link header (full URLs) are accepted as fallbacks
+ * @param headers Response headers (lower-case names)
+ * @returns CURSOR state, or EXHAUSTED when no next page is announced
+ */
+export function getNextCursorState(headers: Record<string, string | undefined>): CarrierPageState {
+  const cursor =
+    headers['next-page-cursor'] ||
+    extractCursorFromUrl(headers['next-page']) ||
+    extractCursorFromUrl(getNextLinkUrl(headers['link']));
+  return cursor ? { type: 'CURSOR', cursor } : { type: 'EXHAUSTED' };
+}
+
+/**
+ * Build the Range request header for a Range-paginated API
+ * @param page Page state (undefined = first page)
+ * @param pageSize Items per page
+ * @returns Range header value, e.g. "50-99"
+ */
+export function getRangeHeader(page: CarrierPageState | undefined, pageSize: number = DEFAULT_RANGE_PAGE_SIZE): string {
+  const offset = page?.type === 'OFFSET' ? page.offset : 0;
+  return `${offset}-${offset + pageSize - 1}`;
+}
+
+/**
+ * Read the next page state of a Range-paginated response from its Content-Range header
+ * Content-Range format: "<first>-<last>/<total>" (optionally prefixed by a unit, total may be "*")
+ * Without a usable header, a full page means more data may follow.
+ * A numeric Accept-Ranges header is the server's maximum page size and lowers the full-page threshold.
+ * @param headers Response headers (lower-case names)
+ * @param page Page state the request was made with
+ * @param received Number of items received
+ * @param pageSize Items per page
+ * @returns OFFSET state for the next page, or EXHAUSTED
+ */
+export function getNextRangeState(
+  headers: Record<string, string | undefined>,
+  page: CarrierPageState | undefined,
+  received: number,
+  pageSize: number = DEFAULT_RANGE_PAGE_SIZE
+): CarrierPageState {
+  const maxRange = parseInt(headers['accept-ranges'] || '', 10);
+  const fullPageSize = maxRange > 0 ? Math.min(pageSize, maxRange) : pageSize;
+
+  const match = /(\d+)-(\d+)\/(\d+|\*)/.exec(headers['content-range'] || '');
+  if (match) {
+    const last = parseInt(match[2], 10);
+    const total = match[3] === '*' ? undefined : parseInt(match[3], 10);
+    if (total !== undefined) {
+      return last + 1 < total ? { type: 'OFFSET', offset: last + 1 } : { type: 'EXHAUSTED' };
+    }
+    return received >= fullPageSize ? { type: 'OFFSET', offset: last + 1 } : { type: 'EXHAUSTED' };
+  }
+
+  const offset = page?.type === 'OFFSET' ? page.offset : 0;
+  return received >= fullPageSize ? { type: 'OFFSET', offset: offset + received } : { type: 'EXHAUSTED' };
+}
+
+/**
+ * Get the fetchAll page cap (FETCH_ALL_MAX_PAGES environment variable)
+ * @returns Maximum number of pages fetched per carrier
+ */
+export function getFetchAllMaxPages(): number {
+  const maxPages = parseInt(process.env.FETCH_ALL_MAX_PAGES || `${DEFAULT_FETCH_ALL_MAX_PAGES}`, 10);
+  return maxPages > 0 ? maxPages : DEFAULT_FETCH_ALL_MAX_PAGES;
+}
+
+/**
+ * Follow a carrier's pages until exhausted or the page cap is reached, and merge them
+ * @param fetchPage Fetches one page for a page state
+ * @param maxPages Maximum number of pages to fetch
+ * @param page Page state to start from (first page when omitted)
+ * @returns Merged items; next is EXHAUSTED unless the cap truncated the result
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page?: CarrierPageState) => Promise<Page<T>>,
+  maxPages: number,
+  page?: CarrierPageState
+): Promise<Page<T>> {
+  const items: T[] = [];
+  let next: CarrierPageState | undefined = page;
+
+  for (let fetched = 0; fetched < maxPages; fetched++) {
+    const result: Page<T> = await fetchPage(next);
+    items.push(...result.items);
+    next = result.next;
+    // An empty page that still announces more data would never end
+    if (next.type === 'EXHAUSTED' || result.items.length === 0) {
+      break;
+    }
+  }
+
+  return { items, next: next || { type: 'EXHAUSTED' } };
+}
+
+/**
+ * Get the rel="next" URL of a Link header (RFC 8288)
+ * e.g. <https://api.example.com/events?cursor=abc>; rel="next"
+ */
+function getNextLinkUrl(link?: string): string | undefined {
+  if (!link) {
+    return undefined;
+  }
+  for (const part of link.split(',')) {
+    const match = /<([^>]*)>\s*;(.*)/.exec(part.trim());
+    if (match && /rel="?([^";]*\s)?next(\s[^";]*)?"?/i.test(match[2])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the cursor query parameter from a next-page URL
+ */
+function extractCursorFromUrl(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url, 'http://localhost').searchParams.get('cursor') || undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Carrier Controller
+ * Handles carrier capability discovery API requests
+ */
+
+import { Request, Response } from 'express';
+import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodes, getCarrierIdentifier } from '@api/middleware/carrierFilter';
+import { Logger } from '@infrastructure/logger/Logger';
+
+/**
+ * Carrier Controller
+ */
+export class CarrierController {
+  private factory: CarrierAdapterFactory;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+  }
+
+  /**
+   * List available carriers with their capabilities
+   * GET /api/v1/carriers
+   */
+  async listCarriers(req: Request, res: Response): Promise<void> {
+    try {
+      const carriers = Array.from(this.factory.getAllAdapters().values()).map((adapter) =>
+        this.describeCarrier(adapter)
+      );
+      res.status(200).json({
+        success: true,
+        data: carriers,
+        meta: {
+          total: carriers.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Get the capabilities of a carrier
+   * GET /api/v1/carriers/:code
+   */
+  async getCarrier(req: Request, res: Response): Promise<void> {
+    try {
+      // Accepts the carrier identifier used by carrier= ("cma-cgm") or the carrier code ("CMCG")
+      const code = req.params.code.toLowerCase();
+      const carrierCode = (code !== 'all' && getCarrierCodes(code)[0]) || code.toUpperCase();
+
+      if (!this.factory.isCarrierAvailable(carrierCode)) {
+        res.status(404).json({
+          success: false,
+          error: 'Carrier not found',
+          message: `Carrier '${req.params.code}' not found or not configured`,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: this.describeCarrier(this.factory.getAdapter(carrierCode)),
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  private describeCarrier(adapter: CarrierAdapter) {
+    const capabilities = adapter.getCapabilities();
+    return {
+      id: getCarrierIdentifier(capabilities.carrier),
+      ...capabilities,
+    };
+  }
+
+  private handleError(req: Request, res: Response, error: any): void {
+    Logger.error('Carrier API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
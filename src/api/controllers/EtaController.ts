@@ -0,0 +1,258 @@
+/**
+ * ETA Controller
+ * Handles voyage watch, ETA revision and delay alert API requests
+ */
+
+import { Request, Response } from 'express';
+import { EtaSubjectType } from '@domain/models/eta';
+import { DelayDetectionService } from '@services/DelayDetectionService';
+import { WatchlistService } from '@services/WatchlistService';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { describeCarrierError } from '@api/middleware/errorHandler';
+import { CarrierError } from '@adapters/carriers/base/CarrierError';
+import { Logger } from '@infrastructure/logger/Logger';
+import { buildScheduleCalendar } from '@utils/icalendar';
+
+/**
+ * ETA Controller
+ */
+export class EtaController {
+  private delays: DelayDetectionService;
+  private watchlist: WatchlistService;
+  private factory: CarrierAdapterFactory;
+
+  constructor() {
+    this.delays = DelayDetectionService.getInstance();
+    this.watchlist = WatchlistService.getInstance();
+    this.factory = CarrierAdapterFactory.getInstance();
+  }
+
+  /**
+   * Register a voyage watch
+   * POST /api/v1/eta/voyages
+   */
+  async createVoyageWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const carrier = (req.body.carrier as string).toLowerCase();
+      const carrierCode = getCarrierCodes(carrier)[0];
+
+      if (!this.factory.isCarrierAvailable(carrierCode)) {
+        res.status(503).json({
+          error: 'Carrier not available',
+          message: `Carrier '${req.body.carrier}' is not available or not configured`,
+          carrier: req.body.carrier,
+        });
+        return;
+      }
+
+      const voyageWatch = await this.delays.createVoyageWatch({
+        carrier: carrierCode,
+        carrierVoyageNumber: req.body.carrierVoyageNumber,
+        vesselIMONumber: req.body.vesselIMONumber,
+        portOfDischarge: (req.body.portOfDischarge as string).toUpperCase(),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: voyageWatch,
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * List voyage watches
+   * GET /api/v1/eta/voyages
+   */
+  async listVoyageWatches(req: Request, res: Response): Promise<void> {
+    try {
+      const voyageWatches = await this.delays.listVoyageWatches();
+      res.status(200).json({
+        success: true,
+        data: voyageWatches,
+        meta: {
+          total: voyageWatches.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Get a voyage watch
+   * GET /api/v1/eta/voyages/:id
+   */
+  async getVoyageWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const voyageWatch = await this.delays.getVoyageWatch(req.params.id);
+      if (!voyageWatch) {
+        this.sendNotFound(res, 'Voyage watch', req.params.id);
+        return;
+      }
+      res.status(200).json({
+        success: true,
+        data: voyageWatch,
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Delete a voyage watch with its revisions and alerts
+   * DELETE /api/v1/eta/voyages/:id
+   */
+  async deleteVoyageWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.delays.deleteVoyageWatch(req.params.id);
+      if (!deleted) {
+        this.sendNotFound(res, 'Voyage watch', req.params.id);
+        return;
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Arrival revisions of a voyage watch
+   * GET /api/v1/eta/voyages/:id/revisions
+   */
+  async getVoyageTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const voyageWatch = await this.delays.getVoyageWatch(req.params.id);
+      if (!voyageWatch) {
+        this.sendNotFound(res, 'Voyage watch', req.params.id);
+        return;
+      }
+
+      const timeline = await this.delays.getTimeline('VOYAGE', voyageWatch.id, voyageWatch.carrier);
+      res.status(200).json({
+        success: true,
+        data: timeline,
+        meta: {
+          lastPolledAt: voyageWatch.lastPolledAt,
+          lastPollError: voyageWatch.lastPollError,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Calls and cut-offs of a watched voyage as a subscribable iCalendar feed
+   * Each request reads the carrier's current schedule, so subscribers see revised estimates
+   * GET /api/v1/eta/voyages/:id/calendar.ics
+   */
+  async getVoyageCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const voyageWatch = await this.delays.getVoyageWatch(req.params.id);
+      if (!voyageWatch) {
+        this.sendNotFound(res, 'Voyage watch', req.params.id);
+        return;
+      }
+
+      const schedules = await this.delays.getVoyageSchedule(voyageWatch);
+      const calendarName = [
+        'Voyage',
+        voyageWatch.carrierVoyageNumber,
+        voyageWatch.vesselIMONumber ? `(IMO ${voyageWatch.vesselIMONumber})` : undefined,
+      ]
+        .filter((part) => !!part)
+        .join(' ');
+
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .setHeader('Content-Disposition', `inline; filename="voyage-${voyageWatch.carrierVoyageNumber}.ics"`)
+        .send(buildScheduleCalendar(schedules, { name: calendarName }));
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Arrival revisions of a watched shipment
+   * GET /api/v1/eta/shipments/:watchId
+   */
+  async getShipmentTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const watch = await this.watchlist.getWatch(req.params.watchId);
+      if (!watch) {
+        this.sendNotFound(res, 'Watch', req.params.watchId);
+        return;
+      }
+
+      const timeline = await this.delays.getTimeline('SHIPMENT', watch.id, watch.carrier);
+      res.status(200).json({
+        success: true,
+        data: timeline,
+        meta: {
+          lastPolledAt: watch.lastPolledAt,
+          lastPollError: watch.lastPollError,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Delay alerts across watches and voyage watches
+   * GET /api/v1/eta/alerts?since=&subjectType=
+   */
+  async listAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      const subjectType = req.query.subjectType
+        ? ((req.query.subjectType as string).toUpperCase() as EtaSubjectType)
+        : undefined;
+      const alerts = await this.delays.listAlerts({ subjectType, since });
+
+      res.status(200).json({
+        success: true,
+        data: alerts,
+        meta: {
+          total: alerts.length,
+          since: since?.toISOString(),
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  private sendNotFound(res: Response, resource: string, id: string): void {
+    res.status(404).json({
+      success: false,
+      error: `${resource} not found`,
+      message: `${resource} '${id}' not found`,
+    });
+  }
+
+  private handleError(req: Request, res: Response, error: any): void {
+    Logger.error('ETA API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    // Carrier failure while reading a watched voyage's schedule
+    if (error instanceof CarrierError) {
+      res.status(error.httpStatus).json({
+        error: 'Carrier query failed',
+        message: error.message,
+        errors: [{ carrier: error.carrier, error: error.message, ...describeCarrierError(error) }],
+      });
+      return;
+    }
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
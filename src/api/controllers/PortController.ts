@@ -0,0 +1,263 @@
+/**
+ * Port Controller
+ * Handles port schedule API requests
+ */
+
+import { Request, Response } from 'express';
+import { CarrierCapabilities } from '@domain/models/capability';
+import { PortCall } from '@domain/models/portSchedule';
+import { ScheduleQuery, ScheduleQueryInput } from '@domain/models/scheduleQuery';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodes, SkippedCarrier } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { CarrierFailure, describeCarrierError, getCarrierFailureStatus } from '@api/middleware/errorHandler';
+import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { fetchAllPages, getFetchAllMaxPages } from '@adapters/http/pagination';
+import { resolveScheduleQuery } from '@utils/scheduleQuery';
+import {
+  filterPortCalls,
+  mergePortCalls,
+  resolvePortScheduleWindow,
+  sortPortCalls,
+  toPortCalls,
+} from '@utils/portSchedule';
+
+/**
+ * Port Controller
+ */
+export class PortController {
+  private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+  }
+
+  /**
+   * Get the vessel calls at a port, merged across carriers
+   * GET /api/v1/ports/:unlocode/schedule
+   */
+  async getPortSchedule(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const carrier = (req.query.carrier as string) || 'all';
+      // Dates and terminal are validated by the validation middleware
+      const window = resolvePortScheduleWindow(
+        req.params.unlocode,
+        req.query.from as string | undefined,
+        req.query.to as string | undefined,
+        req.query.terminal as string | undefined
+      );
+      // DCSA port schedules return calls from `date` on; HMM takes the whole window
+      const input: ScheduleQueryInput = {
+        UNLocationCode: window.UNLocationCode,
+        date: window.from,
+        startDate: window.from,
+        endDate: window.to,
+      };
+
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      // Carriers without a port schedule API are skipped, not called
+      const carrierCodes: string[] = [];
+      const skipped: SkippedCarrier[] = [];
+      for (const carrierCode of getCarrierCodes(carrier)) {
+        const capabilities = this.factory.getAdapter(carrierCode).getCapabilities();
+        if (this.resolvePortScheduleQuery(capabilities, input)) {
+          carrierCodes.push(carrierCode);
+        } else {
+          skipped.push({
+            carrier: carrierCode,
+            carrierName: capabilities.carrierName,
+            reason: `${capabilities.carrierName} does not support port schedule queries`,
+          });
+        }
+      }
+
+      if (carrierCodes.length === 0 && skipped.length > 0) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped,
+        });
+        return;
+      }
+
+      if (carrierCodes.length === 0) {
+        res.status(400).json({
+          error: 'No carriers available',
+          message: 'No carriers are configured or available',
+        });
+        return;
+      }
+
+      const bypassCache = isCacheBypassRequested(req);
+      const maxPages = getFetchAllMaxPages();
+
+      // Query all carriers in parallel
+      const results = await Promise.allSettled(
+        carrierCodes.map(async (carrierCode) => {
+          const carrierStartTime = Date.now();
+          try {
+            const adapter = this.factory.getAdapter(carrierCode);
+            const query = this.resolvePortScheduleQuery(adapter.getCapabilities(), input)!;
+            Logger.debug(`Querying ${carrierCode} port schedule`, {
+              carrier: carrierCode,
+              query,
+            });
+            // Every page is fetched (up to FETCH_ALL_MAX_PAGES): rows are filtered to the window afterwards
+            const { value: page, hit, age } = await this.cache.getOrFetch(
+              carrierCode,
+              'schedule',
+              { ...query, page: { type: 'START' }, fetchAll: true },
+              () => fetchAllPages((page) => adapter.getSchedulePage(query, page), maxPages),
+              { bypass: bypassCache }
+            );
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(
+              carrierCode,
+              'schedule',
+              'GET',
+              true,
+              duration
+            );
+            return {
+              carrier: carrierCode,
+              carrierName: adapter.getCarrierName(),
+              success: true,
+              calls: toPortCalls(page.items, carrierCode, adapter.getCarrierName(), window.UNLocationCode),
+              truncated: page.next.type !== 'EXHAUSTED',
+              cache: { hit, age },
+            };
+          } catch (error: any) {
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(
+              carrierCode,
+              'schedule',
+              'GET',
+              false,
+              duration,
+              error.message
+            );
+            Logger.error(`Failed to get port schedule from ${carrierCode}`, {
+              carrier: carrierCode,
+              error: error.message,
+              stack: error.stack,
+            });
+            return {
+              carrier: carrierCode,
+              success: false,
+              error: error.message || 'Unknown error',
+              failure: describeCarrierError(error),
+            };
+          }
+        })
+      );
+
+      // Process results
+      const calls: PortCall[] = [];
+      const errors: CarrierFailure[] = [];
+      const cacheStatus: Record<string, { hit: boolean; age: number }> = {};
+      // Carriers with more calls than fetched (FETCH_ALL_MAX_PAGES reached)
+      const truncatedCarriers: string[] = [];
+      let carriersSucceeded = 0;
+
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          const data = result.value;
+          if (data.success && data.calls) {
+            carriersSucceeded++;
+            if (data.cache) {
+              cacheStatus[data.carrier] = data.cache;
+            }
+            if (data.truncated) {
+              truncatedCarriers.push(data.carrier);
+            }
+            calls.push(...filterPortCalls(data.calls, window));
+          } else {
+            errors.push({
+              carrier: data.carrier,
+              error: data.error || 'No port schedule returned',
+              ...data.failure,
+            });
+          }
+        } else {
+          // Promise rejected
+          errors.push({
+            carrier: 'unknown',
+            error: result.reason?.message || 'Unknown error',
+          });
+        }
+      }
+
+      // Return response
+      const duration = Date.now() - startTime;
+      if (carriersSucceeded === 0 && errors.length > 0) {
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
+          error: 'All carriers failed',
+          message: 'All carrier queries failed',
+          errors: errors,
+          skipped: skipped.length > 0 ? skipped : undefined,
+        });
+        return;
+      }
+
+      // A call shared by several carriers (vessel sharing agreements) is one row listing them all
+      const data = sortPortCalls(mergePortCalls(calls));
+
+      Logger.logResponse(req.method, req.path, 200, duration, carrier);
+      res.status(200).json({
+        success: true,
+        data,
+        meta: {
+          ...window,
+          total: data.length,
+          carriersQueried: carrierCodes.length,
+          carriersSucceeded: carrierCodes.length - errors.length,
+          carriersFailed: errors.length,
+          carriersSkipped: skipped.length,
+          cache: cacheStatus,
+          truncated: truncatedCarriers.length > 0,
+          truncatedCarriers: truncatedCarriers.length > 0 ? truncatedCarriers : undefined,
+        },
+        errors: errors.length > 0 ? errors : undefined,
+        skipped: skipped.length > 0 ? skipped : undefined,
+      });
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      Logger.error('Port schedule API error', {
+        error: error.message,
+        stack: error.stack,
+        path: req.path,
+        query: req.query,
+      });
+      Logger.logResponse(req.method, req.path, 500, duration);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  }
+
+  /**
+   * Narrow the query to the carrier's port schedule mode
+   * Other schedule modes may match the same parameters, so only PORT_SCHEDULE is considered
+   * @param capabilities Carrier capability descriptor
+   * @param input Port schedule parameters
+   * @returns Port schedule query, or undefined if the carrier has no port schedule API
+   */
+  private resolvePortScheduleQuery(
+    capabilities: CarrierCapabilities,
+    input: ScheduleQueryInput
+  ): ScheduleQuery | undefined {
+    return resolveScheduleQuery(
+      { ...capabilities, modes: capabilities.modes.filter((mode) => mode.mode === 'PORT_SCHEDULE') },
+      input
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Route Controller
+ * Handles point-to-point route search API requests
+ */
+
+import { Request, Response } from 'express';
+import { PointToPointRoute, RouteQueryParams } from '@domain/models/route';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { CarrierFailure, describeCarrierError, getCarrierFailureStatus } from '@api/middleware/errorHandler';
+import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+
+/**
+ * Route Controller
+ */
+export class RouteController {
+  private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+  }
+
+  /**
+   * Get point-to-point routes
+   * GET /api/v1/routes
+   */
+  async getRoutes(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const carrier = (req.query.carrier as string) || 'all';
+      const carrierCodes = getCarrierCodes(carrier);
+
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      if (carrierCodes.length === 0) {
+        res.status(400).json({
+          error: 'No carriers available',
+          message: 'No carriers are configured or available',
+        });
+        return;
+      }
+
+      // Build carrier-neutral query parameters
+      const queryParams: RouteQueryParams = {
+        origin: (req.query.origin as string).toUpperCase(),
+        destination: (req.query.destination as string).toUpperCase(),
+        departureFrom: req.query.departureFrom as string | undefined,
+        departureTo: req.query.departureTo as string | undefined,
+        arrivalFrom: req.query.arrivalFrom as string | undefined,
+        arrivalTo: req.query.arrivalTo as string | undefined,
+        maxTransshipments: req.query.maxTransshipments
+          ? parseInt(req.query.maxTransshipments as string, 10)
+          : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      };
+
+      const bypassCache = isCacheBypassRequested(req);
+
+      // Query all carriers in parallel
+      const results = await Promise.allSettled(
+        carrierCodes.map(async (carrierCode) => {
+          const carrierStartTime = Date.now();
+          try {
+            const adapter = this.factory.getAdapter(carrierCode);
+            Logger.debug(`Querying ${carrierCode} route API`, {
+              carrier: carrierCode,
+              params: queryParams,
+            });
+            const { value: routes, hit, age } = await this.cache.getOrFetch(
+              carrierCode,
+              'route',
+              queryParams,
+              () => adapter.getRoutes(queryParams),
+              { bypass: bypassCache }
+            );
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(
+              carrierCode,
+              'route',
+              'GET',
+              true,
+              duration
+            );
+            return {
+              carrier: carrierCode,
+              carrierName: adapter.getCarrierName(),
+              success: true,
+              routes: routes,
+              cache: { hit, age },
+            };
+          } catch (error: any) {
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(
+              carrierCode,
+              'route',
+              'GET',
+              false,
+              duration,
+              error.message
+            );
+            Logger.error(`Failed to get routes from ${carrierCode}`, {
+              carrier: carrierCode,
+              error: error.message,
+              stack: error.stack,
+            });
+            return {
+              carrier: carrierCode,
+              success: false,
+              error: error.message || 'Unknown error',
+              // Carrier error code, upstream status and, e.g. for an open circuit, when to retry
+              failure: describeCarrierError(error),
+            };
+          }
+        })
+      );
+
+      // Process results
+      const successfulResults: Array<PointToPointRoute & { carrierName?: string }> = [];
+      const errors: CarrierFailure[] = [];
+      const cacheStatus: Record<string, { hit: boolean; age: number }> = {};
+
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          const data = result.value;
+          if (data.success && data.routes) {
+            if (data.cache) {
+              cacheStatus[data.carrier] = data.cache;
+            }
+            // Add carrier information to each route
+            const routesWithCarrier = data.routes.map((route) => ({
+              ...route,
+              carrier: data.carrier,
+              carrierName: data.carrierName,
+            }));
+            successfulResults.push(
+              ...(queryParams.limit ? routesWithCarrier.slice(0, queryParams.limit) : routesWithCarrier)
+            );
+          } else {
+            errors.push({
+              carrier: data.carrier,
+              error: data.error || 'No routes returned',
+              ...data.failure,
+            });
+          }
+        } else {
+          // Promise rejected
+          errors.push({
+            carrier: 'unknown',
+            error: result.reason?.message || 'Unknown error',
+          });
+        }
+      }
+
+      // Sort routes by departure date across carriers
+      successfulResults.sort((a, b) => {
+        const aTime = a.placeOfReceipt.dateTime ? new Date(a.placeOfReceipt.dateTime).getTime() : Infinity;
+        const bTime = b.placeOfReceipt.dateTime ? new Date(b.placeOfReceipt.dateTime).getTime() : Infinity;
+        return aTime - bTime;
+      });
+
+      // Return response
+      const duration = Date.now() - startTime;
+      if (successfulResults.length === 0 && errors.length > 0) {
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
+          error: 'All carriers failed',
+          message: 'All carrier queries failed',
+          errors: errors,
+        });
+        return;
+      }
+
+      Logger.logResponse(req.method, req.path, 200, duration, carrier);
+      res.status(200).json({
+        success: true,
+        data: successfulResults,
+        meta: {
+          total: successfulResults.length,
+          carriersQueried: carrierCodes.length,
+          carriersSucceeded: carrierCodes.length - errors.length,
+          carriersFailed: errors.length,
+          cache: cacheStatus,
+        },
+        errors: errors.length > 0 ? errors : undefined,
+      });
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      Logger.error('Route API error', {
+        error: error.message,
+        stack: error.stack,
+        path: req.path,
+        query: req.query,
+      });
+      Logger.logResponse(req.method, req.path, 500, duration);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -4,19 +4,45 @@
  */
 
 import { Request, Response } from 'express';
-import { ScheduleQueryParams } from '@domain/models/schedule';
+import { ServiceSchedule } from '@domain/models/schedule';
+import { ScheduleQueryInput } from '@domain/models/scheduleQuery';
+import { CarrierPageState } from '@domain/models/pagination';
 import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
-import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { getCarrierCodes, selectCarriersForQuery } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { getExportColumns, getExportFormat, sendExport } from '@api/middleware/exportFormat';
+import { CarrierFailure, describeCarrierError, getCarrierFailureStatus } from '@api/middleware/errorHandler';
 import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { fetchAllPages, getFetchAllMaxPages } from '@adapters/http/pagination';
+import { decodeCompositeCursor, encodeCompositeCursor, getPendingCarriers } from '@utils/compositeCursor';
+import { SCHEDULE_EXPORT_COLUMNS, flattenSchedules } from '@utils/tabularExport';
+import { buildScheduleCalendar } from '@utils/icalendar';
+import { ParsedScheduleQuery, resolveScheduleQuery } from '@utils/scheduleQuery';
+import { getUnsupportedQueryReason } from '@utils/capabilityUtils';
+
+/**
+ * Combined result of a multi-carrier schedule query
+ */
+interface ScheduleQueryResult {
+  successfulResults: Array<ServiceSchedule & { carrier: string; carrierName?: string }>;
+  errors: CarrierFailure[];
+  cacheStatus: Record<string, { hit: boolean; age: number }>;
+  nextPageStates: Record<string, CarrierPageState>;
+  truncatedCarriers: string[];
+}
 
 /**
  * Schedule Controller
  */
 export class ScheduleController {
   private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
 
   constructor() {
     this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
   }
 
   /**
@@ -27,10 +53,37 @@ export class ScheduleController {
     const startTime = Date.now();
     try {
       const carrier = (req.query.carrier as string) || 'all';
-      const carrierCodes = getCarrierCodes(carrier);
+      // Parsed by the validation middleware
+      const { input, unknownParams } = res.locals.scheduleQuery as ParsedScheduleQuery;
+      const warnings = this.warnUnknownParams(req, unknownParams);
+      // Continuing a previous query: only carriers with more pages are queried again
+      // (cursor is validated by the validation middleware)
+      const pageStates = req.query.cursor
+        ? decodeCompositeCursor('schedule', req.query.cursor as string)
+        : undefined;
+      // Carriers without a query mode matching the parameters are skipped, not called
+      const { carriers: capableCarriers, skipped } = selectCarriersForQuery(
+        getCarrierCodes(carrier),
+        'schedule',
+        input
+      );
+      const carrierCodes = pageStates
+        ? capableCarriers.filter((code) => getPendingCarriers(pageStates).includes(code))
+        : capableCarriers;
 
       Logger.logRequest(req.method, req.path, req.query, carrier);
 
+      if (carrierCodes.length === 0 && skipped.length > 0) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped,
+          warnings: warnings.length > 0 ? warnings : undefined,
+        });
+        return;
+      }
+
       if (carrierCodes.length === 0) {
         res.status(400).json({
           error: 'No carriers available',
@@ -39,244 +92,39 @@ export class ScheduleController {
         return;
       }
 
-      // Build query parameters
-      const queryParams: ScheduleQueryParams & {
-        // HMM PTP Schedule parameters
-        fromLocationCode?: string;
-        toLocationCode?: string;
-        periodDate?: string;
-        weekTerm?: string;
-        receiveTermCode?: string;
-        deliveryTermCode?: string;
-        webSort?: string;
-        webPriority?: string;
-        // CMA CGM Route API parameters
-        placeOfLoading?: string;
-        placeOfDischarge?: string;
-        unLocodePlaceOfLoading?: string;
-        unLocodePlaceOfDischarge?: string;
-        shippingCompany?: string;
-        departureDate?: string;
-        arrivalDate?: string;
-        searchRange?: string;
-        polVesselIMO?: string;
-        polServiceCode?: string;
-        maxTs?: string;
-        numberOfTEU?: string;
-        specificRoutings?: string | string[];
-        useRoutingStatistics?: string | boolean;
-        // CMA CGM Voyage API parameters
-        voyageCode?: string;
-        vesselIMO?: string;
-        from?: string;
-        to?: string;
-        portCode?: string | string[];
-        countryCode?: string | string[];
-        shipcomp?: string | string[];
-        searchType?: string;
-        callId?: string | string[];
-        dateType?: string;
-        terminalCode?: string;
-        sort?: string;
-        // CMA CGM Proforma API parameters
-        serviceCode?: string;
-        lineCode?: string;
-        zoneFromCode?: string;
-        zoneToCode?: string;
-        codeContains?: string;
-        nameContains?: string;
-        port?: string;
-        terminal?: string;
-        serviceType?: string;
-        // Maersk Point-to-Point API parameters
-        placeOfReceipt?: string;
-        placeOfDelivery?: string;
-        departureStartDate?: string;
-        departureEndDate?: string;
-        arrivalStartDate?: string;
-        arrivalEndDate?: string;
-        maxTranshipment?: number;
-        receiptTypeAtOrigin?: string;
-        deliveryTypeAtDestination?: string;
-        cargoType?: string;
-        ISOEquipmentCode?: string;
-        stuffingWeight?: number;
-        stuffingVolume?: number;
-        // Maersk Port Schedule API parameters
-        date?: string;
-      } = {
-        vesselIMONumber: req.query.vesselIMONumber as string | undefined,
-        vesselName: req.query.vesselName as string | undefined,
-        carrierServiceCode: req.query.carrierServiceCode as string | undefined,
-        universalServiceReference: req.query.universalServiceReference as string | undefined,
-        carrierVoyageNumber: req.query.carrierVoyageNumber as string | undefined,
-        universalVoyageReference: req.query.universalVoyageReference as string | undefined,
-        UNLocationCode: req.query.UNLocationCode as string | undefined,
-        facilitySMDGCode: req.query.facilitySMDGCode as string | undefined,
-        vesselOperatorCarrierCode: req.query.vesselOperatorCarrierCode as string | undefined,
-        startDate: req.query.startDate as string | undefined,
-        endDate: req.query.endDate as string | undefined,
-        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
-        cursor: req.query.cursor as string | undefined,
-        // HMM PTP Schedule specific parameters
-        fromLocationCode: req.query.fromLocationCode as string | undefined,
-        toLocationCode: req.query.toLocationCode as string | undefined,
-        periodDate: req.query.periodDate as string | undefined,
-        weekTerm: req.query.weekTerm as string | undefined,
-        receiveTermCode: req.query.receiveTermCode as string | undefined,
-        deliveryTermCode: req.query.deliveryTermCode as string | undefined,
-        webSort: req.query.webSort as string | undefined,
-        webPriority: req.query.webPriority as string | undefined,
-        // CMA CGM Route API parameters
-        placeOfLoading: req.query.placeOfLoading as string | undefined,
-        placeOfDischarge: req.query.placeOfDischarge as string | undefined,
-        unLocodePlaceOfLoading: req.query.unLocodePlaceOfLoading as string | undefined,
-        unLocodePlaceOfDischarge: req.query.unLocodePlaceOfDischarge as string | undefined,
-        shippingCompany: req.query.shippingCompany as string | undefined,
-        departureDate: req.query.departureDate as string | undefined,
-        arrivalDate: req.query.arrivalDate as string | undefined,
-        searchRange: req.query.searchRange as string | undefined,
-        polVesselIMO: req.query.polVesselIMO as string | undefined,
-        polServiceCode: req.query.polServiceCode as string | undefined,
-        maxTs: req.query.maxTs as string | undefined,
-        numberOfTEU: req.query.numberOfTEU as string | undefined,
-        specificRoutings: req.query.specificRoutings as string | string[] | undefined,
-        useRoutingStatistics: req.query.useRoutingStatistics as string | boolean | undefined,
-        // CMA CGM Voyage API parameters
-        voyageCode: req.query.voyageCode as string | undefined,
-        vesselIMO: req.query.vesselIMO as string | undefined,
-        from: req.query.from as string | undefined,
-        to: req.query.to as string | undefined,
-        portCode: req.query.portCode as string | string[] | undefined,
-        countryCode: req.query.countryCode as string | string[] | undefined,
-        shipcomp: req.query.shipcomp as string | string[] | undefined,
-        searchType: req.query.searchType as string | undefined,
-        callId: req.query.callId as string | string[] | undefined,
-        dateType: req.query.dateType as string | undefined,
-        terminalCode: req.query.terminalCode as string | undefined,
-        sort: req.query.sort as string | undefined,
-        // CMA CGM Proforma API parameters
-        serviceCode: req.query.serviceCode as string | undefined,
-        lineCode: req.query.lineCode as string | undefined,
-        zoneFromCode: req.query.zoneFromCode as string | undefined,
-        zoneToCode: req.query.zoneToCode as string | undefined,
-        codeContains: req.query.codeContains as string | undefined,
-        nameContains: req.query.nameContains as string | undefined,
-        port: req.query.port as string | undefined,
-        terminal: req.query.terminal as string | undefined,
-        serviceType: req.query.serviceType as string | undefined,
-        // Maersk Point-to-Point API parameters
-        placeOfReceipt: req.query.placeOfReceipt as string | undefined,
-        placeOfDelivery: req.query.placeOfDelivery as string | undefined,
-        departureStartDate: req.query.departureStartDate as string | undefined,
-        departureEndDate: req.query.departureEndDate as string | undefined,
-        arrivalStartDate: req.query.arrivalStartDate as string | undefined,
-        arrivalEndDate: req.query.arrivalEndDate as string | undefined,
-        maxTranshipment: req.query.maxTranshipment ? parseInt(req.query.maxTranshipment as string, 10) : undefined,
-        receiptTypeAtOrigin: req.query.receiptTypeAtOrigin as string | undefined,
-        deliveryTypeAtDestination: req.query.deliveryTypeAtDestination as string | undefined,
-        cargoType: req.query.cargoType as string | undefined,
-        ISOEquipmentCode: req.query.ISOEquipmentCode as string | undefined,
-        stuffingWeight: req.query.stuffingWeight ? parseInt(req.query.stuffingWeight as string, 10) : undefined,
-        stuffingVolume: req.query.stuffingVolume ? parseInt(req.query.stuffingVolume as string, 10) : undefined,
-        // Maersk Port Schedule API parameters
-        date: req.query.date as string | undefined,
-      };
-
-      // Query all carriers in parallel
-      const results = await Promise.allSettled(
-        carrierCodes.map(async (carrierCode) => {
-          const carrierStartTime = Date.now();
-          try {
-            const adapter = this.factory.getAdapter(carrierCode);
-            Logger.debug(`Querying ${carrierCode} schedule API`, {
-              carrier: carrierCode,
-              params: queryParams,
-            });
-            const schedules = await adapter.getSchedule(queryParams);
-            const duration = Date.now() - carrierStartTime;
-            Logger.logCarrierCall(
-              carrierCode,
-              'schedule',
-              'GET',
-              true,
-              duration
-            );
-            return {
-              carrier: carrierCode,
-              carrierName: adapter.getCarrierName(),
-              success: true,
-              schedules: schedules,
-            };
-          } catch (error: any) {
-            const duration = Date.now() - carrierStartTime;
-            Logger.logCarrierCall(
-              carrierCode,
-              'schedule',
-              'GET',
-              false,
-              duration,
-              error.message
-            );
-            Logger.error(`Failed to get schedule from ${carrierCode}`, {
-              carrier: carrierCode,
-              error: error.message,
-              stack: error.stack,
-            });
-            return {
-              carrier: carrierCode,
-              success: false,
-              error: error.message || 'Unknown error',
-            };
-          }
-        })
-      );
-
-      // Process results
-      // Use 'any[]' to preserve additional fields from Proforma API
-      const successfulResults: any[] = [];
-      const errors: Array<{ carrier: string; error: string }> = [];
-
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          const data = result.value;
-          if (data.success && data.schedules) {
-            // Add carrier information to each schedule
-            // Use spread operator to preserve all fields including additional Proforma API fields
-            const schedulesWithCarrier = data.schedules.map((schedule: any) => ({
-              ...schedule,
-              carrier: data.carrier,
-              carrierName: data.carrierName,
-            }));
-            successfulResults.push(...schedulesWithCarrier);
-          } else {
-            errors.push({
-              carrier: data.carrier,
-              error: data.error || 'No schedules returned',
-            });
-          }
-        } else {
-          // Promise rejected
-          errors.push({
-            carrier: 'unknown',
-            error: result.reason?.message || 'Unknown error',
-          });
-        }
-      }
+      const { successfulResults, errors, cacheStatus, nextPageStates, truncatedCarriers } =
+        await this.querySchedules(req, input, carrierCodes, pageStates);
 
       // Return response
       const duration = Date.now() - startTime;
       if (successfulResults.length === 0 && errors.length > 0) {
-        Logger.logResponse(req.method, req.path, 503, duration, carrier);
-        res.status(503).json({
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
           error: 'All carriers failed',
           message: 'All carrier queries failed',
           errors: errors,
+          skipped: skipped.length > 0 ? skipped : undefined,
+          warnings: warnings.length > 0 ? warnings : undefined,
         });
         return;
       }
 
       Logger.logResponse(req.method, req.path, 200, duration, carrier);
+
+      // CSV / XLSX export: one row per transport call
+      const format = getExportFormat(req);
+      if (format !== 'json') {
+        const columns = getExportColumns(req, SCHEDULE_EXPORT_COLUMNS);
+        sendExport(res, format, 'schedules', columns, flattenSchedules(successfulResults), {
+          nextCursor: encodeCompositeCursor('schedule', nextPageStates),
+          truncatedCarriers,
+          errors,
+          skipped,
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
         data: successfulResults,
@@ -285,8 +133,16 @@ export class ScheduleController {
           carriersQueried: carrierCodes.length,
           carriersSucceeded: carrierCodes.length - errors.length,
           carriersFailed: errors.length,
+          carriersSkipped: skipped.length,
+          cache: cacheStatus,
+          fetchAll: req.query.fetchAll === 'true',
+          truncated: truncatedCarriers.length > 0,
+          truncatedCarriers: truncatedCarriers.length > 0 ? truncatedCarriers : undefined,
+          nextCursor: encodeCompositeCursor('schedule', nextPageStates),
         },
         errors: errors.length > 0 ? errors : undefined,
+        skipped: skipped.length > 0 ? skipped : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
       });
     } catch (error: any) {
       const duration = Date.now() - startTime;
@@ -303,5 +159,247 @@ export class ScheduleController {
       });
     }
   }
-}
 
+  /**
+   * Get vessel calls and cut-offs as an iCalendar feed
+   * Takes the same filters as GET /api/v1/schedules; every carrier page is included (up to FETCH_ALL_MAX_PAGES)
+   * GET /api/v1/schedules.ics
+   */
+  async getScheduleCalendar(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const carrier = (req.query.carrier as string) || 'all';
+      // Parsed by the validation middleware
+      const { input, unknownParams } = res.locals.scheduleQuery as ParsedScheduleQuery;
+      this.warnUnknownParams(req, unknownParams);
+      const { carriers: carrierCodes, skipped } = selectCarriersForQuery(
+        getCarrierCodes(carrier),
+        'schedule',
+        input
+      );
+
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      if (carrierCodes.length === 0 && skipped.length > 0) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped,
+        });
+        return;
+      }
+
+      if (carrierCodes.length === 0) {
+        res.status(400).json({
+          error: 'No carriers available',
+          message: 'No carriers are configured or available',
+        });
+        return;
+      }
+
+      const { successfulResults, errors } = await this.querySchedules(req, input, carrierCodes, undefined, true);
+
+      const duration = Date.now() - startTime;
+      if (successfulResults.length === 0 && errors.length > 0) {
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
+          error: 'All carriers failed',
+          message: 'All carrier queries failed',
+          errors: errors,
+          skipped: skipped.length > 0 ? skipped : undefined,
+        });
+        return;
+      }
+
+      const calendarName = [
+        'Vessel schedules',
+        input.vesselName || input.vesselIMONumber,
+        input.carrierVoyageNumber,
+        input.carrierServiceCode,
+        input.UNLocationCode,
+      ]
+        .filter((part) => !!part)
+        .join(' - ');
+
+      Logger.logResponse(req.method, req.path, 200, duration, carrier);
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .setHeader('Content-Disposition', 'inline; filename="schedules.ics"')
+        .send(buildScheduleCalendar(successfulResults, { name: calendarName }));
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      Logger.error('Schedule calendar API error', {
+        error: error.message,
+        stack: error.stack,
+        path: req.path,
+        query: req.query,
+      });
+      Logger.logResponse(req.method, req.path, 500, duration);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  }
+
+  /**
+   * Log query parameters no schedule query mode accepts (they are ignored, not rejected)
+   * @param req Express request
+   * @param unknownParams Unknown parameter names
+   * @returns Warnings for the response
+   */
+  private warnUnknownParams(req: Request, unknownParams: string[]): string[] {
+    if (unknownParams.length > 0) {
+      Logger.warn('Unknown schedule query parameters ignored', { path: req.path, params: unknownParams });
+    }
+    return unknownParams.map((param) => `Unknown query parameter '${param}' was ignored`);
+  }
+
+  /**
+   * Query the schedule APIs of the given carriers in parallel
+   * @param req Express request
+   * @param input Parsed schedule query parameters (narrowed to each carrier's query mode)
+   * @param carrierCodes Carriers to query
+   * @param pageStates Page state per carrier from a composite cursor (first page when omitted)
+   * @param forceFetchAll Follow every carrier's pages regardless of the fetchAll parameter
+   * @returns Schedules with carrier fields, per-carrier errors, cache status and page states
+   */
+  private async querySchedules(
+    req: Request,
+    input: ScheduleQueryInput,
+    carrierCodes: string[],
+    pageStates?: Record<string, CarrierPageState>,
+    forceFetchAll: boolean = false
+  ): Promise<ScheduleQueryResult> {
+    const bypassCache = isCacheBypassRequested(req);
+    // fetchAll: follow each carrier's pages up to FETCH_ALL_MAX_PAGES and merge them
+    const fetchAll = forceFetchAll || req.query.fetchAll === 'true';
+    const maxPages = getFetchAllMaxPages();
+
+    // Query all carriers in parallel
+    const results = await Promise.allSettled(
+      carrierCodes.map(async (carrierCode) => {
+        const carrierStartTime = Date.now();
+        const pageState: CarrierPageState | undefined = pageStates?.[carrierCode];
+        try {
+          const adapter = this.factory.getAdapter(carrierCode);
+          // Each carrier receives only the fields of the query mode serving the parameters
+          const query = resolveScheduleQuery(adapter.getCapabilities(), input);
+          if (!query) {
+            throw new InvalidParameterError(getUnsupportedQueryReason(adapter.getCapabilities(), 'schedule'), {
+              carrier: carrierCode,
+              endpointType: 'schedule',
+            });
+          }
+          Logger.debug(`Querying ${carrierCode} schedule API`, {
+            carrier: carrierCode,
+            query,
+          });
+          const { value: page, hit, age } = await this.cache.getOrFetch(
+            carrierCode,
+            'schedule',
+            {
+              ...query,
+              // Always keyed by page: cached pages must not collide with cached schedule arrays (voyage calendars)
+              page: pageState || { type: 'START' },
+              fetchAll: fetchAll || undefined,
+            },
+            () =>
+              fetchAll
+                ? fetchAllPages((page) => adapter.getSchedulePage(query, page), maxPages, pageState)
+                : adapter.getSchedulePage(query, pageState),
+            { bypass: bypassCache }
+          );
+          const duration = Date.now() - carrierStartTime;
+          Logger.logCarrierCall(
+            carrierCode,
+            'schedule',
+            'GET',
+            true,
+            duration
+          );
+          return {
+            carrier: carrierCode,
+            carrierName: adapter.getCarrierName(),
+            success: true,
+            schedules: page.items,
+            next: page.next,
+            cache: { hit, age },
+          };
+        } catch (error: any) {
+          const duration = Date.now() - carrierStartTime;
+          Logger.logCarrierCall(
+            carrierCode,
+            'schedule',
+            'GET',
+            false,
+            duration,
+            error.message
+          );
+          Logger.error(`Failed to get schedule from ${carrierCode}`, {
+            carrier: carrierCode,
+            error: error.message,
+            stack: error.stack,
+          });
+          return {
+            carrier: carrierCode,
+            success: false,
+            error: error.message || 'Unknown error',
+            // Carrier error code, upstream status and, e.g. for an open circuit, when to retry
+            failure: describeCarrierError(error),
+            // Failed carriers are retried from the same page with the next cursor
+            next: pageState || ({ type: 'START' } as CarrierPageState),
+          };
+        }
+      })
+    );
+
+    // Process results
+    const successfulResults: ScheduleQueryResult['successfulResults'] = [];
+    const errors: CarrierFailure[] = [];
+    const cacheStatus: Record<string, { hit: boolean; age: number }> = {};
+    const nextPageStates: Record<string, CarrierPageState> = {};
+    // Carriers with more results than returned (next page or fetchAll cap)
+    const truncatedCarriers: string[] = [];
+
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        const data = result.value;
+        nextPageStates[data.carrier] = data.next;
+        if (data.success && data.schedules) {
+          if (data.cache) {
+            cacheStatus[data.carrier] = data.cache;
+          }
+          if (data.next.type !== 'EXHAUSTED') {
+            truncatedCarriers.push(data.carrier);
+          }
+          // Add carrier information to each schedule
+          // Use spread operator to preserve all fields including additional Proforma API fields
+          const schedulesWithCarrier = data.schedules.map((schedule) => ({
+            ...schedule,
+            carrier: data.carrier,
+            carrierName: data.carrierName,
+          }));
+          successfulResults.push(...schedulesWithCarrier);
+        } else {
+          errors.push({
+            carrier: data.carrier,
+            error: data.error || 'No schedules returned',
+            ...data.failure,
+          });
+        }
+      } else {
+        // Promise rejected
+        errors.push({
+          carrier: 'unknown',
+          error: result.reason?.message || 'Unknown error',
+        });
+      }
+    }
+
+    return { successfulResults, errors, cacheStatus, nextPageStates, truncatedCarriers };
+  }
+}
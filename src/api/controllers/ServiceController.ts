@@ -0,0 +1,130 @@
+/**
+ * Service Controller
+ * Handles service rotation API requests
+ */
+
+import { Request, Response } from 'express';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { isServiceRotationAdapter } from '@adapters/carriers/base/ServiceRotationAdapter';
+import { CarrierError } from '@adapters/carriers/base/CarrierError';
+import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { describeCarrierError } from '@api/middleware/errorHandler';
+import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { findQueryMode, getUnsupportedQueryReason } from '@utils/capabilityUtils';
+
+/**
+ * Service Controller
+ */
+export class ServiceController {
+  private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+  }
+
+  /**
+   * Get the proforma rotation and fleet of a service
+   * GET /api/v1/services/:carrier/:serviceCode
+   */
+  async getServiceRotation(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    const carrier = req.params.carrier.toLowerCase();
+    const serviceCode = req.params.serviceCode.trim();
+    const carrierCode = getCarrierCodes(carrier)[0];
+
+    try {
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      if (!carrierCode || !this.factory.isCarrierAvailable(carrierCode)) {
+        res.status(404).json({
+          success: false,
+          error: 'Carrier not found',
+          message: `Carrier '${req.params.carrier}' not found or not configured`,
+        });
+        return;
+      }
+
+      const adapter = this.factory.getAdapter(carrierCode);
+      const capabilities = adapter.getCapabilities();
+      if (!isServiceRotationAdapter(adapter) || !findQueryMode(capabilities, 'service', { serviceCode })) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped: [
+            {
+              carrier: carrierCode,
+              carrierName: capabilities.carrierName,
+              reason: getUnsupportedQueryReason(capabilities, 'service'),
+            },
+          ],
+        });
+        return;
+      }
+
+      // Proforma data changes with network redesigns only, so it gets its own (long) TTL
+      const carrierStartTime = Date.now();
+      const {
+        value: { truncated, ...rotation },
+        hit,
+        age,
+      } = await this.cache.getOrFetch(
+        carrierCode,
+        'proforma',
+        { serviceCode },
+        () => adapter.getServiceRotation(serviceCode),
+        { bypass: isCacheBypassRequested(req) }
+      );
+      Logger.logCarrierCall(carrierCode, 'proforma', 'GET', true, Date.now() - carrierStartTime);
+
+      Logger.logResponse(req.method, req.path, 200, Date.now() - startTime, carrier);
+      res.status(200).json({
+        success: true,
+        data: {
+          ...rotation,
+          carrierName: adapter.getCarrierName(),
+        },
+        meta: {
+          carrier: carrierCode,
+          serviceCode,
+          totalCalls: rotation.proformaCalls.length,
+          totalVessels: rotation.fleet.length,
+          truncated: !!truncated,
+          cache: { hit, age },
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof CarrierError) {
+        Logger.logCarrierCall(carrierCode, 'proforma', 'GET', false, Date.now() - startTime, error.message);
+      }
+      this.handleError(req, res, error, Date.now() - startTime);
+    }
+  }
+
+  private handleError(req: Request, res: Response, error: any, duration: number): void {
+    Logger.error('Service API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    // Carrier failure, e.g. unknown service code (NOT_FOUND)
+    if (error instanceof CarrierError) {
+      Logger.logResponse(req.method, req.path, error.httpStatus, duration);
+      res.status(error.httpStatus).json({
+        error: 'Carrier query failed',
+        message: error.message,
+        errors: [{ carrier: error.carrier, error: error.message, ...describeCarrierError(error) }],
+      });
+      return;
+    }
+    Logger.logResponse(req.method, req.path, 500, duration);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Shipment Controller
+ * Handles shipment summary API requests
+ */
+
+import { Request, Response } from 'express';
+import { TrackingEvent, TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { resolveCarrierRouting, selectCarriersForQuery } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { CarrierFailure, describeCarrierError, getCarrierFailureStatus } from '@api/middleware/errorHandler';
+import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { TrackingHistoryService } from '@services/TrackingHistoryService';
+import { isValidContainerNumber, normalizeContainerNumber } from '@utils/containerNumber';
+import { buildShipmentSummary } from '@utils/shipmentSummary';
+
+/**
+ * Reference types accepted by the shipment summary
+ */
+export type ShipmentReferenceType = 'equipment' | 'transportDocument' | 'booking';
+
+/**
+ * Shipment Controller
+ */
+export class ShipmentController {
+  private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+  private history: TrackingHistoryService;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+    this.history = TrackingHistoryService.getInstance();
+  }
+
+  /**
+   * Get shipment summary
+   * GET /api/v1/shipments/:reference
+   */
+  async getShipment(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const carrier = (req.query.carrier as string) || 'all';
+      const reference = req.params.reference.trim();
+
+      // Container numbers are recognized by their check digit, anything else is treated as a B/L
+      const referenceType: ShipmentReferenceType = req.query.referenceType
+        ? (req.query.referenceType as ShipmentReferenceType)
+        : isValidContainerNumber(reference)
+          ? 'equipment'
+          : 'transportDocument';
+
+      const queryParams: TrackingQueryParams = {
+        carrierBookingReference:
+          referenceType === 'booking'
+            ? reference
+            : (req.query.carrierBookingReference as string | undefined),
+        transportDocumentReference: referenceType === 'transportDocument' ? reference : undefined,
+        equipmentReference:
+          referenceType === 'equipment'
+            ? normalizeContainerNumber(reference)
+            : req.query.equipmentReference
+              ? normalizeContainerNumber(req.query.equipmentReference as string)
+              : undefined,
+      };
+
+      const routing = resolveCarrierRouting(carrier, queryParams.equipmentReference);
+      // Carriers without a query mode matching the reference are skipped, not called
+      const { carriers: carrierCodes, skipped } = selectCarriersForQuery(
+        routing.carriers,
+        'tracking',
+        { ...queryParams }
+      );
+
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      if (carrierCodes.length === 0 && skipped.length > 0) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can track this reference type (see GET /api/v1/carriers)',
+          skipped,
+          routing,
+        });
+        return;
+      }
+
+      if (carrierCodes.length === 0) {
+        res.status(400).json({
+          error: 'No carriers available',
+          message: 'No carriers are configured or available',
+        });
+        return;
+      }
+
+      const bypassCache = isCacheBypassRequested(req);
+
+      // Query all carriers in parallel (shares cached tracking responses)
+      const results = await Promise.allSettled(
+        carrierCodes.map(async (carrierCode) => {
+          const carrierStartTime = Date.now();
+          try {
+            const adapter = this.factory.getAdapter(carrierCode);
+            const { value: events, hit, age } = await this.cache.getOrFetch(
+              carrierCode,
+              'tracking',
+              queryParams,
+              () => adapter.getTracking(queryParams),
+              { bypass: bypassCache }
+            );
+            if (!hit && Array.isArray(events)) {
+              await this.history.record(carrierCode, queryParams, events);
+            }
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(carrierCode, 'tracking', 'GET', true, duration);
+            return {
+              carrier: carrierCode,
+              carrierName: adapter.getCarrierName(),
+              success: true,
+              events: Array.isArray(events) ? events : [],
+              cache: { hit, age },
+            };
+          } catch (error: any) {
+            const duration = Date.now() - carrierStartTime;
+            Logger.logCarrierCall(carrierCode, 'tracking', 'GET', false, duration, error.message);
+            Logger.error(`Failed to get shipment from ${carrierCode}`, {
+              carrier: carrierCode,
+              error: error.message,
+              stack: error.stack,
+            });
+            return {
+              carrier: carrierCode,
+              success: false,
+              error: error.message || 'Unknown error',
+              // Carrier error code, upstream status and, e.g. for an open circuit, when to retry
+              failure: describeCarrierError(error),
+            };
+          }
+        })
+      );
+
+      // Process results: summarize the carrier that returned the most events
+      let best: { carrier: string; carrierName?: string; events: TrackingEvent[] } | undefined;
+      const errors: CarrierFailure[] = [];
+      const cacheStatus: Record<string, { hit: boolean; age: number }> = {};
+
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          const data = result.value;
+          if (data.success && data.events) {
+            if (data.cache) {
+              cacheStatus[data.carrier] = data.cache;
+            }
+            if (data.events.length > 0 && (!best || data.events.length > best.events.length)) {
+              best = { carrier: data.carrier, carrierName: data.carrierName, events: data.events };
+            }
+          } else {
+            errors.push({
+              carrier: data.carrier,
+              error: data.error || 'No events returned',
+              ...data.failure,
+            });
+          }
+        } else {
+          // Promise rejected
+          errors.push({
+            carrier: 'unknown',
+            error: result.reason?.message || 'Unknown error',
+          });
+        }
+      }
+
+      // Return response
+      const duration = Date.now() - startTime;
+      if (!best && errors.length === carrierCodes.length) {
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
+          error: 'All carriers failed',
+          message: 'All carrier queries failed',
+          errors: errors,
+          skipped: skipped.length > 0 ? skipped : undefined,
+        });
+        return;
+      }
+
+      if (!best) {
+        Logger.logResponse(req.method, req.path, 404, duration, carrier);
+        res.status(404).json({
+          success: false,
+          error: 'Shipment not found',
+          message: `No tracking events found for '${reference}'`,
+          errors: errors.length > 0 ? errors : undefined,
+          skipped: skipped.length > 0 ? skipped : undefined,
+        });
+        return;
+      }
+
+      const summary = buildShipmentSummary(best.events, {
+        reference,
+        carrier: best.carrier,
+        carrierName: best.carrierName,
+        carrierBookingReference: queryParams.carrierBookingReference,
+        transportDocumentReference: queryParams.transportDocumentReference,
+      });
+
+      Logger.logResponse(req.method, req.path, 200, duration, carrier);
+      res.status(200).json({
+        success: true,
+        data: summary,
+        meta: {
+          referenceType,
+          eventCount: best.events.length,
+          carriersQueried: carrierCodes.length,
+          carriersSucceeded: carrierCodes.length - errors.length,
+          carriersFailed: errors.length,
+          carriersSkipped: skipped.length,
+          cache: cacheStatus,
+          routing,
+        },
+        errors: errors.length > 0 ? errors : undefined,
+        skipped: skipped.length > 0 ? skipped : undefined,
+      });
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      Logger.error('Shipment API error', {
+        error: error.message,
+        stack: error.stack,
+        path: req.path,
+        query: req.query,
+      });
+      Logger.logResponse(req.method, req.path, 500, duration);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -4,19 +4,50 @@
  */
 
 import { Request, Response } from 'express';
-import { TrackingQueryParams, TrackingEvent } from '@domain/models/tracking';
+import {
+  DOCUMENT_TYPE_CODES,
+  EQUIPMENT_EVENT_TYPE_CODES,
+  EVENT_TYPES,
+  SHIPMENT_EVENT_TYPE_CODES,
+  TRANSPORT_EVENT_TYPE_CODES,
+  TrackingQueryParams,
+  TrackingEvent,
+} from '@domain/models/tracking';
 import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
-import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { getCarrierCodes, resolveCarrierRouting, selectCarriersForQuery } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { getExportColumns, getExportFormat, sendExport } from '@api/middleware/exportFormat';
+import { CarrierFailure, describeCarrierError, getCarrierFailureStatus } from '@api/middleware/errorHandler';
 import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { fetchAllPages, getFetchAllMaxPages } from '@adapters/http/pagination';
+import { TrackingHistoryService } from '@services/TrackingHistoryService';
+import { MilestoneEvent } from '@domain/models/milestone';
+import { CarrierPageState } from '@domain/models/pagination';
+import { normalizeContainerNumber } from '@utils/containerNumber';
+import { deriveMilestones } from '@utils/milestoneMapper';
+import {
+  EventSortField,
+  SortOrder,
+  deduplicateEvents,
+  parseCodeList,
+  sortEvents,
+} from '@utils/trackingEventUtils';
+import { decodeCompositeCursor, encodeCompositeCursor, getPendingCarriers } from '@utils/compositeCursor';
+import { TRACKING_EXPORT_COLUMNS, flattenTrackingEvents } from '@utils/tabularExport';
 
 /**
  * Tracking Controller
  */
 export class TrackingController {
   private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+  private history: TrackingHistoryService;
 
   constructor() {
     this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+    this.history = TrackingHistoryService.getInstance();
   }
 
   /**
@@ -27,10 +58,40 @@ export class TrackingController {
     const startTime = Date.now();
     try {
       const carrier = (req.query.carrier as string) || 'all';
-      const carrierCodes = getCarrierCodes(carrier);
+      const view = (req.query.view as string) || 'events';
+      const sort = ((req.query.sort as string) || 'eventDateTime') as EventSortField;
+      const order = ((req.query.order as string) || 'asc') as SortOrder;
+      const equipmentReference = req.query.equipmentReference
+        ? normalizeContainerNumber(req.query.equipmentReference as string)
+        : undefined;
+      const routing = resolveCarrierRouting(carrier, equipmentReference);
+      // Carriers without a query mode matching the parameters are skipped, not called
+      const { carriers: capableCarriers, skipped } = selectCarriersForQuery(routing.carriers, 'tracking', {
+        ...req.query,
+        equipmentReference,
+      });
+      // Continuing a previous query: only carriers with more pages are queried again
+      // (cursor is validated by the validation middleware)
+      const pageStates = req.query.cursor
+        ? decodeCompositeCursor('tracking', req.query.cursor as string)
+        : undefined;
+      const carrierCodes = pageStates
+        ? capableCarriers.filter((code) => getPendingCarriers(pageStates).includes(code))
+        : capableCarriers;
 
       Logger.logRequest(req.method, req.path, req.query, carrier);
 
+      if (carrierCodes.length === 0 && skipped.length > 0) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped,
+          routing,
+        });
+        return;
+      }
+
       if (carrierCodes.length === 0) {
         res.status(400).json({
           error: 'No carriers available',
@@ -39,26 +100,23 @@ export class TrackingController {
         return;
       }
 
+      if (routing.strategy === 'EQUIPMENT_PREFIX') {
+        Logger.debug(`Routing tracking query to ${carrierCodes.join(', ')}`, {
+          equipmentReference,
+          ownerPrefix: routing.ownerPrefix,
+        });
+      }
+
       // Build query parameters
       const queryParams: TrackingQueryParams = {
-        eventType: req.query.eventType
-          ? (req.query.eventType as string).split(',').map((e) => e.trim().toUpperCase() as any)
-          : undefined,
-        shipmentEventTypeCode: req.query.shipmentEventTypeCode
-          ? (req.query.shipmentEventTypeCode as string).split(',').map((e) => e.trim().toUpperCase() as any)
-          : undefined,
-        transportEventTypeCode: req.query.transportEventTypeCode
-          ? (req.query.transportEventTypeCode as string).split(',').map((e) => e.trim().toUpperCase() as any)
-          : undefined,
-        equipmentEventTypeCode: req.query.equipmentEventTypeCode
-          ? (req.query.equipmentEventTypeCode as string).split(',').map((e) => e.trim().toUpperCase() as any)
-          : undefined,
-        documentTypeCode: req.query.documentTypeCode
-          ? (req.query.documentTypeCode as string).split(',').map((e) => e.trim().toUpperCase() as any)
-          : undefined,
+        eventType: parseCodeList(req.query.eventType, EVENT_TYPES),
+        shipmentEventTypeCode: parseCodeList(req.query.shipmentEventTypeCode, SHIPMENT_EVENT_TYPE_CODES),
+        transportEventTypeCode: parseCodeList(req.query.transportEventTypeCode, TRANSPORT_EVENT_TYPE_CODES),
+        equipmentEventTypeCode: parseCodeList(req.query.equipmentEventTypeCode, EQUIPMENT_EVENT_TYPE_CODES),
+        documentTypeCode: parseCodeList(req.query.documentTypeCode, DOCUMENT_TYPE_CODES),
         carrierBookingReference: req.query.carrierBookingReference as string | undefined,
         transportDocumentReference: req.query.transportDocumentReference as string | undefined,
-        equipmentReference: req.query.equipmentReference as string | undefined,
+        equipmentReference,
         transportCallID: req.query.transportCallID as string | undefined,
         vesselIMONumber: req.query.vesselIMONumber as string | undefined,
         exportVoyageNumber: req.query.exportVoyageNumber as string | undefined,
@@ -68,20 +126,52 @@ export class TrackingController {
         eventDateTime: req.query.eventDateTime as string | undefined,
         behalfOf: req.query.behalfOf as string | undefined,
         limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
-        cursor: req.query.cursor as string | undefined,
       };
 
+      const bypassCache = isCacheBypassRequested(req);
+      // fetchAll: follow each carrier's pages up to FETCH_ALL_MAX_PAGES and merge them
+      const fetchAll = req.query.fetchAll === 'true';
+      const maxPages = getFetchAllMaxPages();
+
       // Query all carriers in parallel
       const results = await Promise.allSettled(
         carrierCodes.map(async (carrierCode) => {
           const carrierStartTime = Date.now();
+          const pageState: CarrierPageState | undefined = pageStates?.[carrierCode];
           try {
             const adapter = this.factory.getAdapter(carrierCode);
             Logger.debug(`Querying ${carrierCode} tracking API`, {
               carrier: carrierCode,
               params: queryParams,
             });
-            const events = await adapter.getTracking(queryParams);
+            const { value: page, hit, age } = await this.cache.getOrFetch(
+              carrierCode,
+              'tracking',
+              {
+                ...queryParams,
+                // Always keyed by page: cached pages must not collide with cached event arrays (shipments)
+                page: pageState || { type: 'START' },
+                fetchAll: fetchAll || undefined,
+              },
+              () =>
+                fetchAll
+                  ? fetchAllPages((page) => adapter.getTrackingPage(queryParams, page), maxPages, pageState)
+                  : adapter.getTrackingPage(queryParams, pageState),
+              { bypass: bypassCache }
+            );
+            const events = page.items;
+            // Persist events fetched from the carrier (cached results were recorded when fetched)
+            if (!hit && Array.isArray(events)) {
+              await this.history.record(
+                carrierCode,
+                {
+                  carrierBookingReference: queryParams.carrierBookingReference,
+                  transportDocumentReference: queryParams.transportDocumentReference,
+                  equipmentReference: queryParams.equipmentReference,
+                },
+                events
+              );
+            }
             const duration = Date.now() - carrierStartTime;
             Logger.logCarrierCall(
               carrierCode,
@@ -95,6 +185,8 @@ export class TrackingController {
               carrierName: adapter.getCarrierName(),
               success: true,
               events: events,
+              next: page.next,
+              cache: { hit, age },
             };
           } catch (error: any) {
             const duration = Date.now() - carrierStartTime;
@@ -115,6 +207,10 @@ export class TrackingController {
               carrier: carrierCode,
               success: false,
               error: error.message || 'Unknown error',
+              // Carrier error code, upstream status and, e.g. for an open circuit, when to retry
+              failure: describeCarrierError(error),
+              // Failed carriers are retried from the same page with the next cursor
+              next: pageState || ({ type: 'START' } as CarrierPageState),
             };
           }
         })
@@ -122,14 +218,31 @@ export class TrackingController {
 
       // Process results
       const successfulResults: TrackingEvent[] = [];
-      const errors: Array<{ carrier: string; error: string }> = [];
+      const milestones: Array<MilestoneEvent & { carrier: string; carrierName?: string }> = [];
+      const errors: CarrierFailure[] = [];
+      const cacheStatus: Record<string, { hit: boolean; age: number }> = {};
+      const nextPageStates: Record<string, CarrierPageState> = {};
+      // Carriers with more results than returned (next page or fetchAll cap)
+      const truncatedCarriers: string[] = [];
+      // Fingerprints of events already taken, shared across carriers
+      const seenEvents = new Set<string>();
+      let duplicatesRemoved = 0;
 
       for (const result of results) {
         if (result.status === 'fulfilled') {
           const data = result.value;
+          nextPageStates[data.carrier] = data.next;
           if (data.success && data.events) {
-            // Ensure events is an array
-            const eventsArray = Array.isArray(data.events) ? data.events : [];
+            if (data.cache) {
+              cacheStatus[data.carrier] = data.cache;
+            }
+            if (data.next.type !== 'EXHAUSTED') {
+              truncatedCarriers.push(data.carrier);
+            }
+            // Ensure events is an array, drop events already returned by this or an earlier carrier
+            const receivedEvents = Array.isArray(data.events) ? data.events : [];
+            const eventsArray = deduplicateEvents(receivedEvents, seenEvents);
+            duplicatesRemoved += receivedEvents.length - eventsArray.length;
             // Add carrier information to each event
             const eventsWithCarrier = eventsArray.map((event) => ({
               ...event,
@@ -137,10 +250,22 @@ export class TrackingController {
               carrierName: data.carrierName,
             }));
             successfulResults.push(...eventsWithCarrier);
+            // Milestones are derived per carrier from all of its own events (each carrier's events describe
+            // its own shipment), so events an earlier carrier already returned still count for this one
+            if (view === 'milestones') {
+              milestones.push(
+                ...deriveMilestones(deduplicateEvents(receivedEvents)).map((milestone) => ({
+                  ...milestone,
+                  carrier: data.carrier,
+                  carrierName: data.carrierName,
+                }))
+              );
+            }
           } else {
             errors.push({
               carrier: data.carrier,
               error: data.error || 'No events returned',
+              ...data.failure,
             });
           }
         } else {
@@ -155,26 +280,58 @@ export class TrackingController {
       // Return response
       const duration = Date.now() - startTime;
       if (successfulResults.length === 0 && errors.length > 0) {
-        Logger.logResponse(req.method, req.path, 503, duration, carrier);
-        res.status(503).json({
+        const status = getCarrierFailureStatus(errors);
+        Logger.logResponse(req.method, req.path, status, duration, carrier);
+        res.status(status).json({
           error: 'All carriers failed',
           message: 'All carrier queries failed',
           errors: errors,
+          skipped: skipped.length > 0 ? skipped : undefined,
         });
         return;
       }
 
       Logger.logResponse(req.method, req.path, 200, duration, carrier);
+
+      // CSV / XLSX export: one row per event (events view only, enforced by validation)
+      const format = getExportFormat(req);
+      if (format !== 'json') {
+        const columns = getExportColumns(req, TRACKING_EXPORT_COLUMNS);
+        const rows = flattenTrackingEvents(sortEvents(successfulResults, sort, order));
+        sendExport(res, format, 'tracking', columns, rows, {
+          nextCursor: encodeCompositeCursor('tracking', nextPageStates),
+          truncatedCarriers,
+          errors,
+          skipped,
+        });
+        return;
+      }
+
+      const data =
+        view === 'milestones' ? sortEvents(milestones, sort, order) : sortEvents(successfulResults, sort, order);
+
       res.status(200).json({
         success: true,
-        data: successfulResults,
+        data: data,
         meta: {
-          total: successfulResults.length,
+          view,
+          sort,
+          order,
+          total: data.length,
+          duplicatesRemoved,
           carriersQueried: carrierCodes.length,
           carriersSucceeded: carrierCodes.length - errors.length,
           carriersFailed: errors.length,
+          carriersSkipped: skipped.length,
+          cache: cacheStatus,
+          routing,
+          fetchAll,
+          truncated: truncatedCarriers.length > 0,
+          truncatedCarriers: truncatedCarriers.length > 0 ? truncatedCarriers : undefined,
+          nextCursor: encodeCompositeCursor('tracking', nextPageStates),
         },
         errors: errors.length > 0 ? errors : undefined,
+        skipped: skipped.length > 0 ? skipped : undefined,
       });
     } catch (error: any) {
       const duration = Date.now() - startTime;
@@ -191,5 +348,62 @@ export class TrackingController {
       });
     }
   }
-}
 
+  /**
+   * Get stored tracking history without calling carriers
+   * GET /api/v1/tracking/history
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const carrier = (req.query.carrier as string) || 'all';
+
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      const storedEvents = await this.history.query({
+        carriers: carrier === 'all' ? undefined : getCarrierCodes(carrier),
+        carrierBookingReference: req.query.carrierBookingReference as string | undefined,
+        transportDocumentReference: req.query.transportDocumentReference as string | undefined,
+        equipmentReference: req.query.equipmentReference as string | undefined,
+        eventType: parseCodeList(req.query.eventType, EVENT_TYPES),
+        eventTypeCode: req.query.eventTypeCode
+          ? (req.query.eventTypeCode as string).split(',').map((e) => e.trim().toUpperCase())
+          : undefined,
+        eventDateTimeFrom: req.query.eventDateTimeFrom as string | undefined,
+        eventDateTimeTo: req.query.eventDateTimeTo as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 100,
+      });
+
+      // Add carrier and first/last seen information to each event
+      const data = storedEvents.map((stored) => ({
+        ...stored.event,
+        carrier: stored.carrier,
+        firstSeenAt: stored.firstSeenAt,
+        lastSeenAt: stored.lastSeenAt,
+      }));
+
+      const duration = Date.now() - startTime;
+      Logger.logResponse(req.method, req.path, 200, duration, carrier);
+      res.status(200).json({
+        success: true,
+        data: data,
+        meta: {
+          total: data.length,
+        },
+      });
+    } catch (error: any) {
+      const duration = Date.now() - startTime;
+      Logger.error('Tracking history API error', {
+        error: error.message,
+        stack: error.stack,
+        path: req.path,
+        query: req.query,
+      });
+      Logger.logResponse(req.method, req.path, 500, duration);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error.message || 'An unexpected error occurred',
+      });
+    }
+  }
+}
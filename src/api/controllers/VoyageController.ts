@@ -0,0 +1,156 @@
+/**
+ * Voyage Controller
+ * Handles voyage lookup and navigation API requests
+ */
+
+import { Request, Response } from 'express';
+import { VoyageDirection, VoyageNavigationBasis } from '@domain/models/voyage';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { isVoyageAdapter } from '@adapters/carriers/base/VoyageAdapter';
+import { CarrierError } from '@adapters/carriers/base/CarrierError';
+import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { isCacheBypassRequested } from '@api/middleware/cacheControl';
+import { describeCarrierError } from '@api/middleware/errorHandler';
+import { Logger } from '@infrastructure/logger/Logger';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { findQueryMode, getUnsupportedQueryReason } from '@utils/capabilityUtils';
+
+/**
+ * Voyage Controller
+ */
+export class VoyageController {
+  private factory: CarrierAdapterFactory;
+  private cache: ResponseCache;
+
+  constructor() {
+    this.factory = CarrierAdapterFactory.getInstance();
+    this.cache = ResponseCache.getInstance();
+  }
+
+  /**
+   * Get a voyage with its port calls
+   * GET /api/v1/voyages/:carrier/:voyageCode
+   */
+  async getVoyage(req: Request, res: Response): Promise<void> {
+    await this.lookupVoyage(req, res);
+  }
+
+  /**
+   * Get the next voyage of the same vessel or service
+   * GET /api/v1/voyages/:carrier/:voyageCode/next
+   */
+  async getNextVoyage(req: Request, res: Response): Promise<void> {
+    await this.lookupVoyage(req, res, 'next');
+  }
+
+  /**
+   * Get the previous voyage of the same vessel or service
+   * GET /api/v1/voyages/:carrier/:voyageCode/previous
+   */
+  async getPreviousVoyage(req: Request, res: Response): Promise<void> {
+    await this.lookupVoyage(req, res, 'previous');
+  }
+
+  /**
+   * Look up a voyage, or its neighbour in the given direction, and send it
+   * @param req Express request (carrier and voyage code validated by the validation middleware)
+   * @param res Express response
+   * @param direction Neighbouring voyage to return (the voyage itself when omitted)
+   */
+  private async lookupVoyage(req: Request, res: Response, direction?: VoyageDirection): Promise<void> {
+    const startTime = Date.now();
+    const carrier = req.params.carrier.toLowerCase();
+    const voyageCode = req.params.voyageCode.trim();
+    // Same service by default: the next sailing a booking can be rolled to
+    const basis = ((req.query.by as string) || 'service').toLowerCase() as VoyageNavigationBasis;
+    const carrierCode = getCarrierCodes(carrier)[0];
+
+    try {
+      Logger.logRequest(req.method, req.path, req.query, carrier);
+
+      if (!carrierCode || !this.factory.isCarrierAvailable(carrierCode)) {
+        res.status(404).json({
+          success: false,
+          error: 'Carrier not found',
+          message: `Carrier '${req.params.carrier}' not found or not configured`,
+        });
+        return;
+      }
+
+      const adapter = this.factory.getAdapter(carrierCode);
+      const capabilities = adapter.getCapabilities();
+      if (!isVoyageAdapter(adapter) || !findQueryMode(capabilities, 'voyage', { voyageCode })) {
+        Logger.logResponse(req.method, req.path, 400, Date.now() - startTime, carrier);
+        res.status(400).json({
+          error: 'No carrier supports the query',
+          message: 'None of the requested carriers can serve these query parameters (see GET /api/v1/carriers)',
+          skipped: [
+            {
+              carrier: carrierCode,
+              carrierName: capabilities.carrierName,
+              reason: getUnsupportedQueryReason(capabilities, 'voyage'),
+            },
+          ],
+        });
+        return;
+      }
+
+      const carrierStartTime = Date.now();
+      const { value: voyage, hit, age } = await this.cache.getOrFetch(
+        carrierCode,
+        'voyage',
+        { voyageCode, direction, by: direction ? basis : undefined },
+        () =>
+          direction
+            ? adapter.getAdjacentVoyage(voyageCode, direction, basis)
+            : adapter.getVoyage(voyageCode),
+        { bypass: isCacheBypassRequested(req) }
+      );
+      Logger.logCarrierCall(carrierCode, 'voyage', 'GET', true, Date.now() - carrierStartTime);
+
+      Logger.logResponse(req.method, req.path, 200, Date.now() - startTime, carrier);
+      res.status(200).json({
+        success: true,
+        data: {
+          ...voyage,
+          carrierName: adapter.getCarrierName(),
+        },
+        meta: {
+          carrier: carrierCode,
+          voyageCode,
+          direction,
+          by: direction ? basis : undefined,
+          cache: { hit, age },
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof CarrierError) {
+        Logger.logCarrierCall(carrierCode, 'voyage', 'GET', false, Date.now() - startTime, error.message);
+      }
+      this.handleError(req, res, error, Date.now() - startTime);
+    }
+  }
+
+  private handleError(req: Request, res: Response, error: any, duration: number): void {
+    Logger.error('Voyage API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    // Carrier failure, e.g. unknown voyage (NOT_FOUND) or no next voyage yet
+    if (error instanceof CarrierError) {
+      Logger.logResponse(req.method, req.path, error.httpStatus, duration);
+      res.status(error.httpStatus).json({
+        error: 'Carrier query failed',
+        message: error.message,
+        errors: [{ carrier: error.carrier, error: error.message, ...describeCarrierError(error) }],
+      });
+      return;
+    }
+    Logger.logResponse(req.method, req.path, 500, duration);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Watch Controller
+ * Handles shipment watchlist API requests
+ */
+
+import { Request, Response } from 'express';
+import { WatchlistService } from '@services/WatchlistService';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodes } from '@api/middleware/carrierFilter';
+import { Logger } from '@infrastructure/logger/Logger';
+import { normalizeContainerNumber } from '@utils/containerNumber';
+
+/**
+ * Watch Controller
+ */
+export class WatchController {
+  private watchlist: WatchlistService;
+  private factory: CarrierAdapterFactory;
+
+  constructor() {
+    this.watchlist = WatchlistService.getInstance();
+    this.factory = CarrierAdapterFactory.getInstance();
+  }
+
+  /**
+   * Register a watch
+   * POST /api/v1/watches
+   */
+  async createWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const carrier = (req.body.carrier as string).toLowerCase();
+      const carrierCode = getCarrierCodes(carrier)[0];
+
+      if (!this.factory.isCarrierAvailable(carrierCode)) {
+        res.status(503).json({
+          error: 'Carrier not available',
+          message: `Carrier '${req.body.carrier}' is not available or not configured`,
+          carrier: req.body.carrier,
+        });
+        return;
+      }
+
+      const watch = await this.watchlist.createWatch({
+        carrier: carrierCode,
+        carrierBookingReference: req.body.carrierBookingReference,
+        transportDocumentReference: req.body.transportDocumentReference,
+        equipmentReference: req.body.equipmentReference
+          ? normalizeContainerNumber(req.body.equipmentReference)
+          : undefined,
+        portOfDischarge: req.body.portOfDischarge ? (req.body.portOfDischarge as string).toUpperCase() : undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: watch,
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * List watches
+   * GET /api/v1/watches
+   */
+  async listWatches(req: Request, res: Response): Promise<void> {
+    try {
+      const watches = await this.watchlist.listWatches();
+      res.status(200).json({
+        success: true,
+        data: watches,
+        meta: {
+          total: watches.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Get a watch
+   * GET /api/v1/watches/:id
+   */
+  async getWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const watch = await this.watchlist.getWatch(req.params.id);
+      if (!watch) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(200).json({
+        success: true,
+        data: watch,
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Delete a watch
+   * DELETE /api/v1/watches/:id
+   */
+  async deleteWatch(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.watchlist.deleteWatch(req.params.id);
+      if (!deleted) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * List events that appeared since a given time
+   * GET /api/v1/watches/:id/changes?since=
+   */
+  async getChanges(req: Request, res: Response): Promise<void> {
+    try {
+      const watch = await this.watchlist.getWatch(req.params.id);
+      if (!watch) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      const changes = await this.watchlist.getChanges(watch.id, since);
+
+      res.status(200).json({
+        success: true,
+        data: changes,
+        meta: {
+          total: changes.length,
+          since: since?.toISOString(),
+          lastPolledAt: watch.lastPolledAt,
+          lastPollError: watch.lastPollError,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  private sendNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      success: false,
+      error: 'Watch not found',
+      message: `Watch '${id}' not found`,
+    });
+  }
+
+  private handleError(req: Request, res: Response, error: any): void {
+    Logger.error('Watch API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
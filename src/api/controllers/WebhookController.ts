@@ -0,0 +1,188 @@
+/**
+ * Webhook Controller
+ * Handles webhook subscription and delivery log API requests
+ */
+
+import { Request, Response } from 'express';
+import { WebhookService } from '@services/WebhookService';
+import { WebhookDeliveryStatus, WebhookSubscription } from '@domain/models/webhook';
+import { EQUIPMENT_EVENT_TYPE_CODES, EVENT_TYPES, TRANSPORT_EVENT_TYPE_CODES } from '@domain/models/tracking';
+import { Logger } from '@infrastructure/logger/Logger';
+import { parseCodeList } from '@utils/trackingEventUtils';
+
+/**
+ * Webhook Controller
+ */
+export class WebhookController {
+  private webhooks: WebhookService;
+
+  constructor() {
+    this.webhooks = WebhookService.getInstance();
+  }
+
+  /**
+   * Create a subscription
+   * POST /api/v1/webhooks
+   */
+  async createSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body;
+      const subscription = await this.webhooks.createSubscription({
+        url: body.url,
+        secret: body.secret,
+        watchId: body.watchId,
+        equipmentReference: body.equipmentReference,
+        transportDocumentReference: body.transportDocumentReference,
+        carrierBookingReference: body.carrierBookingReference,
+        voyageWatchId: body.voyageWatchId,
+        eventType: parseCodeList(body.eventType, EVENT_TYPES),
+        equipmentEventTypeCode: parseCodeList(body.equipmentEventTypeCode, EQUIPMENT_EVENT_TYPE_CODES),
+        transportEventTypeCode: parseCodeList(body.transportEventTypeCode, TRANSPORT_EVENT_TYPE_CODES),
+        includeInitial: body.includeInitial === true || body.includeInitial === 'true',
+        delayAlerts: body.delayAlerts === true || body.delayAlerts === 'true',
+      });
+
+      // The secret is only returned once, on creation
+      res.status(201).json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * List subscriptions
+   * GET /api/v1/webhooks
+   */
+  async listSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptions = await this.webhooks.listSubscriptions();
+      res.status(200).json({
+        success: true,
+        data: subscriptions.map(maskSecret),
+        meta: {
+          total: subscriptions.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Get a subscription
+   * GET /api/v1/webhooks/:id
+   */
+  async getSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await this.webhooks.getSubscription(req.params.id);
+      if (!subscription) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(200).json({
+        success: true,
+        data: maskSecret(subscription),
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Delete a subscription
+   * DELETE /api/v1/webhooks/:id
+   */
+  async deleteSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.webhooks.deleteSubscription(req.params.id);
+      if (!deleted) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Delivery log for a subscription
+   * GET /api/v1/webhooks/:id/deliveries?status=
+   */
+  async listDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await this.webhooks.getSubscription(req.params.id);
+      if (!subscription) {
+        this.sendNotFound(res, req.params.id);
+        return;
+      }
+
+      const status = req.query.status
+        ? ((req.query.status as string).toUpperCase() as WebhookDeliveryStatus)
+        : undefined;
+      const deliveries = await this.webhooks.listDeliveries({ subscriptionId: subscription.id, status });
+
+      res.status(200).json({
+        success: true,
+        data: deliveries,
+        meta: {
+          total: deliveries.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  /**
+   * Dead-letter list across all subscriptions
+   * GET /api/v1/webhooks/dead-letters
+   */
+  async listDeadLetters(req: Request, res: Response): Promise<void> {
+    try {
+      const deliveries = await this.webhooks.listDeliveries({ status: 'DEAD_LETTER' });
+      res.status(200).json({
+        success: true,
+        data: deliveries,
+        meta: {
+          total: deliveries.length,
+        },
+      });
+    } catch (error: any) {
+      this.handleError(req, res, error);
+    }
+  }
+
+  private sendNotFound(res: Response, id: string): void {
+    res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      message: `Webhook '${id}' not found`,
+    });
+  }
+
+  private handleError(req: Request, res: Response, error: any): void {
+    Logger.error('Webhook API error', {
+      error: error.message,
+      stack: error.stack,
+      path: req.path,
+    });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message || 'An unexpected error occurred',
+    });
+  }
+}
+
+/**
+ * Hide the signing secret in read responses
+ */
+function maskSecret(subscription: WebhookSubscription): WebhookSubscription {
+  return {
+    ...subscription,
+    secret: `${subscription.secret.substring(0, 4)}...`,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Cache Control Helpers
+ * Interprets client cache directives for the response cache
+ */
+
+import { Request } from 'express';
+
+/**
+ * Check if the client asked to bypass cached carrier responses
+ * Honors "Cache-Control: no-cache" (and legacy "Pragma: no-cache")
+ * @param req Express request
+ * @returns true if cached responses must not be served
+ */
+export function isCacheBypassRequested(req: Request): boolean {
+  const cacheControl = (req.get('Cache-Control') || '').toLowerCase();
+  const pragma = (req.get('Pragma') || '').toLowerCase();
+  return cacheControl.includes('no-cache') || pragma.includes('no-cache');
+}
@@ -5,6 +5,9 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { getCarrierCodeForContainer } from '@utils/containerNumber';
+import { findQueryMode, getUnsupportedQueryReason } from '@utils/capabilityUtils';
+import { CapabilityApiType } from '@domain/models/capability';
 
 /**
  * Supported carrier identifiers
@@ -22,6 +25,36 @@ const CARRIER_CODE_MAP: Record<string, string> = {
   'maersk': 'MAERSK',
 };
 
+/**
+ * How the carriers to query were chosen
+ * - REQUESTED: a specific carrier was requested
+ * - EQUIPMENT_PREFIX: carrier=all narrowed to the owner of the container's BIC prefix
+ * - ALL_CARRIERS: carrier=all without a usable prefix (fan-out to every carrier)
+ */
+export interface CarrierRouting {
+  strategy: 'REQUESTED' | 'EQUIPMENT_PREFIX' | 'ALL_CARRIERS';
+  ownerPrefix?: string;
+  carriers: string[];
+  reason: string;
+}
+
+/**
+ * Carrier left out of a query because none of its query modes matches the parameters
+ */
+export interface SkippedCarrier {
+  carrier: string;
+  carrierName: string;
+  reason: string;
+}
+
+/**
+ * Carriers to query, and carriers skipped because they cannot serve the query
+ */
+export interface CarrierSelection {
+  carriers: string[];
+  skipped: SkippedCarrier[];
+}
+
 /**
  * Middleware to validate and normalize carrier parameter
  */
@@ -81,3 +114,97 @@ export function getCarrierCodes(carrierIdentifier: string): string[] {
   return carrierCode ? [carrierCode] : [];
 }
 
+/**
+ * Get the public carrier identifier of a carrier code
+ * @param carrierCode Carrier code (e.g., "CMCG")
+ * @returns Carrier identifier (e.g., "cma-cgm"), or undefined for unknown codes
+ */
+export function getCarrierIdentifier(carrierCode: string): string | undefined {
+  return Object.keys(CARRIER_CODE_MAP).find((identifier) => CARRIER_CODE_MAP[identifier] === carrierCode.toUpperCase());
+}
+
+/**
+ * Split carriers into those that can serve a query and those that cannot
+ * A carrier can serve the query when one of its query modes matches the parameters
+ * (see CarrierAdapter.getCapabilities); the others are skipped with the parameters they need
+ * @param carrierCodes Candidate carrier codes
+ * @param apiType API being queried
+ * @param params Query parameters
+ * @returns Carriers to query and skipped carriers
+ */
+export function selectCarriersForQuery(
+  carrierCodes: string[],
+  apiType: CapabilityApiType,
+  params: Record<string, unknown>
+): CarrierSelection {
+  const factory = CarrierAdapterFactory.getInstance();
+  const selection: CarrierSelection = { carriers: [], skipped: [] };
+
+  for (const carrierCode of carrierCodes) {
+    const capabilities = factory.getAdapter(carrierCode).getCapabilities();
+    if (findQueryMode(capabilities, apiType, params)) {
+      selection.carriers.push(carrierCode);
+    } else {
+      selection.skipped.push({
+        carrier: carrierCode,
+        carrierName: capabilities.carrierName,
+        reason: getUnsupportedQueryReason(capabilities, apiType),
+      });
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Choose the carriers to query for a tracking lookup
+ * For carrier=all, a container number with a registered BIC owner prefix is routed to its owner;
+ * unknown prefixes and unavailable owners fall back to all carriers
+ * @param carrier Carrier identifier ('all' or specific carrier)
+ * @param equipmentReference Normalized container number
+ * @returns Carrier codes with the routing decision
+ */
+export function resolveCarrierRouting(carrier: string, equipmentReference?: string): CarrierRouting {
+  if (carrier !== 'all') {
+    return {
+      strategy: 'REQUESTED',
+      carriers: getCarrierCodes(carrier),
+      reason: `Carrier '${carrier}' requested`,
+    };
+  }
+
+  const allCarriers = getCarrierCodes('all');
+  if (!equipmentReference) {
+    return {
+      strategy: 'ALL_CARRIERS',
+      carriers: allCarriers,
+      reason: 'No equipmentReference to detect the carrier from',
+    };
+  }
+
+  const ownerPrefix = equipmentReference.substring(0, 4);
+  const ownerCarrier = getCarrierCodeForContainer(equipmentReference);
+  if (!ownerCarrier) {
+    return {
+      strategy: 'ALL_CARRIERS',
+      ownerPrefix,
+      carriers: allCarriers,
+      reason: `Owner prefix '${ownerPrefix}' is not registered to a carrier`,
+    };
+  }
+  if (!allCarriers.includes(ownerCarrier)) {
+    return {
+      strategy: 'ALL_CARRIERS',
+      ownerPrefix,
+      carriers: allCarriers,
+      reason: `Owner prefix '${ownerPrefix}' belongs to ${ownerCarrier}, which is not available`,
+    };
+  }
+
+  return {
+    strategy: 'EQUIPMENT_PREFIX',
+    ownerPrefix,
+    carriers: [ownerCarrier],
+    reason: `Owner prefix '${ownerPrefix}' belongs to ${ownerCarrier}`,
+  };
+}
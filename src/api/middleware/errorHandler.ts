@@ -5,12 +5,59 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { Logger } from '@infrastructure/logger/Logger';
+import { CARRIER_ERROR_HTTP_STATUS, CarrierError, CarrierErrorCode } from '@adapters/carriers/base/CarrierError';
 
 export interface ApiError extends Error {
   statusCode?: number;
   status?: string;
 }
 
+/**
+ * Failed carrier query, as reported in errors[]
+ */
+export interface CarrierFailure {
+  carrier: string;
+  error: string;
+  code?: string; // Carrier error code (e.g., "NOT_FOUND", "RATE_LIMITED", "CIRCUIT_OPEN")
+  endpointType?: string;
+  upstreamStatus?: number; // HTTP status returned by the carrier API
+  retryAfter?: number; // Seconds until the carrier may be queried again
+}
+
+/**
+ * Structured fields of an error thrown by a carrier adapter
+ * @param error Caught error
+ * @returns Code, endpoint type, upstream status and retry delay (empty for non-carrier errors)
+ */
+export function describeCarrierError(error: unknown): Omit<CarrierFailure, 'carrier' | 'error'> {
+  if (!(error instanceof CarrierError)) {
+    return {};
+  }
+  return {
+    code: error.code,
+    endpointType: error.endpointType,
+    upstreamStatus: error.upstreamStatus,
+    retryAfter: error.retryAfter,
+  };
+}
+
+/**
+ * HTTP status to respond with when every carrier failed
+ * The carriers' common status (e.g. 404 if every carrier reported not found), otherwise 503
+ * @param errors Failed carrier queries
+ * @returns HTTP status
+ */
+export function getCarrierFailureStatus(errors: CarrierFailure[]): number {
+  const statuses = new Set(
+    errors.map((failure) =>
+      failure.code && failure.code in CARRIER_ERROR_HTTP_STATUS
+        ? CARRIER_ERROR_HTTP_STATUS[failure.code as CarrierErrorCode]
+        : 503
+    )
+  );
+  return statuses.size === 1 ? [...statuses][0] : 503;
+}
+
 /**
  * Error handler middleware
  */
@@ -20,7 +67,8 @@ export function errorHandler(
   res: Response,
   _next: NextFunction
 ): void {
-  const statusCode = err.statusCode || 500;
+  // Carrier errors carry their own HTTP status
+  const statusCode = err instanceof CarrierError ? err.httpStatus : err.statusCode || 500;
   const status = err.status || 'error';
 
   // Log error
@@ -40,6 +88,7 @@ export function errorHandler(
       status: status,
       statusCode: statusCode,
       message: err.message || 'Internal server error',
+      ...(err instanceof CarrierError && { code: err.code, carrier: err.carrier }),
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
     },
   });
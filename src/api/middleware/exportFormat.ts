@@ -0,0 +1,128 @@
+/**
+ * Export Format Helpers
+ * Content negotiation and rendering of CSV / XLSX exports
+ */
+
+import { Request, Response } from 'express';
+import { CarrierFailure } from './errorHandler';
+import { SkippedCarrier } from './carrierFilter';
+import { ExportRow, toCells, toCsv } from '@utils/tabularExport';
+import { createXlsxWorkbook } from '@utils/xlsxWriter';
+
+export type ExportFormat = 'json' | 'csv' | 'xlsx';
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'xlsx'];
+
+/**
+ * Response headers carrying what the JSON meta, errors[] and skipped[] would report
+ * (exposed to browsers via CORS)
+ */
+export const EXPORT_STATUS_HEADERS = [
+  'X-Next-Cursor',
+  'X-Truncated',
+  'X-Truncated-Carriers',
+  'X-Carrier-Errors',
+  'X-Skipped-Carriers',
+];
+
+/**
+ * Completeness of an export: a sheet holds one page and only the carriers that answered
+ */
+export interface ExportStatus {
+  nextCursor?: string;
+  truncatedCarriers: string[];
+  errors: CarrierFailure[];
+  skipped: SkippedCarrier[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Get the requested response format
+ * The format query parameter takes precedence over the Accept header; JSON is the default
+ * @param req Express request
+ * @returns Response format
+ */
+export function getExportFormat(req: Request): ExportFormat {
+  if (req.query.format) {
+    return (req.query.format as string).toLowerCase() as ExportFormat;
+  }
+  if (!req.get('Accept')) {
+    return 'json';
+  }
+  const accepted = req.accepts(EXPORT_FORMATS.map((format) => CONTENT_TYPES[format]));
+  const format = EXPORT_FORMATS.find((candidate) => CONTENT_TYPES[candidate] === accepted);
+  return format || 'json';
+}
+
+/**
+ * Get the columns to export
+ * @param req Express request (columns: comma-separated column names)
+ * @param defaultColumns Columns used when none are requested
+ * @returns Column names, in order
+ */
+export function getExportColumns(req: Request, defaultColumns: string[]): string[] {
+  if (!req.query.columns) {
+    return defaultColumns;
+  }
+  return (req.query.columns as string)
+    .split(',')
+    .map((column) => column.trim())
+    .filter((column) => column.length > 0);
+}
+
+/**
+ * Send rows as a CSV or XLSX attachment
+ * Paging, truncation and failed or skipped carriers are reported in the EXPORT_STATUS_HEADERS:
+ * - X-Next-Cursor: cursor of the next page
+ * - X-Truncated: "true" when a carrier has more results; X-Truncated-Carriers lists them
+ * - X-Carrier-Errors: failed carriers with their error code (e.g. "HMM=UPSTREAM_UNAVAILABLE")
+ * - X-Skipped-Carriers: carriers that cannot serve the query
+ * @param res Express response
+ * @param format csv or xlsx
+ * @param name File and sheet name (without extension)
+ * @param columns Columns to include, in order
+ * @param rows Export rows
+ * @param status Next cursor, truncated, failed and skipped carriers
+ */
+export function sendExport(
+  res: Response,
+  format: Exclude<ExportFormat, 'json'>,
+  name: string,
+  columns: string[],
+  rows: ExportRow[],
+  status?: ExportStatus
+): void {
+  res.setHeader('Content-Disposition', `attachment; filename="${name}.${format}"`);
+  if (status) {
+    setExportStatusHeaders(res, status);
+  }
+  if (format === 'csv') {
+    // BOM so Excel detects UTF-8 (port and vessel names are not always ASCII)
+    res.status(200).type(`${CONTENT_TYPES.csv}; charset=utf-8`).send(`\uFEFF${toCsv(columns, rows)}`);
+    return;
+  }
+  res.status(200).type(CONTENT_TYPES.xlsx).send(createXlsxWorkbook(name, columns, toCells(columns, rows)));
+}
+
+function setExportStatusHeaders(res: Response, status: ExportStatus): void {
+  if (status.nextCursor) {
+    res.setHeader('X-Next-Cursor', status.nextCursor);
+  }
+  res.setHeader('X-Truncated', String(status.truncatedCarriers.length > 0));
+  if (status.truncatedCarriers.length > 0) {
+    res.setHeader('X-Truncated-Carriers', status.truncatedCarriers.join(','));
+  }
+  if (status.errors.length > 0) {
+    res.setHeader(
+      'X-Carrier-Errors',
+      status.errors.map((failure) => `${failure.carrier}=${failure.code || 'UNKNOWN'}`).join(',')
+    );
+  }
+  if (status.skipped.length > 0) {
+    res.setHeader('X-Skipped-Carriers', status.skipped.map((skipped) => skipped.carrier).join(','));
+  }
+}
@@ -4,12 +4,36 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import {
+  DOCUMENT_TYPE_CODES,
+  EQUIPMENT_EVENT_TYPE_CODES,
+  EVENT_TYPES,
+  SHIPMENT_EVENT_TYPE_CODES,
+  TRANSPORT_EVENT_TYPE_CODES,
+} from '@domain/models/tracking';
+import { SUPPORTED_CARRIERS } from '@api/middleware/carrierFilter';
+import { isValidContainerNumber } from '@utils/containerNumber';
+import { EVENT_SORT_FIELDS, EventSortField, SORT_ORDERS, SortOrder, isCodeOf } from '@utils/trackingEventUtils';
+import { decodeCompositeCursor } from '@utils/compositeCursor';
+import { SCHEDULE_EXPORT_COLUMNS, TRACKING_EXPORT_COLUMNS } from '@utils/tabularExport';
+import { EXPORT_FORMATS, ExportFormat, getExportColumns, getExportFormat } from '@api/middleware/exportFormat';
+import { parseScheduleQuery } from '@utils/scheduleQuery';
+import { MAX_PORT_SCHEDULE_DAYS, resolvePortScheduleWindow } from '@utils/portSchedule';
+import { isReservedHost } from '@utils/networkAddress';
 
 export interface ValidationError {
   field: string;
   message: string;
 }
 
+const WEBHOOK_DELIVERY_STATUSES = ['PENDING', 'RETRYING', 'DELIVERED', 'DEAD_LETTER'];
+const ETA_SUBJECT_TYPES = ['SHIPMENT', 'VOYAGE'];
+const SHIPMENT_REFERENCE_TYPES = ['equipment', 'transportDocument', 'booking'];
+const TRACKING_VIEWS = ['events', 'milestones'];
+const VOYAGE_NAVIGATION_BASES = ['vessel', 'service'];
+const CONTAINER_NUMBER_MESSAGE =
+  'equipmentReference must be an ISO 6346 container number (4 letters + 7 digits with a valid check digit)';
+
 /**
  * Validate date format (ISO 8601: YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)
  */
@@ -32,6 +56,18 @@ function isValidUNLocationCode(code: string): boolean {
   return /^[A-Z]{2}[A-Z0-9]{3}$/.test(code.toUpperCase());
 }
 
+/**
+ * Validate HTTP(S) URL
+ */
+function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Validate date range
  */
@@ -48,6 +84,28 @@ function isValidLimit(limit?: number): boolean {
   return limit > 0 && limit <= 1000;
 }
 
+/**
+ * Validate export format and column selection
+ */
+function validateExportParams(req: Request, availableColumns: string[], errors: ValidationError[]): void {
+  if (req.query.format && !EXPORT_FORMATS.includes((req.query.format as string).toLowerCase() as ExportFormat)) {
+    errors.push({
+      field: 'format',
+      message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+  if (req.query.columns !== undefined) {
+    const columns = getExportColumns(req, []);
+    const unknown = columns.filter((column) => !availableColumns.includes(column));
+    if (columns.length === 0 || unknown.length > 0) {
+      errors.push({
+        field: 'columns',
+        message: `columns must be a comma-separated list of: ${availableColumns.join(', ')}`,
+      });
+    }
+  }
+}
+
 /**
  * Validate schedule query parameters
  */
@@ -59,56 +117,151 @@ export function validateScheduleQuery(
   const errors: ValidationError[] = [];
   const query = req.query;
 
+  // Parse the carrier query parameters once: typed and coerced (see @utils/scheduleQuery)
+  const parsed = parseScheduleQuery(query);
+  const input = parsed.input;
+  errors.push(...parsed.errors);
+
   // Validate vesselIMONumber
-  if (query.vesselIMONumber) {
-    const imo = query.vesselIMONumber as string;
-    if (!isValidIMONumber(imo)) {
-      errors.push({
-        field: 'vesselIMONumber',
-        message: 'IMO number must be 7 digits',
-      });
-    }
+  if (input.vesselIMONumber && !isValidIMONumber(input.vesselIMONumber)) {
+    errors.push({
+      field: 'vesselIMONumber',
+      message: 'IMO number must be 7 digits',
+    });
   }
 
   // Validate UNLocationCode
-  if (query.UNLocationCode) {
-    const code = query.UNLocationCode as string;
-    if (!isValidUNLocationCode(code)) {
-      errors.push({
-        field: 'UNLocationCode',
-        message: 'UN Location Code must be 5 characters (2 letters + 3 alphanumeric)',
-      });
-    }
+  if (input.UNLocationCode && !isValidUNLocationCode(input.UNLocationCode)) {
+    errors.push({
+      field: 'UNLocationCode',
+      message: 'UN Location Code must be 5 characters (2 letters + 3 alphanumeric)',
+    });
   }
 
   // Validate startDate
-  if (query.startDate) {
-    const date = query.startDate as string;
-    if (!isValidDate(date)) {
+  if (input.startDate && !isValidDate(input.startDate)) {
+    errors.push({
+      field: 'startDate',
+      message: 'startDate must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  // Validate endDate
+  if (input.endDate && !isValidDate(input.endDate)) {
+    errors.push({
+      field: 'endDate',
+      message: 'endDate must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  // Validate date range
+  if (!isValidDateRange(input.startDate, input.endDate)) {
+    errors.push({
+      field: 'dateRange',
+      message: 'startDate must be before or equal to endDate',
+    });
+  }
+
+  // Validate limit (non-numeric values are reported by the parser)
+  if (input.limit !== undefined && !isValidLimit(input.limit)) {
+    errors.push({
+      field: 'limit',
+      message: 'limit must be a number between 1 and 1000',
+    });
+  }
+
+  // Validate cursor (opaque nextCursor of a previous schedule response)
+  if (query.cursor && !decodeCompositeCursor('schedule', query.cursor as string)) {
+    errors.push({
+      field: 'cursor',
+      message: 'cursor is invalid or was issued for another API',
+    });
+  }
+
+  // Validate export format / columns
+  validateExportParams(req, SCHEDULE_EXPORT_COLUMNS, errors);
+
+  // Validate fetchAll
+  if (query.fetchAll && !['true', 'false'].includes(query.fetchAll as string)) {
+    errors.push({
+      field: 'fetchAll',
+      message: 'fetchAll must be "true" or "false"',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  // Parsed parameters for the controller (unknown parameters are reported as warnings)
+  res.locals.scheduleQuery = parsed;
+  next();
+}
+
+/**
+ * Validate route query parameters
+ */
+export function validateRouteQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const query = req.query;
+
+  // Validate origin and destination (required)
+  for (const field of ['origin', 'destination']) {
+    const code = query[field] as string | undefined;
+    if (!code) {
       errors.push({
-        field: 'startDate',
-        message: 'startDate must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+        field,
+        message: `${field} is required`,
+      });
+    } else if (!isValidUNLocationCode(code)) {
+      errors.push({
+        field,
+        message: 'UN Location Code must be 5 characters (2 letters + 3 alphanumeric)',
       });
     }
   }
 
-  // Validate endDate
-  if (query.endDate) {
-    const date = query.endDate as string;
-    if (!isValidDate(date)) {
+  // Validate date window parameters
+  for (const field of ['departureFrom', 'departureTo', 'arrivalFrom', 'arrivalTo']) {
+    if (query[field] && !isValidDate(query[field] as string)) {
       errors.push({
-        field: 'endDate',
-        message: 'endDate must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+        field,
+        message: `${field} must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)`,
       });
     }
   }
 
-  // Validate date range
-  if (query.startDate && query.endDate) {
-    if (!isValidDateRange(query.startDate as string, query.endDate as string)) {
+  // Validate date ranges
+  if (!isValidDateRange(query.departureFrom as string, query.departureTo as string)) {
+    errors.push({
+      field: 'departureRange',
+      message: 'departureFrom must be before or equal to departureTo',
+    });
+  }
+  if (!isValidDateRange(query.arrivalFrom as string, query.arrivalTo as string)) {
+    errors.push({
+      field: 'arrivalRange',
+      message: 'arrivalFrom must be before or equal to arrivalTo',
+    });
+  }
+
+  // Validate maxTransshipments
+  if (query.maxTransshipments) {
+    const maxTransshipments = parseInt(query.maxTransshipments as string, 10);
+    if (isNaN(maxTransshipments) || maxTransshipments < 0) {
       errors.push({
-        field: 'dateRange',
-        message: 'startDate must be before or equal to endDate',
+        field: 'maxTransshipments',
+        message: 'maxTransshipments must be a non-negative number',
       });
     }
   }
@@ -163,6 +316,61 @@ export function validateTrackingQuery(
     });
   }
 
+  // Validate equipmentReference
+  if (query.equipmentReference && !isValidContainerNumber(query.equipmentReference as string)) {
+    errors.push({
+      field: 'equipmentReference',
+      message: CONTAINER_NUMBER_MESSAGE,
+    });
+  }
+
+  // Validate view
+  if (query.view && !TRACKING_VIEWS.includes(query.view as string)) {
+    errors.push({
+      field: 'view',
+      message: `view must be one of: ${TRACKING_VIEWS.join(', ')}`,
+    });
+  }
+
+  // Validate sort / order
+  if (query.sort && !EVENT_SORT_FIELDS.includes(query.sort as EventSortField)) {
+    errors.push({
+      field: 'sort',
+      message: `sort must be one of: ${EVENT_SORT_FIELDS.join(', ')}`,
+    });
+  }
+
+  if (query.order && !SORT_ORDERS.includes(query.order as SortOrder)) {
+    errors.push({
+      field: 'order',
+      message: `order must be one of: ${SORT_ORDERS.join(', ')}`,
+    });
+  }
+
+  // Validate event filters
+  const filters: Array<[string, readonly string[]]> = [
+    ['eventType', EVENT_TYPES],
+    ['shipmentEventTypeCode', SHIPMENT_EVENT_TYPE_CODES],
+    ['transportEventTypeCode', TRANSPORT_EVENT_TYPE_CODES],
+    ['equipmentEventTypeCode', EQUIPMENT_EVENT_TYPE_CODES],
+    ['documentTypeCode', DOCUMENT_TYPE_CODES],
+  ];
+  for (const [field, allowed] of filters) {
+    if (!query[field]) {
+      continue;
+    }
+    const invalid = String(query[field])
+      .split(',')
+      .map((code) => code.trim().toUpperCase())
+      .filter((code) => !isCodeOf(code, allowed));
+    if (invalid.length > 0) {
+      errors.push({
+        field,
+        message: `Invalid ${field} value(s): ${invalid.join(', ')}. Allowed: ${allowed.join(', ')}`,
+      });
+    }
+  }
+
   // Validate vesselIMONumber
   if (query.vesselIMONumber) {
     const imo = query.vesselIMONumber as string;
@@ -218,6 +426,209 @@ export function validateTrackingQuery(
     }
   }
 
+  // Validate cursor (opaque nextCursor of a previous tracking response)
+  if (query.cursor && !decodeCompositeCursor('tracking', query.cursor as string)) {
+    errors.push({
+      field: 'cursor',
+      message: 'cursor is invalid or was issued for another API',
+    });
+  }
+
+  // Validate export format / columns (milestones have no tabular export)
+  validateExportParams(req, TRACKING_EXPORT_COLUMNS, errors);
+  if (query.view === 'milestones' && getExportFormat(req) !== 'json') {
+    errors.push({
+      field: 'format',
+      message: 'CSV / XLSX export is only available for view=events',
+    });
+  }
+
+  // Validate fetchAll
+  if (query.fetchAll && !['true', 'false'].includes(query.fetchAll as string)) {
+    errors.push({
+      field: 'fetchAll',
+      message: 'fetchAll must be "true" or "false"',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate shipment summary parameters
+ */
+export function validateShipmentQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const reference = (req.params.reference || '').trim();
+  const referenceType = req.query.referenceType as string | undefined;
+
+  if (!reference || reference.length > 100) {
+    errors.push({
+      field: 'reference',
+      message: 'reference must be between 1 and 100 characters',
+    });
+  }
+
+  // Validate referenceType
+  if (referenceType && !SHIPMENT_REFERENCE_TYPES.includes(referenceType)) {
+    errors.push({
+      field: 'referenceType',
+      message: `referenceType must be one of: ${SHIPMENT_REFERENCE_TYPES.join(', ')}`,
+    });
+  }
+
+  // Validate container numbers
+  if (referenceType === 'equipment' && reference && !isValidContainerNumber(reference)) {
+    errors.push({
+      field: 'reference',
+      message: 'reference must be an ISO 6346 container number (4 letters + 7 digits with a valid check digit)',
+    });
+  }
+
+  if (req.query.equipmentReference && !isValidContainerNumber(req.query.equipmentReference as string)) {
+    errors.push({
+      field: 'equipmentReference',
+      message: CONTAINER_NUMBER_MESSAGE,
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate port schedule parameters
+ */
+export function validatePortScheduleQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const from = req.query.from as string | undefined;
+  const to = req.query.to as string | undefined;
+  const terminal = req.query.terminal as string | undefined;
+
+  if (!isValidUNLocationCode(req.params.unlocode || '')) {
+    errors.push({
+      field: 'unlocode',
+      message: 'UN Location Code must be 5 characters (2 letters + 3 alphanumeric)',
+    });
+  }
+
+  // Validate dates
+  if (from && !isValidDate(from)) {
+    errors.push({
+      field: 'from',
+      message: 'from must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (to && !isValidDate(to)) {
+    errors.push({
+      field: 'to',
+      message: 'to must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (errors.length === 0) {
+    const window = resolvePortScheduleWindow(req.params.unlocode, from, to);
+    // Without from, the window starts today; without to, it spans DEFAULT_PORT_SCHEDULE_DAYS
+    if (!isValidDateRange(window.from, window.to)) {
+      errors.push({
+        field: 'to',
+        message: 'to must not be before from',
+      });
+    } else if (
+      (new Date(window.to).getTime() - new Date(window.from).getTime()) / (24 * 60 * 60 * 1000) >=
+      MAX_PORT_SCHEDULE_DAYS
+    ) {
+      errors.push({
+        field: 'to',
+        message: `from and to must not span more than ${MAX_PORT_SCHEDULE_DAYS} days`,
+      });
+    }
+  }
+
+  // Validate terminal (SMDG terminal code)
+  if (terminal && !/^[A-Za-z0-9]{1,6}$/.test(terminal)) {
+    errors.push({
+      field: 'terminal',
+      message: 'terminal must be an SMDG terminal code (up to 6 letters or digits)',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate voyage lookup parameters
+ */
+export function validateVoyageQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const carrier = (req.params.carrier || '').toLowerCase();
+  const voyageCode = (req.params.voyageCode || '').trim();
+
+  // Carrier must be a specific carrier
+  const carriers = SUPPORTED_CARRIERS.filter((supported) => supported !== 'all');
+  if (!(carriers as string[]).includes(carrier)) {
+    errors.push({
+      field: 'carrier',
+      message: `carrier must be one of: ${carriers.join(', ')}`,
+    });
+  }
+
+  if (!voyageCode || voyageCode.length > 50) {
+    errors.push({
+      field: 'voyageCode',
+      message: 'voyageCode must be between 1 and 50 characters',
+    });
+  }
+
+  if (req.query.by && !VOYAGE_NAVIGATION_BASES.includes((req.query.by as string).toLowerCase())) {
+    errors.push({
+      field: 'by',
+      message: `by must be one of: ${VOYAGE_NAVIGATION_BASES.join(', ')}`,
+    });
+  }
+
   if (errors.length > 0) {
     res.status(400).json({
       success: false,
@@ -231,3 +642,468 @@ export function validateTrackingQuery(
   next();
 }
 
+/**
+ * Validate service rotation lookup parameters
+ */
+export function validateServiceRotationQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const carrier = (req.params.carrier || '').toLowerCase();
+  const serviceCode = (req.params.serviceCode || '').trim();
+
+  // Carrier must be a specific carrier
+  const carriers = SUPPORTED_CARRIERS.filter((supported) => supported !== 'all');
+  if (!(carriers as string[]).includes(carrier)) {
+    errors.push({
+      field: 'carrier',
+      message: `carrier must be one of: ${carriers.join(', ')}`,
+    });
+  }
+
+  // DCSA carrierServiceCode: max 11 characters
+  if (!serviceCode || serviceCode.length > 11) {
+    errors.push({
+      field: 'serviceCode',
+      message: 'serviceCode must be between 1 and 11 characters',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate tracking history query parameters
+ */
+export function validateTrackingHistoryQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const query = req.query;
+
+  // At least one reference must be provided
+  const hasReference =
+    query.carrierBookingReference || query.transportDocumentReference || query.equipmentReference;
+
+  if (!hasReference) {
+    errors.push({
+      field: 'reference',
+      message:
+        'At least one of the following must be provided: carrierBookingReference, transportDocumentReference, or equipmentReference',
+    });
+  }
+
+  // Validate eventType
+  if (query.eventType) {
+    const eventTypes = (query.eventType as string).split(',').map((e) => e.trim().toUpperCase());
+    const invalid = eventTypes.filter((e) => !isCodeOf(e, EVENT_TYPES));
+    if (invalid.length > 0) {
+      errors.push({
+        field: 'eventType',
+        message: `Invalid event type(s): ${invalid.join(', ')}. Allowed: ${EVENT_TYPES.join(', ')}`,
+      });
+    }
+  }
+
+  // Validate date range
+  const eventDateTimeFrom = query.eventDateTimeFrom as string | undefined;
+  const eventDateTimeTo = query.eventDateTimeTo as string | undefined;
+
+  if (eventDateTimeFrom && !isValidDate(eventDateTimeFrom)) {
+    errors.push({
+      field: 'eventDateTimeFrom',
+      message: 'eventDateTimeFrom must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (eventDateTimeTo && !isValidDate(eventDateTimeTo)) {
+    errors.push({
+      field: 'eventDateTimeTo',
+      message: 'eventDateTimeTo must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (!isValidDateRange(eventDateTimeFrom, eventDateTimeTo)) {
+    errors.push({
+      field: 'eventDateTimeFrom',
+      message: 'eventDateTimeFrom must be before or equal to eventDateTimeTo',
+    });
+  }
+
+  // Validate limit
+  if (query.limit) {
+    const limit = parseInt(query.limit as string, 10);
+    if (isNaN(limit) || !isValidLimit(limit)) {
+      errors.push({
+        field: 'limit',
+        message: 'limit must be a number between 1 and 1000',
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate watch registration body
+ */
+export function validateCreateWatch(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const body = req.body || {};
+
+  // Carrier must be a specific carrier
+  const carriers = SUPPORTED_CARRIERS.filter((carrier) => carrier !== 'all');
+  if (!body.carrier) {
+    errors.push({
+      field: 'carrier',
+      message: 'carrier is required',
+    });
+  } else if (typeof body.carrier !== 'string' || !carriers.includes(body.carrier.toLowerCase())) {
+    errors.push({
+      field: 'carrier',
+      message: `carrier must be one of: ${carriers.join(', ')}`,
+    });
+  }
+
+  // At least one reference must be provided
+  const referenceFields = ['equipmentReference', 'transportDocumentReference', 'carrierBookingReference'];
+  if (!referenceFields.some((field) => body[field])) {
+    errors.push({
+      field: 'reference',
+      message:
+        'At least one of the following must be provided: equipmentReference, transportDocumentReference, or carrierBookingReference',
+    });
+  }
+  for (const field of referenceFields) {
+    if (body[field] !== undefined && (typeof body[field] !== 'string' || body[field].length > 100)) {
+      errors.push({
+        field,
+        message: `${field} must be a string of at most 100 characters`,
+      });
+    }
+  }
+
+  // Validate equipmentReference
+  if (
+    typeof body.equipmentReference === 'string' &&
+    body.equipmentReference.length <= 100 &&
+    !isValidContainerNumber(body.equipmentReference)
+  ) {
+    errors.push({
+      field: 'equipmentReference',
+      message: CONTAINER_NUMBER_MESSAGE,
+    });
+  }
+
+  // Validate portOfDischarge
+  if (
+    body.portOfDischarge !== undefined &&
+    (typeof body.portOfDischarge !== 'string' || !isValidUNLocationCode(body.portOfDischarge))
+  ) {
+    errors.push({
+      field: 'portOfDischarge',
+      message: 'portOfDischarge must be a UN Location Code (2 letters + 3 alphanumeric)',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid request body',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate voyage watch registration body
+ */
+export function validateCreateVoyageWatch(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const body = req.body || {};
+
+  // Carrier must be a specific carrier
+  const carriers = SUPPORTED_CARRIERS.filter((carrier) => carrier !== 'all');
+  if (!body.carrier) {
+    errors.push({
+      field: 'carrier',
+      message: 'carrier is required',
+    });
+  } else if (typeof body.carrier !== 'string' || !carriers.includes(body.carrier.toLowerCase())) {
+    errors.push({
+      field: 'carrier',
+      message: `carrier must be one of: ${carriers.join(', ')}`,
+    });
+  }
+
+  // Validate carrierVoyageNumber
+  if (!body.carrierVoyageNumber) {
+    errors.push({
+      field: 'carrierVoyageNumber',
+      message: 'carrierVoyageNumber is required',
+    });
+  } else if (typeof body.carrierVoyageNumber !== 'string' || body.carrierVoyageNumber.length > 50) {
+    errors.push({
+      field: 'carrierVoyageNumber',
+      message: 'carrierVoyageNumber must be a string of at most 50 characters',
+    });
+  }
+
+  // Validate portOfDischarge
+  if (!body.portOfDischarge) {
+    errors.push({
+      field: 'portOfDischarge',
+      message: 'portOfDischarge is required',
+    });
+  } else if (typeof body.portOfDischarge !== 'string' || !isValidUNLocationCode(body.portOfDischarge)) {
+    errors.push({
+      field: 'portOfDischarge',
+      message: 'portOfDischarge must be a UN Location Code (2 letters + 3 alphanumeric)',
+    });
+  }
+
+  // Validate vesselIMONumber
+  if (
+    body.vesselIMONumber !== undefined &&
+    (typeof body.vesselIMONumber !== 'string' || !isValidIMONumber(body.vesselIMONumber))
+  ) {
+    errors.push({
+      field: 'vesselIMONumber',
+      message: 'IMO number must be 7 digits',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid request body',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate delay alerts query parameters
+ */
+export function validateDelayAlertsQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+
+  if (req.query.since && !isValidDate(req.query.since as string)) {
+    errors.push({
+      field: 'since',
+      message: 'since must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (
+    req.query.subjectType &&
+    !ETA_SUBJECT_TYPES.includes((req.query.subjectType as string).toUpperCase())
+  ) {
+    errors.push({
+      field: 'subjectType',
+      message: `subjectType must be one of: ${ETA_SUBJECT_TYPES.join(', ')}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate watch changes query parameters
+ */
+export function validateWatchChangesQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+
+  if (req.query.since && !isValidDate(req.query.since as string)) {
+    errors.push({
+      field: 'since',
+      message: 'since must be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ssZ)',
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate webhook subscription body
+ */
+export function validateCreateWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+  const body = req.body || {};
+
+  // Validate callback URL
+  if (!body.url) {
+    errors.push({
+      field: 'url',
+      message: 'url is required',
+    });
+  } else if (typeof body.url !== 'string' || !isValidHttpUrl(body.url)) {
+    errors.push({
+      field: 'url',
+      message: 'url must be a valid http or https URL',
+    });
+  } else if (isReservedHost(new URL(body.url).hostname)) {
+    errors.push({
+      field: 'url',
+      message: 'url must not point to a local, private or reserved address',
+    });
+  }
+
+  // Validate secret
+  if (body.secret !== undefined && (typeof body.secret !== 'string' || body.secret.length < 16)) {
+    errors.push({
+      field: 'secret',
+      message: 'secret must be a string of at least 16 characters',
+    });
+  }
+
+  // Validate delay alert options
+  if (
+    body.delayAlerts !== undefined &&
+    typeof body.delayAlerts !== 'boolean' &&
+    body.delayAlerts !== 'true' &&
+    body.delayAlerts !== 'false'
+  ) {
+    errors.push({
+      field: 'delayAlerts',
+      message: 'delayAlerts must be a boolean',
+    });
+  }
+
+  // Validate event filters
+  const filters: Array<[string, string[]]> = [
+    ['eventType', EVENT_TYPES],
+    ['equipmentEventTypeCode', EQUIPMENT_EVENT_TYPE_CODES],
+    ['transportEventTypeCode', TRANSPORT_EVENT_TYPE_CODES],
+  ];
+  for (const [field, allowed] of filters) {
+    if (body[field] === undefined) {
+      continue;
+    }
+    const values = Array.isArray(body[field]) ? body[field] : String(body[field]).split(',');
+    const invalid = values.filter((value: unknown) => !allowed.includes(String(value).trim().toUpperCase()));
+    if (invalid.length > 0) {
+      errors.push({
+        field,
+        message: `${field} must contain only: ${allowed.join(', ')}`,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid request body',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Validate webhook delivery log query parameters
+ */
+export function validateWebhookDeliveriesQuery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const errors: ValidationError[] = [];
+
+  if (
+    req.query.status &&
+    !WEBHOOK_DELIVERY_STATUSES.includes((req.query.status as string).toUpperCase())
+  ) {
+    errors.push({
+      field: 'status',
+      message: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      message: 'Invalid query parameters',
+      errors: errors,
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,31 @@
+/**
+ * Calendar Routes
+ * Defines the iCalendar feed of vessel calls and cut-offs
+ */
+
+import { Router } from 'express';
+import { ScheduleController } from '@api/controllers/ScheduleController';
+import { carrierFilter } from '@api/middleware/carrierFilter';
+import { validateScheduleQuery } from '@api/middleware/validation';
+
+const router = Router();
+const scheduleController = new ScheduleController();
+
+/**
+ * GET /api/v1/schedules.ics
+ * Get vessel arrivals, departures and cut-offs as a subscribable iCalendar feed
+ *
+ * Query parameters: same filters as GET /api/v1/schedules
+ * (cursor, format and columns do not apply; every page is included up to FETCH_ALL_MAX_PAGES)
+ *
+ * One VEVENT per transport call arrival/departure (ACT, else EST, else PLN) and per cut-off time.
+ * UIDs stay the same when times are revised, so subscribed calendars update events in place.
+ */
+router.get(
+  '/',
+  carrierFilter,
+  validateScheduleQuery,
+  scheduleController.getScheduleCalendar.bind(scheduleController)
+);
+
+export default router;
@@ -0,0 +1,28 @@
+/**
+ * Carrier Routes
+ * Defines carrier capability discovery API endpoints
+ */
+
+import { Router } from 'express';
+import { CarrierController } from '@api/controllers/CarrierController';
+
+const router = Router();
+const carrierController = new CarrierController();
+
+/**
+ * GET /api/v1/carriers
+ * List available carriers with their query modes
+ * (required/optional parameters, pagination and date-window limits per mode)
+ */
+router.get('/', carrierController.listCarriers.bind(carrierController));
+
+/**
+ * GET /api/v1/carriers/:code
+ * Get the query modes of one carrier
+ *
+ * Path parameters:
+ * - code: Carrier identifier ("cma-cgm" | "hmm" | "zim" | "maersk") or carrier code ("CMCG", "MAERSK")
+ */
+router.get('/:code', carrierController.getCarrier.bind(carrierController));
+
+export default router;
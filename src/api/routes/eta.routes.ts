@@ -0,0 +1,71 @@
+/**
+ * ETA Routes
+ * Defines voyage watch, ETA revision and delay alert API endpoints
+ */
+
+import { Router } from 'express';
+import { EtaController } from '@api/controllers/EtaController';
+import { validateCreateVoyageWatch, validateDelayAlertsQuery } from '@api/middleware/validation';
+
+const router = Router();
+const etaController = new EtaController();
+
+/**
+ * POST /api/v1/eta/voyages
+ * Register a vessel voyage for background polling of its arrival at a port
+ *
+ * Body:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" (required)
+ * - carrierVoyageNumber: Voyage number (required)
+ * - portOfDischarge: UN/LOCODE of the port of discharge (required)
+ * - vesselIMONumber: IMO number
+ */
+router.post('/voyages', validateCreateVoyageWatch, etaController.createVoyageWatch.bind(etaController));
+
+/**
+ * GET /api/v1/eta/voyages
+ * List voyage watches
+ */
+router.get('/voyages', etaController.listVoyageWatches.bind(etaController));
+
+/**
+ * GET /api/v1/eta/voyages/:id
+ * Get a voyage watch with its last poll status
+ */
+router.get('/voyages/:id', etaController.getVoyageWatch.bind(etaController));
+
+/**
+ * DELETE /api/v1/eta/voyages/:id
+ * Stop watching a voyage
+ */
+router.delete('/voyages/:id', etaController.deleteVoyageWatch.bind(etaController));
+
+/**
+ * GET /api/v1/eta/voyages/:id/revisions
+ * Planned/estimated/actual arrival revisions of a voyage watch with delay alerts
+ */
+router.get('/voyages/:id/revisions', etaController.getVoyageTimeline.bind(etaController));
+
+/**
+ * GET /api/v1/eta/voyages/:id/calendar.ics
+ * Calls and cut-offs of a voyage watch as a subscribable iCalendar feed (refreshed from the carrier on each request)
+ */
+router.get('/voyages/:id/calendar.ics', etaController.getVoyageCalendar.bind(etaController));
+
+/**
+ * GET /api/v1/eta/shipments/:watchId
+ * Planned/estimated/actual arrival revisions of a watched shipment with delay alerts
+ */
+router.get('/shipments/:watchId', etaController.getShipmentTimeline.bind(etaController));
+
+/**
+ * GET /api/v1/eta/alerts
+ * List delay alerts
+ *
+ * Query parameters:
+ * - since: ISO 8601 date/time (optional, default: all alerts)
+ * - subjectType: "SHIPMENT" | "VOYAGE"
+ */
+router.get('/alerts', validateDelayAlertsQuery, etaController.listAlerts.bind(etaController));
+
+export default router;
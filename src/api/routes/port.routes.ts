@@ -0,0 +1,36 @@
+/**
+ * Port Routes
+ * Defines port schedule API endpoints
+ */
+
+import { Router } from 'express';
+import { PortController } from '@api/controllers/PortController';
+import { carrierFilter } from '@api/middleware/carrierFilter';
+import { validatePortScheduleQuery } from '@api/middleware/validation';
+
+const router = Router();
+const portController = new PortController();
+
+/**
+ * GET /api/v1/ports/:unlocode/schedule
+ * Get the vessel calls at a port from the port schedule APIs of one or all carriers
+ * (one row per vessel call, merged across carriers and sorted by arrival)
+ *
+ * Path parameters:
+ * - unlocode: UN Location code of the port (e.g., "KRPUS")
+ *
+ * Query parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" | "all" (default: "all")
+ *   (carriers without a port schedule API are listed in skipped[])
+ * - from: First day (ISO 8601, default: today)
+ * - to: Last day, inclusive (ISO 8601, default: 7 days from from, at most 31 days)
+ * - terminal: SMDG terminal code (e.g., "PNC")
+ */
+router.get(
+  '/:unlocode/schedule',
+  carrierFilter,
+  validatePortScheduleQuery,
+  portController.getPortSchedule.bind(portController)
+);
+
+export default router;
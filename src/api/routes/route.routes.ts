@@ -0,0 +1,36 @@
+/**
+ * Route Routes
+ * Defines point-to-point route search API endpoints
+ */
+
+import { Router } from 'express';
+import { RouteController } from '@api/controllers/RouteController';
+import { carrierFilter } from '@api/middleware/carrierFilter';
+import { validateRouteQuery } from '@api/middleware/validation';
+
+const router = Router();
+const routeController = new RouteController();
+
+/**
+ * GET /api/v1/routes
+ * Search point-to-point routes between two locations from one or all carriers
+ *
+ * Query parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" | "all" (default: "all")
+ * - origin: Origin UN Location Code (required)
+ * - destination: Destination UN Location Code (required)
+ * - departureFrom: Earliest departure date (ISO 8601)
+ * - departureTo: Latest departure date (ISO 8601)
+ * - arrivalFrom: Earliest arrival date (ISO 8601)
+ * - arrivalTo: Latest arrival date (ISO 8601)
+ * - maxTransshipments: Maximum number of transshipments
+ * - limit: Maximum number of routes per carrier
+ */
+router.get(
+  '/',
+  carrierFilter,
+  validateRouteQuery,
+  routeController.getRoutes.bind(routeController)
+);
+
+export default router;
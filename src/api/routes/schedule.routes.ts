@@ -26,7 +26,15 @@ const scheduleController = new ScheduleController();
  * - startDate: Start date (ISO 8601)
  * - endDate: End date (ISO 8601)
  * - limit: Maximum number of results
- * - cursor: Pagination cursor
+ * - Carrier-specific parameters (e.g. fromLocationCode, placeOfReceipt, originCode): see GET /api/v1/carriers
+ *   (with carrier=all, only carriers with a query mode matching the parameters are queried)
+ *   (each carrier receives only the typed fields of its query mode; unknown parameters are ignored with warnings[])
+ * - cursor: meta.nextCursor of the previous response (continues every carrier that has more pages)
+ * - fetchAll: "true" to follow every carrier's pages up to FETCH_ALL_MAX_PAGES (meta.truncated when capped)
+ * - format: "json" (default) | "csv" | "xlsx" (also selectable via the Accept header, one row per transport call)
+ *   (exports hold one page: X-Next-Cursor, X-Truncated / X-Truncated-Carriers, X-Carrier-Errors and
+ *   X-Skipped-Carriers response headers report what meta, errors[] and skipped[] would)
+ * - columns: Comma-separated export columns (default: all, see src/utils/tabularExport.ts)
  */
 router.get(
   '/',
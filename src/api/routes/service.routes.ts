@@ -0,0 +1,29 @@
+/**
+ * Service Routes
+ * Defines service rotation API endpoints
+ */
+
+import { Router } from 'express';
+import { ServiceController } from '@api/controllers/ServiceController';
+import { validateServiceRotationQuery } from '@api/middleware/validation';
+
+const router = Router();
+const serviceController = new ServiceController();
+
+/**
+ * GET /api/v1/services/:carrier/:serviceCode
+ * Get the proforma port rotation (bound, transit days) and deployed fleet of a service,
+ * with its frequency, departure day and rotation duration
+ *
+ * Path parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk"
+ *   (carriers without service rotations answer 400 with skipped[], see GET /api/v1/carriers)
+ * - serviceCode: Carrier service code
+ */
+router.get(
+  '/:carrier/:serviceCode',
+  validateServiceRotationQuery,
+  serviceController.getServiceRotation.bind(serviceController)
+);
+
+export default router;
@@ -0,0 +1,35 @@
+/**
+ * Shipment Routes
+ * Defines shipment summary API endpoints
+ */
+
+import { Router } from 'express';
+import { ShipmentController } from '@api/controllers/ShipmentController';
+import { carrierFilter } from '@api/middleware/carrierFilter';
+import { validateShipmentQuery } from '@api/middleware/validation';
+
+const router = Router();
+const shipmentController = new ShipmentController();
+
+/**
+ * GET /api/v1/shipments/:reference
+ * Get the current status of a shipment summarized from its tracking events
+ *
+ * Path parameters:
+ * - reference: Container number, B/L number or booking number
+ *
+ * Query parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" | "all" (default: "all")
+ * - referenceType: "equipment" | "transportDocument" | "booking"
+ *   (default: "equipment" for valid ISO 6346 container numbers, otherwise "transportDocument")
+ * - carrierBookingReference: Booking number (HMM requires booking number and container number)
+ * - equipmentReference: Container number
+ */
+router.get(
+  '/:reference',
+  carrierFilter,
+  validateShipmentQuery,
+  shipmentController.getShipment.bind(shipmentController)
+);
+
+export default router;
@@ -6,11 +6,34 @@
 import { Router } from 'express';
 import { TrackingController } from '@api/controllers/TrackingController';
 import { carrierFilter } from '@api/middleware/carrierFilter';
-import { validateTrackingQuery } from '@api/middleware/validation';
+import { validateTrackingHistoryQuery, validateTrackingQuery } from '@api/middleware/validation';
 
 const router = Router();
 const trackingController = new TrackingController();
 
+/**
+ * GET /api/v1/tracking/history
+ * Get stored tracking events without calling carriers
+ * Events are stored whenever they are retrieved from a carrier (tracking API or watchlist polling)
+ *
+ * Query parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" | "all" (default: "all")
+ * - carrierBookingReference: Booking reference
+ * - transportDocumentReference: Transport document reference
+ * - equipmentReference: Equipment/container reference
+ * - eventType: Event type (SHIPMENT, TRANSPORT, EQUIPMENT)
+ * - eventTypeCode: Shipment/Transport/Equipment event type code (e.g. DEPA, LOAD)
+ * - eventDateTimeFrom: Events on or after this date/time
+ * - eventDateTimeTo: Events on or before this date/time
+ * - limit: Maximum number of results (default: 100)
+ */
+router.get(
+  '/history',
+  carrierFilter,
+  validateTrackingHistoryQuery,
+  trackingController.getHistory.bind(trackingController)
+);
+
 /**
  * GET /api/v1/tracking
  * Get tracking events from one or all carriers
@@ -26,7 +49,15 @@ const trackingController = new TrackingController();
  * - carrierServiceCode: Service code
  * - UNLocationCode: UN Location code
  * - limit: Maximum number of results
- * - cursor: Pagination cursor
+ * - cursor: meta.nextCursor of the previous response (continues every carrier that has more pages)
+ * - fetchAll: "true" to follow every carrier's pages up to FETCH_ALL_MAX_PAGES (meta.truncated when capped)
+ * - format: "json" (default) | "csv" | "xlsx" (also selectable via the Accept header, one row per event; view=events only)
+ *   (exports hold one page: X-Next-Cursor, X-Truncated / X-Truncated-Carriers, X-Carrier-Errors and
+ *   X-Skipped-Carriers response headers report what meta, errors[] and skipped[] would)
+ * - columns: Comma-separated export columns (default: all, see src/utils/tabularExport.ts)
+ * - view: "events" (raw DCSA events, default) | "milestones" (normalized lifecycle milestones)
+ * - sort: "eventDateTime" (default) | "eventCreatedDateTime"
+ * - order: "asc" (default) | "desc"
  */
 router.get(
   '/',
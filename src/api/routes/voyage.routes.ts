@@ -0,0 +1,46 @@
+/**
+ * Voyage Routes
+ * Defines voyage lookup and navigation API endpoints
+ */
+
+import { Router } from 'express';
+import { VoyageController } from '@api/controllers/VoyageController';
+import { validateVoyageQuery } from '@api/middleware/validation';
+
+const router = Router();
+const voyageController = new VoyageController();
+
+/**
+ * GET /api/v1/voyages/:carrier/:voyageCode
+ * Get a voyage with its port calls and the codes of its previous/next voyages
+ *
+ * Path parameters:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk"
+ *   (carriers without voyage lookups answer 400 with skipped[], see GET /api/v1/carriers)
+ * - voyageCode: Carrier voyage code
+ */
+router.get('/:carrier/:voyageCode', validateVoyageQuery, voyageController.getVoyage.bind(voyageController));
+
+/**
+ * GET /api/v1/voyages/:carrier/:voyageCode/next
+ * Get the next voyage, e.g. to roll a booking to the next sailing of the same service
+ *
+ * Query parameters:
+ * - by: "service" (default, next voyage in rotation order) | "vessel" (next voyage of the same vessel)
+ */
+router.get('/:carrier/:voyageCode/next', validateVoyageQuery, voyageController.getNextVoyage.bind(voyageController));
+
+/**
+ * GET /api/v1/voyages/:carrier/:voyageCode/previous
+ * Get the previous voyage
+ *
+ * Query parameters:
+ * - by: "service" (default) | "vessel"
+ */
+router.get(
+  '/:carrier/:voyageCode/previous',
+  validateVoyageQuery,
+  voyageController.getPreviousVoyage.bind(voyageController)
+);
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * Watch Routes
+ * Defines shipment watchlist API endpoints
+ */
+
+import { Router } from 'express';
+import { WatchController } from '@api/controllers/WatchController';
+import { validateCreateWatch, validateWatchChangesQuery } from '@api/middleware/validation';
+
+const router = Router();
+const watchController = new WatchController();
+
+/**
+ * POST /api/v1/watches
+ * Register a shipment for background polling
+ *
+ * Body:
+ * - carrier: "cma-cgm" | "hmm" | "zim" | "maersk" (required)
+ * - equipmentReference: Container number
+ * - transportDocumentReference: B/L number
+ * - carrierBookingReference: Booking number
+ * (at least one reference is required)
+ * - portOfDischarge: UN/LOCODE used for ETA revisions (default: last vessel arrival port reported)
+ */
+router.post('/', validateCreateWatch, watchController.createWatch.bind(watchController));
+
+/**
+ * GET /api/v1/watches
+ * List registered watches
+ */
+router.get('/', watchController.listWatches.bind(watchController));
+
+/**
+ * GET /api/v1/watches/:id
+ * Get a watch with its last poll status
+ */
+router.get('/:id', watchController.getWatch.bind(watchController));
+
+/**
+ * DELETE /api/v1/watches/:id
+ * Stop watching a shipment
+ */
+router.delete('/:id', watchController.deleteWatch.bind(watchController));
+
+/**
+ * GET /api/v1/watches/:id/changes
+ * List tracking events that appeared since a given time
+ *
+ * Query parameters:
+ * - since: ISO 8601 date/time (optional, default: all changes)
+ */
+router.get(
+  '/:id/changes',
+  validateWatchChangesQuery,
+  watchController.getChanges.bind(watchController)
+);
+
+export default router;
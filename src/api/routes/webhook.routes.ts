@@ -0,0 +1,69 @@
+/**
+ * Webhook Routes
+ * Defines webhook subscription and delivery log API endpoints
+ */
+
+import { Router } from 'express';
+import { WebhookController } from '@api/controllers/WebhookController';
+import { validateCreateWebhook, validateWebhookDeliveriesQuery } from '@api/middleware/validation';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+/**
+ * POST /api/v1/webhooks
+ * Register a callback URL for new tracking events of watched shipments (and optionally delay alerts)
+ *
+ * Body:
+ * - url: Callback URL (required, http/https)
+ * - secret: HMAC-SHA256 signing secret (generated if omitted, returned once)
+ * - watchId / equipmentReference / transportDocumentReference / carrierBookingReference: Reference filters
+ * - eventType: ["SHIPMENT" | "TRANSPORT" | "EQUIPMENT"]
+ * - equipmentEventTypeCode: e.g. ["LOAD", "DISC"]
+ * - transportEventTypeCode: ["ARRI" | "DEPA"]
+ * - includeInitial: Also deliver events found by a watch's first poll (default: false)
+ * - delayAlerts: Also deliver delay alerts of matching watches (default: false)
+ * - voyageWatchId: Only deliver delay alerts of this voyage watch
+ *
+ * Each delivery is POSTed with header X-Webhook-Signature: sha256=<HMAC-SHA256(body, secret)>
+ */
+router.post('/', validateCreateWebhook, webhookController.createSubscription.bind(webhookController));
+
+/**
+ * GET /api/v1/webhooks
+ * List subscriptions (secrets masked)
+ */
+router.get('/', webhookController.listSubscriptions.bind(webhookController));
+
+/**
+ * GET /api/v1/webhooks/dead-letters
+ * Deliveries that failed after the maximum number of attempts
+ */
+router.get('/dead-letters', webhookController.listDeadLetters.bind(webhookController));
+
+/**
+ * GET /api/v1/webhooks/:id
+ * Get a subscription (secret masked)
+ */
+router.get('/:id', webhookController.getSubscription.bind(webhookController));
+
+/**
+ * DELETE /api/v1/webhooks/:id
+ * Delete a subscription
+ */
+router.delete('/:id', webhookController.deleteSubscription.bind(webhookController));
+
+/**
+ * GET /api/v1/webhooks/:id/deliveries
+ * Delivery log for a subscription
+ *
+ * Query parameters:
+ * - status: "PENDING" | "RETRYING" | "DELIVERED" | "DEAD_LETTER"
+ */
+router.get(
+  '/:id/deliveries',
+  validateWebhookDeliveriesQuery,
+  webhookController.listDeliveries.bind(webhookController)
+);
+
+export default router;
@@ -0,0 +1,57 @@
+/**
+ * Carrier capability models
+ * Machine-readable description of the query modes each carrier adapter supports
+ */
+
+/**
+ * API a query mode belongs to
+ */
+export type CapabilityApiType = 'schedule' | 'tracking' | 'route' | 'voyage' | 'service';
+
+/**
+ * Pagination support of a query mode
+ * - NONE: everything is returned in a single page
+ * - CURSOR: carrier cursor (Next-Page-Cursor or Link header)
+ * - RANGE: offset ranges (Range / Content-Range headers)
+ */
+export type PaginationSupport = 'NONE' | 'CURSOR' | 'RANGE';
+
+/**
+ * Date limits enforced by the carrier API for a query mode
+ */
+export interface DateWindowLimit {
+  params: string[]; // Query parameters the limit applies to
+  maxRangeDays?: number; // Maximum days between the first and last date searched
+  maxPastDays?: number; // Earliest accepted date, in days before today
+  maxFutureDays?: number; // Latest accepted date, in days after today
+  defaultRangeDays?: number; // Days searched when no end date is given
+}
+
+/**
+ * Query Mode - One carrier API reachable through a combination of query parameters
+ */
+export interface QueryMode {
+  mode: string; // e.g. "VESSEL_SCHEDULE", "PORT_SCHEDULE", "POINT_TO_POINT"
+  api: CapabilityApiType;
+  name: string; // Carrier API serving the mode
+  description: string;
+  // Alternative parameter sets: the mode applies when every parameter of one set is given
+  // (empty: no parameter is required)
+  requiredParams: string[][];
+  // Further parameters passed to the carrier; parameters not listed are ignored
+  optionalParams: string[];
+  // Parameters that route the query to another mode
+  excludedParams?: string[];
+  pagination: PaginationSupport;
+  dateWindow?: DateWindowLimit;
+}
+
+/**
+ * Carrier Capabilities - Query modes of one carrier adapter
+ * Modes are listed in the order the adapter checks them; the first matching mode is used
+ */
+export interface CarrierCapabilities {
+  carrier: string; // Carrier code (e.g., "CMCG")
+  carrierName: string;
+  modes: QueryMode[];
+}
@@ -46,7 +46,7 @@ export interface Address {
  * Vessel information
  */
 export interface Vessel {
-  vesselIMONumber: string; // 7-8 digits, pattern: ^\d{7,8}$
+  vesselIMONumber?: string; // 7-8 digits, pattern: ^\d{7,8}$ (unset when the carrier does not provide it)
   name?: string; // Max 50 chars
   flag?: string; // ISO 3166-1 alpha-2, 2 chars
   callSign?: string; // Max 10 chars
@@ -0,0 +1,93 @@
+/**
+ * ETA domain models
+ * Arrival estimate revisions at the port of discharge and delay alerts
+ */
+
+import { EventClassifierCode } from './tracking';
+
+/**
+ * What an ETA history belongs to
+ * - SHIPMENT: a watch (see watch.ts)
+ * - VOYAGE: a voyage watch
+ */
+export type EtaSubjectType = 'SHIPMENT' | 'VOYAGE';
+
+/**
+ * Voyage Watch - A vessel voyage polled periodically for its arrival at a port
+ */
+export interface VoyageWatch {
+  id: string; // UUID
+  carrier: string; // Carrier code (e.g. "CMCG", "HMM")
+  carrierVoyageNumber: string; // Max 50 chars
+  vesselIMONumber?: string; // 7 digits
+  portOfDischarge: string; // UN/LOCODE
+  createdAt: string; // ISO 8601 format
+  lastPolledAt?: string; // ISO 8601 format
+  lastSuccessfulPollAt?: string; // ISO 8601 format
+  lastPollError?: string;
+}
+
+/**
+ * Input for registering a voyage watch
+ */
+export interface CreateVoyageWatchInput {
+  carrier: string; // Carrier code
+  carrierVoyageNumber: string;
+  vesselIMONumber?: string;
+  portOfDischarge: string; // UN/LOCODE
+}
+
+/**
+ * ETA Revision - A new arrival date/time reported by the carrier
+ */
+export interface EtaRevision {
+  id: string; // UUID
+  subjectType: EtaSubjectType;
+  subjectId: string; // Watch or voyage watch ID
+  carrier: string; // Carrier code
+  portOfDischarge: string; // UN/LOCODE
+  eventClassifierCode: EventClassifierCode;
+  eventDateTime: string; // ISO 8601 format
+  previousEventDateTime?: string; // Previous value with the same classifier
+  delayHours?: number; // Versus the original PLN arrival (negative = early)
+  delayReasonCode?: string; // Max 3 chars
+  changeRemark?: string; // Max 250 chars
+  observedAt: string; // ISO 8601 format
+}
+
+/**
+ * Delay Alert - Raised when an arrival estimate slips beyond the threshold
+ */
+export interface DelayAlert {
+  id: string; // UUID
+  subjectType: EtaSubjectType;
+  subjectId: string; // Watch or voyage watch ID
+  carrier: string; // Carrier code
+  portOfDischarge: string; // UN/LOCODE
+  plannedArrival: string; // Original PLN arrival, ISO 8601 format
+  estimatedArrival: string; // EST/ACT arrival that triggered the alert, ISO 8601 format
+  delayHours: number;
+  thresholdHours: number;
+  delayReasonCode?: string;
+  changeRemark?: string;
+  revisionId: string;
+  detectedAt: string; // ISO 8601 format
+}
+
+/**
+ * ETA Timeline - Current arrival status with its full revision history
+ */
+export interface EtaTimeline {
+  subjectType: EtaSubjectType;
+  subjectId: string;
+  carrier: string;
+  portOfDischarge?: string; // UN/LOCODE (undefined until an arrival has been reported)
+  plannedArrival?: string; // Original PLN arrival
+  estimatedArrival?: string; // Latest EST arrival
+  actualArrival?: string; // ACT arrival
+  delayHours?: number; // Latest EST/ACT versus original PLN
+  delayed: boolean; // delayHours exceeds the alert threshold
+  thresholdHours: number;
+  revisions: EtaRevision[]; // Oldest first
+  alerts: DelayAlert[]; // Oldest first
+}
@@ -0,0 +1,54 @@
+/**
+ * Milestone domain models
+ * Carrier-neutral shipment lifecycle derived from DCSA tracking events
+ */
+
+import { EventClassifierCode, EventType } from './tracking';
+import { ShipmentLocation, ShipmentVessel } from './shipment';
+
+/**
+ * Milestone - Step of the container/shipment lifecycle
+ */
+export type Milestone =
+  | 'BOOKED' // Booking confirmed
+  | 'EMPTY_PICKED_UP' // Empty container picked up by the shipper
+  | 'GATED_IN' // Laden container received at the port of loading
+  | 'LOADED' // Loaded on a vessel (port of loading or transshipment port)
+  | 'DEPARTED' // Vessel departed
+  | 'TRANSSHIPPED' // Discharged at a transshipment port
+  | 'ARRIVED' // Vessel arrived at the port of discharge
+  | 'DISCHARGED' // Discharged at the port of discharge
+  | 'GATED_OUT' // Laden container left the port of discharge
+  | 'EMPTY_RETURNED'; // Empty container returned
+
+/**
+ * Milestones in lifecycle order
+ */
+export const MILESTONE_ORDER: Milestone[] = [
+  'BOOKED',
+  'EMPTY_PICKED_UP',
+  'GATED_IN',
+  'LOADED',
+  'DEPARTED',
+  'TRANSSHIPPED',
+  'ARRIVED',
+  'DISCHARGED',
+  'GATED_OUT',
+  'EMPTY_RETURNED',
+];
+
+/**
+ * Milestone Event - A milestone reached (ACT) or expected (EST/PLN) at a location
+ */
+export interface MilestoneEvent {
+  milestone: Milestone;
+  eventClassifierCode: EventClassifierCode;
+  eventDateTime: string; // ISO 8601 format
+  location?: ShipmentLocation;
+  vessel?: ShipmentVessel;
+  equipmentReference?: string;
+  // DCSA event the milestone was derived from
+  sourceEventType: EventType;
+  sourceEventTypeCode: string;
+  sourceEventID?: string;
+}
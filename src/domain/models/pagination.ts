@@ -0,0 +1,25 @@
+/**
+ * Pagination domain models
+ * Carrier-specific pagination state behind the composite cursor of multi-carrier queries
+ */
+
+/**
+ * Carrier Page State - Where to continue one carrier's result list
+ * - START: first page (not fetched yet, or the previous attempt failed)
+ * - CURSOR: DCSA cursor from the Next-Page-Cursor response header
+ * - OFFSET: next item offset for Range-paginated APIs (CMA CGM Content-Range)
+ * - EXHAUSTED: all results returned, or the carrier API is not paginated
+ */
+export type CarrierPageState =
+  | { type: 'START' }
+  | { type: 'CURSOR'; cursor: string }
+  | { type: 'OFFSET'; offset: number }
+  | { type: 'EXHAUSTED' };
+
+/**
+ * Page - One page of carrier results with the state for the next page
+ */
+export interface Page<T> {
+  items: T[];
+  next: CarrierPageState;
+}
@@ -0,0 +1,67 @@
+/**
+ * Port schedule domain models
+ * Terminal-centric view of the vessel calls at one port, merged across carriers
+ */
+
+import { CutOffTime } from './schedule';
+
+/**
+ * Port Call - One vessel call at the port, as reported by one carrier
+ */
+export interface PortCall {
+  carrier: string; // Carrier code (e.g., "CMCG")
+  carrierName?: string;
+  transportCallReference: string;
+  UNLocationCode: string;
+  locationName?: string;
+  facilitySMDGCode?: string; // Terminal (SMDG code)
+
+  // Vessel
+  vesselIMONumber?: string;
+  vesselName?: string;
+  isDummyVessel?: boolean;
+
+  // Service and voyage
+  carrierServiceCode?: string;
+  carrierServiceName?: string;
+  carrierImportVoyageNumber?: string;
+  carrierExportVoyageNumber?: string;
+
+  // Times (ISO 8601); estimates fall back to the planned time when the carrier gives no estimate
+  estimatedArrivalDateTime?: string; // ETA
+  estimatedDepartureDateTime?: string; // ETD
+  actualArrivalDateTime?: string; // ATA
+  actualDepartureDateTime?: string; // ATD
+  cutOffTimes?: CutOffTime[];
+}
+
+/**
+ * Port Call Carrier - A carrier reporting a merged vessel call, with its own service and voyage
+ */
+export interface PortCallCarrier {
+  carrier: string;
+  carrierName?: string;
+  transportCallReference: string;
+  carrierServiceCode?: string;
+  carrierServiceName?: string;
+  carrierImportVoyageNumber?: string;
+  carrierExportVoyageNumber?: string;
+}
+
+/**
+ * Merged Port Call - One vessel call at the port, merged across the carriers reporting it
+ * (e.g. vessel sharing agreements); call fields are taken from the first carrier and completed by the others
+ */
+export interface MergedPortCall extends PortCall {
+  carriers: PortCallCarrier[];
+}
+
+/**
+ * Port schedule query - Calls at a port in a date window, optionally at one terminal
+ */
+export interface PortScheduleWindow {
+  UNLocationCode: string;
+  from: string; // ISO 8601 date, first day of the window
+  to: string; // ISO 8601 date, last day of the window (inclusive)
+  terminal?: string; // SMDG terminal code
+}
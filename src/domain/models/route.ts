@@ -0,0 +1,84 @@
+/**
+ * Route domain models based on DCSA Commercial Schedules Point-to-Point standard
+ * Normalized representation of a lane search result across carriers
+ */
+
+import { Vessel } from './common';
+import { CutOffTime, EventClassifierCode } from './schedule';
+
+/**
+ * Mode of transport for a route leg
+ */
+export type RouteModeOfTransport = 'VESSEL' | 'BARGE' | 'RAIL' | 'TRUCK' | 'MULTIMODAL';
+
+/**
+ * Route Location - Place where a leg or route starts or ends
+ */
+export interface RouteLocation {
+  UNLocationCode?: string;
+  locationName?: string;
+  facilitySMDGCode?: string; // Max 6 chars (terminal code)
+}
+
+/**
+ * Route Point - Location with the scheduled date/time at that location
+ */
+export interface RoutePoint {
+  location: RouteLocation;
+  dateTime?: string; // ISO 8601 format
+  eventClassifierCode?: EventClassifierCode;
+}
+
+/**
+ * Route Leg - A single transport segment of a route
+ */
+export interface RouteLeg {
+  sequenceNumber: number;
+  modeOfTransport: RouteModeOfTransport;
+  carrierServiceCode?: string;
+  carrierServiceName?: string;
+  carrierExportVoyageNumber?: string;
+  carrierImportVoyageNumber?: string;
+  vessel?: Vessel;
+  departure: RoutePoint;
+  arrival: RoutePoint;
+  transitTime?: number; // Days
+}
+
+/**
+ * Transshipment - Port where cargo changes vessel between two legs
+ */
+export interface Transshipment {
+  location: RouteLocation;
+  arrivalDateTime?: string;
+  departureDateTime?: string;
+}
+
+/**
+ * Point-to-Point Route - One routing solution between origin and destination
+ */
+export interface PointToPointRoute {
+  carrier?: string; // Carrier code, set by the API layer
+  routingReference?: string; // Carrier's own solution/routing identifier
+  isSyntheticRoutingReference?: boolean; // true when routingReference was derived from natural keys
+  placeOfReceipt: RoutePoint;
+  placeOfDelivery: RoutePoint;
+  transitTime?: number; // Days
+  transshipments: Transshipment[];
+  cutOffTimes: CutOffTime[];
+  legs: RouteLeg[];
+}
+
+/**
+ * Query parameters for Route API
+ */
+export interface RouteQueryParams {
+  origin: string; // UN Location Code
+  destination: string; // UN Location Code
+  departureFrom?: string; // ISO 8601 date format
+  departureTo?: string; // ISO 8601 date format
+  arrivalFrom?: string; // ISO 8601 date format
+  arrivalTo?: string; // ISO 8601 date format
+  maxTransshipments?: number;
+  limit?: number;
+}
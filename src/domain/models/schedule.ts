@@ -55,6 +55,7 @@ export interface TransportCallLocation {
  */
 export interface TransportCall {
   transportCallReference: string; // Max 100 chars, unique reference
+  isSyntheticReference?: boolean; // true when transportCallReference was derived from natural keys
   portVisitReference?: string; // Max 50 chars
   carrierImportVoyageNumber: string; // Max 50 chars, required
   carrierExportVoyageNumber?: string; // Max 50 chars
@@ -109,8 +110,7 @@ export interface ScheduleQueryParams {
   startDate?: string; // ISO 8601 date format
   endDate?: string; // ISO 8601 date format
   
-  // Pagination
+  // Pagination (page-by-page continuation is handled by the controller's composite cursor)
   limit?: number;
-  cursor?: string;
 }
 
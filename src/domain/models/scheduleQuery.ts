@@ -0,0 +1,143 @@
+/**
+ * Schedule query models
+ * Typed schedule queries per query mode (discriminated by mode)
+ */
+
+import { ScheduleQueryParams } from './schedule';
+
+/**
+ * Schedule query mode (see CarrierAdapter.getCapabilities for the carrier APIs behind each mode)
+ */
+export type ScheduleQueryMode = 'VESSEL_SCHEDULE' | 'PORT_SCHEDULE' | 'POINT_TO_POINT' | 'SERVICE' | 'VOYAGE';
+
+/**
+ * Vessel Schedule Query - DCSA vessel schedule filters
+ */
+export interface VesselScheduleQuery extends ScheduleQueryParams {
+  mode: 'VESSEL_SCHEDULE';
+}
+
+/**
+ * Port Schedule Query - Vessel calls at one port
+ */
+export interface PortScheduleQuery {
+  mode: 'PORT_SCHEDULE';
+  UNLocationCode: string;
+  date?: string; // Maersk: day of the port schedule (ISO 8601 date)
+  startDate?: string; // ISO 8601 date format
+  endDate?: string; // ISO 8601 date format
+  vesselOperatorCarrierCode?: string; // HMM: optionVessel (1 = including feeders, 2 = mother vessels only)
+  limit?: number;
+}
+
+/**
+ * Point-to-Point Query - Schedules between an origin and a destination
+ * Each carrier API names origin and destination differently
+ */
+export interface PointToPointScheduleQuery {
+  mode: 'POINT_TO_POINT';
+  startDate?: string; // ISO 8601 date format
+  endDate?: string; // ISO 8601 date format
+
+  // HMM PTP Schedule API
+  fromLocationCode?: string;
+  toLocationCode?: string;
+  periodDate?: string;
+  weekTerm?: number; // Search window in weeks (max 4)
+  receiveTermCode?: string;
+  deliveryTermCode?: string;
+  webSort?: string;
+  webPriority?: string;
+
+  // CMA CGM Route API (Routing Finder)
+  placeOfLoading?: string;
+  placeOfDischarge?: string;
+  unLocodePlaceOfLoading?: string;
+  unLocodePlaceOfDischarge?: string;
+  shippingCompany?: string;
+  departureDate?: string;
+  arrivalDate?: string;
+  searchRange?: number; // Days (max 35)
+  polVesselIMO?: string;
+  polServiceCode?: string;
+  maxTs?: number;
+  numberOfTEU?: number;
+  specificRoutings?: string[];
+  useRoutingStatistics?: boolean;
+
+  // DCSA Point-to-Point Routes API (Maersk, CMA CGM Commercial Schedule)
+  placeOfReceipt?: string;
+  placeOfDelivery?: string;
+  departureStartDate?: string;
+  departureEndDate?: string;
+  arrivalStartDate?: string;
+  arrivalEndDate?: string;
+  maxTranshipment?: number;
+  receiptTypeAtOrigin?: string;
+  deliveryTypeAtDestination?: string;
+  cargoType?: string;
+  ISOEquipmentCode?: string;
+  stuffingWeight?: number;
+  stuffingVolume?: number;
+
+  // ZIM Point-to-Point Schedule API
+  originCode?: string;
+  destCode?: string;
+}
+
+/**
+ * Service Query - Proforma services by service, line or trade zones
+ */
+export interface ServiceScheduleQuery {
+  mode: 'SERVICE';
+  serviceCode?: string;
+  carrierServiceCode?: string;
+  lineCode?: string;
+  zoneFromCode?: string;
+  zoneToCode?: string;
+  port?: string;
+  terminal?: string;
+  vesselIMO?: string;
+}
+
+/**
+ * Voyage Query - Commercial voyages and calls by voyage, vessel, dates, port or country
+ */
+export interface VoyageScheduleQuery {
+  mode: 'VOYAGE';
+  voyageCode?: string;
+  carrierVoyageNumber?: string;
+  vesselIMO?: string;
+  vesselIMONumber?: string;
+  from?: string; // ISO 8601 date format
+  to?: string; // ISO 8601 date format
+  startDate?: string; // ISO 8601 date format
+  endDate?: string; // ISO 8601 date format
+  portCode?: string[];
+  countryCode?: string[];
+  shipcomp?: string[];
+  searchType?: string;
+  sort?: string;
+}
+
+/**
+ * Schedule Query - What a carrier adapter receives: only the fields of one mode
+ */
+export type ScheduleQuery =
+  | VesselScheduleQuery
+  | PortScheduleQuery
+  | PointToPointScheduleQuery
+  | ServiceScheduleQuery
+  | VoyageScheduleQuery;
+
+/**
+ * Schedule Query Input - Every schedule query parameter, parsed and coerced
+ * The mode is chosen per carrier from its capabilities
+ */
+export type ScheduleQueryInput = Partial<
+  Omit<VesselScheduleQuery, 'mode'> &
+    Omit<PortScheduleQuery, 'mode'> &
+    Omit<PointToPointScheduleQuery, 'mode'> &
+    Omit<ServiceScheduleQuery, 'mode'> &
+    Omit<VoyageScheduleQuery, 'mode'>
+>;
@@ -0,0 +1,47 @@
+/**
+ * Service rotation domain models
+ * Proforma port rotation and deployed fleet of one carrier service (the whole loop, not single voyages)
+ */
+
+import { Vessel } from './common';
+
+/**
+ * Service bound of a proforma call
+ */
+export type ServiceBound = 'NORTH' | 'SOUTH' | 'EAST' | 'WEST' | 'ROUND';
+
+/**
+ * Proforma Call - One planned port call of the rotation
+ */
+export interface ProformaCall {
+  sequence: number; // Position in the rotation, from 1
+  UNLocationCode?: string;
+  locationName?: string;
+  carrierLocationCode: string; // Carrier's internal port code
+  facilitySMDGCode?: string; // Terminal (SMDG code)
+  carrierTerminalCode?: string;
+  terminalName?: string;
+  bound: ServiceBound;
+  transitDays?: number; // Days from the start of the rotation
+}
+
+/**
+ * Service Rotation - Proforma rotation and fleet of a carrier service
+ */
+export interface ServiceRotation {
+  carrier: string; // Carrier code (e.g., "CMCG")
+  carrierName?: string;
+  carrierServiceCode: string;
+  carrierServiceName?: string;
+  serviceType?: string;
+  active?: boolean;
+
+  // Schedule pattern
+  frequency?: number; // Days between departures (e.g., 7 for weekly)
+  departureDay?: string; // e.g., "Sunday"
+  rotationDuration?: number; // Days for one vessel to complete the loop
+
+  proformaCalls: ProformaCall[];
+  fleet: Vessel[];
+  truncated?: boolean; // true when more calls or vessels exist than fetched (FETCH_ALL_MAX_PAGES)
+}
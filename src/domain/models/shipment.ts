@@ -0,0 +1,62 @@
+/**
+ * Shipment domain models
+ * Current status of a shipment summarized from its tracking events
+ */
+
+import { MilestoneEvent } from './milestone';
+
+/**
+ * Shipment Status - Furthest point reached according to actual (ACT) events
+ */
+export type ShipmentStatus =
+  | 'BOOKED' // No actual transport or equipment event yet
+  | 'EMPTY_PICKED_UP' // Empty container picked up by the shipper
+  | 'GATED_IN' // Laden container received at the port of loading
+  | 'LOADED' // Loaded on a vessel
+  | 'IN_TRANSIT' // Vessel departed
+  | 'TRANSSHIPMENT' // Discharged at a transshipment port
+  | 'ARRIVED' // Vessel arrived at the port of discharge
+  | 'DISCHARGED' // Discharged at the port of discharge
+  | 'GATED_OUT' // Laden container left the port of discharge
+  | 'EMPTY_RETURNED'; // Empty container returned
+
+/**
+ * Shipment Location - Port or facility reported in an event
+ */
+export interface ShipmentLocation {
+  UNLocationCode?: string;
+  locationName?: string; // Max 100 chars
+  facilityCode?: string;
+}
+
+/**
+ * Shipment Vessel - Vessel and voyage of a transport call
+ */
+export interface ShipmentVessel {
+  vesselName?: string; // Max 50 chars
+  vesselIMONumber?: string;
+  carrierVoyageNumber?: string;
+  carrierServiceCode?: string;
+}
+
+/**
+ * Shipment Summary - Aggregated view of a shipment's tracking events
+ */
+export interface ShipmentSummary {
+  reference: string;
+  carrier: string; // Carrier code
+  carrierName?: string;
+  carrierBookingReference?: string;
+  transportDocumentReference?: string;
+  equipmentReferences: string[];
+  status: ShipmentStatus;
+  lastKnownLocation?: ShipmentLocation;
+  lastEventDateTime?: string; // ISO 8601 format (latest actual event)
+  portOfLoading?: ShipmentLocation;
+  portOfDischarge?: ShipmentLocation;
+  transshipmentPorts: ShipmentLocation[];
+  currentVessel?: ShipmentVessel;
+  estimatedArrival?: string; // Latest EST arrival at the port of discharge
+  actualArrival?: string; // ACT arrival at the port of discharge
+  timeline: MilestoneEvent[]; // Chronological
+}
@@ -8,6 +8,7 @@ import { Vessel, Location } from './common';
  * Event Type - Type of tracking event
  */
 export type EventType = 'SHIPMENT' | 'TRANSPORT' | 'EQUIPMENT';
+export const EVENT_TYPES: EventType[] = ['SHIPMENT', 'TRANSPORT', 'EQUIPMENT'];
 
 /**
  * Event Classifier Code
@@ -18,6 +19,7 @@ export type EventClassifierCode = 'ACT' | 'EST' | 'PLN';
  * Transport Event Type Code
  */
 export type TransportEventTypeCode = 'ARRI' | 'DEPA';
+export const TRANSPORT_EVENT_TYPE_CODES: TransportEventTypeCode[] = ['ARRI', 'DEPA'];
 
 /**
  * Shipment Event Type Code
@@ -38,6 +40,10 @@ export type ShipmentEventTypeCode =
   | 'CMPL' // Completed
   | 'HOLD' // On Hold
   | 'RELS'; // Released
+export const SHIPMENT_EVENT_TYPE_CODES: ShipmentEventTypeCode[] = [
+  'RECE', 'DRFT', 'PENA', 'PENU', 'REJE', 'APPR', 'ISSU', 'SURR',
+  'SUBM', 'VOID', 'CONF', 'REQS', 'CMPL', 'HOLD', 'RELS',
+];
 
 /**
  * Document Type Code
@@ -54,6 +60,9 @@ export type DocumentTypeCode =
   | 'CUS' // Customs Inspection
   | 'DGD' // Dangerous Goods Declaration
   | 'OOG'; // Out of Gauge
+export const DOCUMENT_TYPE_CODES: DocumentTypeCode[] = [
+  'CBR', 'BKG', 'SHI', 'SRM', 'TRD', 'ARN', 'VGM', 'CAS', 'CUS', 'DGD', 'OOG',
+];
 
 /**
  * Equipment Event Type Code
@@ -70,6 +79,9 @@ export type EquipmentEventTypeCode =
   | 'INSP' // Inspected
   | 'RSEA' // Resealed
   | 'RMVD'; // Removed
+export const EQUIPMENT_EVENT_TYPE_CODES: EquipmentEventTypeCode[] = [
+  'LOAD', 'DISC', 'GTIN', 'GTOT', 'STUF', 'STRP', 'PICK', 'DROP', 'INSP', 'RSEA', 'RMVD',
+];
 
 /**
  * Mode of Transport
@@ -86,6 +98,7 @@ export type EmptyIndicatorCode = 'EMPTY' | 'LADEN';
  */
 export interface TransportCall {
   transportCallID: string; // Max 100 chars, unique identifier
+  isSyntheticID?: boolean; // true when the carrier sent no ID and transportCallID was derived from natural keys
   carrierServiceCode?: string;
   carrierVoyageNumber?: string;
   exportVoyageNumber?: string;
@@ -125,7 +138,7 @@ export interface BaseEvent {
   eventCreatedDateTime: string; // ISO 8601 format
   eventType: EventType;
   eventClassifierCode: EventClassifierCode;
-  eventDateTime: string; // ISO 8601 format
+  eventDateTime?: string; // ISO 8601 format (unset when the carrier reports no event time)
   carrierSpecificData?: Record<string, unknown>;
 }
 
@@ -212,9 +225,8 @@ export interface TrackingQueryParams {
   eventCreatedDateTime?: string; // ISO 8601 with optional operators (:gte, :gt, :lte, :lt, :eq)
   eventDateTime?: string;
   
-  // Pagination
+  // Pagination (page-by-page continuation is handled by the controller's composite cursor)
   limit?: number;
-  cursor?: string;
   
   // CMA CGM specific
   behalfOf?: string; // Third Party customer code
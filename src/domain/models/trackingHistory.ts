@@ -0,0 +1,38 @@
+/**
+ * Tracking history domain models
+ * Tracking events persisted from carrier responses
+ */
+
+import { EventType, TrackingEvent } from './tracking';
+
+/**
+ * Shipment references an event was retrieved for
+ */
+export interface TrackingReferences {
+  carrierBookingReference?: string;
+  transportDocumentReference?: string;
+  equipmentReference?: string;
+}
+
+/**
+ * Stored Tracking Event - Event with the times it was first and last reported by the carrier
+ */
+export interface StoredTrackingEvent extends TrackingReferences {
+  carrier: string; // Carrier code
+  eventKey: string; // Content fingerprint of the event
+  event: TrackingEvent;
+  firstSeenAt: string; // ISO 8601 format
+  lastSeenAt: string; // ISO 8601 format
+}
+
+/**
+ * Query for stored tracking events
+ */
+export interface TrackingHistoryQuery extends TrackingReferences {
+  carriers?: string[]; // Carrier codes
+  eventType?: EventType[];
+  eventTypeCode?: string[]; // Transport/Equipment/Shipment event type codes
+  eventDateTimeFrom?: string; // ISO 8601 format
+  eventDateTimeTo?: string; // ISO 8601 format
+  limit?: number;
+}
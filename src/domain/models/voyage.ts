@@ -0,0 +1,44 @@
+/**
+ * Voyage domain models
+ * One commercial voyage of a vessel on a service, with the codes of its neighbouring voyages
+ */
+
+import { Vessel } from './common';
+import { TransportCall } from './schedule';
+
+/**
+ * Neighbouring voyages of the same vessel, or of the same service (in rotation order)
+ */
+export type VoyageNavigationBasis = 'vessel' | 'service';
+
+/**
+ * Direction of a neighbouring voyage
+ */
+export type VoyageDirection = 'previous' | 'next';
+
+/**
+ * Voyage - One commercial voyage with its port calls
+ */
+export interface Voyage {
+  carrier: string; // Carrier code (e.g., "CMCG")
+  carrierName?: string;
+  carrierVoyageNumber: string; // Carrier voyage code
+  alternateReference?: string;
+  bound?: string;
+  statusCode?: string;
+  shippingCompany?: string;
+
+  // Service
+  carrierServiceCode?: string;
+  carrierServiceName?: string;
+
+  // Vessel
+  vessel?: Vessel;
+  isDummyVessel: boolean;
+
+  // Neighbouring voyage codes returned with the voyage
+  previousVoyageNumber?: string;
+  nextVoyageNumber?: string;
+
+  transportCalls: TransportCall[];
+}
@@ -0,0 +1,46 @@
+/**
+ * Watchlist domain models
+ * Shipments registered for background tracking with change detection
+ */
+
+import { TrackingEvent } from './tracking';
+
+/**
+ * Watch - A shipment reference polled periodically for new tracking events
+ */
+export interface Watch {
+  id: string; // UUID
+  carrier: string; // Carrier code (e.g. "CMCG", "HMM")
+  carrierBookingReference?: string;
+  transportDocumentReference?: string;
+  equipmentReference?: string;
+  portOfDischarge?: string; // UN/LOCODE for ETA tracking (default: last vessel arrival port reported)
+  createdAt: string; // ISO 8601 format
+  lastPolledAt?: string; // ISO 8601 format
+  lastSuccessfulPollAt?: string; // ISO 8601 format
+  lastPollError?: string;
+  lastChangeAt?: string; // ISO 8601 format
+}
+
+/**
+ * Input for registering a watch
+ */
+export interface CreateWatchInput {
+  carrier: string; // Carrier code
+  carrierBookingReference?: string;
+  transportDocumentReference?: string;
+  equipmentReference?: string;
+  portOfDischarge?: string; // UN/LOCODE
+}
+
+/**
+ * Watch Change - A tracking event that appeared since the previous poll
+ */
+export interface WatchChange {
+  id: string; // UUID
+  watchId: string;
+  detectedAt: string; // ISO 8601 format
+  eventKey: string; // Content fingerprint of the event
+  initial: boolean; // true if detected by the first poll (baseline)
+  event: TrackingEvent;
+}
@@ -0,0 +1,86 @@
+/**
+ * Webhook domain models
+ * Client callback subscriptions for newly detected tracking events and delay alerts
+ */
+
+import { DelayAlert } from './eta';
+import {
+  EquipmentEventTypeCode,
+  EventType,
+  TrackingEvent,
+  TransportEventTypeCode,
+} from './tracking';
+
+/**
+ * Webhook Subscription - Callback URL with reference and event filters
+ * Omitted filters match everything
+ */
+export interface WebhookSubscription {
+  id: string; // UUID
+  url: string; // HTTP(S) callback URL
+  secret: string; // HMAC-SHA256 signing secret
+  // Reference filters (matched against the watch that detected the events)
+  watchId?: string;
+  equipmentReference?: string;
+  transportDocumentReference?: string;
+  carrierBookingReference?: string;
+  voyageWatchId?: string; // Only delay alerts of this voyage watch
+  // Event filters
+  eventType?: EventType[];
+  equipmentEventTypeCode?: EquipmentEventTypeCode[];
+  transportEventTypeCode?: TransportEventTypeCode[];
+  includeInitial: boolean; // Deliver events from a watch's first (baseline) poll
+  delayAlerts: boolean; // Also deliver delay alerts of matching watches and voyage watches
+  createdAt: string; // ISO 8601 format
+}
+
+/**
+ * Delivery status
+ * - PENDING: waiting for first attempt
+ * - RETRYING: failed, next attempt scheduled
+ * - DELIVERED: callback returned 2xx
+ * - DEAD_LETTER: gave up after the maximum number of attempts
+ */
+export type WebhookDeliveryStatus = 'PENDING' | 'RETRYING' | 'DELIVERED' | 'DEAD_LETTER';
+
+/**
+ * Webhook Payload Type
+ * - TRACKING_EVENTS: newly detected tracking events of a watch (events)
+ * - DELAY_ALERTS: arrival delays of a watch or voyage watch (alerts)
+ */
+export type WebhookPayloadType = 'TRACKING_EVENTS' | 'DELAY_ALERTS';
+
+/**
+ * Webhook Payload - Body POSTed to the callback URL
+ */
+export interface WebhookPayload {
+  type: WebhookPayloadType;
+  deliveryId: string;
+  subscriptionId: string;
+  watchId?: string;
+  voyageWatchId?: string;
+  carrier: string;
+  equipmentReference?: string;
+  transportDocumentReference?: string;
+  carrierBookingReference?: string;
+  events?: TrackingEvent[];
+  alerts?: DelayAlert[];
+  sentAt: string; // ISO 8601 format (time the delivery was created)
+}
+
+/**
+ * Webhook Delivery - One payload and its delivery attempts
+ */
+export interface WebhookDelivery {
+  id: string; // UUID
+  subscriptionId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string; // ISO 8601 format
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  responseStatus?: number;
+  lastError?: string;
+  payload: WebhookPayload;
+}
@@ -12,8 +12,22 @@ import express, { Express } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import scheduleRoutes from '@api/routes/schedule.routes';
+import calendarRoutes from '@api/routes/calendar.routes';
 import trackingRoutes from '@api/routes/tracking.routes';
+import routeRoutes from '@api/routes/route.routes';
+import watchRoutes from '@api/routes/watch.routes';
+import webhookRoutes from '@api/routes/webhook.routes';
+import etaRoutes from '@api/routes/eta.routes';
+import shipmentRoutes from '@api/routes/shipment.routes';
+import carrierRoutes from '@api/routes/carrier.routes';
+import portRoutes from '@api/routes/port.routes';
+import voyageRoutes from '@api/routes/voyage.routes';
+import serviceRoutes from '@api/routes/service.routes';
 import { errorHandler, notFoundHandler } from '@api/middleware/errorHandler';
+import { EXPORT_STATUS_HEADERS } from '@api/middleware/exportFormat';
+import { WatchlistScheduler } from '@services/WatchlistScheduler';
+import { WebhookService } from '@services/WebhookService';
+import { DelayDetectionService } from '@services/DelayDetectionService';
 
 // Load environment variables
 dotenv.config();
@@ -25,7 +39,8 @@ const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
+// Export status headers must be readable by browser clients
+app.use(cors({ exposedHeaders: EXPORT_STATUS_HEADERS }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -40,7 +55,17 @@ app.get('/health', (_req, res) => {
 
 // API routes
 app.use('/api/v1/schedules', scheduleRoutes);
+app.use('/api/v1/schedules.ics', calendarRoutes);
 app.use('/api/v1/tracking', trackingRoutes);
+app.use('/api/v1/routes', routeRoutes);
+app.use('/api/v1/shipments', shipmentRoutes);
+app.use('/api/v1/watches', watchRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
+app.use('/api/v1/eta', etaRoutes);
+app.use('/api/v1/carriers', carrierRoutes);
+app.use('/api/v1/ports', portRoutes);
+app.use('/api/v1/voyages', voyageRoutes);
+app.use('/api/v1/services', serviceRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -57,7 +82,22 @@ if (require.main === module) {
     console.log(`📡 Health check: http://localhost:${PORT}/health`);
     console.log(`📋 Schedule API: http://localhost:${PORT}/api/v1/schedules`);
     console.log(`📍 Tracking API: http://localhost:${PORT}/api/v1/tracking`);
+    console.log(`🧭 Route API: http://localhost:${PORT}/api/v1/routes`);
+    console.log(`📦 Shipment API: http://localhost:${PORT}/api/v1/shipments`);
+    console.log(`👀 Watch API: http://localhost:${PORT}/api/v1/watches`);
+    console.log(`🔔 Webhook API: http://localhost:${PORT}/api/v1/webhooks`);
+    console.log(`⏰ ETA API: http://localhost:${PORT}/api/v1/eta`);
+    console.log(`🛳️ Carrier API: http://localhost:${PORT}/api/v1/carriers`);
+    console.log(`⚓ Port Schedule API: http://localhost:${PORT}/api/v1/ports/:unlocode/schedule`);
+    console.log(`🧾 Voyage API: http://localhost:${PORT}/api/v1/voyages/:carrier/:voyageCode`);
+    console.log(`🔁 Service API: http://localhost:${PORT}/api/v1/services/:carrier/:serviceCode`);
   });
+
+  // Background polling for watched shipments and voyages, with delay detection
+  // and webhook delivery of new events and delay alerts
+  DelayDetectionService.getInstance().start();
+  WebhookService.getInstance().start();
+  new WatchlistScheduler().start();
 }
 
 export default app;
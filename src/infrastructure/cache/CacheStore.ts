@@ -0,0 +1,45 @@
+/**
+ * Cache Store
+ * Storage interface for the response cache (implement for shared stores such as Redis)
+ */
+
+/**
+ * Cache Entry - Stored value with its timing information
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number; // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Cache Store interface
+ * All methods are async so that remote stores can implement it
+ */
+export interface CacheStore {
+  /**
+   * Get a non-expired entry
+   * @param key Cache key
+   * @returns Cache entry or undefined if missing/expired
+   */
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+
+  /**
+   * Store a value
+   * @param key Cache key
+   * @param value Value to store
+   * @param ttlMs Time to live in milliseconds
+   */
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+
+  /**
+   * Delete an entry
+   * @param key Cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all entries
+   */
+  clear(): Promise<void>;
+}
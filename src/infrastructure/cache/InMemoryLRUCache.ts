@@ -0,0 +1,53 @@
+/**
+ * In-Memory LRU Cache
+ * Default CacheStore implementation, bounded by number of entries
+ */
+
+import { CacheEntry, CacheStore } from './CacheStore';
+
+export class InMemoryLRUCache implements CacheStore {
+  // Map preserves insertion order: first key is the least recently used
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
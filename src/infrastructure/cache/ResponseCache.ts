@@ -0,0 +1,189 @@
+/**
+ * Response Cache
+ * Caches carrier adapter results keyed by carrier, API type and normalized query parameters
+ */
+
+import { createHash } from 'crypto';
+import { CacheStore } from './CacheStore';
+import { InMemoryLRUCache } from './InMemoryLRUCache';
+import { ConfigLoader } from '@infrastructure/config/ConfigLoader';
+import { Logger } from '@infrastructure/logger/Logger';
+
+/**
+ * API types whose results can be cached (TTL configured per type in carrier config)
+ */
+export type CacheableApiType = 'schedule' | 'tracking' | 'route' | 'voyage' | 'proforma';
+
+/**
+ * Result of a cached lookup
+ */
+export interface CacheResult<T> {
+  value: T;
+  hit: boolean;
+  age: number; // Seconds since the value was fetched from the carrier
+}
+
+export interface CacheOptions {
+  bypass?: boolean; // Skip lookup (Cache-Control: no-cache) but still store the fresh value
+}
+
+/**
+ * Response Cache
+ * Singleton pattern; the backing store is pluggable via setStore
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private store: CacheStore;
+
+  private constructor() {
+    this.store = new InMemoryLRUCache(parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10));
+  }
+
+  /**
+   * Get singleton instance
+   * @returns Response cache instance
+   */
+  static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  /**
+   * Replace the backing store (e.g. with a shared store)
+   * @param store Cache store implementation
+   */
+  setStore(store: CacheStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Return a cached value or fetch and cache it
+   * Caching is skipped when the carrier has no TTL configured for the API type
+   * @param carrierCode Carrier code
+   * @param apiType API type
+   * @param params Query parameters
+   * @param fetcher Function calling the carrier adapter
+   * @param options Cache options
+   * @returns Value with cache hit flag and age
+   */
+  async getOrFetch<T>(
+    carrierCode: string,
+    apiType: CacheableApiType,
+    params: object,
+    fetcher: () => Promise<T>,
+    options: CacheOptions = {}
+  ): Promise<CacheResult<T>> {
+    const ttlMs = this.getTtl(carrierCode, apiType);
+    if (ttlMs <= 0) {
+      return { value: await fetcher(), hit: false, age: 0 };
+    }
+
+    const key = ResponseCache.buildKey(carrierCode, apiType, params);
+
+    if (!options.bypass) {
+      try {
+        const entry = await this.store.get<T>(key);
+        if (entry) {
+          const age = Math.floor((Date.now() - entry.storedAt) / 1000);
+          Logger.debug(`Cache hit for ${carrierCode} ${apiType}`, { carrier: carrierCode, apiType, age });
+          return { value: entry.value, hit: true, age };
+        }
+      } catch (error: any) {
+        Logger.warn(`Cache read failed for ${carrierCode} ${apiType}`, {
+          carrier: carrierCode,
+          error: error.message,
+        });
+      }
+    }
+
+    const value = await fetcher();
+
+    try {
+      await this.store.set(key, value, ttlMs);
+    } catch (error: any) {
+      Logger.warn(`Cache write failed for ${carrierCode} ${apiType}`, {
+        carrier: carrierCode,
+        error: error.message,
+      });
+    }
+
+    return { value, hit: false, age: 0 };
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Build cache key from carrier code, API type and normalized parameters
+   * Parameter order, empty values and surrounding whitespace do not affect the key
+   * @param carrierCode Carrier code
+   * @param apiType API type
+   * @param params Query parameters
+   * @returns Cache key
+   */
+  static buildKey(carrierCode: string, apiType: CacheableApiType, params: object): string {
+    const normalized = JSON.stringify(normalizeValue(params) ?? {});
+    const hash = createHash('sha256').update(normalized).digest('hex');
+    return `response:${carrierCode.toUpperCase()}:${apiType}:${hash}`;
+  }
+
+  /**
+   * Get TTL for a carrier and API type from carrier config
+   * @returns TTL in milliseconds (0 = caching disabled)
+   */
+  private getTtl(carrierCode: string, apiType: CacheableApiType): number {
+    try {
+      const cacheConfig = ConfigLoader.loadCarrierConfig(carrierCode).cache;
+      if (!cacheConfig || cacheConfig.enabled === false) {
+        return 0;
+      }
+      return (cacheConfig.ttl?.[apiType] || 0) * 1000;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+/**
+ * Normalize a query parameter value for key generation
+ * Drops empty values, sorts object keys and primitive arrays, trims strings
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeValue).filter((item) => item !== undefined);
+    if (items.length === 0) {
+      return undefined;
+    }
+    return items.every((item) => typeof item !== 'object')
+      ? [...items].sort((a, b) => String(a).localeCompare(String(b)))
+      : items;
+  }
+
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const normalized = normalizeValue((value as Record<string, unknown>)[key]);
+      if (normalized !== undefined) {
+        result[key] = normalized;
+      }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  return value;
+}
@@ -122,6 +122,24 @@ export interface CarrierConfig {
     requestTimeout?: number;
     retryAttempts?: number;
     retryDelay?: number;
+    maxRetryDelay?: number;
+    circuitBreaker?: {
+      enabled?: boolean;
+      failureThreshold?: number; // Consecutive failed requests (after retries) before opening
+      resetTimeout?: number; // Milliseconds before a half-open trial
+      halfOpenMaxRequests?: number; // Concurrent trial requests while half-open
+    };
+  };
+  cache?: {
+    enabled?: boolean;
+    ttl?: {
+      schedule?: number; // Seconds
+      tracking?: number; // Seconds
+      route?: number; // Seconds
+      voyage?: number; // Seconds
+      proforma?: number; // Seconds
+      [key: string]: number | undefined;
+    };
   };
   enabled?: boolean;
 }
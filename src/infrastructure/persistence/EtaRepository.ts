@@ -0,0 +1,33 @@
+/**
+ * ETA Repository
+ * Storage interface for voyage watches, ETA revisions and delay alerts
+ */
+
+import { DelayAlert, EtaRevision, EtaSubjectType, VoyageWatch } from '@domain/models/eta';
+
+export interface EtaRepository {
+  createVoyageWatch(voyageWatch: VoyageWatch): Promise<VoyageWatch>;
+  updateVoyageWatch(voyageWatch: VoyageWatch): Promise<VoyageWatch>;
+  getVoyageWatch(id: string): Promise<VoyageWatch | undefined>;
+  listVoyageWatches(): Promise<VoyageWatch[]>;
+  deleteVoyageWatch(id: string): Promise<boolean>;
+
+  addRevisions(revisions: EtaRevision[]): Promise<void>;
+
+  /**
+   * List revisions for a subject, oldest first
+   */
+  listRevisions(subjectType: EtaSubjectType, subjectId: string): Promise<EtaRevision[]>;
+
+  addAlerts(alerts: DelayAlert[]): Promise<void>;
+
+  /**
+   * List alerts, oldest first
+   * @param filter Optional subject and detection time filters
+   */
+  listAlerts(filter?: {
+    subjectType?: EtaSubjectType;
+    subjectId?: string;
+    since?: Date;
+  }): Promise<DelayAlert[]>;
+}
@@ -0,0 +1,34 @@
+/**
+ * Event Store
+ * Storage interface for tracking event history
+ */
+
+import { TrackingEvent } from '@domain/models/tracking';
+import {
+  StoredTrackingEvent,
+  TrackingHistoryQuery,
+  TrackingReferences,
+} from '@domain/models/trackingHistory';
+
+export interface EventStore {
+  /**
+   * Insert new events or refresh last-seen time of known events
+   * @param carrier Carrier code
+   * @param references References the events were retrieved for
+   * @param events Events returned by the carrier
+   * @param seenAt Time the carrier returned the events
+   */
+  recordEvents(
+    carrier: string,
+    references: TrackingReferences,
+    events: TrackingEvent[],
+    seenAt: Date
+  ): Promise<void>;
+
+  /**
+   * Query stored events ordered by event date/time
+   * @param query Filters
+   * @returns Stored events
+   */
+  queryEvents(query: TrackingHistoryQuery): Promise<StoredTrackingEvent[]>;
+}
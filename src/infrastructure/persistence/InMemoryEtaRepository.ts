@@ -0,0 +1,73 @@
+/**
+ * In-Memory ETA Repository
+ * Default EtaRepository implementation (data is lost on restart)
+ */
+
+import { DelayAlert, EtaRevision, EtaSubjectType, VoyageWatch } from '@domain/models/eta';
+import { EtaRepository } from './EtaRepository';
+
+export class InMemoryEtaRepository implements EtaRepository {
+  private voyageWatches: Map<string, VoyageWatch> = new Map();
+  private revisions: Map<string, EtaRevision[]> = new Map();
+  private alerts: DelayAlert[] = [];
+
+  async createVoyageWatch(voyageWatch: VoyageWatch): Promise<VoyageWatch> {
+    this.voyageWatches.set(voyageWatch.id, { ...voyageWatch });
+    return { ...voyageWatch };
+  }
+
+  async updateVoyageWatch(voyageWatch: VoyageWatch): Promise<VoyageWatch> {
+    this.voyageWatches.set(voyageWatch.id, { ...voyageWatch });
+    return { ...voyageWatch };
+  }
+
+  async getVoyageWatch(id: string): Promise<VoyageWatch | undefined> {
+    const voyageWatch = this.voyageWatches.get(id);
+    return voyageWatch ? { ...voyageWatch } : undefined;
+  }
+
+  async listVoyageWatches(): Promise<VoyageWatch[]> {
+    return Array.from(this.voyageWatches.values()).map((voyageWatch) => ({ ...voyageWatch }));
+  }
+
+  async deleteVoyageWatch(id: string): Promise<boolean> {
+    this.revisions.delete(subjectKey('VOYAGE', id));
+    this.alerts = this.alerts.filter((alert) => !(alert.subjectType === 'VOYAGE' && alert.subjectId === id));
+    return this.voyageWatches.delete(id);
+  }
+
+  async addRevisions(revisions: EtaRevision[]): Promise<void> {
+    for (const revision of revisions) {
+      const key = subjectKey(revision.subjectType, revision.subjectId);
+      if (!this.revisions.has(key)) {
+        this.revisions.set(key, []);
+      }
+      this.revisions.get(key)!.push({ ...revision });
+    }
+  }
+
+  async listRevisions(subjectType: EtaSubjectType, subjectId: string): Promise<EtaRevision[]> {
+    return [...(this.revisions.get(subjectKey(subjectType, subjectId)) || [])];
+  }
+
+  async addAlerts(alerts: DelayAlert[]): Promise<void> {
+    this.alerts.push(...alerts.map((alert) => ({ ...alert })));
+  }
+
+  async listAlerts(filter?: {
+    subjectType?: EtaSubjectType;
+    subjectId?: string;
+    since?: Date;
+  }): Promise<DelayAlert[]> {
+    return this.alerts.filter(
+      (alert) =>
+        (!filter?.subjectType || alert.subjectType === filter.subjectType) &&
+        (!filter?.subjectId || alert.subjectId === filter.subjectId) &&
+        (!filter?.since || new Date(alert.detectedAt).getTime() > filter.since.getTime())
+    );
+  }
+}
+
+function subjectKey(subjectType: EtaSubjectType, subjectId: string): string {
+  return `${subjectType}:${subjectId}`;
+}
@@ -0,0 +1,62 @@
+/**
+ * In-Memory Watch Repository
+ * Default WatchRepository implementation (data is lost on restart)
+ */
+
+import { Watch, WatchChange } from '@domain/models/watch';
+import { WatchRepository } from './WatchRepository';
+
+export class InMemoryWatchRepository implements WatchRepository {
+  private watches: Map<string, Watch> = new Map();
+  private changes: Map<string, WatchChange[]> = new Map();
+  private seenEventKeys: Map<string, Set<string>> = new Map();
+
+  async createWatch(watch: Watch): Promise<Watch> {
+    this.watches.set(watch.id, { ...watch });
+    this.changes.set(watch.id, []);
+    this.seenEventKeys.set(watch.id, new Set());
+    return { ...watch };
+  }
+
+  async updateWatch(watch: Watch): Promise<Watch> {
+    this.watches.set(watch.id, { ...watch });
+    return { ...watch };
+  }
+
+  async getWatch(id: string): Promise<Watch | undefined> {
+    const watch = this.watches.get(id);
+    return watch ? { ...watch } : undefined;
+  }
+
+  async listWatches(): Promise<Watch[]> {
+    return Array.from(this.watches.values()).map((watch) => ({ ...watch }));
+  }
+
+  async deleteWatch(id: string): Promise<boolean> {
+    this.changes.delete(id);
+    this.seenEventKeys.delete(id);
+    return this.watches.delete(id);
+  }
+
+  async getSeenEventKeys(watchId: string): Promise<Set<string>> {
+    return new Set(this.seenEventKeys.get(watchId) || []);
+  }
+
+  async addChanges(changes: WatchChange[]): Promise<void> {
+    for (const change of changes) {
+      if (!this.watches.has(change.watchId)) {
+        continue;
+      }
+      this.changes.get(change.watchId)!.push(change);
+      this.seenEventKeys.get(change.watchId)!.add(change.eventKey);
+    }
+  }
+
+  async listChanges(watchId: string, since?: Date): Promise<WatchChange[]> {
+    const changes = this.changes.get(watchId) || [];
+    if (!since) {
+      return [...changes];
+    }
+    return changes.filter((change) => new Date(change.detectedAt).getTime() > since.getTime());
+  }
+}
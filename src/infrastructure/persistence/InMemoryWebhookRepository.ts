@@ -0,0 +1,50 @@
+/**
+ * In-Memory Webhook Repository
+ * Default WebhookRepository implementation (data is lost on restart)
+ */
+
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@domain/models/webhook';
+import { WebhookRepository } from './WebhookRepository';
+
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private subscriptions: Map<string, WebhookSubscription> = new Map();
+  private deliveries: Map<string, WebhookDelivery> = new Map();
+
+  async createSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+    return { ...subscription };
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : undefined;
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values()).map((subscription) => ({ ...subscription }));
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    return this.subscriptions.delete(id);
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    this.deliveries.set(delivery.id, { ...delivery });
+    return { ...delivery };
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery } : undefined;
+  }
+
+  async listDeliveries(
+    filter: { subscriptionId?: string; status?: WebhookDeliveryStatus } = {}
+  ): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => !filter.subscriptionId || delivery.subscriptionId === filter.subscriptionId)
+      .filter((delivery) => !filter.status || delivery.status === filter.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((delivery) => ({ ...delivery }));
+  }
+}
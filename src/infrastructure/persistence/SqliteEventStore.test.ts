@@ -0,0 +1,105 @@
+import { EquipmentEvent, TransportEvent } from '@domain/models/tracking';
+import { SqliteEventStore } from './SqliteEventStore';
+
+const vesselDeparture: TransportEvent = {
+  eventID: 'e-1',
+  eventCreatedDateTime: '2024-03-01T10:00:00Z',
+  eventType: 'TRANSPORT',
+  eventClassifierCode: 'ACT',
+  eventDateTime: '2024-03-01T08:00:00Z',
+  transportEventTypeCode: 'DEPA',
+  transportCall: {
+    transportCallID: 'tc-1',
+    UNLocationCode: 'KRPUS',
+    exportVoyageNumber: '001E',
+    modeOfTransport: 'VESSEL',
+    vessel: { vesselIMONumber: '9321483', name: 'TEST VESSEL' },
+  },
+};
+
+const gateIn: EquipmentEvent = {
+  eventID: 'e-2',
+  eventCreatedDateTime: '2024-02-28T10:00:00Z',
+  eventType: 'EQUIPMENT',
+  eventClassifierCode: 'ACT',
+  eventDateTime: '2024-02-28T09:00:00Z',
+  equipmentEventTypeCode: 'GTIN',
+  equipmentReference: 'CSQU3054383',
+  emptyIndicatorCode: 'LADEN',
+  eventLocation: { UNLocationCode: 'KRPUS' },
+};
+
+describe('SqliteEventStore', () => {
+  let store: SqliteEventStore;
+
+  beforeEach(() => {
+    store = new SqliteEventStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('stores an event once and refreshes its last-seen time on upsert', async () => {
+    await store.recordEvents('CMCG', { equipmentReference: 'CSQU3054383' }, [gateIn], new Date('2024-03-01T00:00:00Z'));
+    await store.recordEvents(
+      'CMCG',
+      { equipmentReference: 'CSQU3054383' },
+      [{ ...gateIn, eventID: 'regenerated' }],
+      new Date('2024-03-02T00:00:00Z')
+    );
+
+    const events = await store.queryEvents({ equipmentReference: 'CSQU3054383' });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].firstSeenAt).toBe('2024-03-01T00:00:00.000Z');
+    expect(events[0].lastSeenAt).toBe('2024-03-02T00:00:00.000Z');
+    expect(events[0].event.eventID).toBe('regenerated');
+  });
+
+  it('links a shared vessel event to every reference it was retrieved for', async () => {
+    await store.recordEvents('CMCG', { equipmentReference: 'CONT0000001' }, [vesselDeparture], new Date('2024-03-01'));
+    await store.recordEvents('CMCG', { equipmentReference: 'CONT0000002' }, [vesselDeparture], new Date('2024-03-02'));
+    await store.recordEvents(
+      'CMCG',
+      { transportDocumentReference: 'BL0001' },
+      [vesselDeparture],
+      new Date('2024-03-03')
+    );
+
+    const first = await store.queryEvents({ equipmentReference: 'CONT0000001' });
+    const second = await store.queryEvents({ equipmentReference: 'CONT0000002' });
+    const byDocument = await store.queryEvents({ transportDocumentReference: 'BL0001' });
+
+    expect(first).toHaveLength(1);
+    expect(first[0].equipmentReference).toBe('CONT0000001');
+    expect(second).toHaveLength(1);
+    expect(second[0].equipmentReference).toBe('CONT0000002');
+    expect(byDocument).toHaveLength(1);
+    // Not queried by equipment: the first linked container is reported
+    expect(byDocument[0].equipmentReference).toBe('CONT0000001');
+    expect(byDocument[0].transportDocumentReference).toBe('BL0001');
+  });
+
+  it('keeps carriers apart', async () => {
+    await store.recordEvents('CMCG', { equipmentReference: 'CSQU3054383' }, [gateIn], new Date('2024-03-01'));
+    await store.recordEvents('HMM', { equipmentReference: 'CSQU3054383' }, [gateIn], new Date('2024-03-01'));
+
+    expect(await store.queryEvents({ equipmentReference: 'CSQU3054383' })).toHaveLength(2);
+    expect(await store.queryEvents({ equipmentReference: 'CSQU3054383', carriers: ['HMM'] })).toHaveLength(1);
+  });
+
+  it('filters by event type and time and orders by event time', async () => {
+    const references = { equipmentReference: 'CSQU3054383' };
+    await store.recordEvents('CMCG', references, [vesselDeparture, gateIn], new Date('2024-03-01'));
+
+    const all = await store.queryEvents(references);
+    expect(all.map((stored) => stored.event.eventType)).toEqual(['EQUIPMENT', 'TRANSPORT']);
+
+    const transport = await store.queryEvents({ ...references, eventType: ['TRANSPORT'] });
+    expect(transport).toHaveLength(1);
+
+    const fromMarch = await store.queryEvents({ ...references, eventDateTimeFrom: '2024-03-01T00:00:00+00:00' });
+    expect(fromMarch.map((stored) => stored.event.eventType)).toEqual(['TRANSPORT']);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * SQLite Event Store
+ * Default EventStore implementation backed by an embedded SQLite database
+ *
+ * An event is stored once per carrier and fingerprint; the shipment references it was retrieved for
+ * are linked in tracking_event_references, since a vessel event is shared by every container,
+ * B/L and booking on board.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { TrackingEvent } from '@domain/models/tracking';
+import {
+  StoredTrackingEvent,
+  TrackingHistoryQuery,
+  TrackingReferences,
+} from '@domain/models/trackingHistory';
+import { EventStore } from './EventStore';
+import { getEventFingerprint } from '@utils/eventFingerprint';
+import { getEventTypeCode } from '@utils/trackingEventUtils';
+
+type ReferenceType = 'EQUIPMENT' | 'TRANSPORT_DOCUMENT' | 'BOOKING';
+
+interface TrackingEventRow {
+  carrier: string;
+  event_key: string;
+  equipment_reference: string | null;
+  transport_document_reference: string | null;
+  carrier_booking_reference: string | null;
+  payload: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export class SqliteEventStore implements EventStore {
+  private db: Database.Database;
+
+  /**
+   * @param filePath Database file path (":memory:" for an in-memory database)
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  async recordEvents(
+    carrier: string,
+    references: TrackingReferences,
+    events: TrackingEvent[],
+    seenAt: Date
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT INTO tracking_events (
+        carrier, event_key, event_type, event_type_code, event_classifier_code, event_date_time,
+        payload, first_seen_at, last_seen_at
+      ) VALUES (
+        @carrier, @eventKey, @eventType, @eventTypeCode, @eventClassifierCode, @eventDateTime,
+        @payload, @seenAt, @seenAt
+      )
+      ON CONFLICT (carrier, event_key) DO UPDATE SET
+        payload = excluded.payload,
+        last_seen_at = excluded.last_seen_at
+    `);
+    const link = this.db.prepare(`
+      INSERT OR IGNORE INTO tracking_event_references (carrier, event_key, reference_type, reference, first_seen_at)
+      VALUES (@carrier, @eventKey, @referenceType, @reference, @seenAt)
+    `);
+
+    const seenAtIso = seenAt.toISOString();
+    const insertAll = this.db.transaction((items: TrackingEvent[]) => {
+      for (const event of items) {
+        const eventKey = getEventFingerprint(event);
+        upsert.run({
+          carrier,
+          eventKey,
+          eventType: event.eventType,
+          eventTypeCode: getEventTypeCode(event),
+          eventClassifierCode: event.eventClassifierCode,
+          eventDateTime: event.eventDateTime ? normalizeDateTime(event.eventDateTime) : null,
+          payload: JSON.stringify(event),
+          seenAt: seenAtIso,
+        });
+
+        const linked: Array<[ReferenceType, string | undefined]> = [
+          [
+            'EQUIPMENT',
+            (event.eventType === 'EQUIPMENT' && event.equipmentReference) || references.equipmentReference,
+          ],
+          ['TRANSPORT_DOCUMENT', references.transportDocumentReference],
+          ['BOOKING', references.carrierBookingReference],
+        ];
+        for (const [referenceType, reference] of linked) {
+          if (reference) {
+            link.run({ carrier, eventKey, referenceType, reference, seenAt: seenAtIso });
+          }
+        }
+      }
+    });
+    insertAll(events);
+  }
+
+  async queryEvents(query: TrackingHistoryQuery): Promise<StoredTrackingEvent[]> {
+    const conditions: string[] = [];
+    // Queried references are reported on the returned events (null: first linked reference)
+    const params: Record<string, unknown> = {
+      equipmentReference: query.equipmentReference || null,
+      transportDocumentReference: query.transportDocumentReference || null,
+      carrierBookingReference: query.carrierBookingReference || null,
+    };
+
+    if (query.carriers?.length) {
+      conditions.push(`e.carrier IN (${query.carriers.map((_, i) => `@carrier${i}`).join(', ')})`);
+      query.carriers.forEach((carrier, i) => (params[`carrier${i}`] = carrier));
+    }
+    if (query.equipmentReference) {
+      conditions.push(linkedReferenceCondition('EQUIPMENT', '@equipmentReference'));
+    }
+    if (query.transportDocumentReference) {
+      conditions.push(linkedReferenceCondition('TRANSPORT_DOCUMENT', '@transportDocumentReference'));
+    }
+    if (query.carrierBookingReference) {
+      conditions.push(linkedReferenceCondition('BOOKING', '@carrierBookingReference'));
+    }
+    if (query.eventType?.length) {
+      conditions.push(`event_type IN (${query.eventType.map((_, i) => `@eventType${i}`).join(', ')})`);
+      query.eventType.forEach((eventType, i) => (params[`eventType${i}`] = eventType));
+    }
+    if (query.eventTypeCode?.length) {
+      conditions.push(`event_type_code IN (${query.eventTypeCode.map((_, i) => `@eventTypeCode${i}`).join(', ')})`);
+      query.eventTypeCode.forEach((code, i) => (params[`eventTypeCode${i}`] = code));
+    }
+    if (query.eventDateTimeFrom) {
+      conditions.push('event_date_time >= @eventDateTimeFrom');
+      params.eventDateTimeFrom = normalizeDateTime(query.eventDateTimeFrom);
+    }
+    if (query.eventDateTimeTo) {
+      conditions.push('event_date_time <= @eventDateTimeTo');
+      params.eventDateTimeTo = normalizeDateTime(query.eventDateTimeTo);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit ? `LIMIT ${Math.floor(query.limit)}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT e.carrier, e.event_key, e.payload, e.first_seen_at, e.last_seen_at,
+          ${linkedReferenceColumn('EQUIPMENT', '@equipmentReference')} AS equipment_reference,
+          ${linkedReferenceColumn('TRANSPORT_DOCUMENT', '@transportDocumentReference')} AS transport_document_reference,
+          ${linkedReferenceColumn('BOOKING', '@carrierBookingReference')} AS carrier_booking_reference
+        FROM tracking_events e ${where}
+        ORDER BY e.event_date_time ASC, e.first_seen_at ASC ${limit}`
+      )
+      .all(params) as TrackingEventRow[];
+
+    return rows.map((row) => ({
+      carrier: row.carrier,
+      eventKey: row.event_key,
+      equipmentReference: row.equipment_reference || undefined,
+      transportDocumentReference: row.transport_document_reference || undefined,
+      carrierBookingReference: row.carrier_booking_reference || undefined,
+      event: JSON.parse(row.payload) as TrackingEvent,
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at,
+    }));
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create tables and indexes
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tracking_events (
+        carrier TEXT NOT NULL,
+        event_key TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        event_type_code TEXT,
+        event_classifier_code TEXT,
+        event_date_time TEXT,
+        payload TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        PRIMARY KEY (carrier, event_key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_tracking_events_date ON tracking_events (event_date_time);
+      CREATE TABLE IF NOT EXISTS tracking_event_references (
+        carrier TEXT NOT NULL,
+        event_key TEXT NOT NULL,
+        reference_type TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        PRIMARY KEY (carrier, event_key, reference_type, reference)
+      );
+      CREATE INDEX IF NOT EXISTS idx_tracking_event_references_reference
+        ON tracking_event_references (reference_type, reference);
+    `);
+
+    // Databases created before the reference table kept one reference of each type on the event row
+    const columns = this.db.prepare('PRAGMA table_info(tracking_events)').all() as Array<{ name: string }>;
+    const legacyColumns: Array<[ReferenceType, string]> = [
+      ['EQUIPMENT', 'equipment_reference'],
+      ['TRANSPORT_DOCUMENT', 'transport_document_reference'],
+      ['BOOKING', 'carrier_booking_reference'],
+    ];
+    for (const [referenceType, column] of legacyColumns) {
+      if (columns.some((existing) => existing.name === column)) {
+        this.db.exec(`
+          INSERT OR IGNORE INTO tracking_event_references (carrier, event_key, reference_type, reference, first_seen_at)
+          SELECT carrier, event_key, '${referenceType}', ${column}, first_seen_at
+          FROM tracking_events WHERE ${column} IS NOT NULL
+        `);
+      }
+    }
+  }
+}
+
+/**
+ * SQL condition: the event is linked to the reference
+ */
+function linkedReferenceCondition(referenceType: ReferenceType, param: string): string {
+  return `EXISTS (
+    SELECT 1 FROM tracking_event_references r
+    WHERE r.carrier = e.carrier AND r.event_key = e.event_key
+      AND r.reference_type = '${referenceType}' AND r.reference = ${param}
+  )`;
+}
+
+/**
+ * SQL expression: the queried reference if linked, else the first reference linked to the event
+ */
+function linkedReferenceColumn(referenceType: ReferenceType, param: string): string {
+  return `(
+    SELECT r.reference FROM tracking_event_references r
+    WHERE r.carrier = e.carrier AND r.event_key = e.event_key AND r.reference_type = '${referenceType}'
+    ORDER BY r.reference = ${param} DESC, r.first_seen_at ASC
+    LIMIT 1
+  )`;
+}
+
+/**
+ * Normalize date/time to UTC ISO 8601 so stored values sort and compare as strings
+ */
+function normalizeDateTime(dateTime: string): string {
+  const date = new Date(dateTime);
+  return isNaN(date.getTime()) ? dateTime : date.toISOString();
+}
@@ -0,0 +1,29 @@
+/**
+ * Watch Repository
+ * Storage interface for watches, their last-seen events and detected changes
+ */
+
+import { Watch, WatchChange } from '@domain/models/watch';
+
+export interface WatchRepository {
+  createWatch(watch: Watch): Promise<Watch>;
+  updateWatch(watch: Watch): Promise<Watch>;
+  getWatch(id: string): Promise<Watch | undefined>;
+  listWatches(): Promise<Watch[]>;
+  deleteWatch(id: string): Promise<boolean>;
+
+  /**
+   * Get fingerprints of all events seen so far for a watch
+   */
+  getSeenEventKeys(watchId: string): Promise<Set<string>>;
+
+  /**
+   * Record newly detected changes (and mark their events as seen)
+   */
+  addChanges(changes: WatchChange[]): Promise<void>;
+
+  /**
+   * List changes detected after a point in time (all changes if since is omitted)
+   */
+  listChanges(watchId: string, since?: Date): Promise<WatchChange[]>;
+}
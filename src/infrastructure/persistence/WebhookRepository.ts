@@ -0,0 +1,22 @@
+/**
+ * Webhook Repository
+ * Storage interface for webhook subscriptions and delivery log
+ */
+
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@domain/models/webhook';
+
+export interface WebhookRepository {
+  createSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+  getSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  listSubscriptions(): Promise<WebhookSubscription[]>;
+  deleteSubscription(id: string): Promise<boolean>;
+
+  saveDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  getDelivery(id: string): Promise<WebhookDelivery | undefined>;
+
+  /**
+   * List deliveries, newest first
+   * @param filter Optional subscription and status filters
+   */
+  listDeliveries(filter?: { subscriptionId?: string; status?: WebhookDeliveryStatus }): Promise<WebhookDelivery[]>;
+}
@@ -0,0 +1,568 @@
+/**
+ * Delay Detection Service
+ * Keeps the revision history of the arrival at the port of discharge for watched shipments
+ * and voyages, and raises alerts when the estimate slips beyond a threshold versus the original plan
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import {
+  CreateVoyageWatchInput,
+  DelayAlert,
+  EtaRevision,
+  EtaSubjectType,
+  EtaTimeline,
+  VoyageWatch,
+} from '@domain/models/eta';
+import { EventClassifierCode, TrackingEvent, TransportEvent } from '@domain/models/tracking';
+import { ServiceSchedule, TransportCall } from '@domain/models/schedule';
+import { Vessel } from '@domain/models/common';
+import { Watch, WatchChange } from '@domain/models/watch';
+import { ScheduleQuery, ScheduleQueryInput } from '@domain/models/scheduleQuery';
+import { CarrierAdapter } from '@adapters/carriers/base/CarrierAdapter';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { InvalidParameterError } from '@adapters/carriers/base/CarrierError';
+import { WatchlistService } from './WatchlistService';
+import { EtaRepository } from '@infrastructure/persistence/EtaRepository';
+import { InMemoryEtaRepository } from '@infrastructure/persistence/InMemoryEtaRepository';
+import { ResponseCache } from '@infrastructure/cache/ResponseCache';
+import { Logger } from '@infrastructure/logger/Logger';
+import { resolveScheduleQuery } from '@utils/scheduleQuery';
+import { getUnsupportedQueryReason } from '@utils/capabilityUtils';
+import { toTime } from '@utils/trackingEventUtils';
+
+const DEFAULT_THRESHOLD_HOURS = 24;
+
+/**
+ * Listener for raised delay alerts
+ */
+export type DelayAlertsListener = (alerts: DelayAlert[]) => void | Promise<void>;
+
+/**
+ * Subject an arrival was reported for
+ */
+interface EtaSubject {
+  subjectType: EtaSubjectType;
+  subjectId: string;
+  carrier: string;
+  portOfDischarge: string;
+}
+
+/**
+ * Arrival date/time reported by the carrier
+ */
+interface ArrivalObservation {
+  eventClassifierCode: EventClassifierCode;
+  eventDateTime: string;
+  delayReasonCode?: string;
+  changeRemark?: string;
+}
+
+/**
+ * Delay Detection Service
+ * Singleton pattern; the repository is pluggable via setRepository
+ */
+export class DelayDetectionService {
+  private static instance: DelayDetectionService;
+  private repository: EtaRepository;
+  private factory: CarrierAdapterFactory;
+  private emitter = new EventEmitter();
+  // Polls in progress by voyage watch ID: a baseline poll and a scheduler tick must not record revisions twice
+  private inFlightPolls = new Map<string, Promise<DelayAlert[]>>();
+  private started = false;
+  private thresholdHours: number;
+
+  private constructor() {
+    this.repository = new InMemoryEtaRepository();
+    this.factory = CarrierAdapterFactory.getInstance();
+    const threshold = parseFloat(process.env.DELAY_ALERT_THRESHOLD_HOURS || `${DEFAULT_THRESHOLD_HOURS}`);
+    this.thresholdHours = isNaN(threshold) || threshold < 0 ? DEFAULT_THRESHOLD_HOURS : threshold;
+  }
+
+  /**
+   * Get singleton instance
+   * @returns Delay detection service instance
+   */
+  static getInstance(): DelayDetectionService {
+    if (!DelayDetectionService.instance) {
+      DelayDetectionService.instance = new DelayDetectionService();
+    }
+    return DelayDetectionService.instance;
+  }
+
+  /**
+   * Replace the backing repository
+   * @param repository ETA repository implementation
+   */
+  setRepository(repository: EtaRepository): void {
+    this.repository = repository;
+  }
+
+  /**
+   * Start following arrival events of watched shipments
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    WatchlistService.getInstance().onChanges((watch, changes) => this.handleShipmentChanges(watch, changes));
+  }
+
+  /**
+   * Subscribe to raised delay alerts
+   * @param listener Called after alerts are stored
+   */
+  onAlerts(listener: DelayAlertsListener): void {
+    this.emitter.on('alerts', (alerts: DelayAlert[]) => {
+      Promise.resolve(listener(alerts)).catch((error: any) => {
+        Logger.error('Delay alert listener failed', {
+          error: error.message,
+        });
+      });
+    });
+  }
+
+  /**
+   * Register a voyage watch and take its baseline in the background
+   * @param input Carrier code, voyage and port of discharge
+   * @returns Created voyage watch
+   */
+  async createVoyageWatch(input: CreateVoyageWatchInput): Promise<VoyageWatch> {
+    const voyageWatch = await this.repository.createVoyageWatch({
+      id: randomUUID(),
+      carrier: input.carrier,
+      carrierVoyageNumber: input.carrierVoyageNumber,
+      vesselIMONumber: input.vesselIMONumber,
+      portOfDischarge: input.portOfDischarge,
+      createdAt: new Date().toISOString(),
+    });
+
+    Logger.info(`Voyage watch created for ${voyageWatch.carrier}`, {
+      voyageWatchId: voyageWatch.id,
+      carrier: voyageWatch.carrier,
+      carrierVoyageNumber: voyageWatch.carrierVoyageNumber,
+    });
+
+    // Establish the baseline without delaying the response
+    this.pollVoyageWatch(voyageWatch).catch(() => undefined);
+
+    return voyageWatch;
+  }
+
+  async getVoyageWatch(id: string): Promise<VoyageWatch | undefined> {
+    return this.repository.getVoyageWatch(id);
+  }
+
+  async listVoyageWatches(): Promise<VoyageWatch[]> {
+    return this.repository.listVoyageWatches();
+  }
+
+  async deleteVoyageWatch(id: string): Promise<boolean> {
+    return this.repository.deleteVoyageWatch(id);
+  }
+
+  /**
+   * List delay alerts, oldest first
+   * @param filter Optional subject and detection time filters
+   */
+  async listAlerts(filter?: {
+    subjectType?: EtaSubjectType;
+    subjectId?: string;
+    since?: Date;
+  }): Promise<DelayAlert[]> {
+    return this.repository.listAlerts(filter);
+  }
+
+  /**
+   * Build the arrival timeline of a subject from its revisions
+   * @param subjectType Shipment or voyage
+   * @param subjectId Watch or voyage watch ID
+   * @param carrier Carrier code
+   * @returns Timeline with current planned/estimated/actual arrival and delay
+   */
+  async getTimeline(subjectType: EtaSubjectType, subjectId: string, carrier: string): Promise<EtaTimeline> {
+    const revisions = await this.repository.listRevisions(subjectType, subjectId);
+    const alerts = await this.repository.listAlerts({ subjectType, subjectId });
+
+    const planned = revisions.find((revision) => revision.eventClassifierCode === 'PLN');
+    // Revisions are listed in the order they were observed
+    const estimated = revisions.filter((revision) => revision.eventClassifierCode === 'EST').pop();
+    const actual = revisions.filter((revision) => revision.eventClassifierCode === 'ACT').pop();
+    const delayHours = (actual || estimated)?.delayHours;
+
+    return {
+      subjectType,
+      subjectId,
+      carrier,
+      portOfDischarge: revisions[revisions.length - 1]?.portOfDischarge,
+      plannedArrival: planned?.eventDateTime,
+      estimatedArrival: estimated?.eventDateTime,
+      actualArrival: actual?.eventDateTime,
+      delayHours,
+      delayed: delayHours !== undefined && delayHours > this.thresholdHours,
+      thresholdHours: this.thresholdHours,
+      revisions,
+      alerts,
+    };
+  }
+
+  /**
+   * Poll the carrier's schedule for a voyage and record arrival revisions at the port of discharge
+   * A poll requested while another poll of the same voyage watch is running joins that poll.
+   * @param voyageWatch Voyage watch to poll
+   * @returns Raised alerts
+   */
+  async pollVoyageWatch(voyageWatch: VoyageWatch): Promise<DelayAlert[]> {
+    const inFlight = this.inFlightPolls.get(voyageWatch.id);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const poll = this.runVoyagePoll(voyageWatch).finally(() => this.inFlightPolls.delete(voyageWatch.id));
+    this.inFlightPolls.set(voyageWatch.id, poll);
+    return poll;
+  }
+
+  private async runVoyagePoll(voyageWatch: VoyageWatch): Promise<DelayAlert[]> {
+    const polledAt = new Date().toISOString();
+    try {
+      const adapter = this.factory.getAdapter(voyageWatch.carrier);
+      const schedules = await adapter.getSchedule(
+        this.resolveVoyageQuery(adapter, {
+          vesselIMONumber: voyageWatch.vesselIMONumber,
+          carrierVoyageNumber: voyageWatch.carrierVoyageNumber,
+          UNLocationCode: voyageWatch.portOfDischarge,
+        })
+      );
+
+      const calls = schedules.flatMap((schedule) =>
+        schedule.vesselSchedules.flatMap((vesselSchedule) =>
+          (vesselSchedule.transportCalls || []).map((call) => ({ call, vessel: vesselSchedule.vessel }))
+        )
+      );
+      const transportCall = this.findVoyageCall(voyageWatch, calls);
+      if (!transportCall) {
+        throw new InvalidParameterError(
+          `Voyage ${voyageWatch.carrierVoyageNumber} has no call at ${voyageWatch.portOfDischarge}`,
+          { carrier: voyageWatch.carrier, endpointType: 'schedule' }
+        );
+      }
+
+      // Classifier order: plan first, then estimate, then actual
+      const classifierOrder: EventClassifierCode[] = ['PLN', 'EST', 'ACT'];
+      const observations: ArrivalObservation[] = transportCall.timestamps
+        .filter((timestamp) => timestamp.eventTypeCode === 'ARRI')
+        .sort(
+          (a, b) =>
+            classifierOrder.indexOf(a.eventClassifierCode) - classifierOrder.indexOf(b.eventClassifierCode)
+        )
+        .map((timestamp) => ({
+          eventClassifierCode: timestamp.eventClassifierCode,
+          eventDateTime: timestamp.eventDateTime,
+        }));
+
+      // Voyage watch may have been deleted while the carrier was being queried
+      if (!(await this.repository.getVoyageWatch(voyageWatch.id))) {
+        return [];
+      }
+
+      const alerts = await this.recordArrivals(
+        {
+          subjectType: 'VOYAGE',
+          subjectId: voyageWatch.id,
+          carrier: voyageWatch.carrier,
+          portOfDischarge: voyageWatch.portOfDischarge,
+        },
+        observations,
+        polledAt
+      );
+
+      await this.repository.updateVoyageWatch({
+        ...voyageWatch,
+        lastPolledAt: polledAt,
+        lastSuccessfulPollAt: polledAt,
+        lastPollError: undefined,
+      });
+
+      return alerts;
+    } catch (error: any) {
+      Logger.error(`Failed to poll voyage watch ${voyageWatch.id}`, {
+        voyageWatchId: voyageWatch.id,
+        carrier: voyageWatch.carrier,
+        error: error.message,
+      });
+      if (await this.repository.getVoyageWatch(voyageWatch.id)) {
+        await this.repository.updateVoyageWatch({
+          ...voyageWatch,
+          lastPolledAt: polledAt,
+          lastPollError: error.message || 'Unknown error',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current schedule of a watched voyage with all of its calls (not only the port of discharge)
+   * Served through the response cache, so frequent calendar refreshes stay within carrier rate limits
+   * @param voyageWatch Voyage watch
+   * @returns Service schedules reduced to the watched voyage's calls, with carrier fields
+   */
+  async getVoyageSchedule(
+    voyageWatch: VoyageWatch
+  ): Promise<Array<ServiceSchedule & { carrier: string; carrierName: string }>> {
+    const adapter = this.factory.getAdapter(voyageWatch.carrier);
+    const query = this.resolveVoyageQuery(adapter, {
+      vesselIMONumber: voyageWatch.vesselIMONumber,
+      carrierVoyageNumber: voyageWatch.carrierVoyageNumber,
+    });
+    const { value: schedules } = await ResponseCache.getInstance().getOrFetch(
+      voyageWatch.carrier,
+      'schedule',
+      query,
+      () => adapter.getSchedule(query)
+    );
+
+    return schedules
+      .map((schedule) => ({
+        ...schedule,
+        carrier: voyageWatch.carrier,
+        carrierName: adapter.getCarrierName(),
+        vesselSchedules: schedule.vesselSchedules
+          .map((vesselSchedule) => ({
+            ...vesselSchedule,
+            transportCalls: (vesselSchedule.transportCalls || []).filter((call) =>
+              this.isVoyageCall(voyageWatch, call, vesselSchedule.vessel)
+            ),
+          }))
+          .filter((vesselSchedule) => vesselSchedule.transportCalls.length > 0),
+      }))
+      .filter((schedule) => schedule.vesselSchedules.length > 0);
+  }
+
+  /**
+   * Poll all voyage watches sequentially (avoids bursts against carrier rate limits)
+   * @returns Number of voyage watches polled and failed
+   */
+  async pollAll(): Promise<{ polled: number; failed: number }> {
+    const voyageWatches = await this.repository.listVoyageWatches();
+    let failed = 0;
+
+    for (const voyageWatch of voyageWatches) {
+      try {
+        await this.pollVoyageWatch(voyageWatch);
+      } catch {
+        failed++;
+      }
+    }
+
+    return { polled: voyageWatches.length, failed };
+  }
+
+  /**
+   * Record vessel arrival events newly detected for a watched shipment
+   * The port of discharge is taken from the watch, or else the last vessel arrival port reported
+   */
+  private async handleShipmentChanges(watch: Watch, changes: WatchChange[]): Promise<void> {
+    const arrivals = changes
+      .map((change) => change.event)
+      .filter(isVesselArrival)
+      .sort((a, b) => toTime(a.eventCreatedDateTime) - toTime(b.eventCreatedDateTime));
+    if (arrivals.length === 0) {
+      return;
+    }
+
+    const revisions = await this.repository.listRevisions('SHIPMENT', watch.id);
+    const portOfDischarge =
+      watch.portOfDischarge ||
+      revisions[revisions.length - 1]?.portOfDischarge ||
+      getArrivalPort(
+        arrivals.reduce((latest, event) =>
+          toTime(event.eventDateTime) > toTime(latest.eventDateTime) ? event : latest
+        )
+      );
+    if (!portOfDischarge) {
+      return;
+    }
+
+    await this.recordArrivals(
+      {
+        subjectType: 'SHIPMENT',
+        subjectId: watch.id,
+        carrier: watch.carrier,
+        portOfDischarge,
+      },
+      arrivals
+        .filter((event) => getArrivalPort(event) === portOfDischarge)
+        .map((event) => ({
+          eventClassifierCode: event.eventClassifierCode,
+          eventDateTime: event.eventDateTime,
+          delayReasonCode: event.delayReasonCode,
+          changeRemark: event.changeRemark,
+        })),
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Store arrivals that differ from the previous value with the same classifier and raise alerts
+   * An alert is raised when an EST/ACT arrival is later than the original PLN by more than the
+   * threshold and later than any previously alerted arrival
+   */
+  private async recordArrivals(
+    subject: EtaSubject,
+    observations: ArrivalObservation[],
+    observedAt: string
+  ): Promise<DelayAlert[]> {
+    const history = (await this.repository.listRevisions(subject.subjectType, subject.subjectId)).filter(
+      (revision) => revision.portOfDischarge === subject.portOfDischarge
+    );
+    const previousAlerts = await this.repository.listAlerts({
+      subjectType: subject.subjectType,
+      subjectId: subject.subjectId,
+    });
+    let alertedDelayHours = Math.max(-Infinity, ...previousAlerts.map((alert) => alert.delayHours));
+
+    const revisions: EtaRevision[] = [];
+    const alerts: DelayAlert[] = [];
+
+    for (const observation of observations) {
+      const previous = history
+        .filter((revision) => revision.eventClassifierCode === observation.eventClassifierCode)
+        .pop();
+      if (previous && toTime(previous.eventDateTime) === toTime(observation.eventDateTime)) {
+        continue;
+      }
+
+      const planned = history.find((revision) => revision.eventClassifierCode === 'PLN');
+      const plannedArrival = planned?.eventDateTime ??
+        (observation.eventClassifierCode === 'PLN' ? observation.eventDateTime : undefined);
+      const delayHours = plannedArrival
+        ? round((toTime(observation.eventDateTime) - toTime(plannedArrival)) / 3600000)
+        : undefined;
+
+      const revision: EtaRevision = {
+        id: randomUUID(),
+        subjectType: subject.subjectType,
+        subjectId: subject.subjectId,
+        carrier: subject.carrier,
+        portOfDischarge: subject.portOfDischarge,
+        eventClassifierCode: observation.eventClassifierCode,
+        eventDateTime: observation.eventDateTime,
+        previousEventDateTime: previous?.eventDateTime,
+        delayHours,
+        delayReasonCode: observation.delayReasonCode,
+        changeRemark: observation.changeRemark,
+        observedAt,
+      };
+      history.push(revision);
+      revisions.push(revision);
+
+      if (
+        plannedArrival &&
+        delayHours !== undefined &&
+        observation.eventClassifierCode !== 'PLN' &&
+        delayHours > this.thresholdHours &&
+        delayHours > alertedDelayHours
+      ) {
+        alertedDelayHours = delayHours;
+        alerts.push({
+          id: randomUUID(),
+          subjectType: subject.subjectType,
+          subjectId: subject.subjectId,
+          carrier: subject.carrier,
+          portOfDischarge: subject.portOfDischarge,
+          plannedArrival,
+          estimatedArrival: observation.eventDateTime,
+          delayHours,
+          thresholdHours: this.thresholdHours,
+          delayReasonCode: observation.delayReasonCode,
+          changeRemark: observation.changeRemark,
+          revisionId: revision.id,
+          detectedAt: observedAt,
+        });
+      }
+    }
+
+    await this.repository.addRevisions(revisions);
+    if (alerts.length > 0) {
+      await this.repository.addAlerts(alerts);
+      for (const alert of alerts) {
+        Logger.warn(`Arrival at ${alert.portOfDischarge} delayed by ${alert.delayHours}h`, {
+          subjectType: alert.subjectType,
+          subjectId: alert.subjectId,
+          carrier: alert.carrier,
+          plannedArrival: alert.plannedArrival,
+          estimatedArrival: alert.estimatedArrival,
+        });
+      }
+      this.emitter.emit('alerts', alerts);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Narrow voyage parameters to the schedule query mode the carrier serves them with
+   */
+  private resolveVoyageQuery(adapter: CarrierAdapter, input: ScheduleQueryInput): ScheduleQuery {
+    const query = resolveScheduleQuery(adapter.getCapabilities(), input);
+    if (!query) {
+      throw new InvalidParameterError(getUnsupportedQueryReason(adapter.getCapabilities(), 'schedule'), {
+        carrier: adapter.getCarrierCode(),
+        endpointType: 'schedule',
+      });
+    }
+    return query;
+  }
+
+  /**
+   * Find the voyage's call at the port of discharge
+   */
+  private findVoyageCall(
+    voyageWatch: VoyageWatch,
+    calls: Array<{ call: TransportCall; vessel?: Vessel }>
+  ): TransportCall | undefined {
+    return calls.find(
+      ({ call, vessel }) =>
+        call.location.UNLocationCode === voyageWatch.portOfDischarge && this.isVoyageCall(voyageWatch, call, vessel)
+    )?.call;
+  }
+
+  /**
+   * Check if a transport call belongs to the watched voyage (and vessel, when both are known)
+   */
+  private isVoyageCall(voyageWatch: VoyageWatch, call: TransportCall, vessel?: Vessel): boolean {
+    return (
+      (call.carrierImportVoyageNumber === voyageWatch.carrierVoyageNumber ||
+        call.carrierExportVoyageNumber === voyageWatch.carrierVoyageNumber) &&
+      (!voyageWatch.vesselIMONumber ||
+        !vessel?.vesselIMONumber ||
+        vessel.vesselIMONumber === voyageWatch.vesselIMONumber)
+    );
+  }
+}
+
+/**
+ * Check if an event is a vessel arrival with a reported time
+ */
+function isVesselArrival(event: TrackingEvent): event is TransportEvent & { eventDateTime: string } {
+  return (
+    event.eventType === 'TRANSPORT' &&
+    event.transportEventTypeCode === 'ARRI' &&
+    !!event.eventDateTime &&
+    (!event.transportCall?.modeOfTransport || event.transportCall.modeOfTransport === 'VESSEL')
+  );
+}
+
+/**
+ * Get the UN/LOCODE of an arrival event's transport call
+ */
+function getArrivalPort(event: TransportEvent): string | undefined {
+  return event.transportCall?.UNLocationCode || event.transportCall?.location?.UNLocationCode;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
@@ -0,0 +1,81 @@
+/**
+ * Tracking History Service
+ * Persists tracking events returned by carriers and serves them without calling carriers
+ */
+
+import { TrackingEvent } from '@domain/models/tracking';
+import {
+  StoredTrackingEvent,
+  TrackingHistoryQuery,
+  TrackingReferences,
+} from '@domain/models/trackingHistory';
+import { EventStore } from '@infrastructure/persistence/EventStore';
+import { SqliteEventStore } from '@infrastructure/persistence/SqliteEventStore';
+import { Logger } from '@infrastructure/logger/Logger';
+
+/**
+ * Tracking History Service
+ * Singleton pattern; the event store is pluggable via setStore
+ */
+export class TrackingHistoryService {
+  private static instance: TrackingHistoryService;
+  private store?: EventStore;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   * @returns Tracking history service instance
+   */
+  static getInstance(): TrackingHistoryService {
+    if (!TrackingHistoryService.instance) {
+      TrackingHistoryService.instance = new TrackingHistoryService();
+    }
+    return TrackingHistoryService.instance;
+  }
+
+  /**
+   * Replace the backing event store
+   * @param store Event store implementation
+   */
+  setStore(store: EventStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Record events returned by a carrier
+   * Failures are logged and never propagated to the caller
+   * @param carrier Carrier code
+   * @param references References the events were retrieved for
+   * @param events Events returned by the carrier
+   */
+  async record(carrier: string, references: TrackingReferences, events: TrackingEvent[]): Promise<void> {
+    try {
+      await this.getStore().recordEvents(carrier, references, events, new Date());
+    } catch (error: any) {
+      Logger.error(`Failed to record tracking history for ${carrier}`, {
+        carrier,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Query stored events
+   * @param query Filters
+   * @returns Stored events ordered by event date/time
+   */
+  async query(query: TrackingHistoryQuery): Promise<StoredTrackingEvent[]> {
+    return this.getStore().queryEvents(query);
+  }
+
+  /**
+   * Get the event store, opening the default SQLite store on first use
+   */
+  private getStore(): EventStore {
+    if (!this.store) {
+      this.store = new SqliteEventStore(process.env.EVENT_STORE_PATH || 'data/events.db');
+    }
+    return this.store;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Watchlist Scheduler
+ * Polls all watches and voyage watches on a fixed interval
+ */
+
+import { WatchlistService } from './WatchlistService';
+import { DelayDetectionService } from './DelayDetectionService';
+import { Logger } from '@infrastructure/logger/Logger';
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 900;
+
+export class WatchlistScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private intervalMs: number;
+
+  /**
+   * @param intervalSeconds Poll interval (default: WATCHLIST_POLL_INTERVAL env or 900 seconds)
+   */
+  constructor(intervalSeconds?: number) {
+    const seconds =
+      intervalSeconds ??
+      parseInt(process.env.WATCHLIST_POLL_INTERVAL || `${DEFAULT_POLL_INTERVAL_SECONDS}`, 10);
+    this.intervalMs = (isNaN(seconds) || seconds <= 0 ? DEFAULT_POLL_INTERVAL_SECONDS : seconds) * 1000;
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+
+    Logger.info('Watchlist scheduler started', { intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      Logger.info('Watchlist scheduler stopped');
+    }
+  }
+
+  /**
+   * Run one polling cycle, skipping if the previous cycle is still running
+   */
+  private async tick(): Promise<void> {
+    if (this.running) {
+      Logger.warn('Watchlist poll skipped: previous cycle still running');
+      return;
+    }
+
+    this.running = true;
+    const startTime = Date.now();
+    try {
+      const { polled, failed } = await WatchlistService.getInstance().pollAll();
+      const voyages = await DelayDetectionService.getInstance().pollAll();
+      Logger.info('Watchlist poll completed', {
+        polled,
+        failed,
+        voyagesPolled: voyages.polled,
+        voyagesFailed: voyages.failed,
+        duration: `${Date.now() - startTime}ms`,
+      });
+    } catch (error: any) {
+      Logger.error('Watchlist poll failed', { error: error.message });
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Watchlist Service
+ * Registers watched shipments, polls carriers and detects newly appeared tracking events
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { CreateWatchInput, Watch, WatchChange } from '@domain/models/watch';
+import { TrackingQueryParams } from '@domain/models/tracking';
+import { CarrierAdapterFactory } from '@adapters/factory/CarrierAdapterFactory';
+import { TrackingHistoryService } from './TrackingHistoryService';
+import { WatchRepository } from '@infrastructure/persistence/WatchRepository';
+import { InMemoryWatchRepository } from '@infrastructure/persistence/InMemoryWatchRepository';
+import { Logger } from '@infrastructure/logger/Logger';
+import { getEventFingerprint } from '@utils/eventFingerprint';
+
+/**
+ * Listener for detected changes
+ */
+export type WatchChangesListener = (watch: Watch, changes: WatchChange[]) => void | Promise<void>;
+
+/**
+ * Watchlist Service
+ * Singleton pattern; the repository is pluggable via setRepository
+ */
+export class WatchlistService {
+  private static instance: WatchlistService;
+  private repository: WatchRepository;
+  private factory: CarrierAdapterFactory;
+  private emitter = new EventEmitter();
+  // Polls in progress by watch ID: a baseline poll and a scheduler tick must not diff the same events twice
+  private inFlightPolls = new Map<string, Promise<WatchChange[]>>();
+
+  private constructor() {
+    this.repository = new InMemoryWatchRepository();
+    this.factory = CarrierAdapterFactory.getInstance();
+  }
+
+  /**
+   * Get singleton instance
+   * @returns Watchlist service instance
+   */
+  static getInstance(): WatchlistService {
+    if (!WatchlistService.instance) {
+      WatchlistService.instance = new WatchlistService();
+    }
+    return WatchlistService.instance;
+  }
+
+  /**
+   * Replace the backing repository
+   * @param repository Watch repository implementation
+   */
+  setRepository(repository: WatchRepository): void {
+    this.repository = repository;
+  }
+
+  /**
+   * Subscribe to detected changes
+   * @param listener Called after new events are stored for a watch
+   */
+  onChanges(listener: WatchChangesListener): void {
+    this.emitter.on('changes', (watch: Watch, changes: WatchChange[]) => {
+      Promise.resolve(listener(watch, changes)).catch((error: any) => {
+        Logger.error('Watch change listener failed', {
+          watchId: watch.id,
+          error: error.message,
+        });
+      });
+    });
+  }
+
+  /**
+   * Register a new watch and take its baseline in the background
+   * @param input Carrier code and shipment references
+   * @returns Created watch
+   */
+  async createWatch(input: CreateWatchInput): Promise<Watch> {
+    const watch = await this.repository.createWatch({
+      id: randomUUID(),
+      carrier: input.carrier,
+      carrierBookingReference: input.carrierBookingReference,
+      transportDocumentReference: input.transportDocumentReference,
+      equipmentReference: input.equipmentReference,
+      portOfDischarge: input.portOfDischarge,
+      createdAt: new Date().toISOString(),
+    });
+
+    Logger.info(`Watch created for ${watch.carrier}`, {
+      watchId: watch.id,
+      carrier: watch.carrier,
+    });
+
+    // Establish the baseline without delaying the response
+    this.pollWatch(watch).catch(() => undefined);
+
+    return watch;
+  }
+
+  async getWatch(id: string): Promise<Watch | undefined> {
+    return this.repository.getWatch(id);
+  }
+
+  async listWatches(): Promise<Watch[]> {
+    return this.repository.listWatches();
+  }
+
+  async deleteWatch(id: string): Promise<boolean> {
+    return this.repository.deleteWatch(id);
+  }
+
+  /**
+   * List changes for a watch
+   * @param watchId Watch ID
+   * @param since Only changes detected after this time
+   * @returns Changes ordered by detection time
+   */
+  async getChanges(watchId: string, since?: Date): Promise<WatchChange[]> {
+    return this.repository.listChanges(watchId, since);
+  }
+
+  /**
+   * Poll the carrier for a watch and store newly appeared events
+   * The first poll stores all current events as the baseline (initial: true).
+   * A poll requested while another poll of the same watch is running joins that poll.
+   * @param watch Watch to poll
+   * @returns Newly detected changes
+   */
+  async pollWatch(watch: Watch): Promise<WatchChange[]> {
+    const inFlight = this.inFlightPolls.get(watch.id);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const poll = this.runPoll(watch).finally(() => this.inFlightPolls.delete(watch.id));
+    this.inFlightPolls.set(watch.id, poll);
+    return poll;
+  }
+
+  private async runPoll(watch: Watch): Promise<WatchChange[]> {
+    const polledAt = new Date().toISOString();
+    try {
+      const adapter = this.factory.getAdapter(watch.carrier);
+      const events = await adapter.getTracking(this.buildTrackingParams(watch));
+      await TrackingHistoryService.getInstance().record(watch.carrier, watch, events);
+
+      const seenKeys = await this.repository.getSeenEventKeys(watch.id);
+      const initial = !watch.lastSuccessfulPollAt;
+      const changes: WatchChange[] = [];
+
+      for (const event of events) {
+        const eventKey = getEventFingerprint(event);
+        if (seenKeys.has(eventKey)) {
+          continue;
+        }
+        seenKeys.add(eventKey);
+        changes.push({
+          id: randomUUID(),
+          watchId: watch.id,
+          detectedAt: polledAt,
+          eventKey,
+          initial,
+          event,
+        });
+      }
+
+      // Watch may have been deleted while the carrier was being queried
+      if (!(await this.repository.getWatch(watch.id))) {
+        return [];
+      }
+
+      await this.repository.addChanges(changes);
+      const updated = await this.repository.updateWatch({
+        ...watch,
+        lastPolledAt: polledAt,
+        lastSuccessfulPollAt: polledAt,
+        lastPollError: undefined,
+        lastChangeAt: changes.length > 0 ? polledAt : watch.lastChangeAt,
+      });
+
+      if (changes.length > 0) {
+        Logger.info(`Watch ${watch.id}: ${changes.length} new event(s)`, {
+          watchId: watch.id,
+          carrier: watch.carrier,
+          initial,
+        });
+        this.emitter.emit('changes', updated, changes);
+      }
+
+      return changes;
+    } catch (error: any) {
+      Logger.error(`Failed to poll watch ${watch.id}`, {
+        watchId: watch.id,
+        carrier: watch.carrier,
+        error: error.message,
+      });
+      if (await this.repository.getWatch(watch.id)) {
+        await this.repository.updateWatch({
+          ...watch,
+          lastPolledAt: polledAt,
+          lastPollError: error.message || 'Unknown error',
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Poll all watches sequentially (avoids bursts against carrier rate limits)
+   * @returns Number of watches polled and failed
+   */
+  async pollAll(): Promise<{ polled: number; failed: number }> {
+    const watches = await this.repository.listWatches();
+    let failed = 0;
+
+    for (const watch of watches) {
+      try {
+        await this.pollWatch(watch);
+      } catch {
+        failed++;
+      }
+    }
+
+    return { polled: watches.length, failed };
+  }
+
+  /**
+   * Build tracking query parameters from a watch
+   */
+  private buildTrackingParams(watch: Watch): TrackingQueryParams {
+    return {
+      carrierBookingReference: watch.carrierBookingReference,
+      transportDocumentReference: watch.transportDocumentReference,
+      equipmentReference: watch.equipmentReference,
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { EquipmentEvent, TrackingEvent, TransportEvent } from '@domain/models/tracking';
+import { Watch, WatchChange } from '@domain/models/watch';
+import { WebhookPayload } from '@domain/models/webhook';
+import { InMemoryWebhookRepository } from '@infrastructure/persistence/InMemoryWebhookRepository';
+import { WEBHOOK_SIGNATURE_HEADER, WebhookService } from './WebhookService';
+
+jest.mock('axios');
+jest.mock('@infrastructure/logger/Logger');
+
+// Change listener registered by WebhookService.start()
+const mockOnChanges = jest.fn();
+jest.mock('./WatchlistService', () => ({
+  WatchlistService: { getInstance: () => ({ onChanges: mockOnChanges }) },
+}));
+jest.mock('./DelayDetectionService', () => ({
+  DelayDetectionService: { getInstance: () => ({ onAlerts: jest.fn() }) },
+}));
+
+const mockedPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+// Read when the singleton is created
+process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+process.env.WEBHOOK_RETRY_DELAY = '10';
+
+const watch: Watch = {
+  id: 'watch-1',
+  carrier: 'CMCG',
+  equipmentReference: 'CSQU3054383',
+  createdAt: '2024-03-01T00:00:00Z',
+};
+
+function equipmentEvent(code: EquipmentEvent['equipmentEventTypeCode']): EquipmentEvent {
+  return {
+    eventCreatedDateTime: '2024-03-03T00:00:00Z',
+    eventType: 'EQUIPMENT',
+    eventClassifierCode: 'ACT',
+    eventDateTime: '2024-03-03T00:00:00Z',
+    equipmentEventTypeCode: code,
+    equipmentReference: 'CSQU3054383',
+    emptyIndicatorCode: 'LADEN',
+    eventLocation: { UNLocationCode: 'KRPUS' },
+  };
+}
+
+const vesselDeparture: TransportEvent = {
+  eventCreatedDateTime: '2024-03-03T12:00:00Z',
+  eventType: 'TRANSPORT',
+  eventClassifierCode: 'ACT',
+  eventDateTime: '2024-03-03T12:00:00Z',
+  transportEventTypeCode: 'DEPA',
+  transportCall: { transportCallID: 'tc-1', UNLocationCode: 'KRPUS', modeOfTransport: 'VESSEL' },
+};
+
+let changeCount = 0;
+
+function change(event: TrackingEvent, initial = false): WatchChange {
+  changeCount += 1;
+  return {
+    id: `change-${changeCount}`,
+    watchId: watch.id,
+    detectedAt: '2024-03-04T00:00:00Z',
+    eventKey: `key-${changeCount}`,
+    initial,
+    event,
+  };
+}
+
+describe('WebhookService', () => {
+  const service = WebhookService.getInstance();
+  service.start();
+  const notifyChanges: (watch: Watch, changes: WatchChange[]) => Promise<void> = mockOnChanges.mock.calls[0][0];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-04T00:00:00Z'));
+    mockedPost.mockReset();
+    service.setRepository(new InMemoryWebhookRepository());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('signs the request body with HMAC-SHA256 of the subscription secret', async () => {
+    mockedPost.mockResolvedValue({ status: 200 });
+    const secret = 'a-very-secret-signing-key';
+    const subscription = await service.createSubscription({ url: 'https://tms.example.com/hooks', secret });
+
+    await notifyChanges(watch, [change(equipmentEvent('LOAD'))]);
+
+    expect(mockedPost).toHaveBeenCalledTimes(1);
+    const [url, body, config] = mockedPost.mock.calls[0];
+    const signature = config?.headers?.[WEBHOOK_SIGNATURE_HEADER];
+    expect(url).toBe('https://tms.example.com/hooks');
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signature).toBe(`sha256=${createHmac('sha256', secret).update(body as string).digest('hex')}`);
+
+    const payload: WebhookPayload = JSON.parse(body as string);
+    expect(payload.subscriptionId).toBe(subscription.id);
+    expect(config?.headers?.['X-Webhook-Delivery']).toBe(payload.deliveryId);
+
+    const [delivery] = await service.listDeliveries();
+    expect(delivery.status).toBe('DELIVERED');
+    expect(delivery.attempts).toBe(1);
+  });
+
+  it('retries with exponential backoff and moves the delivery to dead-letter after the maximum attempts', async () => {
+    mockedPost.mockRejectedValue(Object.assign(new Error('Request failed'), { response: { status: 503 } }));
+    await service.createSubscription({ url: 'https://tms.example.com/hooks' });
+
+    await notifyChanges(watch, [change(equipmentEvent('LOAD'))]);
+
+    let [delivery] = await service.listDeliveries();
+    expect(mockedPost).toHaveBeenCalledTimes(1);
+    expect(delivery.status).toBe('RETRYING');
+    expect(delivery.lastError).toBe('HTTP 503');
+    expect(delivery.nextAttemptAt).toBe('2024-03-04T00:00:10.000Z');
+
+    // First retry after 10s
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(mockedPost).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockedPost).toHaveBeenCalledTimes(2);
+    [delivery] = await service.listDeliveries();
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.nextAttemptAt).toBe('2024-03-04T00:00:30.000Z');
+
+    // Second retry after a further 20s, which is the last of 3 attempts
+    await jest.advanceTimersByTimeAsync(19999);
+    expect(mockedPost).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockedPost).toHaveBeenCalledTimes(3);
+
+    [delivery] = await service.listDeliveries();
+    expect(delivery.status).toBe('DEAD_LETTER');
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(mockedPost).toHaveBeenCalledTimes(3);
+  });
+
+  it('delivers only events matching the subscription event filters', async () => {
+    mockedPost.mockResolvedValue({ status: 200 });
+    await service.createSubscription({
+      url: 'https://tms.example.com/hooks',
+      eventType: ['EQUIPMENT'],
+      equipmentEventTypeCode: ['LOAD', 'DISC'],
+    });
+
+    await notifyChanges(watch, [
+      change(equipmentEvent('GTIN')),
+      change(equipmentEvent('LOAD')),
+      change(vesselDeparture),
+      change(equipmentEvent('DISC'), true),
+    ]);
+
+    expect(mockedPost).toHaveBeenCalledTimes(1);
+    const payload: WebhookPayload = JSON.parse(mockedPost.mock.calls[0][1] as string);
+    // Initial (baseline) changes are skipped unless includeInitial is set
+    expect(payload.events?.map((event) => event.eventType === 'EQUIPMENT' && event.equipmentEventTypeCode)).toEqual([
+      'LOAD',
+    ]);
+  });
+
+  it('applies type-code filters only to events of the matching type', async () => {
+    mockedPost.mockResolvedValue({ status: 200 });
+    await service.createSubscription({ url: 'https://tms.example.com/hooks', transportEventTypeCode: ['ARRI'] });
+
+    await notifyChanges(watch, [change(equipmentEvent('GTIN')), change(vesselDeparture)]);
+
+    const payload: WebhookPayload = JSON.parse(mockedPost.mock.calls[0][1] as string);
+    expect(payload.events?.map((event) => event.eventType)).toEqual(['EQUIPMENT']);
+  });
+
+  it('skips subscriptions filtered to another reference', async () => {
+    await service.createSubscription({ url: 'https://tms.example.com/hooks', equipmentReference: 'MSCU1234565' });
+
+    await notifyChanges(watch, [change(equipmentEvent('LOAD'))]);
+
+    expect(mockedPost).not.toHaveBeenCalled();
+    expect(await service.listDeliveries()).toHaveLength(0);
+  });
+
+  it('does not call callback URLs pointing to a private address', async () => {
+    await service.createSubscription({ url: 'http://169.254.169.254/latest/meta-data' });
+
+    await notifyChanges(watch, [change(equipmentEvent('LOAD'))]);
+
+    expect(mockedPost).not.toHaveBeenCalled();
+    const [delivery] = await service.listDeliveries();
+    expect(delivery.status).toBe('RETRYING');
+    expect(delivery.lastError).toMatch(/private or reserved address/);
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Webhook Service
+ * Delivers newly detected tracking events and delay alerts to subscribed callback URLs
+ */
+
+import axios from 'axios';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { LookupAddress, promises as dns } from 'dns';
+import { Watch, WatchChange } from '@domain/models/watch';
+import { TrackingEvent } from '@domain/models/tracking';
+import { DelayAlert } from '@domain/models/eta';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+  WebhookSubscription,
+} from '@domain/models/webhook';
+import { WatchlistService } from './WatchlistService';
+import { DelayDetectionService } from './DelayDetectionService';
+import { WebhookRepository } from '@infrastructure/persistence/WebhookRepository';
+import { InMemoryWebhookRepository } from '@infrastructure/persistence/InMemoryWebhookRepository';
+import { Logger } from '@infrastructure/logger/Logger';
+import { isReservedAddress, isReservedHost } from '@utils/networkAddress';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_SECONDS = 30;
+const DEFAULT_TIMEOUT_SECONDS = 10;
+
+/**
+ * Header carrying the HMAC-SHA256 signature of the request body ("sha256=<hex>")
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Input for creating a subscription
+ */
+export type CreateWebhookInput = Omit<
+  WebhookSubscription,
+  'id' | 'secret' | 'createdAt' | 'includeInitial' | 'delayAlerts'
+> & {
+  secret?: string;
+  includeInitial?: boolean;
+  delayAlerts?: boolean;
+};
+
+/**
+ * Webhook Service
+ * Singleton pattern; the repository is pluggable via setRepository
+ */
+export class WebhookService {
+  private static instance: WebhookService;
+  private repository: WebhookRepository;
+  private started = false;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private requestTimeoutMs: number;
+
+  private constructor() {
+    this.repository = new InMemoryWebhookRepository();
+    this.maxAttempts = parsePositiveInt(process.env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+    this.retryDelayMs = parsePositiveInt(process.env.WEBHOOK_RETRY_DELAY, DEFAULT_RETRY_DELAY_SECONDS) * 1000;
+    this.requestTimeoutMs = parsePositiveInt(process.env.WEBHOOK_TIMEOUT, DEFAULT_TIMEOUT_SECONDS) * 1000;
+  }
+
+  /**
+   * Get singleton instance
+   * @returns Webhook service instance
+   */
+  static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Replace the backing repository
+   * @param repository Webhook repository implementation
+   */
+  setRepository(repository: WebhookRepository): void {
+    this.repository = repository;
+  }
+
+  /**
+   * Start listening for watchlist changes and delay alerts
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    WatchlistService.getInstance().onChanges((watch, changes) => this.handleChanges(watch, changes));
+    DelayDetectionService.getInstance().onAlerts((alerts) => this.handleAlerts(alerts));
+  }
+
+  /**
+   * Create a subscription
+   * A signing secret is generated when none is provided
+   * @param input Subscription settings
+   * @returns Created subscription (including its secret)
+   */
+  async createSubscription(input: CreateWebhookInput): Promise<WebhookSubscription> {
+    return this.repository.createSubscription({
+      ...input,
+      id: randomUUID(),
+      secret: input.secret || randomBytes(32).toString('hex'),
+      includeInitial: input.includeInitial === true,
+      delayAlerts: input.delayAlerts === true,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    return this.repository.getSubscription(id);
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.repository.listSubscriptions();
+  }
+
+  async deleteSubscription(id: string): Promise<boolean> {
+    return this.repository.deleteSubscription(id);
+  }
+
+  /**
+   * List delivery log entries, newest first
+   * @param filter Optional subscription and status filters
+   */
+  async listDeliveries(filter?: {
+    subscriptionId?: string;
+    status?: WebhookDeliveryStatus;
+  }): Promise<WebhookDelivery[]> {
+    return this.repository.listDeliveries(filter);
+  }
+
+  /**
+   * Compute the signature header value for a body
+   * Receivers verify by computing HMAC-SHA256 over the raw request body with their secret
+   * @param body Raw request body
+   * @param secret Subscription secret
+   * @returns Signature in the form "sha256=<hex>"
+   */
+  static sign(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  /**
+   * Create deliveries for subscriptions matching newly detected events
+   */
+  private async handleChanges(watch: Watch, changes: WatchChange[]): Promise<void> {
+    const subscriptions = await this.repository.listSubscriptions();
+
+    for (const subscription of subscriptions) {
+      if (!this.matchesWatch(subscription, watch)) {
+        continue;
+      }
+
+      const events = changes
+        .filter((change) => subscription.includeInitial || !change.initial)
+        .map((change) => change.event)
+        .filter((event) => this.matchesEvent(subscription, event));
+      if (events.length === 0) {
+        continue;
+      }
+
+      await this.deliver(subscription, {
+        type: 'TRACKING_EVENTS',
+        watchId: watch.id,
+        carrier: watch.carrier,
+        equipmentReference: watch.equipmentReference,
+        transportDocumentReference: watch.transportDocumentReference,
+        carrierBookingReference: watch.carrierBookingReference,
+        events,
+      });
+    }
+  }
+
+  /**
+   * Create deliveries for subscriptions opted in to delay alerts of the alerted watch or voyage
+   * Alerts raised together always belong to the same watch or voyage watch
+   */
+  private async handleAlerts(alerts: DelayAlert[]): Promise<void> {
+    if (alerts.length === 0) {
+      return;
+    }
+    const { subjectType, subjectId, carrier } = alerts[0];
+    const watch =
+      subjectType === 'SHIPMENT' ? await WatchlistService.getInstance().getWatch(subjectId) : undefined;
+    if (subjectType === 'SHIPMENT' && !watch) {
+      return;
+    }
+
+    const subscriptions = await this.repository.listSubscriptions();
+
+    for (const subscription of subscriptions) {
+      if (!subscription.delayAlerts) {
+        continue;
+      }
+      if (watch ? !this.matchesWatch(subscription, watch) : !this.matchesVoyageWatch(subscription, subjectId)) {
+        continue;
+      }
+
+      await this.deliver(subscription, {
+        type: 'DELAY_ALERTS',
+        watchId: watch?.id,
+        voyageWatchId: watch ? undefined : subjectId,
+        carrier,
+        equipmentReference: watch?.equipmentReference,
+        transportDocumentReference: watch?.transportDocumentReference,
+        carrierBookingReference: watch?.carrierBookingReference,
+        alerts,
+      });
+    }
+  }
+
+  /**
+   * Store a new delivery and make its first attempt
+   */
+  private async deliver(
+    subscription: WebhookSubscription,
+    content: Omit<WebhookPayload, 'deliveryId' | 'subscriptionId' | 'sentAt'>
+  ): Promise<void> {
+    const deliveryId = randomUUID();
+    const now = new Date().toISOString();
+    const delivery = await this.repository.saveDelivery({
+      id: deliveryId,
+      subscriptionId: subscription.id,
+      status: 'PENDING',
+      attempts: 0,
+      createdAt: now,
+      payload: {
+        ...content,
+        deliveryId,
+        subscriptionId: subscription.id,
+        sentAt: now,
+      },
+    });
+
+    await this.attemptDelivery(delivery);
+  }
+
+  /**
+   * Attempt a delivery; schedules a retry with exponential backoff or moves it to dead-letter
+   */
+  private async attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.repository.getSubscription(delivery.subscriptionId);
+    if (!subscription) {
+      await this.repository.saveDelivery({
+        ...delivery,
+        status: 'DEAD_LETTER',
+        nextAttemptAt: undefined,
+        lastError: 'Subscription deleted',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date().toISOString();
+
+    try {
+      // Checked again on delivery: the host may have been re-pointed since registration
+      if (isReservedHost(new URL(subscription.url).hostname)) {
+        throw new Error('Callback URL points to a local, private or reserved address');
+      }
+
+      const response = await axios.post(subscription.url, body, {
+        timeout: this.requestTimeoutMs,
+        lookup: lookupPublicAddress,
+        maxRedirects: 0,
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: WebhookService.sign(body, subscription.secret),
+          'X-Webhook-Delivery': delivery.id,
+        },
+        // Any non-2xx status counts as a failed delivery
+        validateStatus: (status) => status >= 200 && status < 300,
+      });
+
+      await this.repository.saveDelivery({
+        ...delivery,
+        status: 'DELIVERED',
+        attempts,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: undefined,
+        deliveredAt: attemptedAt,
+        responseStatus: response.status,
+        lastError: undefined,
+      });
+      Logger.info(`Webhook delivered`, {
+        deliveryId: delivery.id,
+        subscriptionId: subscription.id,
+        attempts,
+      });
+    } catch (error: any) {
+      const responseStatus = error.response?.status as number | undefined;
+      const lastError = responseStatus ? `HTTP ${responseStatus}` : error.message || 'Unknown error';
+
+      if (attempts >= this.maxAttempts) {
+        await this.repository.saveDelivery({
+          ...delivery,
+          status: 'DEAD_LETTER',
+          attempts,
+          lastAttemptAt: attemptedAt,
+          nextAttemptAt: undefined,
+          responseStatus,
+          lastError,
+        });
+        Logger.error(`Webhook moved to dead-letter after ${attempts} attempts`, {
+          deliveryId: delivery.id,
+          subscriptionId: subscription.id,
+          error: lastError,
+        });
+        return;
+      }
+
+      const delay = this.retryDelayMs * Math.pow(2, attempts - 1);
+      const retrying = await this.repository.saveDelivery({
+        ...delivery,
+        status: 'RETRYING',
+        attempts,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        responseStatus,
+        lastError,
+      });
+      Logger.warn(`Webhook delivery failed, retrying in ${delay}ms`, {
+        deliveryId: delivery.id,
+        subscriptionId: subscription.id,
+        attempts,
+        error: lastError,
+      });
+
+      setTimeout(() => {
+        this.attemptDelivery(retrying).catch((retryError: any) => {
+          Logger.error('Webhook retry failed', {
+            deliveryId: delivery.id,
+            error: retryError.message,
+          });
+        });
+      }, delay).unref();
+    }
+  }
+
+  /**
+   * Check the subscription's reference filters against a watch
+   */
+  private matchesWatch(subscription: WebhookSubscription, watch: Watch): boolean {
+    if (subscription.voyageWatchId) {
+      return false;
+    }
+    if (subscription.watchId && subscription.watchId !== watch.id) {
+      return false;
+    }
+    if (subscription.equipmentReference && subscription.equipmentReference !== watch.equipmentReference) {
+      return false;
+    }
+    if (
+      subscription.transportDocumentReference &&
+      subscription.transportDocumentReference !== watch.transportDocumentReference
+    ) {
+      return false;
+    }
+    if (
+      subscription.carrierBookingReference &&
+      subscription.carrierBookingReference !== watch.carrierBookingReference
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check the subscription's reference filters against a voyage watch
+   * Subscriptions without any reference filter match every voyage watch
+   */
+  private matchesVoyageWatch(subscription: WebhookSubscription, voyageWatchId: string): boolean {
+    if (subscription.voyageWatchId) {
+      return subscription.voyageWatchId === voyageWatchId;
+    }
+    return (
+      !subscription.watchId &&
+      !subscription.equipmentReference &&
+      !subscription.transportDocumentReference &&
+      !subscription.carrierBookingReference
+    );
+  }
+
+  /**
+   * Check the subscription's event filters against an event
+   * Type-code filters only apply to events of the matching type
+   */
+  private matchesEvent(subscription: WebhookSubscription, event: TrackingEvent): boolean {
+    if (subscription.eventType?.length && !subscription.eventType.includes(event.eventType)) {
+      return false;
+    }
+    if (
+      event.eventType === 'EQUIPMENT' &&
+      subscription.equipmentEventTypeCode?.length &&
+      !subscription.equipmentEventTypeCode.includes(event.equipmentEventTypeCode)
+    ) {
+      return false;
+    }
+    if (
+      event.eventType === 'TRANSPORT' &&
+      subscription.transportEventTypeCode?.length &&
+      !subscription.transportEventTypeCode.includes(event.transportEventTypeCode)
+    ) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Parse a positive integer setting, falling back to the default when unset or invalid
+ */
+function parsePositiveInt(value: string | undefined, defaultValue: number): number {
+  const parsed = parseInt(value || `${defaultValue}`, 10);
+  return isNaN(parsed) || parsed < 1 ? defaultValue : parsed;
+}
+
+/**
+ * Resolve a callback host, refusing local, private or reserved addresses
+ * Used as the connection lookup so the checked address is the one connected to
+ */
+async function lookupPublicAddress(hostname: string): Promise<[LookupAddress[]]> {
+  const addresses = await dns.lookup(hostname, { all: true });
+  const reserved = addresses.find((entry) => isReservedAddress(entry.address));
+  if (reserved) {
+    throw new Error(`Callback host ${hostname} resolves to a private or reserved address (${reserved.address})`);
+  }
+  return [addresses];
+}
@@ -0,0 +1,59 @@
+/**
+ * Capability Utilities
+ * Matches query parameters against carrier capability descriptors
+ */
+
+import { CapabilityApiType, CarrierCapabilities, QueryMode } from '@domain/models/capability';
+
+/**
+ * Find the query mode a carrier adapter would use for the given parameters
+ * @param capabilities Carrier capability descriptor
+ * @param apiType API being queried
+ * @param params Query parameters (query string or adapter parameters)
+ * @returns First matching mode, or undefined if the carrier cannot serve the query
+ */
+export function findQueryMode(
+  capabilities: CarrierCapabilities,
+  apiType: CapabilityApiType,
+  params: Record<string, unknown>
+): QueryMode | undefined {
+  return capabilities.modes.find((mode) => mode.api === apiType && matchesQueryMode(mode, params));
+}
+
+/**
+ * Check whether a query mode applies to the given parameters
+ * @param mode Query mode
+ * @param params Query parameters
+ * @returns true if one required parameter set is complete and no excluded parameter is given
+ */
+export function matchesQueryMode(mode: QueryMode, params: Record<string, unknown>): boolean {
+  if ((mode.excludedParams || []).some((param) => isParamSet(params[param]))) {
+    return false;
+  }
+  return (
+    mode.requiredParams.length === 0 ||
+    mode.requiredParams.some((paramSet) => paramSet.every((param) => isParamSet(params[param])))
+  );
+}
+
+/**
+ * Explain why a carrier cannot serve a query (no query mode matched)
+ * @param capabilities Carrier capability descriptor
+ * @param apiType API being queried
+ * @returns Reason listing the parameter sets the carrier's modes require
+ */
+export function getUnsupportedQueryReason(capabilities: CarrierCapabilities, apiType: CapabilityApiType): string {
+  const modes = capabilities.modes.filter((mode) => mode.api === apiType);
+  if (modes.length === 0) {
+    return `${capabilities.carrierName} does not support ${apiType} queries`;
+  }
+  const paramSets = modes.flatMap((mode) => mode.requiredParams.map((paramSet) => paramSet.join(' + ')));
+  return `${capabilities.carrierName} ${apiType} queries require one of: ${paramSets.join('; ')}`;
+}
+
+function isParamSet(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== '';
+}
@@ -0,0 +1,49 @@
+import { decodeCompositeCursor, encodeCompositeCursor, getPendingCarriers } from './compositeCursor';
+
+describe('compositeCursor', () => {
+  it('round-trips the page state of every carrier', () => {
+    const states = {
+      CMCG: { type: 'OFFSET' as const, offset: 50 },
+      MAERSK: { type: 'CURSOR' as const, cursor: 'abc' },
+      HMM: { type: 'EXHAUSTED' as const },
+    };
+
+    const cursor = encodeCompositeCursor('schedule', states);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCompositeCursor('schedule', cursor!)).toEqual(states);
+  });
+
+  it('issues no cursor when every carrier is exhausted', () => {
+    expect(encodeCompositeCursor('tracking', { CMCG: { type: 'EXHAUSTED' }, HMM: { type: 'EXHAUSTED' } })).toBe(
+      undefined
+    );
+  });
+
+  it('rejects a cursor issued for another API', () => {
+    const cursor = encodeCompositeCursor('schedule', { CMCG: { type: 'START' } })!;
+
+    expect(decodeCompositeCursor('tracking', cursor)).toBeUndefined();
+  });
+
+  it('rejects malformed cursors and page states', () => {
+    const encode = (carriers: unknown, v = 1) =>
+      Buffer.from(JSON.stringify({ v, api: 'schedule', carriers })).toString('base64url');
+
+    expect(decodeCompositeCursor('schedule', 'not a cursor')).toBeUndefined();
+    expect(decodeCompositeCursor('schedule', encode({}, 2))).toBeUndefined();
+    expect(decodeCompositeCursor('schedule', encode({ CMCG: { type: 'OFFSET', offset: -1 } }))).toBeUndefined();
+    expect(decodeCompositeCursor('schedule', encode({ CMCG: { type: 'CURSOR', cursor: '' } }))).toBeUndefined();
+    expect(decodeCompositeCursor('schedule', encode({ CMCG: { type: 'PAGE' } }))).toBeUndefined();
+  });
+
+  it('lists the carriers that still have data', () => {
+    expect(
+      getPendingCarriers({
+        CMCG: { type: 'OFFSET', offset: 50 },
+        HMM: { type: 'EXHAUSTED' },
+        ZIM: { type: 'START' },
+      })
+    ).toEqual(['CMCG', 'ZIM']);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Composite Cursor
+ * Opaque cursor holding each carrier's own pagination state for multi-carrier queries
+ */
+
+import { CarrierPageState } from '@domain/models/pagination';
+
+/**
+ * API a composite cursor was issued for (cursors cannot be reused across APIs)
+ */
+export type CursorApiType = 'schedule' | 'tracking';
+
+const CURSOR_VERSION = 1;
+
+interface CompositeCursorPayload {
+  v: number;
+  api: CursorApiType;
+  carriers: Record<string, CarrierPageState>;
+}
+
+/**
+ * Encode carrier page states into an opaque cursor
+ * @param apiType API the cursor is issued for
+ * @param states Page state per carrier code
+ * @returns Cursor, or undefined when no carrier has more data
+ */
+export function encodeCompositeCursor(
+  apiType: CursorApiType,
+  states: Record<string, CarrierPageState>
+): string | undefined {
+  if (Object.values(states).every((state) => state.type === 'EXHAUSTED')) {
+    return undefined;
+  }
+  const payload: CompositeCursorPayload = { v: CURSOR_VERSION, api: apiType, carriers: states };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor into carrier page states
+ * @param apiType API the cursor is used with
+ * @param cursor Cursor from a previous response
+ * @returns Page state per carrier code, or undefined if the cursor is malformed or issued for another API
+ */
+export function decodeCompositeCursor(
+  apiType: CursorApiType,
+  cursor: string
+): Record<string, CarrierPageState> | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CompositeCursorPayload;
+    if (payload?.v !== CURSOR_VERSION || payload.api !== apiType || typeof payload.carriers !== 'object') {
+      return undefined;
+    }
+    const states = Object.values(payload.carriers || {});
+    return states.every(isCarrierPageState) ? payload.carriers : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the carriers that still have data to fetch
+ * @param states Decoded page states
+ * @returns Carrier codes whose state is not EXHAUSTED
+ */
+export function getPendingCarriers(states: Record<string, CarrierPageState>): string[] {
+  return Object.keys(states).filter((carrierCode) => states[carrierCode].type !== 'EXHAUSTED');
+}
+
+function isCarrierPageState(state: unknown): state is CarrierPageState {
+  if (typeof state !== 'object' || state === null) {
+    return false;
+  }
+  const { type, cursor, offset } = state as Record<string, unknown>;
+  switch (type) {
+    case 'START':
+    case 'EXHAUSTED':
+      return true;
+    case 'CURSOR':
+      return typeof cursor === 'string' && cursor.length > 0;
+    case 'OFFSET':
+      return typeof offset === 'number' && Number.isInteger(offset) && offset >= 0;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  calculateCheckDigit,
+  getCarrierCodeForContainer,
+  isValidContainerNumber,
+  normalizeContainerNumber,
+} from './containerNumber';
+
+describe('containerNumber', () => {
+  describe('normalizeContainerNumber', () => {
+    it('removes spaces and hyphens and uppercases', () => {
+      expect(normalizeContainerNumber('csqu 305438-3')).toBe('CSQU3054383');
+    });
+  });
+
+  describe('calculateCheckDigit', () => {
+    it('calculates the ISO 6346 check digit', () => {
+      // Example container number from ISO 6346
+      expect(calculateCheckDigit('CSQU305438')).toBe(3);
+    });
+
+    it('writes remainder 10 as 0', () => {
+      // Weighted sum of CSQU305430 modulo 11 is 10
+      expect(calculateCheckDigit('CSQU305430')).toBe(0);
+    });
+  });
+
+  describe('isValidContainerNumber', () => {
+    it('accepts a valid number in any notation', () => {
+      expect(isValidContainerNumber('CSQU3054383')).toBe(true);
+      expect(isValidContainerNumber('csqu 305438-3')).toBe(true);
+    });
+
+    it('rejects a wrong check digit', () => {
+      expect(isValidContainerNumber('CSQU3054384')).toBe(false);
+    });
+
+    it('rejects malformed numbers', () => {
+      expect(isValidContainerNumber('CSQX3054383')).toBe(false); // Category must be U, J or Z
+      expect(isValidContainerNumber('CSQU305438')).toBe(false);
+      expect(isValidContainerNumber('C5QU3054383')).toBe(false);
+    });
+  });
+
+  describe('getCarrierCodeForContainer', () => {
+    it('resolves the carrier from the BIC owner prefix', () => {
+      expect(getCarrierCodeForContainer('CMAU1234564')).toBe('CMCG');
+      expect(getCarrierCodeForContainer('hdmu 123456-1')).toBe('HMM');
+      expect(getCarrierCodeForContainer('SUDU1234567')).toBe('MAERSK');
+    });
+
+    it('returns undefined for unregistered prefixes', () => {
+      expect(getCarrierCodeForContainer('CSQU3054383')).toBeUndefined();
+    });
+  });
+});
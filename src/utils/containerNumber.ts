@@ -0,0 +1,97 @@
+/**
+ * Container Number Utilities
+ * ISO 6346 container number validation and BIC owner-prefix carrier registry
+ */
+
+/**
+ * BIC owner prefixes (owner code + equipment category) of carrier-owned containers
+ * Containers of acquired brands are listed under the carrier that tracks them
+ */
+export const BIC_OWNER_PREFIXES: Record<string, string> = {
+  // CMA CGM (incl. APL, ANL)
+  CMAU: 'CMCG',
+  CGMU: 'CMCG',
+  ECMU: 'CMCG',
+  APLU: 'CMCG',
+  APZU: 'CMCG',
+  APHU: 'CMCG',
+  ANNU: 'CMCG',
+  // HMM
+  HDMU: 'HMM',
+  HMMU: 'HMM',
+  // ZIM
+  ZIMU: 'ZIM',
+  ZCSU: 'ZIM',
+  // Maersk (incl. Hamburg Süd)
+  MSKU: 'MAERSK',
+  MRKU: 'MAERSK',
+  MAEU: 'MAERSK',
+  MRSU: 'MAERSK',
+  MCAU: 'MAERSK',
+  MNBU: 'MAERSK',
+  SUDU: 'MAERSK',
+};
+
+/**
+ * Normalize a container number (uppercase, spaces and hyphens removed)
+ * @param containerNumber Container number as entered (e.g. "cmau 123456-7")
+ * @returns Normalized container number (e.g. "CMAU1234567")
+ */
+export function normalizeContainerNumber(containerNumber: string): string {
+  return containerNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Calculate the ISO 6346 check digit
+ * Letters map to 10-38 skipping multiples of 11; each value is weighted by 2^position
+ * @param containerNumber First 10 characters (owner code, category, serial number)
+ * @returns Check digit (0-9)
+ */
+export function calculateCheckDigit(containerNumber: string): number {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = containerNumber.charAt(i);
+    sum += getCharacterValue(char) * Math.pow(2, i);
+  }
+  // Remainder 10 is written as 0
+  return (sum % 11) % 10;
+}
+
+/**
+ * Validate a container number: 3-letter owner code, category U/J/Z, 6-digit serial and check digit
+ * @param containerNumber Container number (normalized before validation)
+ * @returns true if format and check digit are valid
+ */
+export function isValidContainerNumber(containerNumber: string): boolean {
+  const normalized = normalizeContainerNumber(containerNumber);
+  if (!/^[A-Z]{3}[UJZ]\d{7}$/.test(normalized)) {
+    return false;
+  }
+  return calculateCheckDigit(normalized) === parseInt(normalized.charAt(10), 10);
+}
+
+/**
+ * Get the carrier owning a container from its BIC owner prefix
+ * @param containerNumber Container number
+ * @returns Carrier code, or undefined if the prefix is not registered
+ */
+export function getCarrierCodeForContainer(containerNumber: string): string | undefined {
+  return BIC_OWNER_PREFIXES[normalizeContainerNumber(containerNumber).substring(0, 4)];
+}
+
+/**
+ * ISO 6346 character value (A=10, B=12 ... Z=38; digits as is)
+ */
+function getCharacterValue(char: string): number {
+  if (/\d/.test(char)) {
+    return parseInt(char, 10);
+  }
+  let value = 10;
+  for (let code = 'A'.charCodeAt(0); code < char.charCodeAt(0); code++) {
+    value++;
+    if (value % 11 === 0) {
+      value++;
+    }
+  }
+  return value;
+}
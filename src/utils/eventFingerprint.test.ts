@@ -0,0 +1,89 @@
+import { EquipmentEvent, ShipmentEvent, TransportEvent } from '@domain/models/tracking';
+import { getEventFingerprint } from './eventFingerprint';
+
+const arrival: TransportEvent = {
+  eventID: 'a1b2',
+  eventCreatedDateTime: '2024-03-10T01:00:00Z',
+  eventType: 'TRANSPORT',
+  eventClassifierCode: 'ACT',
+  eventDateTime: '2024-03-10T00:00:00Z',
+  transportEventTypeCode: 'ARRI',
+  transportCall: {
+    transportCallID: 'tc-1',
+    UNLocationCode: 'SGSIN',
+    exportVoyageNumber: '001E',
+    modeOfTransport: 'VESSEL',
+    vessel: { vesselIMONumber: '9321483' },
+  },
+};
+
+describe('getEventFingerprint', () => {
+  it('ignores carrier-generated IDs and the creation time', () => {
+    const repolled: TransportEvent = {
+      ...arrival,
+      eventID: 'c3d4',
+      eventCreatedDateTime: '2024-03-11T01:00:00Z',
+      transportCall: { ...arrival.transportCall, transportCallID: 'tc-2' },
+    };
+
+    expect(getEventFingerprint(repolled)).toBe(getEventFingerprint(arrival));
+  });
+
+  it('normalizes the event time and letter case', () => {
+    const equivalent: TransportEvent = {
+      ...arrival,
+      eventDateTime: '2024-03-10T08:00:00+08:00',
+      transportCall: { ...arrival.transportCall, UNLocationCode: 'sgsin' },
+    };
+
+    expect(getEventFingerprint(equivalent)).toBe(getEventFingerprint(arrival));
+  });
+
+  it('keeps unparseable event times as sent instead of throwing', () => {
+    const invalid: TransportEvent = { ...arrival, eventDateTime: '2024-13-45 25:61' };
+
+    expect(() => getEventFingerprint(invalid)).not.toThrow();
+    expect(getEventFingerprint(invalid)).toBe(getEventFingerprint({ ...invalid, eventID: 'other' }));
+    expect(getEventFingerprint(invalid)).not.toBe(getEventFingerprint({ ...arrival, eventDateTime: 'not a date' }));
+  });
+
+  it('tells apart events that differ in content', () => {
+    expect(getEventFingerprint({ ...arrival, eventClassifierCode: 'EST' })).not.toBe(getEventFingerprint(arrival));
+    expect(getEventFingerprint({ ...arrival, transportEventTypeCode: 'DEPA' })).not.toBe(
+      getEventFingerprint(arrival)
+    );
+    expect(
+      getEventFingerprint({ ...arrival, transportCall: { ...arrival.transportCall, exportVoyageNumber: '002E' } })
+    ).not.toBe(getEventFingerprint(arrival));
+  });
+
+  it('uses type-specific keys for equipment and shipment events', () => {
+    const discharge: EquipmentEvent = {
+      eventCreatedDateTime: '2024-03-10T01:00:00Z',
+      eventType: 'EQUIPMENT',
+      eventClassifierCode: 'ACT',
+      eventDateTime: '2024-03-10T00:00:00Z',
+      equipmentEventTypeCode: 'DISC',
+      equipmentReference: 'CSQU3054383',
+      emptyIndicatorCode: 'LADEN',
+      eventLocation: { UNLocationCode: 'SGSIN' },
+    };
+    const confirmation: ShipmentEvent = {
+      eventCreatedDateTime: '2024-03-01T01:00:00Z',
+      eventType: 'SHIPMENT',
+      eventClassifierCode: 'ACT',
+      eventDateTime: '2024-03-01T00:00:00Z',
+      shipmentEventTypeCode: 'CONF',
+      documentTypeCode: 'BKG',
+      documentID: 'BKG001',
+    };
+
+    expect(getEventFingerprint({ ...discharge, equipmentReference: 'CMAU1234564' })).not.toBe(
+      getEventFingerprint(discharge)
+    );
+    expect(getEventFingerprint({ ...confirmation, documentID: 'BKG002' })).not.toBe(
+      getEventFingerprint(confirmation)
+    );
+    expect(getEventFingerprint(discharge)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Event Fingerprint
+ * Content-based identity for tracking events across polls
+ */
+
+import { createHash } from 'crypto';
+import { TrackingEvent } from '@domain/models/tracking';
+
+/**
+ * Build a stable fingerprint for a tracking event
+ * Carrier-assigned or generated IDs (eventID, transportCallID) and eventCreatedDateTime are ignored
+ * because some carriers regenerate them on every request
+ * @param event Tracking event
+ * @returns SHA-256 hex fingerprint
+ */
+export function getEventFingerprint(event: TrackingEvent): string {
+  const parts: Array<string | undefined> = [
+    event.eventType,
+    event.eventClassifierCode,
+    normalizeDateTime(event.eventDateTime),
+  ];
+
+  switch (event.eventType) {
+    case 'TRANSPORT':
+      parts.push(
+        event.transportEventTypeCode,
+        event.transportCall?.UNLocationCode || event.transportCall?.location?.UNLocationCode,
+        event.transportCall?.facilityCode,
+        event.transportCall?.vessel?.vesselIMONumber,
+        event.transportCall?.exportVoyageNumber || event.transportCall?.carrierVoyageNumber
+      );
+      break;
+    case 'EQUIPMENT':
+      parts.push(
+        event.equipmentEventTypeCode,
+        event.equipmentReference,
+        event.emptyIndicatorCode,
+        event.eventLocation?.UNLocationCode || event.transportCall?.UNLocationCode,
+        event.eventLocation?.facility?.facilityCode || event.transportCall?.facilityCode
+      );
+      break;
+    case 'SHIPMENT':
+      parts.push(event.shipmentEventTypeCode, event.documentTypeCode, event.documentID);
+      break;
+  }
+
+  return createHash('sha256')
+    .update(parts.map((part) => (part || '').toUpperCase()).join('|'))
+    .digest('hex');
+}
+
+/**
+ * Normalize date/time to UTC ISO 8601; values that do not parse are kept as sent
+ */
+function normalizeDateTime(dateTime?: string): string | undefined {
+  if (!dateTime) {
+    return undefined;
+  }
+  const date = new Date(dateTime);
+  return isNaN(date.getTime()) ? dateTime : date.toISOString();
+}
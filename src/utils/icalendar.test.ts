@@ -0,0 +1,95 @@
+import { ServiceSchedule } from '@domain/models/schedule';
+import { buildScheduleCalendar } from './icalendar';
+
+function createSchedule(arrival: string): ServiceSchedule & { carrier: string; carrierName: string } {
+  return {
+    carrier: 'CMCG',
+    carrierName: 'CMA CGM',
+    carrierServiceCode: 'FAL1',
+    carrierServiceName: 'French Asia Line 1',
+    vesselSchedules: [
+      {
+        vessel: { vesselIMONumber: '9454436', name: 'CMA CGM MARCO POLO' },
+        isDummyVessel: false,
+        transportCalls: [
+          {
+            transportCallReference: 'TC-1',
+            carrierImportVoyageNumber: '0FAL1W',
+            carrierExportVoyageNumber: '0FAL2E',
+            location: { UNLocationCode: 'SGSIN', locationName: 'Singapore, SG' },
+            timestamps: [
+              { eventTypeCode: 'ARRI', eventClassifierCode: 'EST', eventDateTime: arrival },
+              { eventTypeCode: 'DEPA', eventClassifierCode: 'PLN', eventDateTime: 'not a date' },
+            ],
+            cutOffTimes: [{ cutOffDateTimeCode: 'DCO', cutOffDateTime: '2024-02-28T12:00:00Z' }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Unfold content lines and return the VEVENT blocks
+ */
+function getEvents(calendar: string): string[][] {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  const events: string[][] = [];
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      events.push([]);
+    } else if (events.length > 0 && line !== 'END:VEVENT') {
+      events[events.length - 1].push(line);
+    }
+  }
+  return events;
+}
+
+describe('buildScheduleCalendar', () => {
+  it('writes a calendar with one event per arrival, departure and cut-off', () => {
+    const calendar = buildScheduleCalendar([createSchedule('2024-03-01T10:00:00+09:00')], {
+      name: 'FAL1',
+      refreshIntervalMinutes: 30,
+    });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT30M\r\n');
+
+    // The departure has no valid time and is left out
+    const events = getEvents(calendar);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toContain('DTSTART:20240301T010000Z');
+    expect(events[0]).toContain('SUMMARY:Arrival: CMA CGM MARCO POLO 0FAL2E @ SGSIN');
+    expect(events[0]).toContain('LOCATION:Singapore\\, SG');
+    expect(events[1]).toContain('DTSTART:20240228T120000Z');
+    expect(events[1]).toContain('SUMMARY:DCO cut-off: CMA CGM MARCO POLO 0FAL2E @ SGSIN');
+  });
+
+  it('keeps UIDs stable when an estimate is revised', () => {
+    const getUids = (arrival: string) =>
+      getEvents(buildScheduleCalendar([createSchedule(arrival)], { name: 'FAL1' })).map((event) =>
+        event.find((line) => line.startsWith('UID:'))
+      );
+
+    expect(getUids('2024-03-02T10:00:00Z')).toEqual(getUids('2024-03-01T10:00:00Z'));
+  });
+
+  it('writes each call once when it is returned more than once', () => {
+    const calendar = buildScheduleCalendar(
+      [createSchedule('2024-03-01T10:00:00Z'), createSchedule('2024-03-01T10:00:00Z')],
+      { name: 'FAL1' }
+    );
+
+    expect(getEvents(calendar)).toHaveLength(2);
+  });
+
+  it('folds content lines longer than 75 octets', () => {
+    const calendar = buildScheduleCalendar([createSchedule('2024-03-01T10:00:00Z')], { name: 'Ä'.repeat(60) });
+
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(calendar.replace(/\r\n /g, '')).toContain(`X-WR-CALNAME:${'Ä'.repeat(60)}\r\n`);
+  });
+});
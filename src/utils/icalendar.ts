@@ -0,0 +1,239 @@
+/**
+ * iCalendar Feed
+ * Renders vessel calls and cut-offs of service schedules as an RFC 5545 calendar
+ */
+
+import { createHash } from 'crypto';
+import { CutOffTime, ServiceSchedule, Timestamp, TransportCall } from '@domain/models/schedule';
+import { Vessel } from '@domain/models/common';
+import { getPreferredTimestamp } from './scheduleUtils';
+
+/**
+ * Calendar options
+ */
+export interface CalendarOptions {
+  name: string; // Calendar name shown by calendar apps
+  refreshIntervalMinutes?: number; // Suggested polling interval for subscribed calendars (default: 60)
+}
+
+/**
+ * Result fields added by the controllers to every schedule
+ */
+type CarrierFields = { carrier?: string; carrierName?: string };
+
+const PRODUCT_ID = '-//schedule-tracking//Vessel Schedules//EN';
+const UID_DOMAIN = 'schedule-tracking';
+const DEFAULT_REFRESH_INTERVAL_MINUTES = 60;
+const CLASSIFIER_LABELS: Record<string, string> = { ACT: 'Actual', EST: 'Estimated', PLN: 'Planned' };
+
+/**
+ * Build an iCalendar feed from service schedules
+ * One VEVENT per transport call arrival and departure and one per cut-off time.
+ * UIDs are derived from carrier, vessel, voyage, port and event kind (not the time),
+ * so calendar apps update events in place when a carrier revises an estimate.
+ * @param schedules Service schedules (with carrier fields added by the controller)
+ * @param options Calendar options
+ * @returns iCalendar text (CRLF line endings)
+ */
+export function buildScheduleCalendar(
+  schedules: Array<ServiceSchedule & CarrierFields>,
+  options: CalendarOptions
+): string {
+  const stamp = toCalendarDateTime(new Date());
+  const events = new Map<string, string[]>();
+
+  for (const schedule of schedules) {
+    for (const vesselSchedule of schedule.vesselSchedules || []) {
+      for (const transportCall of vesselSchedule.transportCalls || []) {
+        const call: CallContext = { schedule, vessel: vesselSchedule.vessel, transportCall };
+
+        for (const timestamp of [
+          getPreferredTimestamp(transportCall.timestamps, 'ARRI'),
+          getPreferredTimestamp(transportCall.timestamps, 'DEPA'),
+        ]) {
+          if (timestamp) {
+            addEvent(events, buildTimestampEvent(call, timestamp, stamp));
+          }
+        }
+        for (const cutOff of transportCall.cutOffTimes || []) {
+          addEvent(events, buildCutOffEvent(call, cutOff, stamp));
+        }
+      }
+    }
+  }
+
+  const refreshInterval = options.refreshIntervalMinutes || DEFAULT_REFRESH_INTERVAL_MINUTES;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(options.name)}`,
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshInterval}M`,
+    `X-PUBLISHED-TTL:PT${refreshInterval}M`,
+    ...Array.from(events.values()).flat(),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * Transport call with the service and vessel it belongs to
+ */
+interface CallContext {
+  schedule: ServiceSchedule & CarrierFields;
+  vessel?: Vessel;
+  transportCall: TransportCall;
+}
+
+/**
+ * VEVENT lines with the UID they were built for
+ */
+interface CalendarEvent {
+  uid: string;
+  lines: string[];
+}
+
+/**
+ * Keep the first event per UID (the same call may be returned by several APIs or pages)
+ */
+function addEvent(events: Map<string, string[]>, event?: CalendarEvent): void {
+  if (event && !events.has(event.uid)) {
+    events.set(event.uid, event.lines);
+  }
+}
+
+function buildTimestampEvent(call: CallContext, timestamp: Timestamp, stamp: string): CalendarEvent | undefined {
+  const start = formatDateTime(timestamp.eventDateTime);
+  if (!start) {
+    return undefined;
+  }
+  const kind = timestamp.eventTypeCode === 'ARRI' ? 'Arrival' : 'Departure';
+  const classifier = CLASSIFIER_LABELS[timestamp.eventClassifierCode] || timestamp.eventClassifierCode;
+  const uid = createUid(call, timestamp.eventTypeCode);
+
+  return {
+    uid,
+    lines: buildEventLines(call, uid, stamp, start, `${kind}: ${describeCall(call)}`, [
+      `${classifier} ${kind.toLowerCase()} (${timestamp.eventClassifierCode})`,
+    ]),
+  };
+}
+
+function buildCutOffEvent(call: CallContext, cutOff: CutOffTime, stamp: string): CalendarEvent | undefined {
+  const start = formatDateTime(cutOff.cutOffDateTime);
+  if (!start) {
+    return undefined;
+  }
+  const uid = createUid(call, `CUTOFF-${cutOff.cutOffDateTimeCode}`);
+  const summary = `${cutOff.cutOffDateTimeCode} cut-off: ${describeCall(call)}`;
+
+  return {
+    uid,
+    lines: buildEventLines(call, uid, stamp, start, summary, [`Cut-off ${cutOff.cutOffDateTimeCode}`]),
+  };
+}
+
+function buildEventLines(
+  call: CallContext,
+  uid: string,
+  stamp: string,
+  start: string,
+  summary: string,
+  details: string[]
+): string[] {
+  const { schedule, transportCall } = call;
+  const carrierName = schedule.carrierName || schedule.carrier;
+  const serviceName = schedule.carrierServiceName ? ` (${schedule.carrierServiceName})` : '';
+  const description = [
+    ...details,
+    carrierName ? `Carrier: ${carrierName}` : undefined,
+    schedule.carrierServiceCode ? `Service: ${schedule.carrierServiceCode}${serviceName}` : undefined,
+    call.vessel?.vesselIMONumber ? `Vessel IMO: ${call.vessel.vesselIMONumber}` : undefined,
+    transportCall.location?.facilitySMDGCode ? `Terminal: ${transportCall.location.facilitySMDGCode}` : undefined,
+  ].filter((line): line is string => line !== undefined);
+  const location = transportCall.location?.locationName || transportCall.location?.UNLocationCode;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${start}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `DESCRIPTION:${escapeText(description.join('\n'))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * e.g. "MSC ANNA 123W @ SGSIN"
+ */
+function describeCall(call: CallContext): string {
+  const voyage = call.transportCall.carrierExportVoyageNumber || call.transportCall.carrierImportVoyageNumber;
+  const port = call.transportCall.location?.UNLocationCode || call.transportCall.location?.locationName;
+  return [call.vessel?.name || call.vessel?.vesselIMONumber, voyage, port ? `@ ${port}` : undefined]
+    .filter((part) => !!part)
+    .join(' ');
+}
+
+/**
+ * Stable UID from the call's natural keys and the event kind
+ */
+function createUid(call: CallContext, kind: string): string {
+  const keys = [
+    call.schedule.carrier,
+    call.vessel?.vesselIMONumber || call.vessel?.name,
+    call.transportCall.carrierImportVoyageNumber,
+    call.transportCall.carrierExportVoyageNumber,
+    call.transportCall.location?.UNLocationCode,
+    call.transportCall.transportCallReference,
+    kind,
+  ].map((key) => (key || '').trim().toUpperCase());
+  return `${createHash('sha256').update(keys.join('|')).digest('hex').substring(0, 32)}@${UID_DOMAIN}`;
+}
+
+/**
+ * Format an ISO 8601 date/time as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+function formatDateTime(dateTime: string): string | undefined {
+  const date = new Date(dateTime);
+  return isNaN(date.getTime()) ? undefined : toCalendarDateTime(date);
+}
+
+function toCalendarDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,129 @@
+import { EquipmentEvent, EquipmentEventTypeCode, TrackingEvent, TransportEvent } from '@domain/models/tracking';
+import { deriveMilestones, deriveShipmentPorts } from './milestoneMapper';
+
+function equipmentEvent(
+  equipmentEventTypeCode: EquipmentEventTypeCode,
+  UNLocationCode: string,
+  eventDateTime: string,
+  overrides: Partial<EquipmentEvent> = {}
+): EquipmentEvent {
+  return {
+    eventCreatedDateTime: eventDateTime,
+    eventType: 'EQUIPMENT',
+    eventClassifierCode: 'ACT',
+    eventDateTime,
+    equipmentEventTypeCode,
+    equipmentReference: 'CSQU3054383',
+    emptyIndicatorCode: 'LADEN',
+    eventLocation: { UNLocationCode },
+    ...overrides,
+  };
+}
+
+function vesselEvent(
+  transportEventTypeCode: 'ARRI' | 'DEPA',
+  UNLocationCode: string,
+  eventDateTime: string,
+  overrides: Partial<TransportEvent> = {}
+): TransportEvent {
+  return {
+    eventCreatedDateTime: eventDateTime,
+    eventType: 'TRANSPORT',
+    eventClassifierCode: 'ACT',
+    eventDateTime,
+    transportEventTypeCode,
+    transportCall: {
+      transportCallID: `${UNLocationCode}-${transportEventTypeCode}`,
+      UNLocationCode,
+      modeOfTransport: 'VESSEL',
+    },
+    ...overrides,
+  };
+}
+
+// Busan -> Singapore (transshipment) -> Rotterdam
+const journey: TrackingEvent[] = [
+  equipmentEvent('PICK', 'KRPUS', '2024-03-01T00:00:00Z', { emptyIndicatorCode: 'EMPTY' }),
+  equipmentEvent('GTIN', 'KRPUS', '2024-03-02T00:00:00Z'),
+  equipmentEvent('LOAD', 'KRPUS', '2024-03-03T00:00:00Z'),
+  vesselEvent('DEPA', 'KRPUS', '2024-03-03T12:00:00Z'),
+  equipmentEvent('DISC', 'SGSIN', '2024-03-10T00:00:00Z'),
+  equipmentEvent('LOAD', 'SGSIN', '2024-03-12T00:00:00Z'),
+  equipmentEvent('DISC', 'NLRTM', '2024-04-01T00:00:00Z'),
+  equipmentEvent('GTOT', 'NLRTM', '2024-04-02T00:00:00Z'),
+  equipmentEvent('DROP', 'NLRTM', '2024-04-05T00:00:00Z', { emptyIndicatorCode: 'EMPTY' }),
+];
+
+describe('milestoneMapper', () => {
+  describe('deriveShipmentPorts', () => {
+    it('derives ports of loading, discharge and transshipment from LOAD/DISC events', () => {
+      const ports = deriveShipmentPorts(journey);
+
+      expect(ports.portOfLoading?.UNLocationCode).toBe('KRPUS');
+      expect(ports.portOfDischarge?.UNLocationCode).toBe('NLRTM');
+      expect(ports.transshipmentPorts.map((port) => port.UNLocationCode)).toEqual(['SGSIN']);
+    });
+
+    it('falls back to vessel departures and arrivals', () => {
+      const ports = deriveShipmentPorts([
+        vesselEvent('DEPA', 'KRPUS', '2024-03-03T00:00:00Z'),
+        vesselEvent('ARRI', 'SGSIN', '2024-03-10T00:00:00Z'),
+        vesselEvent('DEPA', 'SGSIN', '2024-03-12T00:00:00Z'),
+        vesselEvent('ARRI', 'NLRTM', '2024-04-01T00:00:00Z'),
+      ]);
+
+      expect(ports.portOfLoading?.UNLocationCode).toBe('KRPUS');
+      expect(ports.portOfDischarge?.UNLocationCode).toBe('NLRTM');
+      expect(ports.transshipmentPorts.map((port) => port.UNLocationCode)).toEqual(['SGSIN']);
+    });
+  });
+
+  describe('deriveMilestones', () => {
+    it('maps a journey to milestones in chronological order', () => {
+      const milestones = deriveMilestones([...journey].reverse());
+
+      expect(milestones.map((milestone) => [milestone.milestone, milestone.location?.UNLocationCode])).toEqual([
+        ['EMPTY_PICKED_UP', 'KRPUS'],
+        ['GATED_IN', 'KRPUS'],
+        ['LOADED', 'KRPUS'],
+        ['DEPARTED', 'KRPUS'],
+        ['TRANSSHIPPED', 'SGSIN'],
+        ['LOADED', 'SGSIN'],
+        ['DISCHARGED', 'NLRTM'],
+        ['GATED_OUT', 'NLRTM'],
+        ['EMPTY_RETURNED', 'NLRTM'],
+      ]);
+    });
+
+    it('keeps only the most recently reported estimate when there is no actual', () => {
+      const milestones = deriveMilestones([
+        equipmentEvent('LOAD', 'KRPUS', '2024-03-03T00:00:00Z'),
+        equipmentEvent('DISC', 'NLRTM', '2024-04-01T00:00:00Z', {
+          eventClassifierCode: 'EST',
+          eventCreatedDateTime: '2024-03-04T00:00:00Z',
+        }),
+        equipmentEvent('DISC', 'NLRTM', '2024-04-03T00:00:00Z', {
+          eventClassifierCode: 'EST',
+          eventCreatedDateTime: '2024-03-20T00:00:00Z',
+        }),
+      ]);
+
+      const discharged = milestones.filter((milestone) => milestone.milestone === 'DISCHARGED');
+      expect(discharged).toHaveLength(1);
+      expect(discharged[0].eventClassifierCode).toBe('EST');
+      expect(discharged[0].eventDateTime).toBe('2024-04-03T00:00:00Z');
+    });
+
+    it('skips events without an event time and events with a defaulted type code', () => {
+      const milestones = deriveMilestones([
+        equipmentEvent('LOAD', 'KRPUS', '2024-03-03T00:00:00Z'),
+        equipmentEvent('LOAD', 'SGSIN', '2024-03-12T00:00:00Z', { eventDateTime: undefined }),
+        equipmentEvent('DISC', 'NLRTM', '2024-04-01T00:00:00Z', {
+          carrierSpecificData: { eventTypeCodeDefaulted: true },
+        }),
+      ]);
+
+      expect(milestones.map((milestone) => milestone.milestone)).toEqual(['LOADED']);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Milestone Mapper
+ * Derives carrier-neutral milestones from DCSA equipment, transport and shipment events
+ */
+
+import { Milestone, MilestoneEvent } from '@domain/models/milestone';
+import { ShipmentLocation } from '@domain/models/shipment';
+import { TrackingEvent } from '@domain/models/tracking';
+import {
+  deduplicateEvents,
+  getEventLocation,
+  getEventTypeCode,
+  getEventVessel,
+  hasDefaultedEventTypeCode,
+  isEquipmentEvent,
+  isVesselEvent,
+  latestReported,
+  sortChronologically,
+  toTime,
+} from './trackingEventUtils';
+
+/**
+ * Ports of a shipment derived from its events
+ */
+export interface ShipmentPorts {
+  portOfLoading?: ShipmentLocation;
+  portOfDischarge?: ShipmentLocation;
+  transshipmentPorts: ShipmentLocation[];
+}
+
+/**
+ * Context needed to interpret an event: the shipment's ports and when containers were loaded
+ */
+interface MappingContext {
+  ports: ShipmentPorts;
+  hasDischarges: boolean;
+  loadTimes: Map<string, { first: number; last: number }>; // By equipmentReference ('' = any)
+}
+
+/**
+ * Derive ports of loading/discharge and transshipment ports
+ * LOAD/DISC equipment events are used first, vessel DEPA/ARRI events as fallback
+ * @param events Tracking events of one shipment
+ * @returns Ports
+ */
+export function deriveShipmentPorts(events: TrackingEvent[]): ShipmentPorts {
+  const sorted = prepareEvents(events);
+
+  const loads = sorted.filter((event) => isEquipmentEvent(event, 'LOAD') && getEventLocation(event));
+  const discharges = sorted.filter((event) => isEquipmentEvent(event, 'DISC') && getEventLocation(event));
+  const departures = sorted.filter((event) => isVesselEvent(event, 'DEPA') && getEventLocation(event));
+  const arrivals = sorted.filter((event) => isVesselEvent(event, 'ARRI') && getEventLocation(event));
+
+  const polEvent = loads[0] || departures[0];
+  const podEvent = discharges[discharges.length - 1] || arrivals[arrivals.length - 1];
+  const portOfLoading = polEvent ? getEventLocation(polEvent) : undefined;
+  const portOfDischarge = podEvent ? getEventLocation(podEvent) : undefined;
+
+  // Ports where the cargo is discharged and loaded again between POL and POD
+  const transshipmentPorts: ShipmentLocation[] = [];
+  const intermediateEvents = discharges.length + loads.length > 0 ? [...discharges, ...loads] : [...arrivals, ...departures];
+  for (const event of intermediateEvents) {
+    const location = getEventLocation(event)!;
+    if (
+      location.UNLocationCode &&
+      location.UNLocationCode !== portOfLoading?.UNLocationCode &&
+      location.UNLocationCode !== portOfDischarge?.UNLocationCode &&
+      !transshipmentPorts.some((port) => port.UNLocationCode === location.UNLocationCode)
+    ) {
+      transshipmentPorts.push(location);
+    }
+  }
+
+  return { portOfLoading, portOfDischarge, transshipmentPorts };
+}
+
+/**
+ * Derive the milestone timeline of a shipment
+ * Each milestone (per location and container) keeps its actual (ACT) occurrences,
+ * or else only the most recently reported estimate, or else plan
+ * @param events Tracking events of one shipment (one carrier)
+ * @returns Milestones in chronological order
+ */
+export function deriveMilestones(events: TrackingEvent[]): MilestoneEvent[] {
+  const sorted = prepareEvents(events);
+  const context: MappingContext = {
+    ports: deriveShipmentPorts(sorted),
+    hasDischarges: sorted.some((event) => isEquipmentEvent(event, 'DISC')),
+    loadTimes: getLoadTimes(sorted),
+  };
+
+  const groups = new Map<string, Array<{ milestone: MilestoneEvent; eventCreatedDateTime: string }>>();
+  for (const event of sorted) {
+    const milestone = mapEventToMilestone(event, context);
+    // Events without a time cannot be placed on the timeline
+    if (!milestone || !event.eventDateTime) {
+      continue;
+    }
+    const key = [milestone, getEventLocation(event)?.UNLocationCode, getEquipmentReference(event)].join('|');
+    groups.set(key, [
+      ...(groups.get(key) || []),
+      {
+        milestone: {
+          milestone,
+          eventClassifierCode: event.eventClassifierCode,
+          eventDateTime: event.eventDateTime,
+          location: getEventLocation(event),
+          vessel: getEventVessel(event),
+          equipmentReference: getEquipmentReference(event),
+          sourceEventType: event.eventType,
+          sourceEventTypeCode: getEventTypeCode(event),
+          sourceEventID: event.eventID,
+        },
+        eventCreatedDateTime: event.eventCreatedDateTime,
+      },
+    ]);
+  }
+
+  const milestones: MilestoneEvent[] = [];
+  for (const group of groups.values()) {
+    const actual = group.filter((entry) => entry.milestone.eventClassifierCode === 'ACT');
+    if (actual.length > 0) {
+      // Transport and equipment events can report the same milestone at the same time
+      const times = new Set<number>();
+      for (const entry of actual) {
+        const time = toTime(entry.milestone.eventDateTime);
+        if (!times.has(time)) {
+          times.add(time);
+          milestones.push(entry.milestone);
+        }
+      }
+      continue;
+    }
+    const latest =
+      latestReported(group.filter((entry) => entry.milestone.eventClassifierCode === 'EST')) ||
+      latestReported(group.filter((entry) => entry.milestone.eventClassifierCode === 'PLN'));
+    if (latest) {
+      milestones.push(latest.milestone);
+    }
+  }
+
+  return sortChronologically(milestones);
+}
+
+/**
+ * Map one event to a milestone
+ * @returns Milestone, or undefined if the event does not mark one
+ */
+function mapEventToMilestone(event: TrackingEvent, context: MappingContext): Milestone | undefined {
+  const location = getEventLocation(event)?.UNLocationCode;
+  const pol = context.ports.portOfLoading?.UNLocationCode;
+  const pod = context.ports.portOfDischarge?.UNLocationCode;
+
+  switch (event.eventType) {
+    case 'SHIPMENT':
+      return event.shipmentEventTypeCode === 'CONF' &&
+        (event.documentTypeCode === 'BKG' || event.documentTypeCode === 'CBR')
+        ? 'BOOKED'
+        : undefined;
+
+    case 'TRANSPORT':
+      if (isVesselEvent(event, 'DEPA')) {
+        return 'DEPARTED';
+      }
+      if (isVesselEvent(event, 'ARRI')) {
+        if (location && location === pod) {
+          return 'ARRIVED';
+        }
+        // Without discharge events, an arrival between POL and POD is the only transshipment signal
+        return !context.hasDischarges && location && location !== pol ? 'TRANSSHIPPED' : undefined;
+      }
+      return undefined;
+
+    case 'EQUIPMENT': {
+      const empty = event.emptyIndicatorCode === 'EMPTY';
+      const loadTime = context.loadTimes.get(event.equipmentReference || '') || context.loadTimes.get('');
+      const time = toTime(event.eventDateTime);
+      const beforeLoad = !loadTime || time < loadTime.first;
+      const afterLoad = !!loadTime && time > loadTime.last;
+
+      switch (event.equipmentEventTypeCode) {
+        case 'PICK':
+          return empty && beforeLoad ? 'EMPTY_PICKED_UP' : undefined;
+        case 'GTOT':
+          if (empty && beforeLoad) {
+            return 'EMPTY_PICKED_UP';
+          }
+          return !empty && afterLoad ? 'GATED_OUT' : undefined;
+        case 'GTIN':
+          if (!empty && beforeLoad) {
+            return 'GATED_IN';
+          }
+          return empty && afterLoad ? 'EMPTY_RETURNED' : undefined;
+        case 'DROP':
+          return empty && afterLoad ? 'EMPTY_RETURNED' : undefined;
+        case 'LOAD':
+          return 'LOADED';
+        case 'DISC':
+          return !pod || location === pod ? 'DISCHARGED' : 'TRANSSHIPPED';
+        default:
+          return undefined;
+      }
+    }
+  }
+}
+
+/**
+ * Remove duplicates and events without a reliable type code, then sort chronologically
+ */
+function prepareEvents(events: TrackingEvent[]): TrackingEvent[] {
+  return sortChronologically(deduplicateEvents(events).filter((event) => !hasDefaultedEventTypeCode(event)));
+}
+
+/**
+ * First and last LOAD time per container (key '' covers all containers)
+ */
+function getLoadTimes(sorted: TrackingEvent[]): Map<string, { first: number; last: number }> {
+  const loadTimes = new Map<string, { first: number; last: number }>();
+  for (const event of sorted) {
+    if (!isEquipmentEvent(event, 'LOAD')) {
+      continue;
+    }
+    const time = toTime(event.eventDateTime);
+    for (const key of ['', getEquipmentReference(event) || '']) {
+      const current = loadTimes.get(key);
+      loadTimes.set(key, {
+        first: current ? Math.min(current.first, time) : time,
+        last: current ? Math.max(current.last, time) : time,
+      });
+    }
+  }
+  return loadTimes;
+}
+
+function getEquipmentReference(event: TrackingEvent): string | undefined {
+  return event.eventType === 'EQUIPMENT' ? event.equipmentReference : undefined;
+}
@@ -0,0 +1,58 @@
+import { isReservedAddress, isReservedHost } from './networkAddress';
+
+describe('networkAddress', () => {
+  describe('isReservedAddress', () => {
+    it('flags loopback, private, link-local and other reserved IPv4 addresses', () => {
+      expect(isReservedAddress('127.0.0.1')).toBe(true);
+      expect(isReservedAddress('10.1.2.3')).toBe(true);
+      expect(isReservedAddress('172.16.0.1')).toBe(true);
+      expect(isReservedAddress('172.31.255.255')).toBe(true);
+      expect(isReservedAddress('192.168.0.10')).toBe(true);
+      expect(isReservedAddress('169.254.169.254')).toBe(true);
+      expect(isReservedAddress('100.64.0.1')).toBe(true);
+      expect(isReservedAddress('0.0.0.0')).toBe(true);
+      expect(isReservedAddress('255.255.255.255')).toBe(true);
+    });
+
+    it('accepts public IPv4 addresses', () => {
+      expect(isReservedAddress('8.8.8.8')).toBe(false);
+      expect(isReservedAddress('172.32.0.1')).toBe(false);
+      expect(isReservedAddress('192.169.0.1')).toBe(false);
+    });
+
+    it('flags loopback, unique local, link-local and IPv4-mapped reserved IPv6 addresses', () => {
+      expect(isReservedAddress('::1')).toBe(true);
+      expect(isReservedAddress('::')).toBe(true);
+      expect(isReservedAddress('fd12:3456::1')).toBe(true);
+      expect(isReservedAddress('fe80::1%eth0')).toBe(true);
+      expect(isReservedAddress('::ffff:127.0.0.1')).toBe(true);
+      expect(isReservedAddress('::ffff:a9fe:a9fe')).toBe(true);
+    });
+
+    it('accepts public IPv6 addresses', () => {
+      expect(isReservedAddress('2001:4860:4860::8888')).toBe(false);
+      expect(isReservedAddress('::ffff:8.8.8.8')).toBe(false);
+    });
+
+    it('ignores host names', () => {
+      expect(isReservedAddress('example.com')).toBe(false);
+    });
+  });
+
+  describe('isReservedHost', () => {
+    it('flags localhost names and reserved IP literals as URL host names', () => {
+      expect(isReservedHost('localhost')).toBe(true);
+      expect(isReservedHost('api.localhost')).toBe(true);
+      expect(isReservedHost('LOCALHOST.')).toBe(true);
+      expect(isReservedHost(new URL('http://[::1]:8080/hook').hostname)).toBe(true);
+      // Numeric host forms are normalized to dotted notation by URL
+      expect(isReservedHost(new URL('http://2130706433/hook').hostname)).toBe(true);
+      expect(isReservedHost(new URL('http://0x7f.1/hook').hostname)).toBe(true);
+    });
+
+    it('accepts other host names', () => {
+      expect(isReservedHost('tms.example.com')).toBe(false);
+      expect(isReservedHost('localhost.example.com')).toBe(false);
+    });
+  });
+});
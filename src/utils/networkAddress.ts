@@ -0,0 +1,107 @@
+/**
+ * Network Address Utilities
+ * Classify hosts and IP addresses that outbound callbacks must not reach
+ */
+
+import { isIP } from 'net';
+
+/**
+ * Private, loopback, link-local and other reserved IPv4 ranges (address, prefix length)
+ */
+const RESERVED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private (RFC 1918)
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local (cloud metadata endpoints)
+  ['172.16.0.0', 12], // Private (RFC 1918)
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private (RFC 1918)
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+/**
+ * Check if a host name or IP literal (as in URL.hostname) is local, private or reserved
+ * Other host names are not resolved; check their addresses with isReservedAddress when connecting
+ */
+export function isReservedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+  return isReservedAddress(host);
+}
+
+/**
+ * Check if an IP address is private, loopback, link-local or otherwise reserved
+ * @returns false for anything that is not an IP address
+ */
+export function isReservedAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isReservedIPv4(address);
+    case 6:
+      return isReservedIPv6(address);
+    default:
+      return false;
+  }
+}
+
+function isReservedIPv4(address: string): boolean {
+  const value = toIPv4Number(address);
+  return RESERVED_IPV4_RANGES.some(([network, prefixLength]) => {
+    const mask = prefixLength === 0 ? 0 : (~0 << (32 - prefixLength)) >>> 0;
+    return ((value & mask) >>> 0) === ((toIPv4Number(network) & mask) >>> 0);
+  });
+}
+
+function isReservedIPv6(address: string): boolean {
+  const groups = toIPv6Groups(address);
+  const [first] = groups;
+
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) {
+    return true;
+  }
+  // Unique local (fc00::/7), link-local (fe80::/10), multicast (ff00::/8)
+  if ((first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00) {
+    return true;
+  }
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the embedded IPv4 address
+  const isMapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const isNat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (isMapped || isNat64) {
+    const embedded = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    return isReservedIPv4(embedded);
+  }
+  return false;
+}
+
+function toIPv4Number(address: string): number {
+  return address.split('.').reduce((value, octet) => ((value << 8) | parseInt(octet, 10)) >>> 0, 0);
+}
+
+/**
+ * Expand an IPv6 address to its eight 16-bit groups
+ */
+function toIPv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+
+  // Trailing dotted IPv4 notation (e.g. ::ffff:127.0.0.1)
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map((octet) => parseInt(octet, 10));
+    text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeroGroups = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeroGroups, ...tailGroups].map((group) => parseInt(group, 16));
+}
@@ -0,0 +1,90 @@
+import { PortCall } from '@domain/models/portSchedule';
+import { mergePortCalls, sortPortCalls } from './portSchedule';
+
+function createCall(overrides: Partial<PortCall>): PortCall {
+  return {
+    carrier: 'CMCG',
+    carrierName: 'CMA CGM',
+    transportCallReference: 'CMCG-1',
+    UNLocationCode: 'KRPUS',
+    facilitySMDGCode: 'PNC',
+    vesselIMONumber: '9454436',
+    vesselName: 'CMA CGM MARCO POLO',
+    carrierServiceCode: 'FAL1',
+    carrierExportVoyageNumber: '0FAL2E',
+    estimatedArrivalDateTime: '2025-01-07T08:00:00Z',
+    estimatedDepartureDateTime: '2025-01-08T02:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('portSchedule', () => {
+  describe('mergePortCalls', () => {
+    it('merges a call reported by several carriers into one row listing them', () => {
+      const merged = mergePortCalls([
+        createCall({}),
+        createCall({
+          carrier: 'MAERSK',
+          carrierName: 'Maersk',
+          transportCallReference: 'MAEU-1',
+          carrierServiceCode: 'AE1',
+          // Another estimate for the same call
+          estimatedArrivalDateTime: '2025-01-07T11:00:00Z',
+          actualArrivalDateTime: '2025-01-07T10:30:00Z',
+        }),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].carrier).toBe('CMCG');
+      expect(merged[0].estimatedArrivalDateTime).toBe('2025-01-07T08:00:00Z');
+      expect(merged[0].actualArrivalDateTime).toBe('2025-01-07T10:30:00Z');
+      expect(merged[0].carriers).toEqual([
+        expect.objectContaining({ carrier: 'CMCG', transportCallReference: 'CMCG-1', carrierServiceCode: 'FAL1' }),
+        expect.objectContaining({ carrier: 'MAERSK', transportCallReference: 'MAEU-1', carrierServiceCode: 'AE1' }),
+      ]);
+    });
+
+    it('matches vessels by name when a carrier sends no IMO number', () => {
+      const merged = mergePortCalls([
+        createCall({ vesselIMONumber: undefined }),
+        createCall({ carrier: 'HMM', vesselIMONumber: undefined, vesselName: 'cma cgm marco polo ' }),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].carriers.map((reporter) => reporter.carrier)).toEqual(['CMCG', 'HMM']);
+    });
+
+    it('keeps calls apart when vessel, voyage, terminal or arrival day differ', () => {
+      const merged = mergePortCalls([
+        createCall({}),
+        createCall({ carrier: 'HMM', vesselIMONumber: '9863297' }),
+        createCall({ carrier: 'HMM', carrierExportVoyageNumber: '0FAL4E' }),
+        createCall({ carrier: 'HMM', facilitySMDGCode: 'HJNC' }),
+        createCall({ carrier: 'HMM', estimatedArrivalDateTime: '2025-01-14T08:00:00Z' }),
+      ]);
+
+      expect(merged).toHaveLength(5);
+    });
+
+    it('never merges calls without a vessel', () => {
+      const merged = mergePortCalls([
+        createCall({ isDummyVessel: true, vesselIMONumber: undefined, vesselName: undefined }),
+        createCall({ carrier: 'HMM', isDummyVessel: true, vesselIMONumber: undefined, vesselName: undefined }),
+      ]);
+
+      expect(merged).toHaveLength(2);
+    });
+  });
+
+  describe('sortPortCalls', () => {
+    it('sorts by actual or estimated arrival, then departure', () => {
+      const sorted = sortPortCalls([
+        createCall({ transportCallReference: 'late', estimatedArrivalDateTime: '2025-01-09T00:00:00Z' }),
+        createCall({ transportCallReference: 'actual', actualArrivalDateTime: '2025-01-06T00:00:00Z' }),
+        createCall({ transportCallReference: 'estimate' }),
+      ]);
+
+      expect(sorted.map((call) => call.transportCallReference)).toEqual(['actual', 'estimate', 'late']);
+    });
+  });
+});
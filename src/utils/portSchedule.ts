@@ -0,0 +1,225 @@
+/**
+ * Port Schedule Utilities
+ * Turns carrier service schedules into terminal-centric port calls
+ */
+
+import { EventClassifierCode, EventTypeCode, ServiceSchedule, Timestamp } from '@domain/models/schedule';
+import { MergedPortCall, PortCall, PortCallCarrier, PortScheduleWindow } from '@domain/models/portSchedule';
+import { toTime } from './trackingEventUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days covered when no end date is given (from the start date on)
+ */
+export const DEFAULT_PORT_SCHEDULE_DAYS = 7;
+
+/**
+ * Longest window a port schedule query may cover, in days
+ */
+export const MAX_PORT_SCHEDULE_DAYS = 31;
+
+/**
+ * Build the window of a port schedule query, defaulting to DEFAULT_PORT_SCHEDULE_DAYS from today
+ * @param UNLocationCode Port
+ * @param from First day (ISO 8601 date)
+ * @param to Last day (ISO 8601 date)
+ * @param terminal SMDG terminal code
+ * @returns Port schedule window with upper-case codes
+ */
+export function resolvePortScheduleWindow(
+  UNLocationCode: string,
+  from?: string,
+  to?: string,
+  terminal?: string
+): PortScheduleWindow {
+  const start = from ? new Date(from) : new Date();
+  const end = to ? new Date(to) : new Date(start.getTime() + (DEFAULT_PORT_SCHEDULE_DAYS - 1) * DAY_MS);
+  return {
+    UNLocationCode: UNLocationCode.toUpperCase(),
+    from: start.toISOString().split('T')[0],
+    to: end.toISOString().split('T')[0],
+    terminal: terminal ? terminal.toUpperCase() : undefined,
+  };
+}
+
+/**
+ * Flatten service schedules to the calls at one port
+ * Carriers may return whole voyages; only the transport calls at the port are kept
+ * @param schedules Service schedules returned by one carrier
+ * @param carrier Carrier code
+ * @param carrierName Carrier name
+ * @param UNLocationCode Port the calls are taken from
+ * @returns One port call per transport call at the port
+ */
+export function toPortCalls(
+  schedules: ServiceSchedule[],
+  carrier: string,
+  carrierName: string | undefined,
+  UNLocationCode: string
+): PortCall[] {
+  const calls: PortCall[] = [];
+
+  for (const schedule of schedules) {
+    for (const vesselSchedule of schedule.vesselSchedules || []) {
+      for (const transportCall of vesselSchedule.transportCalls || []) {
+        if (transportCall.location?.UNLocationCode?.toUpperCase() !== UNLocationCode) {
+          continue;
+        }
+        const timestamps = transportCall.timestamps;
+        calls.push({
+          carrier,
+          carrierName,
+          transportCallReference: transportCall.transportCallReference,
+          UNLocationCode,
+          locationName: transportCall.location.locationName,
+          facilitySMDGCode: transportCall.location.facilitySMDGCode,
+          vesselIMONumber: vesselSchedule.vessel?.vesselIMONumber,
+          vesselName: vesselSchedule.vessel?.name,
+          isDummyVessel: vesselSchedule.isDummyVessel,
+          carrierServiceCode: schedule.carrierServiceCode,
+          carrierServiceName: schedule.carrierServiceName,
+          carrierImportVoyageNumber: transportCall.carrierImportVoyageNumber,
+          carrierExportVoyageNumber: transportCall.carrierExportVoyageNumber,
+          estimatedArrivalDateTime:
+            findTimestamp(timestamps, 'ARRI', 'EST') || findTimestamp(timestamps, 'ARRI', 'PLN'),
+          estimatedDepartureDateTime:
+            findTimestamp(timestamps, 'DEPA', 'EST') || findTimestamp(timestamps, 'DEPA', 'PLN'),
+          actualArrivalDateTime: findTimestamp(timestamps, 'ARRI', 'ACT'),
+          actualDepartureDateTime: findTimestamp(timestamps, 'DEPA', 'ACT'),
+          cutOffTimes: transportCall.cutOffTimes,
+        });
+      }
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Keep the calls at the port during the window (and at the terminal, if one is given)
+ * A call is kept when the vessel is alongside on any day of the window
+ * @param calls Port calls
+ * @param window Port, dates and terminal
+ * @returns Matching port calls
+ */
+export function filterPortCalls(calls: PortCall[], window: PortScheduleWindow): PortCall[] {
+  const windowStart = toTime(window.from);
+  const windowEnd = toTime(window.to) + DAY_MS;
+  const terminal = window.terminal?.toUpperCase();
+
+  return calls.filter((call) => {
+    if (terminal && call.facilitySMDGCode?.toUpperCase() !== terminal) {
+      return false;
+    }
+    const arrival = getArrivalTime(call);
+    const departure = getDepartureTime(call);
+    if (!arrival && !departure) {
+      return false;
+    }
+    return (arrival || departure) < windowEnd && (departure || arrival) >= windowStart;
+  });
+}
+
+/**
+ * Merge the calls reported by several carriers into one row per vessel call
+ * Calls are the same when vessel (IMO number, else name), voyage, port, terminal and arrival day match;
+ * the day is compared rather than the time because carriers' estimates for one call often differ by hours.
+ * Calls without a vessel or time are never merged.
+ * @param calls Port calls of all carriers, in carrier order
+ * @returns Merged port calls listing the carriers that reported them
+ */
+export function mergePortCalls(calls: PortCall[]): MergedPortCall[] {
+  const merged: MergedPortCall[] = [];
+  const byKey = new Map<string, MergedPortCall>();
+
+  for (const call of calls) {
+    const key = getPortCallKey(call);
+    const existing = key ? byKey.get(key) : undefined;
+    if (!existing) {
+      const row: MergedPortCall = { ...call, carriers: [toPortCallCarrier(call)] };
+      merged.push(row);
+      if (key) {
+        byKey.set(key, row);
+      }
+      continue;
+    }
+
+    if (
+      !existing.carriers.some(
+        (reporter) =>
+          reporter.carrier === call.carrier && reporter.transportCallReference === call.transportCallReference
+      )
+    ) {
+      existing.carriers.push(toPortCallCarrier(call));
+    }
+    // Complete what the first carrier left out (e.g. one carrier already reports the actual arrival)
+    existing.locationName = existing.locationName || call.locationName;
+    existing.vesselIMONumber = existing.vesselIMONumber || call.vesselIMONumber;
+    existing.vesselName = existing.vesselName || call.vesselName;
+    existing.estimatedArrivalDateTime = existing.estimatedArrivalDateTime || call.estimatedArrivalDateTime;
+    existing.estimatedDepartureDateTime = existing.estimatedDepartureDateTime || call.estimatedDepartureDateTime;
+    existing.actualArrivalDateTime = existing.actualArrivalDateTime || call.actualArrivalDateTime;
+    existing.actualDepartureDateTime = existing.actualDepartureDateTime || call.actualDepartureDateTime;
+    existing.cutOffTimes = existing.cutOffTimes || call.cutOffTimes;
+  }
+
+  return merged;
+}
+
+/**
+ * Sort port calls by arrival (actual, then estimated), then departure
+ * @param calls Port calls
+ * @returns New array in chronological order
+ */
+export function sortPortCalls<T extends PortCall>(calls: T[]): T[] {
+  return [...calls].sort(
+    (a, b) =>
+      (getArrivalTime(a) || getDepartureTime(a)) - (getArrivalTime(b) || getDepartureTime(b)) ||
+      getDepartureTime(a) - getDepartureTime(b)
+  );
+}
+
+/**
+ * Identity of a vessel call across carriers, or undefined when the call cannot be identified
+ */
+function getPortCallKey(call: PortCall): string | undefined {
+  const vessel = call.isDummyVessel ? undefined : call.vesselIMONumber || call.vesselName?.trim().toUpperCase();
+  const voyage = call.carrierExportVoyageNumber || call.carrierImportVoyageNumber;
+  const time = getArrivalTime(call) || getDepartureTime(call);
+  if (!vessel || !voyage || !time) {
+    return undefined;
+  }
+  const day = new Date(time).toISOString().split('T')[0];
+  return [vessel, voyage.toUpperCase(), call.UNLocationCode, call.facilitySMDGCode?.toUpperCase(), day].join('|');
+}
+
+function toPortCallCarrier(call: PortCall): PortCallCarrier {
+  return {
+    carrier: call.carrier,
+    carrierName: call.carrierName,
+    transportCallReference: call.transportCallReference,
+    carrierServiceCode: call.carrierServiceCode,
+    carrierServiceName: call.carrierServiceName,
+    carrierImportVoyageNumber: call.carrierImportVoyageNumber,
+    carrierExportVoyageNumber: call.carrierExportVoyageNumber,
+  };
+}
+
+function getArrivalTime(call: PortCall): number {
+  return toTime(call.actualArrivalDateTime || call.estimatedArrivalDateTime);
+}
+
+function getDepartureTime(call: PortCall): number {
+  return toTime(call.actualDepartureDateTime || call.estimatedDepartureDateTime);
+}
+
+function findTimestamp(
+  timestamps: Timestamp[] | undefined,
+  eventTypeCode: EventTypeCode,
+  eventClassifierCode: EventClassifierCode
+): string | undefined {
+  return (timestamps || []).find(
+    (timestamp) => timestamp.eventTypeCode === eventTypeCode && timestamp.eventClassifierCode === eventClassifierCode
+  )?.eventDateTime;
+}
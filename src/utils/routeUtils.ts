@@ -0,0 +1,61 @@
+/**
+ * Route Utilities
+ * Helpers shared by carrier mappers that build PointToPointRoute models
+ */
+
+import { RouteLeg, Transshipment } from '@domain/models/route';
+
+/**
+ * Derive transshipment ports from consecutive legs
+ * A transshipment is recorded wherever one leg arrives and the next leg departs
+ * @param legs Route legs ordered by sequence number
+ * @returns Array of transshipments
+ */
+export function deriveTransshipments(legs: RouteLeg[]): Transshipment[] {
+  const transshipments: Transshipment[] = [];
+
+  for (let i = 0; i < legs.length - 1; i++) {
+    const current = legs[i];
+    const next = legs[i + 1];
+
+    // Only vessel-to-vessel changes count as transshipments (skip inland pre/on-carriage)
+    if (!isSeaLeg(current) || !isSeaLeg(next)) {
+      continue;
+    }
+
+    transshipments.push({
+      location: next.departure.location.UNLocationCode ? next.departure.location : current.arrival.location,
+      arrivalDateTime: current.arrival.dateTime,
+      departureDateTime: next.departure.dateTime,
+    });
+  }
+
+  return transshipments;
+}
+
+/**
+ * Calculate transit time in whole days between two ISO 8601 date/times
+ * @param from Departure date/time
+ * @param to Arrival date/time
+ * @returns Transit time in days, or undefined if either date is missing or invalid
+ */
+export function calculateTransitDays(from?: string, to?: string): number | undefined {
+  if (!from || !to) {
+    return undefined;
+  }
+
+  const start = new Date(from).getTime();
+  const end = new Date(to).getTime();
+  if (isNaN(start) || isNaN(end) || end < start) {
+    return undefined;
+  }
+
+  return Math.ceil((end - start) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Check if a leg is carried by a vessel or barge
+ */
+function isSeaLeg(leg: RouteLeg): boolean {
+  return leg.modeOfTransport === 'VESSEL' || leg.modeOfTransport === 'BARGE';
+}
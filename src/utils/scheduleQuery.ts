@@ -0,0 +1,258 @@
+/**
+ * Schedule Query Parsing
+ * Parameter schemas per schedule query mode, query string coercion and per-carrier narrowing
+ */
+
+import {
+  PointToPointScheduleQuery,
+  PortScheduleQuery,
+  ScheduleQuery,
+  ScheduleQueryInput,
+  ScheduleQueryMode,
+  ServiceScheduleQuery,
+  VesselScheduleQuery,
+  VoyageScheduleQuery,
+} from '@domain/models/scheduleQuery';
+import { CarrierCapabilities } from '@domain/models/capability';
+import { findQueryMode } from './capabilityUtils';
+
+/**
+ * Type a query string value is coerced to
+ */
+export type QueryParamType = 'string' | 'number' | 'boolean' | 'string[]';
+
+/**
+ * Parameter schema of a query mode: the coerced type of every field
+ * (checked against the mode's interface, so schema and type cannot drift apart)
+ */
+type QueryParamSchema<T> = {
+  [K in Exclude<keyof T, 'mode'>]-?: NonNullable<T[K]> extends number
+    ? 'number'
+    : NonNullable<T[K]> extends boolean
+      ? 'boolean'
+      : NonNullable<T[K]> extends string[]
+        ? 'string[]'
+        : 'string';
+};
+
+const VESSEL_SCHEDULE_SCHEMA: QueryParamSchema<VesselScheduleQuery> = {
+  vesselIMONumber: 'string',
+  vesselName: 'string',
+  carrierServiceCode: 'string',
+  universalServiceReference: 'string',
+  carrierVoyageNumber: 'string',
+  universalVoyageReference: 'string',
+  UNLocationCode: 'string',
+  facilitySMDGCode: 'string',
+  vesselOperatorCarrierCode: 'string',
+  startDate: 'string',
+  endDate: 'string',
+  limit: 'number',
+};
+
+const PORT_SCHEDULE_SCHEMA: QueryParamSchema<PortScheduleQuery> = {
+  UNLocationCode: 'string',
+  date: 'string',
+  startDate: 'string',
+  endDate: 'string',
+  vesselOperatorCarrierCode: 'string',
+  limit: 'number',
+};
+
+const POINT_TO_POINT_SCHEMA: QueryParamSchema<PointToPointScheduleQuery> = {
+  startDate: 'string',
+  endDate: 'string',
+  fromLocationCode: 'string',
+  toLocationCode: 'string',
+  periodDate: 'string',
+  weekTerm: 'number',
+  receiveTermCode: 'string',
+  deliveryTermCode: 'string',
+  webSort: 'string',
+  webPriority: 'string',
+  placeOfLoading: 'string',
+  placeOfDischarge: 'string',
+  unLocodePlaceOfLoading: 'string',
+  unLocodePlaceOfDischarge: 'string',
+  shippingCompany: 'string',
+  departureDate: 'string',
+  arrivalDate: 'string',
+  searchRange: 'number',
+  polVesselIMO: 'string',
+  polServiceCode: 'string',
+  maxTs: 'number',
+  numberOfTEU: 'number',
+  specificRoutings: 'string[]',
+  useRoutingStatistics: 'boolean',
+  placeOfReceipt: 'string',
+  placeOfDelivery: 'string',
+  departureStartDate: 'string',
+  departureEndDate: 'string',
+  arrivalStartDate: 'string',
+  arrivalEndDate: 'string',
+  maxTranshipment: 'number',
+  receiptTypeAtOrigin: 'string',
+  deliveryTypeAtDestination: 'string',
+  cargoType: 'string',
+  ISOEquipmentCode: 'string',
+  stuffingWeight: 'number',
+  stuffingVolume: 'number',
+  originCode: 'string',
+  destCode: 'string',
+};
+
+const SERVICE_SCHEMA: QueryParamSchema<ServiceScheduleQuery> = {
+  serviceCode: 'string',
+  carrierServiceCode: 'string',
+  lineCode: 'string',
+  zoneFromCode: 'string',
+  zoneToCode: 'string',
+  port: 'string',
+  terminal: 'string',
+  vesselIMO: 'string',
+};
+
+const VOYAGE_SCHEMA: QueryParamSchema<VoyageScheduleQuery> = {
+  voyageCode: 'string',
+  carrierVoyageNumber: 'string',
+  vesselIMO: 'string',
+  vesselIMONumber: 'string',
+  from: 'string',
+  to: 'string',
+  startDate: 'string',
+  endDate: 'string',
+  portCode: 'string[]',
+  countryCode: 'string[]',
+  shipcomp: 'string[]',
+  searchType: 'string',
+  sort: 'string',
+};
+
+/**
+ * Parameter schema per schedule query mode
+ */
+export const SCHEDULE_QUERY_SCHEMAS: Record<ScheduleQueryMode, Record<string, QueryParamType>> = {
+  VESSEL_SCHEDULE: VESSEL_SCHEDULE_SCHEMA,
+  PORT_SCHEDULE: PORT_SCHEDULE_SCHEMA,
+  POINT_TO_POINT: POINT_TO_POINT_SCHEMA,
+  SERVICE: SERVICE_SCHEMA,
+  VOYAGE: VOYAGE_SCHEMA,
+};
+
+/**
+ * Parameters handled by the schedule API itself rather than passed to carriers
+ */
+export const SCHEDULE_CONTROL_PARAMS = ['carrier', 'cursor', 'fetchAll', 'format', 'columns'];
+
+/**
+ * Result of parsing a schedule query string
+ */
+export interface ParsedScheduleQuery {
+  input: ScheduleQueryInput;
+  unknownParams: string[]; // Parameters no schedule query mode accepts (ignored)
+  errors: Array<{ field: string; message: string }>; // Values that could not be coerced
+}
+
+/**
+ * Parse a schedule query string once into typed parameters
+ * Numbers, booleans ("true"/"false") and arrays (repeated or comma-separated) are coerced
+ * @param query Query string parameters (req.query)
+ * @returns Parsed parameters, unknown parameters and coercion errors
+ */
+export function parseScheduleQuery(query: Record<string, unknown>): ParsedScheduleQuery {
+  const paramTypes = getScheduleParamTypes();
+  const input: Record<string, string | number | boolean | string[]> = {};
+  const unknownParams: string[] = [];
+  const errors: Array<{ field: string; message: string }> = [];
+
+  for (const [field, rawValue] of Object.entries(query)) {
+    if (SCHEDULE_CONTROL_PARAMS.includes(field) || rawValue === undefined || rawValue === '') {
+      continue;
+    }
+    const type = paramTypes.get(field);
+    if (!type) {
+      unknownParams.push(field);
+      continue;
+    }
+
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).map((value) => String(value).trim());
+    if (type === 'string[]') {
+      input[field] = values
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter((value) => !!value);
+      continue;
+    }
+    if (values.length > 1) {
+      errors.push({ field, message: `${field} must be given once` });
+      continue;
+    }
+
+    const value = values[0];
+    if (type === 'number') {
+      const numberValue = Number(value);
+      if (!/^-?\d+(\.\d+)?$/.test(value) || !Number.isFinite(numberValue)) {
+        errors.push({ field, message: `${field} must be a number` });
+        continue;
+      }
+      input[field] = numberValue;
+    } else if (type === 'boolean') {
+      if (value !== 'true' && value !== 'false') {
+        errors.push({ field, message: `${field} must be "true" or "false"` });
+        continue;
+      }
+      input[field] = value === 'true';
+    } else {
+      input[field] = value;
+    }
+  }
+
+  return { input: input as ScheduleQueryInput, unknownParams, errors };
+}
+
+/**
+ * Narrow parsed parameters to the query a carrier adapter receives
+ * The carrier's first matching schedule mode is used; only the fields that mode
+ * passes to the carrier are kept
+ * @param capabilities Carrier capability descriptor
+ * @param input Parsed schedule query parameters
+ * @returns Typed query, or undefined if the carrier cannot serve the parameters
+ */
+export function resolveScheduleQuery(
+  capabilities: CarrierCapabilities,
+  input: ScheduleQueryInput
+): ScheduleQuery | undefined {
+  const queryMode = findQueryMode(capabilities, 'schedule', input);
+  if (!queryMode || !(queryMode.mode in SCHEDULE_QUERY_SCHEMAS)) {
+    return undefined;
+  }
+
+  const mode = queryMode.mode as ScheduleQueryMode;
+  const schema = SCHEDULE_QUERY_SCHEMAS[mode];
+  const fields = [...queryMode.requiredParams.flat(), ...queryMode.optionalParams];
+  const query: Record<string, unknown> = { mode };
+  for (const field of fields) {
+    const value = (input as Record<string, unknown>)[field];
+    if (field in schema && value !== undefined) {
+      query[field] = value;
+    }
+  }
+  return query as unknown as ScheduleQuery;
+}
+
+let scheduleParamTypes: Map<string, QueryParamType> | undefined;
+
+/**
+ * Coerced type of every parameter accepted by at least one mode
+ */
+function getScheduleParamTypes(): Map<string, QueryParamType> {
+  if (!scheduleParamTypes) {
+    scheduleParamTypes = new Map();
+    for (const schema of Object.values(SCHEDULE_QUERY_SCHEMAS)) {
+      for (const [field, type] of Object.entries(schema)) {
+        scheduleParamTypes.set(field, type);
+      }
+    }
+  }
+  return scheduleParamTypes;
+}
@@ -0,0 +1,20 @@
+import { isSameVessel } from './scheduleUtils';
+
+describe('isSameVessel', () => {
+  it('matches vessels by IMO number', () => {
+    expect(isSameVessel({ vesselIMONumber: '9454436', name: 'A' }, { vesselIMONumber: '9454436', name: 'B' })).toBe(
+      true
+    );
+    expect(isSameVessel({ vesselIMONumber: '9454436' }, { vesselIMONumber: '9863297' })).toBe(false);
+  });
+
+  it('matches vessels without IMO numbers by name', () => {
+    expect(isSameVessel({ name: 'HMM ALGECIRAS' }, { name: 'hmm algeciras ' })).toBe(true);
+    expect(isSameVessel({ name: 'HMM ALGECIRAS' }, { name: 'HMM OSLO' })).toBe(false);
+  });
+
+  it('does not match a vessel with an IMO number to one without', () => {
+    expect(isSameVessel({ vesselIMONumber: '9863297', name: 'HMM ALGECIRAS' }, { name: 'HMM ALGECIRAS' })).toBe(false);
+    expect(isSameVessel(undefined, { name: 'HMM ALGECIRAS' })).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Schedule Utilities
+ * Carrier-neutral accessors for DCSA service schedules
+ */
+
+import { Vessel } from '@domain/models/common';
+import { EventTypeCode, Timestamp } from '@domain/models/schedule';
+
+// Actual times take precedence over estimates, estimates over plans
+const CLASSIFIER_PRECEDENCE = ['ACT', 'EST', 'PLN'];
+
+/**
+ * Pick the most reliable arrival or departure timestamp of a transport call (ACT, then EST, then PLN)
+ * @param timestamps Transport call timestamps
+ * @param eventTypeCode ARRI or DEPA
+ * @returns Timestamp, or undefined if the call has none of that type
+ */
+export function getPreferredTimestamp(
+  timestamps: Timestamp[] | undefined,
+  eventTypeCode: EventTypeCode
+): Timestamp | undefined {
+  const candidates = (timestamps || []).filter((timestamp) => timestamp.eventTypeCode === eventTypeCode);
+  for (const classifier of CLASSIFIER_PRECEDENCE) {
+    const timestamp = candidates.find((candidate) => candidate.eventClassifierCode === classifier);
+    if (timestamp) {
+      return timestamp;
+    }
+  }
+  return candidates[0];
+}
+
+/**
+ * Check if two vessels are the same: by IMO number, or by name when neither has an IMO number
+ * @param vessel Vessel of an existing vessel schedule
+ * @param other Vessel to match
+ * @returns true if both refer to the same vessel
+ */
+export function isSameVessel(vessel: Vessel | undefined, other: Vessel): boolean {
+  if (!vessel) {
+    return false;
+  }
+  if (vessel.vesselIMONumber || other.vesselIMONumber) {
+    return vessel.vesselIMONumber === other.vesselIMONumber;
+  }
+  return (vessel.name || '').trim().toUpperCase() === (other.name || '').trim().toUpperCase();
+}
@@ -0,0 +1,136 @@
+/**
+ * Shipment Summary
+ * Builds the current status of a shipment from its (carrier-neutral) tracking events
+ */
+
+import { Milestone } from '@domain/models/milestone';
+import { ShipmentLocation, ShipmentStatus, ShipmentSummary } from '@domain/models/shipment';
+import { TrackingEvent } from '@domain/models/tracking';
+import { deriveMilestones, deriveShipmentPorts } from './milestoneMapper';
+import {
+  deduplicateEvents,
+  getEventLocation,
+  getEventVessel,
+  isEquipmentEvent,
+  isVesselEvent,
+  latestReported,
+  sortChronologically,
+} from './trackingEventUtils';
+
+/**
+ * Status reached with each milestone
+ */
+const MILESTONE_STATUS: Record<Milestone, ShipmentStatus> = {
+  BOOKED: 'BOOKED',
+  EMPTY_PICKED_UP: 'EMPTY_PICKED_UP',
+  GATED_IN: 'GATED_IN',
+  LOADED: 'LOADED',
+  DEPARTED: 'IN_TRANSIT',
+  TRANSSHIPPED: 'TRANSSHIPMENT',
+  ARRIVED: 'ARRIVED',
+  DISCHARGED: 'DISCHARGED',
+  GATED_OUT: 'GATED_OUT',
+  EMPTY_RETURNED: 'EMPTY_RETURNED',
+};
+
+/**
+ * Status order; a later milestone never moves the status back (except reloading after transshipment)
+ */
+const STATUS_RANK: Record<ShipmentStatus, number> = {
+  BOOKED: 0,
+  EMPTY_PICKED_UP: 1,
+  GATED_IN: 2,
+  LOADED: 3,
+  IN_TRANSIT: 4,
+  TRANSSHIPMENT: 4,
+  ARRIVED: 5,
+  DISCHARGED: 6,
+  GATED_OUT: 7,
+  EMPTY_RETURNED: 8,
+};
+
+/**
+ * Build a shipment summary
+ * Ports and timeline come from the milestone mapper, the status from actual (ACT) milestones
+ * @param events Tracking events of one carrier
+ * @param context Carrier and references the events were retrieved for
+ * @returns Shipment summary
+ */
+export function buildShipmentSummary(
+  events: TrackingEvent[],
+  context: {
+    reference: string;
+    carrier: string;
+    carrierName?: string;
+    carrierBookingReference?: string;
+    transportDocumentReference?: string;
+  }
+): ShipmentSummary {
+  const sorted = sortChronologically(deduplicateEvents(events));
+  const actual = sorted.filter((event) => event.eventClassifierCode === 'ACT');
+  const { portOfLoading, portOfDischarge, transshipmentPorts } = deriveShipmentPorts(sorted);
+  const timeline = deriveMilestones(sorted);
+
+  // Walk actual milestones to find the furthest status reached
+  let status: ShipmentStatus = 'BOOKED';
+  for (const milestone of timeline) {
+    if (milestone.eventClassifierCode !== 'ACT') {
+      continue;
+    }
+    const next = MILESTONE_STATUS[milestone.milestone];
+    if (STATUS_RANK[next] >= STATUS_RANK[status] || (status === 'TRANSSHIPMENT' && next === 'LOADED')) {
+      status = next;
+    }
+  }
+
+  let lastKnownLocation: ShipmentLocation | undefined;
+  for (const event of actual) {
+    lastKnownLocation = getEventLocation(event) || lastKnownLocation;
+  }
+
+  // Current vessel: latest actual vessel event, otherwise the first planned one
+  const vesselEvents = sorted.filter((event) => getEventVessel(event));
+  const latestActualVesselEvent = [...vesselEvents].reverse().find((event) => event.eventClassifierCode === 'ACT');
+  const currentVesselEvent = latestActualVesselEvent || vesselEvents[0];
+
+  // Arrival at POD: latest estimate (or plan) reported, and actual arrival
+  const isAtPod = (event: TrackingEvent) =>
+    !!portOfDischarge?.UNLocationCode &&
+    getEventLocation(event)?.UNLocationCode === portOfDischarge.UNLocationCode;
+  const podArrivals = sorted.filter(
+    (event) => (isVesselEvent(event, 'ARRI') || isEquipmentEvent(event, 'DISC')) && isAtPod(event)
+  );
+  const estimatedArrival =
+    latestReported(podArrivals.filter((event) => event.eventClassifierCode === 'EST')) ||
+    latestReported(podArrivals.filter((event) => event.eventClassifierCode === 'PLN'));
+  const actualArrival =
+    podArrivals.find((event) => event.eventClassifierCode === 'ACT' && event.eventType === 'TRANSPORT') ||
+    podArrivals.find((event) => event.eventClassifierCode === 'ACT');
+
+  const equipmentReferences = Array.from(
+    new Set(
+      sorted
+        .map((event) => (event.eventType === 'EQUIPMENT' ? event.equipmentReference : undefined))
+        .filter((reference): reference is string => !!reference)
+    )
+  );
+
+  return {
+    reference: context.reference,
+    carrier: context.carrier,
+    carrierName: context.carrierName,
+    carrierBookingReference: context.carrierBookingReference,
+    transportDocumentReference: context.transportDocumentReference,
+    equipmentReferences,
+    status,
+    lastKnownLocation,
+    lastEventDateTime: actual[actual.length - 1]?.eventDateTime,
+    portOfLoading,
+    portOfDischarge,
+    transshipmentPorts,
+    currentVessel: currentVesselEvent ? getEventVessel(currentVesselEvent) : undefined,
+    estimatedArrival: estimatedArrival?.eventDateTime,
+    actualArrival: actualArrival?.eventDateTime,
+    timeline,
+  };
+}
@@ -0,0 +1,35 @@
+import { createSyntheticId, isSyntheticId } from './syntheticId';
+
+describe('syntheticId', () => {
+  describe('createSyntheticId', () => {
+    it('builds a namespaced identifier', () => {
+      expect(createSyntheticId('hmm', 'transport-call', ['001E', 'KRPUS', 1])).toMatch(
+        /^SYN:HMM:transport-call:[0-9a-f]{20}$/
+      );
+    });
+
+    it('is deterministic and ignores letter case and surrounding spaces of the keys', () => {
+      const id = createSyntheticId('HMM', 'transport-call', ['001E', 'KRPUS', 1]);
+
+      expect(createSyntheticId('HMM', 'transport-call', ['001E', 'KRPUS', 1])).toBe(id);
+      expect(createSyntheticId('HMM', 'transport-call', [' 001e', 'krpus ', '1'])).toBe(id);
+    });
+
+    it('keeps carriers, kinds and key positions apart', () => {
+      const id = createSyntheticId('HMM', 'transport-call', ['001E', 'KRPUS']);
+
+      expect(createSyntheticId('ZIM', 'transport-call', ['001E', 'KRPUS'])).not.toBe(id);
+      expect(createSyntheticId('HMM', 'routing', ['001E', 'KRPUS'])).not.toBe(id);
+      expect(createSyntheticId('HMM', 'transport-call', ['KRPUS', '001E'])).not.toBe(id);
+      expect(createSyntheticId('HMM', 'transport-call', ['001E', undefined, 'KRPUS'])).not.toBe(id);
+    });
+  });
+
+  describe('isSyntheticId', () => {
+    it('recognizes synthetic identifiers only', () => {
+      expect(isSyntheticId(createSyntheticId('HMM', 'routing', ['X']))).toBe(true);
+      expect(isSyntheticId('3fa85f64-5717-4562-b3fc-2c963f66afa6')).toBe(false);
+      expect(isSyntheticId(undefined)).toBe(false);
+    });
+  });
+});
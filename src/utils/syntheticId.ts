@@ -0,0 +1,39 @@
+/**
+ * Synthetic Identifiers
+ * Stable identifiers for carriers that do not return their own transport call or routing IDs
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Kind of object a synthetic identifier refers to (part of the namespace)
+ */
+export type SyntheticIdKind = 'transport-call' | 'routing';
+
+const SYNTHETIC_ID_PREFIX = 'SYN';
+
+/**
+ * Build a deterministic identifier from an object's natural keys
+ * The same keys always give the same ID, so IDs survive repeated calls, caching and de-duplication.
+ * Format: SYN:<carrier>:<kind>:<first 20 hex chars of SHA-256 over the normalized keys>
+ * @param carrierCode Carrier code (namespace)
+ * @param kind Kind of object (namespace)
+ * @param naturalKeys Natural keys, e.g. voyage, port, call sequence, event time
+ * @returns Synthetic identifier
+ */
+export function createSyntheticId(
+  carrierCode: string,
+  kind: SyntheticIdKind,
+  naturalKeys: Array<string | number | undefined>
+): string {
+  const normalized = naturalKeys.map((key) => (key === undefined ? '' : String(key).trim().toUpperCase())).join('|');
+  const hash = createHash('sha256').update(normalized).digest('hex').substring(0, 20);
+  return `${SYNTHETIC_ID_PREFIX}:${carrierCode.toUpperCase()}:${kind}:${hash}`;
+}
+
+/**
+ * Check if an identifier was created by createSyntheticId
+ */
+export function isSyntheticId(id?: string): boolean {
+  return !!id && id.startsWith(`${SYNTHETIC_ID_PREFIX}:`);
+}
@@ -0,0 +1,118 @@
+import { ServiceSchedule } from '@domain/models/schedule';
+import { EquipmentEvent } from '@domain/models/tracking';
+import {
+  SCHEDULE_EXPORT_COLUMNS,
+  TRACKING_EXPORT_COLUMNS,
+  flattenSchedules,
+  flattenTrackingEvents,
+  toCells,
+  toCsv,
+} from './tabularExport';
+
+const schedule: ServiceSchedule & { carrier: string; carrierName: string } = {
+  carrier: 'CMCG',
+  carrierName: 'CMA CGM',
+  carrierServiceCode: 'FAL1',
+  carrierServiceName: 'French Asia Line 1',
+  vesselSchedules: [
+    {
+      vessel: { vesselIMONumber: '9454436', name: 'CMA CGM MARCO POLO' },
+      isDummyVessel: false,
+      transportCalls: [
+        {
+          transportCallReference: 'TC-1',
+          carrierImportVoyageNumber: '0FAL1W',
+          carrierExportVoyageNumber: '0FAL2E',
+          location: { UNLocationCode: 'KRPUS', locationName: 'Busan' },
+          timestamps: [
+            { eventTypeCode: 'ARRI', eventClassifierCode: 'PLN', eventDateTime: '2024-03-01T08:00:00Z' },
+            { eventTypeCode: 'ARRI', eventClassifierCode: 'ACT', eventDateTime: '2024-03-01T10:00:00Z' },
+            { eventTypeCode: 'DEPA', eventClassifierCode: 'EST', eventDateTime: '2024-03-02T06:00:00Z' },
+          ],
+          cutOffTimes: [
+            { cutOffDateTimeCode: 'DCO', cutOffDateTime: '2024-02-28T12:00:00Z' },
+            { cutOffDateTimeCode: 'VCO', cutOffDateTime: '2024-02-29T08:00:00Z' },
+          ],
+        },
+      ],
+    },
+    { isDummyVessel: true },
+  ],
+};
+
+describe('tabularExport', () => {
+  describe('flattenSchedules', () => {
+    it('writes one row per transport call with preferred timestamps and cut-offs', () => {
+      const rows = flattenSchedules([schedule]);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        carrier: 'CMCG',
+        carrierServiceCode: 'FAL1',
+        vesselName: 'CMA CGM MARCO POLO',
+        UNLocationCode: 'KRPUS',
+        arrivalDateTime: '2024-03-01T10:00:00Z',
+        arrivalClassifierCode: 'ACT',
+        departureDateTime: '2024-03-02T06:00:00Z',
+        departureClassifierCode: 'EST',
+        cutOffTimes: 'DCO=2024-02-28T12:00:00Z; VCO=2024-02-29T08:00:00Z',
+      });
+      // Vessel schedule without transport calls: service and vessel only
+      expect(rows[1]).toMatchObject({ carrierServiceCode: 'FAL1', vesselIMONumber: undefined });
+      expect(Object.keys(rows[0]).every((column) => SCHEDULE_EXPORT_COLUMNS.includes(column))).toBe(true);
+    });
+  });
+
+  describe('flattenTrackingEvents', () => {
+    it('writes one row per event with its location and type code', () => {
+      const event: EquipmentEvent & { carrier: string } = {
+        carrier: 'CMCG',
+        eventCreatedDateTime: '2024-03-10T01:00:00Z',
+        eventType: 'EQUIPMENT',
+        eventClassifierCode: 'ACT',
+        eventDateTime: '2024-03-10T00:00:00Z',
+        equipmentEventTypeCode: 'DISC',
+        equipmentReference: 'CSQU3054383',
+        emptyIndicatorCode: 'LADEN',
+        eventLocation: { UNLocationCode: 'SGSIN' },
+      };
+
+      const [row] = flattenTrackingEvents([event]);
+
+      expect(row).toMatchObject({
+        carrier: 'CMCG',
+        eventType: 'EQUIPMENT',
+        eventTypeCode: 'DISC',
+        equipmentReference: 'CSQU3054383',
+        UNLocationCode: 'SGSIN',
+        documentID: undefined,
+      });
+      expect(Object.keys(row).every((column) => TRACKING_EXPORT_COLUMNS.includes(column))).toBe(true);
+    });
+  });
+
+  describe('toCells', () => {
+    it('orders values by the selected columns', () => {
+      expect(toCells(['b', 'a'], [{ a: '1', b: '2' }, { a: '3' }])).toEqual([
+        ['2', '1'],
+        [undefined, '3'],
+      ]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('writes a header row and CRLF line endings', () => {
+      expect(toCsv(['a', 'b'], [{ a: '1' }])).toBe('a,b\r\n1,\r\n');
+    });
+
+    it('quotes values with commas, quotes and line breaks', () => {
+      expect(toCsv(['a'], [{ a: 'Busan, KR' }, { a: 'say "hi"' }, { a: 'two\nlines' }])).toBe(
+        'a\r\n"Busan, KR"\r\n"say ""hi"""\r\n"two\nlines"\r\n'
+      );
+    });
+
+    it('neutralizes values that spreadsheets would evaluate as formulas', () => {
+      expect(toCsv(['a'], [{ a: '=1+1' }, { a: '-5' }, { a: '@SUM(A1)' }])).toBe("a\r\n'=1+1\r\n'-5\r\n'@SUM(A1)\r\n");
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Tabular Export
+ * Flattens schedule and tracking results into rows for CSV / XLSX export
+ */
+
+import { ServiceSchedule, TransportCall } from '@domain/models/schedule';
+import { TrackingEvent } from '@domain/models/tracking';
+import { getEventLocation, getEventTypeCode, getEventVessel } from './trackingEventUtils';
+import { getPreferredTimestamp } from './scheduleUtils';
+
+/**
+ * One flattened row, keyed by column name
+ */
+export type ExportRow = Record<string, string | undefined>;
+
+/**
+ * Result fields added by the controllers to every schedule and event
+ */
+type CarrierFields = { carrier?: string; carrierName?: string };
+
+/**
+ * Schedule export columns (one row per transport call), in default order
+ */
+export const SCHEDULE_EXPORT_COLUMNS: string[] = [
+  'carrier',
+  'carrierName',
+  'carrierServiceCode',
+  'carrierServiceName',
+  'universalServiceReference',
+  'vesselIMONumber',
+  'vesselName',
+  'carrierImportVoyageNumber',
+  'carrierExportVoyageNumber',
+  'transportCallReference',
+  'UNLocationCode',
+  'locationName',
+  'facilitySMDGCode',
+  'arrivalDateTime',
+  'arrivalClassifierCode',
+  'departureDateTime',
+  'departureClassifierCode',
+  'cutOffTimes',
+];
+
+/**
+ * Tracking export columns (one row per event), in default order
+ */
+export const TRACKING_EXPORT_COLUMNS: string[] = [
+  'carrier',
+  'carrierName',
+  'eventID',
+  'eventType',
+  'eventTypeCode',
+  'eventClassifierCode',
+  'eventDateTime',
+  'eventCreatedDateTime',
+  'equipmentReference',
+  'emptyIndicatorCode',
+  'documentTypeCode',
+  'documentID',
+  'UNLocationCode',
+  'locationName',
+  'facilityCode',
+  'vesselIMONumber',
+  'vesselName',
+  'carrierVoyageNumber',
+  'carrierServiceCode',
+  'transportCallID',
+];
+
+/**
+ * Flatten service schedules to one row per transport call
+ * Vessel schedules without transport calls still produce one row with the service and vessel
+ * @param schedules Service schedules (with carrier fields added by the controller)
+ * @returns Export rows
+ */
+export function flattenSchedules(schedules: Array<ServiceSchedule & CarrierFields>): ExportRow[] {
+  const rows: ExportRow[] = [];
+
+  for (const schedule of schedules) {
+    for (const vesselSchedule of schedule.vesselSchedules || []) {
+      const baseRow: ExportRow = {
+        carrier: schedule.carrier,
+        carrierName: schedule.carrierName,
+        carrierServiceCode: schedule.carrierServiceCode,
+        carrierServiceName: schedule.carrierServiceName,
+        universalServiceReference: schedule.universalServiceReference,
+        vesselIMONumber: vesselSchedule.vessel?.vesselIMONumber,
+        vesselName: vesselSchedule.vessel?.name,
+      };
+
+      const transportCalls = vesselSchedule.transportCalls || [];
+      if (transportCalls.length === 0) {
+        rows.push(baseRow);
+        continue;
+      }
+      for (const transportCall of transportCalls) {
+        rows.push({ ...baseRow, ...flattenTransportCall(transportCall) });
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Flatten tracking events to one row per event
+ * @param events Tracking events (with carrier fields added by the controller)
+ * @returns Export rows
+ */
+export function flattenTrackingEvents(events: Array<TrackingEvent & CarrierFields>): ExportRow[] {
+  return events.map((event) => {
+    const location = getEventLocation(event);
+    const vessel = getEventVessel(event);
+    const transportCall = event.eventType === 'SHIPMENT' ? undefined : event.transportCall;
+
+    return {
+      carrier: event.carrier,
+      carrierName: event.carrierName,
+      eventID: event.eventID,
+      eventType: event.eventType,
+      eventTypeCode: getEventTypeCode(event),
+      eventClassifierCode: event.eventClassifierCode,
+      eventDateTime: event.eventDateTime,
+      eventCreatedDateTime: event.eventCreatedDateTime,
+      equipmentReference: event.eventType === 'EQUIPMENT' ? event.equipmentReference : undefined,
+      emptyIndicatorCode: event.eventType === 'EQUIPMENT' ? event.emptyIndicatorCode : undefined,
+      documentTypeCode: event.eventType === 'SHIPMENT' ? event.documentTypeCode : undefined,
+      documentID: event.eventType === 'SHIPMENT' ? event.documentID : undefined,
+      UNLocationCode: location?.UNLocationCode,
+      locationName: location?.locationName,
+      facilityCode: location?.facilityCode,
+      vesselIMONumber: vessel?.vesselIMONumber,
+      vesselName: vessel?.vesselName,
+      carrierVoyageNumber: vessel?.carrierVoyageNumber,
+      carrierServiceCode: vessel?.carrierServiceCode,
+      transportCallID: transportCall?.transportCallID,
+    };
+  });
+}
+
+/**
+ * Render rows as CSV (RFC 4180, CRLF line endings, header row first)
+ * Cells that spreadsheet programs would evaluate as formulas are prefixed with a quote
+ * @param columns Columns to include, in order
+ * @param rows Export rows
+ * @returns CSV text
+ */
+export function toCsv(columns: string[], rows: ExportRow[]): string {
+  const lines = [columns, ...toCells(columns, rows)].map((cells) =>
+    cells.map((value) => escapeCsvValue(value)).join(',')
+  );
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Order row values by column
+ * @param columns Columns to include, in order
+ * @param rows Export rows
+ * @returns Cell values per row
+ */
+export function toCells(columns: string[], rows: ExportRow[]): Array<Array<string | undefined>> {
+  return rows.map((row) => columns.map((column) => row[column]));
+}
+
+/**
+ * Flatten the location, voyage, times and cut-offs of a transport call
+ */
+function flattenTransportCall(transportCall: TransportCall): ExportRow {
+  const arrival = getPreferredTimestamp(transportCall.timestamps, 'ARRI');
+  const departure = getPreferredTimestamp(transportCall.timestamps, 'DEPA');
+
+  return {
+    carrierImportVoyageNumber: transportCall.carrierImportVoyageNumber,
+    carrierExportVoyageNumber: transportCall.carrierExportVoyageNumber,
+    transportCallReference: transportCall.transportCallReference,
+    UNLocationCode: transportCall.location?.UNLocationCode,
+    locationName: transportCall.location?.locationName,
+    facilitySMDGCode: transportCall.location?.facilitySMDGCode,
+    arrivalDateTime: arrival?.eventDateTime,
+    arrivalClassifierCode: arrival?.eventClassifierCode,
+    departureDateTime: departure?.eventDateTime,
+    departureClassifierCode: departure?.eventClassifierCode,
+    // e.g. "DCO=2024-05-01T12:00:00Z; VCO=2024-05-02T08:00:00Z"
+    cutOffTimes: transportCall.cutOffTimes?.length
+      ? transportCall.cutOffTimes
+          .map((cutOff) => `${cutOff.cutOffDateTimeCode}=${cutOff.cutOffDateTime}`)
+          .join('; ')
+      : undefined,
+  };
+}
+
+function escapeCsvValue(value?: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
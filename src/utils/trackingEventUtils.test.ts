@@ -0,0 +1,31 @@
+import { EQUIPMENT_EVENT_TYPE_CODES, EVENT_TYPES } from '@domain/models/tracking';
+import { isCodeOf, parseCodeList } from './trackingEventUtils';
+
+describe('trackingEventUtils', () => {
+  describe('parseCodeList', () => {
+    it('parses a comma-separated value case-insensitively', () => {
+      expect(parseCodeList(' transport,Equipment ', EVENT_TYPES)).toEqual(['TRANSPORT', 'EQUIPMENT']);
+    });
+
+    it('accepts an array', () => {
+      expect(parseCodeList(['load', 'DISC'], EQUIPMENT_EVENT_TYPE_CODES)).toEqual(['LOAD', 'DISC']);
+    });
+
+    it('drops values outside the code list', () => {
+      expect(parseCodeList('LOAD,ARRI', EQUIPMENT_EVENT_TYPE_CODES)).toEqual(['LOAD']);
+      expect(parseCodeList('ARRI', EQUIPMENT_EVENT_TYPE_CODES)).toBeUndefined();
+    });
+
+    it('returns undefined when no value is given', () => {
+      expect(parseCodeList(undefined, EVENT_TYPES)).toBeUndefined();
+      expect(parseCodeList('', EVENT_TYPES)).toBeUndefined();
+    });
+  });
+
+  describe('isCodeOf', () => {
+    it('checks membership case-sensitively', () => {
+      expect(isCodeOf('SHIPMENT', EVENT_TYPES)).toBe(true);
+      expect(isCodeOf('shipment', EVENT_TYPES)).toBe(false);
+    });
+  });
+});
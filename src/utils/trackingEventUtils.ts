@@ -0,0 +1,198 @@
+/**
+ * Tracking Event Utilities
+ * Carrier-neutral accessors for DCSA tracking events
+ */
+
+import { ShipmentLocation, ShipmentVessel } from '@domain/models/shipment';
+import { EventClassifierCode, TrackingEvent, TransportCall } from '@domain/models/tracking';
+import { getEventFingerprint } from './eventFingerprint';
+
+/**
+ * Sort fields supported for tracking results
+ */
+export type EventSortField = 'eventDateTime' | 'eventCreatedDateTime';
+export const EVENT_SORT_FIELDS: EventSortField[] = ['eventDateTime', 'eventCreatedDateTime'];
+
+export type SortOrder = 'asc' | 'desc';
+export const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+// Actual events rank before estimates, estimates before plans
+const CLASSIFIER_PRECEDENCE: Record<EventClassifierCode, number> = { ACT: 0, EST: 1, PLN: 2 };
+
+type OrderableEvent = {
+  eventDateTime?: string;
+  eventClassifierCode: EventClassifierCode;
+  eventCreatedDateTime?: string;
+};
+
+/**
+ * Get the type-specific event code (transport, equipment or shipment)
+ */
+export function getEventTypeCode(event: TrackingEvent): string {
+  switch (event.eventType) {
+    case 'TRANSPORT':
+      return event.transportEventTypeCode;
+    case 'EQUIPMENT':
+      return event.equipmentEventTypeCode;
+    case 'SHIPMENT':
+      return event.shipmentEventTypeCode;
+  }
+}
+
+/**
+ * Parse a code filter given as array or comma-separated string into the codes of a code list (case-insensitive)
+ * Values outside the list are dropped; undefined when nothing is left
+ */
+export function parseCodeList<T extends string>(value: unknown, codes: readonly T[]): T[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const items: unknown[] = Array.isArray(value) ? value : String(value).split(',');
+  const parsed = items
+    .map((item) => String(item).trim().toUpperCase())
+    .filter((code) => isCodeOf(code, codes));
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+/**
+ * Check if a value is one of the codes of a code list (case-sensitive)
+ */
+export function isCodeOf<T extends string>(value: string, codes: readonly T[]): value is T {
+  return (codes as readonly string[]).includes(value);
+}
+
+/**
+ * Check if the carrier mapper filled in a default because the carrier omitted the event type code
+ * Such events carry no reliable meaning (see carrierSpecificData.eventTypeCodeDefaulted)
+ */
+export function hasDefaultedEventTypeCode(event: TrackingEvent): boolean {
+  return event.carrierSpecificData?.eventTypeCodeDefaulted === true;
+}
+
+/**
+ * Get the location of an event (equipment event location, else its transport call)
+ */
+export function getEventLocation(event: TrackingEvent): ShipmentLocation | undefined {
+  const transportCall = getTransportCall(event);
+  const eventLocation = event.eventType === 'EQUIPMENT' ? event.eventLocation : undefined;
+
+  const location: ShipmentLocation = {
+    UNLocationCode:
+      eventLocation?.UNLocationCode || transportCall?.UNLocationCode || transportCall?.location?.UNLocationCode,
+    locationName: eventLocation?.locationName || transportCall?.location?.locationName,
+    facilityCode:
+      eventLocation?.facility?.facilityCode || transportCall?.facilityCode || transportCall?.location?.facility?.facilityCode,
+  };
+
+  return location.UNLocationCode || location.locationName ? location : undefined;
+}
+
+/**
+ * Get the vessel and voyage of an event's transport call
+ */
+export function getEventVessel(event: TrackingEvent): ShipmentVessel | undefined {
+  const transportCall = getTransportCall(event);
+  if (!transportCall || (transportCall.modeOfTransport && transportCall.modeOfTransport !== 'VESSEL')) {
+    return undefined;
+  }
+
+  const vessel: ShipmentVessel = {
+    vesselName: transportCall.vessel?.name,
+    vesselIMONumber: transportCall.vessel?.vesselIMONumber,
+    carrierVoyageNumber: transportCall.exportVoyageNumber || transportCall.carrierVoyageNumber,
+    carrierServiceCode: transportCall.carrierServiceCode,
+  };
+
+  return vessel.vesselName || vessel.vesselIMONumber || vessel.carrierVoyageNumber ? vessel : undefined;
+}
+
+export function isEquipmentEvent(event: TrackingEvent, code: string): boolean {
+  return event.eventType === 'EQUIPMENT' && event.equipmentEventTypeCode === code;
+}
+
+/**
+ * Check for a vessel transport event (modeOfTransport missing is treated as vessel)
+ */
+export function isVesselEvent(event: TrackingEvent, code: string): boolean {
+  return (
+    event.eventType === 'TRANSPORT' &&
+    event.transportEventTypeCode === code &&
+    (!event.transportCall?.modeOfTransport || event.transportCall.modeOfTransport === 'VESSEL')
+  );
+}
+
+/**
+ * Remove duplicate events (same content reported more than once)
+ * Identity is the content fingerprint, so events without an eventID are de-duplicated too
+ * @param events Tracking events
+ * @param seen Fingerprints already returned (share across calls to de-duplicate across carriers)
+ * @returns Events whose fingerprint was not seen before, in their original order
+ */
+export function deduplicateEvents<T extends TrackingEvent>(events: T[], seen: Set<string> = new Set()): T[] {
+  return events.filter((event) => {
+    const key = getEventFingerprint(event);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Sort by event date/time, then classifier (ACT > EST > PLN), then creation date/time
+ */
+export function sortChronologically<T extends OrderableEvent>(events: T[]): T[] {
+  return sortEvents(events);
+}
+
+/**
+ * Sort events by the requested field
+ * Ties fall back to the remaining keys of the chronological order; descending reverses the whole order
+ * @param events Events to sort (not modified)
+ * @param sort Primary sort field
+ * @param order Sort direction
+ * @returns Sorted copy
+ */
+export function sortEvents<T extends OrderableEvent>(
+  events: T[],
+  sort: EventSortField = 'eventDateTime',
+  order: SortOrder = 'asc'
+): T[] {
+  const direction = order === 'desc' ? -1 : 1;
+  return [...events].sort((a, b) => {
+    const byEventDateTime = toTime(a.eventDateTime) - toTime(b.eventDateTime);
+    const byClassifier =
+      CLASSIFIER_PRECEDENCE[a.eventClassifierCode] - CLASSIFIER_PRECEDENCE[b.eventClassifierCode] || 0;
+    const byCreatedDateTime = toTime(a.eventCreatedDateTime) - toTime(b.eventCreatedDateTime);
+
+    const result =
+      sort === 'eventCreatedDateTime'
+        ? byCreatedDateTime || byEventDateTime || byClassifier
+        : byEventDateTime || byClassifier || byCreatedDateTime;
+    return direction * result;
+  });
+}
+
+/**
+ * Get the most recently reported event (by eventCreatedDateTime, then position)
+ */
+export function latestReported<T extends { eventCreatedDateTime?: string }>(events: T[]): T | undefined {
+  return events.reduce<T | undefined>(
+    (latest, event) =>
+      !latest || toTime(event.eventCreatedDateTime) >= toTime(latest.eventCreatedDateTime) ? event : latest,
+    undefined
+  );
+}
+
+/**
+ * Parse an ISO 8601 date/time to epoch milliseconds (0 if missing or invalid)
+ */
+export function toTime(dateTime?: string): number {
+  const time = dateTime ? new Date(dateTime).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+function getTransportCall(event: TrackingEvent): TransportCall | undefined {
+  return event.eventType === 'SHIPMENT' ? undefined : event.transportCall;
+}
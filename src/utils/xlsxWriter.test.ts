@@ -0,0 +1,62 @@
+import { inflateRawSync } from 'zlib';
+import { createXlsxWorkbook } from './xlsxWriter';
+
+/**
+ * Read the entries of a ZIP archive from its local file headers
+ */
+function readZip(archive: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const extraLength = archive.readUInt16LE(offset + 28);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    entries[name] = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    offset = dataStart + compressedSize;
+  }
+  return entries;
+}
+
+describe('createXlsxWorkbook', () => {
+  it('writes a ZIP package with the workbook parts', () => {
+    const entries = readZip(createXlsxWorkbook('Schedules', ['a'], []));
+
+    expect(Object.keys(entries)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(entries['xl/workbook.xml']).toContain('<sheet name="Schedules" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes headers and values as inline strings and skips empty cells', () => {
+    const sheet = readZip(createXlsxWorkbook('Sheet', ['carrier', 'vessel'], [['CMCG', undefined], ['', 'ZIM X']]))[
+      'xl/worksheets/sheet1.xml'
+    ];
+
+    expect(sheet).toContain(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">carrier</t></is></c>' +
+        '<c r="B1" t="inlineStr"><is><t xml:space="preserve">vessel</t></is></c></row>'
+    );
+    expect(sheet).toContain('<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">CMCG</t></is></c></row>');
+    expect(sheet).toContain('<row r="3"><c r="B3" t="inlineStr"><is><t xml:space="preserve">ZIM X</t></is></c></row>');
+  });
+
+  it('names columns beyond Z with two letters', () => {
+    const headers = Array.from({ length: 28 }, (_, i) => `h${i}`);
+    const sheet = readZip(createXlsxWorkbook('Sheet', headers, []))['xl/worksheets/sheet1.xml'];
+
+    expect(sheet).toContain('<c r="Z1" t="inlineStr"><is><t xml:space="preserve">h25</t>');
+    expect(sheet).toContain('<c r="AB1" t="inlineStr"><is><t xml:space="preserve">h27</t>');
+  });
+
+  it('escapes XML special characters and drops invalid control characters', () => {
+    const sheet = readZip(createXlsxWorkbook('A&B', ['<x> & "y"\u0001'], []))['xl/worksheets/sheet1.xml'];
+
+    expect(sheet).toContain('<t xml:space="preserve">&lt;x&gt; &amp; &quot;y&quot;</t>');
+  });
+});